@@ -0,0 +1,124 @@
+import { readFile, writeFile } from 'fs/promises';
+import bcrypt from 'bcryptjs';
+import { closePool, query, queryWithSchema, transactionWithSchema } from './connection.js';
+import { createMasterSchema, createTenantSchema } from './migrate.js';
+import { PLAN_ORDER } from '../services/plans.js';
+import {
+  applyArchiveBranding, exportTenantArchive, importTenantArchive, isImportStrategy, readTenantArchive,
+} from '../services/tenantArchive.js';
+import type { TenantPlan } from '../../../shared/types/plan.js';
+
+/** Write a tenant's archive to `file`. */
+export async function exportTenantToFile(slug: string, file: string) {
+  const tenant = (await query('SELECT * FROM tenants WHERE slug = $1', [slug])).rows[0];
+  if (!tenant) throw new Error(`Tenant '${slug}' not found`);
+
+  const { zip, manifest } = await transactionWithSchema(tenant.schema_name, async (client) => {
+    await client.query('SET TRANSACTION ISOLATION LEVEL REPEATABLE READ, READ ONLY');
+    return exportTenantArchive(client, tenant);
+  });
+  await writeFile(file, zip);
+  return manifest;
+}
+
+export interface ImportFileOptions {
+  strategy?: string;
+  /** Name and plan for a tenant the import creates; default to the archived ones */
+  name?: string;
+  plan?: string;
+  /** Password for the imported admins of a tenant the import creates, so someone can sign in */
+  adminPassword?: string;
+}
+
+/**
+ * Restore an archive into the tenant `slug`, creating the tenant and its
+ * schema first if it does not exist. A new tenant always takes the archived
+ * branding; an existing one only with the overwrite strategy.
+ */
+export async function importTenantFromFile(file: string, slug: string, options: ImportFileOptions = {}) {
+  const strategy = options.strategy ?? 'fail';
+  if (!isImportStrategy(strategy)) throw new Error('--strategy must be fail, skip or overwrite');
+
+  const archive = readTenantArchive(await readFile(file));
+  if ('error' in archive) throw new Error(archive.error);
+  const { source } = archive.value.manifest;
+
+  let tenant = (await query('SELECT * FROM tenants WHERE slug = $1', [slug])).rows[0];
+  const created = !tenant;
+  if (created) {
+    if (!/^[a-z0-9-]{2,}$/.test(slug)) throw new Error('Slug must be at least 2 characters of a-z, 0-9 and -');
+    const plan = options.plan ?? source.plan;
+    if (!PLAN_ORDER.includes(plan as TenantPlan)) throw new Error(`Unknown plan '${plan}'`);
+    tenant = (await query(
+      'INSERT INTO tenants (slug, name, schema_name, plan) VALUES ($1, $2, $3, $4) RETURNING *',
+      [slug, options.name ?? source.name, `tenant_${slug}`, plan]
+    )).rows[0];
+    await createTenantSchema(tenant.schema_name);
+  } else if (options.adminPassword) {
+    throw new Error('--admin-password only applies when the import creates the tenant');
+  }
+
+  // Operators restoring a tenant are not bound by its plan, so no quota check here
+  const outcome = await transactionWithSchema(tenant.schema_name, client =>
+    importTenantArchive(client, archive.value, { strategy, tenantId: tenant.id, actorId: null }));
+  if (outcome.status === 409) {
+    throw new Error(`${outcome.body.error}\n${JSON.stringify(outcome.body.conflicts, null, 2)}`);
+  }
+  if (outcome.status !== 200) throw new Error(outcome.body.error);
+
+  const report = outcome.report;
+  if (created || strategy === 'overwrite') {
+    report.brandingApplied = await applyArchiveBranding(tenant.id, archive.value, report.warnings);
+  }
+  if (created && options.adminPassword) {
+    // Only admins new to every organization: an existing account keeps its own password
+    const fresh = await queryWithSchema(tenant.schema_name,
+      `UPDATE public.identities SET password_hash = $2, updated_at = NOW()
+       WHERE id IN (
+         SELECT m.identity_id FROM users u JOIN public.tenant_memberships m ON m.user_id = u.id AND m.tenant_id = $1
+         WHERE u.role = 'admin'
+           AND NOT EXISTS (SELECT 1 FROM public.tenant_memberships o WHERE o.identity_id = m.identity_id AND o.tenant_id <> $1)
+       )`,
+      [tenant.id, await bcrypt.hash(options.adminPassword, 10)]);
+    report.usersWithoutPassword = Math.max(0, report.usersWithoutPassword - (fresh.rowCount ?? 0));
+  }
+  return { report, created };
+}
+
+// Run directly:
+//   tsx src/db/archive.ts export <tenant-slug> <file.zip>
+//   tsx src/db/archive.ts import <file.zip> <tenant-slug> [--strategy=fail|skip|overwrite] [--name=] [--plan=] [--admin-password=]
+if (process.argv[1]?.endsWith('archive.ts') || process.argv[1]?.endsWith('archive.js')) {
+  const [command, ...rest] = process.argv.slice(2);
+  const args = rest.filter(a => !a.startsWith('--'));
+  const flag = (name: string) => rest.find(a => a.startsWith(`--${name}=`))?.slice(name.length + 3);
+
+  (async () => {
+    await createMasterSchema();
+    if (command === 'export' && args.length === 2) {
+      const manifest = await exportTenantToFile(args[0], args[1]);
+      const summary = Object.entries(manifest.files)
+        .filter(([, f]) => f.records !== undefined).map(([name, f]) => `${name.replace('.json', '')}: ${f.records}`).join(', ');
+      console.log(`[archive] Exported ${args[0]} to ${args[1]} (${summary})`);
+    } else if (command === 'import' && args.length === 2) {
+      const { report, created } = await importTenantFromFile(args[0], args[1], {
+        strategy: flag('strategy'), name: flag('name'), plan: flag('plan'), adminPassword: flag('admin-password'),
+      });
+      console.log(`[archive] ${created ? 'Created' : 'Imported into'} ${args[1]} from ${report.source.slug} (${report.strategy})`);
+      for (const [entity, c] of Object.entries(report.counts)) {
+        console.log(`[archive]   ${entity}: ${c.created} created, ${c.updated} updated, ${c.skipped} skipped`);
+      }
+      for (const warning of report.warnings) console.warn(`[archive] Warning: ${warning}`);
+      if (report.usersWithoutPassword > 0) console.warn(`[archive] ${report.usersWithoutPassword} user(s) have no password yet`);
+    } else {
+      console.error('Usage: archive.ts export <tenant-slug> <file.zip>');
+      console.error('       archive.ts import <file.zip> <tenant-slug> [--strategy=fail|skip|overwrite] [--name=] [--plan=] [--admin-password=]');
+      process.exitCode = 1;
+    }
+    await closePool();
+  })().catch(async err => {
+    console.error('[archive] Error:', err instanceof Error ? err.message : err);
+    await closePool();
+    process.exit(1);
+  });
+}
@@ -40,6 +40,25 @@ export async function queryWithSchema(schemaName: string, text: string, params?:
   }
 }
 
+export type Queryable = Pick<pg.PoolClient, 'query'>;
+
+export async function transactionWithSchema<T>(schemaName: string, fn: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+  const client = await getPool().connect();
+  try {
+    await client.query(`SET search_path TO ${schemaName}, public`);
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw err;
+  } finally {
+    await client.query('SET search_path TO public').catch(() => {});
+    client.release();
+  }
+}
+
 export async function closePool() {
   if (pool) {
     await pool.end();
@@ -1,97 +1,155 @@
-import { query, closePool } from './connection.js';
-
-export async function createMasterSchema() {
-  await query(`
-    CREATE TABLE IF NOT EXISTS tenants (
-      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-      slug VARCHAR(63) UNIQUE NOT NULL,
-      name VARCHAR(255) NOT NULL,
-      schema_name VARCHAR(63) UNIQUE NOT NULL,
-      logo_url TEXT,
-      primary_color VARCHAR(7) DEFAULT '#1a365d',
-      plan VARCHAR(20) DEFAULT 'free',
-      created_at TIMESTAMPTZ DEFAULT NOW(),
-      updated_at TIMESTAMPTZ DEFAULT NOW()
-    );
-
-    CREATE INDEX IF NOT EXISTS idx_tenants_slug ON tenants(slug);
-  `);
-
-  console.log('[migrate] Master schema ready');
+import type pg from 'pg';
+import { query, closePool, transactionWithSchema } from './connection.js';
+import { MASTER_MIGRATIONS, TENANT_MIGRATIONS, type Migration } from './migrations.js';
+import { seedTemplates } from '../services/templates.js';
+
+export interface MigrationOptions {
+  dryRun?: boolean;
+}
+
+export interface MigrationReport {
+  schemaName: string;
+  fromVersion: number;
+  toVersion: number;
+  applied: { version: number; name: string }[];
+  dryRun: boolean;
+  error?: string;
+}
+
+const MIGRATIONS_TABLE = (schemaName: string) => `
+  CREATE TABLE IF NOT EXISTS ${schemaName}.schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    applied_at TIMESTAMPTZ DEFAULT NOW()
+  )
+`;
+
+/**
+ * Apply pending migrations to one schema inside a single transaction. An
+ * advisory lock keyed on the schema name keeps two runners from racing.
+ * In a dry run the pending list is computed and the transaction is
+ * rolled back without running anything.
+ */
+async function migrateSchema(
+  schemaName: string,
+  migrations: Migration[],
+  options: MigrationOptions,
+  afterApply?: (client: pg.PoolClient, version: number) => Promise<void>,
+): Promise<MigrationReport> {
+  const dryRun = !!options.dryRun;
+
+  return transactionWithSchema(schemaName, async (client) => {
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [schemaName]);
+    await client.query(`CREATE SCHEMA IF NOT EXISTS ${schemaName}`);
+    await client.query(MIGRATIONS_TABLE(schemaName));
+
+    const current = await client.query(`SELECT COALESCE(MAX(version), 0) AS version FROM ${schemaName}.schema_migrations`);
+    const fromVersion: number = current.rows[0].version;
+
+    const pending = migrations
+      .filter(m => m.version > fromVersion)
+      .sort((a, b) => a.version - b.version);
+
+    const report: MigrationReport = {
+      schemaName,
+      fromVersion,
+      toVersion: pending.length > 0 ? pending[pending.length - 1].version : fromVersion,
+      applied: pending.map(m => ({ version: m.version, name: m.name })),
+      dryRun,
+    };
+
+    if (dryRun) {
+      // Throwing would be reported as a failure; roll back explicitly instead
+      await client.query('ROLLBACK');
+      await client.query('BEGIN');
+      return report;
+    }
+
+    for (const migration of pending) {
+      await client.query(migration.up(schemaName));
+      await client.query(
+        `INSERT INTO ${schemaName}.schema_migrations (version, name) VALUES ($1, $2)`,
+        [migration.version, migration.name]
+      );
+    }
+
+    if (afterApply) await afterApply(client, report.toVersion);
+    return report;
+  });
+}
+
+/** Bring the master schema to the latest version and refresh the shared template library. */
+export async function createMasterSchema(options: MigrationOptions = {}) {
+  const report = await migrateSchema('public', MASTER_MIGRATIONS, options, client => seedTemplates(client).then(() => undefined));
+  console.log(`[migrate] Master schema at version ${report.toVersion}${report.dryRun ? ' (dry run)' : ''}`);
+  return report;
+}
+
+/** Create a tenant schema if needed and bring it to the latest version. */
+export async function migrateTenantSchema(schemaName: string, options: MigrationOptions = {}) {
+  const report = await migrateSchema(schemaName, TENANT_MIGRATIONS, options, (client, version) =>
+    client.query('UPDATE public.tenants SET schema_version = $1 WHERE schema_name = $2', [version, schemaName])
+      .then(() => undefined)
+  );
+  console.log(`[migrate] Tenant schema '${schemaName}' at version ${report.toVersion}${report.dryRun ? ' (dry run)' : ''}`);
+  return report;
 }
 
 export async function createTenantSchema(schemaName: string) {
-  await query(`CREATE SCHEMA IF NOT EXISTS ${schemaName}`);
-
-  await query(`
-    CREATE TABLE IF NOT EXISTS ${schemaName}.users (
-      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-      email VARCHAR(255) UNIQUE NOT NULL,
-      password_hash VARCHAR(255) NOT NULL,
-      name VARCHAR(255) NOT NULL,
-      role VARCHAR(20) DEFAULT 'viewer',
-      created_at TIMESTAMPTZ DEFAULT NOW(),
-      updated_at TIMESTAMPTZ DEFAULT NOW()
-    );
-
-    CREATE TABLE IF NOT EXISTS ${schemaName}.details (
-      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-      name VARCHAR(255) NOT NULL,
-      category VARCHAR(50) NOT NULL,
-      description TEXT DEFAULT '',
-      metadata_json JSONB DEFAULT '{}',
-      created_by UUID REFERENCES ${schemaName}.users(id),
-      created_at TIMESTAMPTZ DEFAULT NOW(),
-      updated_at TIMESTAMPTZ DEFAULT NOW()
-    );
-
-    CREATE TABLE IF NOT EXISTS ${schemaName}.layers (
-      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-      detail_id UUID NOT NULL REFERENCES ${schemaName}.details(id) ON DELETE CASCADE,
-      name VARCHAR(255) NOT NULL,
-      order_index INTEGER NOT NULL DEFAULT 0,
-      color VARCHAR(7) DEFAULT '#888888',
-      material_type VARCHAR(100),
-      thickness_mm REAL DEFAULT 0,
-      product_name VARCHAR(255),
-      manufacturer VARCHAR(255),
-      csi_section VARCHAR(20),
-      geometry_params_json JSONB DEFAULT '{}',
-      visible_default BOOLEAN DEFAULT true,
-      created_at TIMESTAMPTZ DEFAULT NOW()
-    );
-
-    CREATE TABLE IF NOT EXISTS ${schemaName}.products (
-      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-      name VARCHAR(255) NOT NULL,
-      manufacturer VARCHAR(255),
-      csi_section VARCHAR(20),
-      description TEXT DEFAULT '',
-      thickness_range VARCHAR(50),
-      application_notes TEXT DEFAULT ''
-    );
-
-    CREATE TABLE IF NOT EXISTS ${schemaName}.projects (
-      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-      name VARCHAR(255) NOT NULL,
-      client_name VARCHAR(255),
-      detail_ids UUID[] DEFAULT '{}',
-      created_by UUID REFERENCES ${schemaName}.users(id),
-      created_at TIMESTAMPTZ DEFAULT NOW(),
-      updated_at TIMESTAMPTZ DEFAULT NOW()
-    );
-
-    CREATE INDEX IF NOT EXISTS idx_layers_detail ON ${schemaName}.layers(detail_id);
-    CREATE INDEX IF NOT EXISTS idx_details_category ON ${schemaName}.details(category);
-  `);
-
-  console.log(`[migrate] Tenant schema '${schemaName}' ready`);
+  return migrateTenantSchema(schemaName);
+}
+
+/**
+ * Migrate every tenant schema. Each tenant runs in its own transaction, so a
+ * failure rolls back only that tenant and is reported alongside the others.
+ */
+export async function migrateAllTenants(options: MigrationOptions = {}): Promise<MigrationReport[]> {
+  // to_jsonb keeps this working in a dry run where schema_version is still pending
+  const tenants = await query(
+    `SELECT schema_name, COALESCE((to_jsonb(t) ->> 'schema_version')::int, 0) AS schema_version
+     FROM tenants t ORDER BY schema_name`
+  );
+  const reports: MigrationReport[] = [];
+
+  for (const tenant of tenants.rows) {
+    try {
+      reports.push(await migrateTenantSchema(tenant.schema_name, options));
+    } catch (err) {
+      console.error(`[migrate] Tenant schema '${tenant.schema_name}' failed:`, err);
+      reports.push({
+        schemaName: tenant.schema_name,
+        fromVersion: tenant.schema_version,
+        toVersion: tenant.schema_version,
+        applied: [],
+        dryRun: !!options.dryRun,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  return reports;
 }
 
-// Run directly
+// Run directly: tsx src/db/migrate.ts [--dry-run]
 if (process.argv[1]?.endsWith('migrate.ts') || process.argv[1]?.endsWith('migrate.js')) {
-  createMasterSchema()
-    .then(() => closePool())
-    .then(() => console.log('[migrate] Done'))
-    .catch(err => { console.error('[migrate] Error:', err); process.exit(1); });
+  const dryRun = process.argv.includes('--dry-run');
+
+  (async () => {
+    await createMasterSchema({ dryRun });
+    // A dry run leaves the master schema untouched, so there may be no tenants table yet
+    const reports = await migrateAllTenants({ dryRun }).catch(err => {
+      if (dryRun) return [];
+      throw err;
+    });
+
+    for (const r of reports) {
+      const steps = r.applied.map(m => `${m.version}_${m.name}`).join(', ') || 'up to date';
+      console.log(`[migrate] ${r.schemaName}: ${r.error ? `FAILED (${r.error})` : `${r.fromVersion} -> ${r.toVersion} [${steps}]`}`);
+    }
+
+    const failed = reports.filter(r => r.error);
+    await closePool();
+    console.log(`[migrate] Done — ${reports.length - failed.length}/${reports.length} tenant schemas OK${dryRun ? ' (dry run, nothing applied)' : ''}`);
+    if (failed.length > 0) process.exit(1);
+  })().catch(err => { console.error('[migrate] Error:', err); process.exit(1); });
 }
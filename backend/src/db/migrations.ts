@@ -0,0 +1,522 @@
+/**
+ * Numbered schema migrations.
+ *
+ * Never edit a migration that has shipped — append a new one with the next
+ * version number. Master migrations run against the public schema; tenant
+ * migrations run once per tenant_* schema and must qualify every object
+ * with the schema name they are given.
+ */
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (schemaName: string) => string;
+}
+
+export const MASTER_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_tenants',
+    up: () => `
+      CREATE TABLE IF NOT EXISTS tenants (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        slug VARCHAR(63) UNIQUE NOT NULL,
+        name VARCHAR(255) NOT NULL,
+        schema_name VARCHAR(63) UNIQUE NOT NULL,
+        logo_url TEXT,
+        primary_color VARCHAR(7) DEFAULT '#1a365d',
+        plan VARCHAR(20) DEFAULT 'free',
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_tenants_slug ON tenants(slug);
+    `,
+  },
+  {
+    version: 2,
+    name: 'tenant_schema_version',
+    up: () => `
+      ALTER TABLE tenants ADD COLUMN IF NOT EXISTS schema_version INTEGER NOT NULL DEFAULT 0;
+    `,
+  },
+  {
+    // Shared by every tenant; layers are stored inline since a template is
+    // only ever read whole and copied.
+    version: 3,
+    name: 'detail_templates',
+    up: () => `
+      CREATE TABLE IF NOT EXISTS detail_templates (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        slug VARCHAR(63) UNIQUE NOT NULL,
+        name VARCHAR(255) NOT NULL,
+        category VARCHAR(50) NOT NULL,
+        description TEXT DEFAULT '',
+        metadata_json JSONB DEFAULT '{}',
+        layers_json JSONB NOT NULL DEFAULT '[]',
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_detail_templates_category ON detail_templates(category);
+    `,
+  },
+  {
+    // logo_key is the object-store key behind logo_url, kept so a replaced logo can be deleted
+    version: 4,
+    name: 'tenant_branding',
+    up: () => `
+      ALTER TABLE tenants ADD COLUMN IF NOT EXISTS secondary_color VARCHAR(7) DEFAULT '#2563eb';
+      ALTER TABLE tenants ADD COLUMN IF NOT EXISTS footer_text VARCHAR(500);
+      ALTER TABLE tenants ADD COLUMN IF NOT EXISTS logo_key TEXT;
+    `,
+  },
+  {
+    // Written by the default mail transport; see services/mail.ts
+    version: 5,
+    name: 'mail_outbox',
+    up: () => `
+      CREATE TABLE IF NOT EXISTS mail_outbox (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+        kind VARCHAR(50) NOT NULL,
+        to_address VARCHAR(255) NOT NULL,
+        subject VARCHAR(255) NOT NULL,
+        text_body TEXT NOT NULL,
+        html_body TEXT,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_mail_outbox_to ON mail_outbox(lower(to_address), created_at DESC);
+    `,
+  },
+  {
+    // One sign-in per person across tenants. The tenant's users row stays the
+    // membership (role, activation, sessions); this is the directory that
+    // finds a person's rows in every tenant. Tenant migration 12 fills both.
+    // An address is only shared once it is verified: until then several
+    // identities may carry it, and at most one verified identity can.
+    version: 6,
+    name: 'global_identities',
+    up: () => `
+      CREATE TABLE IF NOT EXISTS identities (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        email VARCHAR(255) NOT NULL,
+        password_hash VARCHAR(255) NOT NULL,
+        email_verified_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_identities_email ON identities(lower(email));
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_identities_verified_email
+        ON identities(lower(email)) WHERE email_verified_at IS NOT NULL;
+
+      CREATE TABLE IF NOT EXISTS tenant_memberships (
+        identity_id UUID NOT NULL REFERENCES identities(id) ON DELETE CASCADE,
+        tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+        user_id UUID NOT NULL,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        PRIMARY KEY (identity_id, tenant_id),
+        UNIQUE (tenant_id, user_id)
+      );
+    `,
+  },
+];
+
+export const TENANT_MIGRATIONS: Migration[] = [
+  {
+    // Matches the tables created before versioned migrations existed, so
+    // running it against an older tenant is a no-op.
+    version: 1,
+    name: 'initial_schema',
+    up: (s) => `
+      CREATE TABLE IF NOT EXISTS ${s}.users (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        email VARCHAR(255) UNIQUE NOT NULL,
+        password_hash VARCHAR(255) NOT NULL,
+        name VARCHAR(255) NOT NULL,
+        role VARCHAR(20) DEFAULT 'viewer',
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS ${s}.details (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        name VARCHAR(255) NOT NULL,
+        category VARCHAR(50) NOT NULL,
+        description TEXT DEFAULT '',
+        metadata_json JSONB DEFAULT '{}',
+        created_by UUID REFERENCES ${s}.users(id),
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS ${s}.layers (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        detail_id UUID NOT NULL REFERENCES ${s}.details(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        order_index INTEGER NOT NULL DEFAULT 0,
+        color VARCHAR(7) DEFAULT '#888888',
+        material_type VARCHAR(100),
+        thickness_mm REAL DEFAULT 0,
+        product_name VARCHAR(255),
+        manufacturer VARCHAR(255),
+        csi_section VARCHAR(20),
+        geometry_params_json JSONB DEFAULT '{}',
+        visible_default BOOLEAN DEFAULT true,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS ${s}.products (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        name VARCHAR(255) NOT NULL,
+        manufacturer VARCHAR(255),
+        csi_section VARCHAR(20),
+        description TEXT DEFAULT '',
+        thickness_range VARCHAR(50),
+        application_notes TEXT DEFAULT ''
+      );
+
+      CREATE TABLE IF NOT EXISTS ${s}.projects (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        name VARCHAR(255) NOT NULL,
+        client_name VARCHAR(255),
+        detail_ids UUID[] DEFAULT '{}',
+        created_by UUID REFERENCES ${s}.users(id),
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS ${s}.detail_revisions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        detail_id UUID NOT NULL REFERENCES ${s}.details(id) ON DELETE CASCADE,
+        revision_number INTEGER NOT NULL,
+        snapshot_json JSONB NOT NULL,
+        change_summary TEXT DEFAULT '',
+        created_by UUID REFERENCES ${s}.users(id),
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        UNIQUE (detail_id, revision_number)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_layers_detail ON ${s}.layers(detail_id);
+      CREATE INDEX IF NOT EXISTS idx_details_category ON ${s}.details(category);
+    `,
+  },
+  {
+    version: 2,
+    name: 'project_detail_membership_index',
+    up: (s) => `
+      CREATE INDEX IF NOT EXISTS idx_projects_detail_ids ON ${s}.projects USING GIN (detail_ids);
+    `,
+  },
+  {
+    // catalog_id mirrors generateProductId() so CSV re-imports upsert instead of duplicating
+    version: 3,
+    name: 'product_catalog_and_layer_links',
+    up: (s) => `
+      ALTER TABLE ${s}.products ADD COLUMN IF NOT EXISTS catalog_id VARCHAR(255);
+      ALTER TABLE ${s}.products ADD COLUMN IF NOT EXISTS product_type VARCHAR(50);
+      ALTER TABLE ${s}.products ADD COLUMN IF NOT EXISTS source_url TEXT;
+      ALTER TABLE ${s}.products ADD COLUMN IF NOT EXISTS created_at TIMESTAMPTZ DEFAULT NOW();
+      ALTER TABLE ${s}.products ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+      UPDATE ${s}.products p
+      SET catalog_id = k.base || CASE WHEN k.rn > 1 THEN '-' || k.rn ELSE '' END
+      FROM (
+        SELECT id, base, ROW_NUMBER() OVER (PARTITION BY base ORDER BY id) AS rn
+        FROM (
+          SELECT id,
+            trim(both '-' from regexp_replace(lower(COALESCE(manufacturer, 'generic')), '[^a-z0-9]+', '-', 'g'))
+            || '-' || trim(both '-' from regexp_replace(lower(name), '[^a-z0-9]+', '-', 'g')) AS base
+          FROM ${s}.products
+        ) b
+      ) k
+      WHERE p.id = k.id AND p.catalog_id IS NULL;
+
+      ALTER TABLE ${s}.products ALTER COLUMN catalog_id SET NOT NULL;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_products_catalog_id ON ${s}.products(catalog_id);
+
+      ALTER TABLE ${s}.layers ADD COLUMN IF NOT EXISTS product_id UUID REFERENCES ${s}.products(id) ON DELETE SET NULL;
+      CREATE INDEX IF NOT EXISTS idx_layers_product ON ${s}.layers(product_id);
+
+      UPDATE ${s}.layers l SET product_id = p.id
+      FROM ${s}.products p
+      WHERE l.product_id IS NULL AND l.product_name = p.name
+        AND l.manufacturer IS NOT DISTINCT FROM p.manufacturer;
+    `,
+  },
+  {
+    version: 4,
+    name: 'user_administration',
+    up: (s) => `
+      ALTER TABLE ${s}.users ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT true;
+      ALTER TABLE ${s}.users ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMPTZ;
+
+      CREATE TABLE IF NOT EXISTS ${s}.invitations (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        email VARCHAR(255) NOT NULL,
+        role VARCHAR(20) NOT NULL DEFAULT 'viewer',
+        token_hash CHAR(64) UNIQUE NOT NULL,
+        invited_by UUID REFERENCES ${s}.users(id) ON DELETE SET NULL,
+        expires_at TIMESTAMPTZ NOT NULL,
+        accepted_at TIMESTAMPTZ,
+        accepted_user_id UUID REFERENCES ${s}.users(id) ON DELETE SET NULL,
+        revoked_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_invitations_email ON ${s}.invitations(lower(email));
+    `,
+  },
+  {
+    version: 5,
+    name: 'sessions_and_refresh_tokens',
+    up: (s) => `
+      CREATE TABLE IF NOT EXISTS ${s}.sessions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES ${s}.users(id) ON DELETE CASCADE,
+        user_agent TEXT,
+        ip_address VARCHAR(64),
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        last_used_at TIMESTAMPTZ DEFAULT NOW(),
+        revoked_at TIMESTAMPTZ
+      );
+      CREATE INDEX IF NOT EXISTS idx_sessions_user ON ${s}.sessions(user_id);
+
+      CREATE TABLE IF NOT EXISTS ${s}.refresh_tokens (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        session_id UUID NOT NULL REFERENCES ${s}.sessions(id) ON DELETE CASCADE,
+        token_hash CHAR(64) UNIQUE NOT NULL,
+        expires_at TIMESTAMPTZ NOT NULL,
+        used_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_refresh_tokens_session ON ${s}.refresh_tokens(session_id);
+    `,
+  },
+  {
+    version: 6,
+    name: 'api_keys',
+    up: (s) => `
+      CREATE TABLE IF NOT EXISTS ${s}.api_keys (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        name VARCHAR(255) NOT NULL,
+        prefix VARCHAR(20) NOT NULL,
+        key_hash CHAR(64) UNIQUE NOT NULL,
+        scope VARCHAR(20) NOT NULL DEFAULT 'read',
+        created_by UUID REFERENCES ${s}.users(id) ON DELETE SET NULL,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        rotated_at TIMESTAMPTZ,
+        last_used_at TIMESTAMPTZ,
+        expires_at TIMESTAMPTZ,
+        revoked_at TIMESTAMPTZ
+      );
+    `,
+  },
+  {
+    version: 7,
+    name: 'audit_log',
+    up: (s) => `
+      CREATE TABLE IF NOT EXISTS ${s}.audit_log (
+        id BIGSERIAL PRIMARY KEY,
+        occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        actor_id UUID REFERENCES ${s}.users(id) ON DELETE SET NULL,
+        api_key_id UUID REFERENCES ${s}.api_keys(id) ON DELETE SET NULL,
+        action VARCHAR(50) NOT NULL,
+        entity_type VARCHAR(50) NOT NULL,
+        entity_id VARCHAR(255),
+        before_json JSONB,
+        after_json JSONB,
+        ip_address VARCHAR(64),
+        user_agent TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_audit_log_occurred ON ${s}.audit_log(occurred_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON ${s}.audit_log(entity_type, entity_id);
+      CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON ${s}.audit_log(actor_id);
+    `,
+  },
+  {
+    // Full-text search over the details list. Layer product names live in
+    // another table, so they get their own expression index that the search
+    // query repeats verbatim.
+    version: 8,
+    name: 'detail_search',
+    up: (s) => `
+      ALTER TABLE ${s}.details ADD COLUMN IF NOT EXISTS search_vector tsvector
+        GENERATED ALWAYS AS (
+          setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+          setweight(to_tsvector('english', coalesce(description, '')), 'B')
+        ) STORED;
+      CREATE INDEX IF NOT EXISTS idx_details_search ON ${s}.details USING GIN (search_vector);
+      CREATE INDEX IF NOT EXISTS idx_layers_product_search
+        ON ${s}.layers USING GIN (to_tsvector('english', coalesce(product_name, '')));
+      CREATE INDEX IF NOT EXISTS idx_layers_manufacturer ON ${s}.layers(lower(manufacturer));
+      CREATE INDEX IF NOT EXISTS idx_details_updated ON ${s}.details(updated_at DESC, id DESC);
+    `,
+  },
+  {
+    version: 9,
+    name: 'detail_template_link',
+    up: (s) => `
+      ALTER TABLE ${s}.details ADD COLUMN IF NOT EXISTS template_id UUID
+        REFERENCES public.detail_templates(id) ON DELETE SET NULL;
+      CREATE INDEX IF NOT EXISTS idx_details_template ON ${s}.details(template_id);
+    `,
+  },
+  {
+    version: 10,
+    name: 'email_verification',
+    up: (s) => `
+      ALTER TABLE ${s}.users ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMPTZ;
+    `,
+  },
+  {
+    // One OIDC provider per tenant (the single-row table), the short-lived
+    // state of logins in flight, and the IdP identity each user is linked to.
+    version: 11,
+    name: 'oidc_sso',
+    up: (s) => `
+      CREATE TABLE IF NOT EXISTS ${s}.sso_settings (
+        id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+        enabled BOOLEAN NOT NULL DEFAULT true,
+        issuer TEXT NOT NULL,
+        client_id VARCHAR(255) NOT NULL,
+        client_secret_sealed TEXT,
+        allowed_domains TEXT[] NOT NULL DEFAULT '{}',
+        default_role VARCHAR(20) NOT NULL DEFAULT 'viewer',
+        updated_by UUID REFERENCES ${s}.users(id) ON DELETE SET NULL,
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS ${s}.sso_logins (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        state_hash CHAR(64) UNIQUE NOT NULL,
+        code_verifier VARCHAR(128) NOT NULL,
+        nonce VARCHAR(64) NOT NULL,
+        user_id UUID REFERENCES ${s}.users(id) ON DELETE CASCADE,
+        handoff_hash CHAR(64) UNIQUE,
+        expires_at TIMESTAMPTZ NOT NULL,
+        completed_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      );
+
+      ALTER TABLE ${s}.users ADD COLUMN IF NOT EXISTS oidc_issuer TEXT;
+      ALTER TABLE ${s}.users ADD COLUMN IF NOT EXISTS oidc_subject VARCHAR(255);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_users_oidc_identity
+        ON ${s}.users(oidc_issuer, oidc_subject) WHERE oidc_subject IS NOT NULL;
+    `,
+  },
+  {
+    // Passwords move to public.identities. Rows in several tenants share an
+    // identity only when the address is verified in both, or when they carry
+    // the very same password hash (a cloned tenant); anything else stays a
+    // separate identity, so an unverified sign-up never takes over someone
+    // else's account. users.password_hash is kept, no longer required, until
+    // the identities have been checked; a later migration drops it.
+    version: 12,
+    name: 'global_identities',
+    up: (s) => `
+      DO $$
+      DECLARE
+        u RECORD;
+        target UUID;
+        tenant_uuid UUID := (SELECT id FROM public.tenants WHERE schema_name = '${s}');
+      BEGIN
+        IF tenant_uuid IS NULL THEN RETURN; END IF;
+        FOR u IN SELECT * FROM ${s}.users ORDER BY created_at LOOP
+          SELECT i.id INTO target FROM public.identities i
+          WHERE lower(i.email) = lower(u.email)
+            AND (i.password_hash = u.password_hash
+              OR (i.email_verified_at IS NOT NULL AND u.email_verified_at IS NOT NULL))
+          ORDER BY i.email_verified_at IS NULL, i.created_at
+          LIMIT 1;
+
+          IF target IS NULL THEN
+            INSERT INTO public.identities (email, password_hash, email_verified_at, created_at, updated_at)
+            VALUES (
+              lower(u.email), u.password_hash,
+              CASE WHEN NOT EXISTS (
+                SELECT 1 FROM public.identities v WHERE lower(v.email) = lower(u.email) AND v.email_verified_at IS NOT NULL
+              ) THEN u.email_verified_at END,
+              COALESCE(u.created_at, NOW()), COALESCE(u.updated_at, u.created_at, NOW())
+            )
+            RETURNING id INTO target;
+          ELSIF u.email_verified_at IS NOT NULL THEN
+            UPDATE public.identities i SET email_verified_at = u.email_verified_at
+            WHERE i.id = target AND i.email_verified_at IS NULL
+              AND NOT EXISTS (
+                SELECT 1 FROM public.identities v WHERE lower(v.email) = lower(u.email) AND v.email_verified_at IS NOT NULL
+              );
+          END IF;
+
+          INSERT INTO public.tenant_memberships (identity_id, tenant_id, user_id)
+          VALUES (target, tenant_uuid, u.id)
+          ON CONFLICT DO NOTHING;
+        END LOOP;
+      END $$;
+
+      ALTER TABLE ${s}.users ALTER COLUMN password_hash DROP NOT NULL;
+    `,
+  },
+  {
+    // Outbound webhooks; see services/webhooks.ts. A delivery row is one
+    // event for one webhook and keeps the outcome of its latest attempt.
+    version: 13,
+    name: 'webhooks',
+    up: (s) => `
+      ALTER TABLE ${s}.details ADD COLUMN IF NOT EXISTS published_revision INTEGER;
+      ALTER TABLE ${s}.details ADD COLUMN IF NOT EXISTS published_at TIMESTAMPTZ;
+      ALTER TABLE ${s}.details ADD COLUMN IF NOT EXISTS published_by UUID REFERENCES ${s}.users(id) ON DELETE SET NULL;
+
+      CREATE TABLE IF NOT EXISTS ${s}.webhooks (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        url TEXT NOT NULL,
+        description VARCHAR(255),
+        events TEXT[] NOT NULL,
+        secret_sealed TEXT NOT NULL,
+        enabled BOOLEAN NOT NULL DEFAULT true,
+        created_by UUID REFERENCES ${s}.users(id) ON DELETE SET NULL,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS ${s}.webhook_deliveries (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        webhook_id UUID NOT NULL REFERENCES ${s}.webhooks(id) ON DELETE CASCADE,
+        event_id UUID NOT NULL,
+        event VARCHAR(50) NOT NULL,
+        payload_json JSONB NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+        last_attempt_at TIMESTAMPTZ,
+        delivered_at TIMESTAMPTZ,
+        response_status INTEGER,
+        response_body TEXT,
+        last_error TEXT,
+        duration_ms INTEGER,
+        redelivery_of UUID REFERENCES ${s}.webhook_deliveries(id) ON DELETE SET NULL,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+        ON ${s}.webhook_deliveries(next_attempt_at) WHERE status IN ('pending', 'delivering');
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook
+        ON ${s}.webhook_deliveries(webhook_id, created_at DESC);
+    `,
+  },
+  {
+    // Revision history outlives the detail: deleting a detail clears
+    // detail_id, and original_detail_id keeps saying whose history it was.
+    version: 14,
+    name: 'keep_revisions_of_deleted_details',
+    up: (s) => `
+      ALTER TABLE ${s}.detail_revisions ADD COLUMN IF NOT EXISTS original_detail_id UUID;
+      UPDATE ${s}.detail_revisions SET original_detail_id = detail_id WHERE original_detail_id IS NULL;
+      ALTER TABLE ${s}.detail_revisions ALTER COLUMN original_detail_id SET NOT NULL;
+      CREATE INDEX IF NOT EXISTS idx_detail_revisions_original_detail ON ${s}.detail_revisions(original_detail_id);
+
+      ALTER TABLE ${s}.detail_revisions ALTER COLUMN detail_id DROP NOT NULL;
+      ALTER TABLE ${s}.detail_revisions DROP CONSTRAINT IF EXISTS detail_revisions_detail_id_fkey;
+      ALTER TABLE ${s}.detail_revisions ADD CONSTRAINT detail_revisions_detail_id_fkey
+        FOREIGN KEY (detail_id) REFERENCES ${s}.details(id) ON DELETE SET NULL;
+    `,
+  },
+];
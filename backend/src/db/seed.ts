@@ -43,14 +43,25 @@ export async function seed() {
 
   // Create admin user
   const passwordHash = await bcrypt.hash('demo123', 10);
+  const identityResult = await query(
+    `INSERT INTO identities (email, password_hash, email_verified_at) VALUES ($1, $2, NOW())
+     ON CONFLICT ((lower(email))) WHERE email_verified_at IS NOT NULL
+     DO UPDATE SET password_hash = $2, updated_at = NOW()
+     RETURNING id`,
+    ['admin@demo.com', passwordHash]
+  );
   const userResult = await queryWithSchema(schemaName,
-    `INSERT INTO users (email, password_hash, name, role)
-     VALUES ($1, $2, $3, $4)
-     ON CONFLICT (email) DO UPDATE SET name = $3
+    `INSERT INTO users (email, name, role, email_verified_at)
+     VALUES ($1, $2, $3, NOW())
+     ON CONFLICT (email) DO UPDATE SET name = $2
      RETURNING id`,
-    ['admin@demo.com', passwordHash, 'Demo Admin', 'admin']
+    ['admin@demo.com', 'Demo Admin', 'admin']
   );
   const userId = userResult.rows[0].id;
+  await query(
+    'INSERT INTO tenant_memberships (identity_id, tenant_id, user_id) VALUES ($1, $2, $3) ON CONFLICT DO NOTHING',
+    [identityResult.rows[0].id, tenantId, userId]
+  );
 
   // Create parapet detail
   const detailResult = await queryWithSchema(schemaName,
@@ -0,0 +1,219 @@
+/**
+ * A minimal OpenID Connect provider for trying single sign-on locally:
+ * discovery, JWKS, an authorization endpoint with a sign-in form (any email
+ * works, no password) and a token endpoint that enforces PKCE.
+ *
+ *   npm run --workspace=backend mock-idp
+ *
+ * Then, as an admin on the Enterprise plan, set up SSO with issuer
+ * http://localhost:4010, client id `bim-viewer` and client secret `mock-secret`.
+ *
+ * MOCK_IDP_PORT, MOCK_IDP_CLIENT_ID and MOCK_IDP_CLIENT_SECRET override the
+ * defaults (an empty secret makes it a public client). With
+ * MOCK_IDP_AUTO_LOGIN=<email> the form is skipped, for scripted runs.
+ */
+import crypto from 'crypto';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+
+export interface MockIdpOptions {
+  issuer: string;
+  clientId: string;
+  /** Empty for a public client */
+  clientSecret: string;
+  autoLogin?: string;
+}
+
+interface IssuedCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  email: string;
+  name: string;
+  emailVerified: boolean;
+  expiresAt: number;
+}
+
+const CODE_TTL_MS = 60 * 1000;
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+export function createMockIdp(options: MockIdpOptions) {
+  const { issuer, clientId, clientSecret } = options;
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const kid = crypto.randomBytes(8).toString('hex');
+  const codes = new Map<string, IssuedCode>();
+
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  app.get('/.well-known/openid-configuration', (_req, res) => {
+    res.json({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256'],
+      token_endpoint_auth_methods_supported: clientSecret ? ['client_secret_basic', 'client_secret_post'] : ['none'],
+      scopes_supported: ['openid', 'email', 'profile'],
+    });
+  });
+
+  app.get('/jwks', (_req, res) => {
+    res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid, use: 'sig', alg: 'RS256' }] });
+  });
+
+  // Errors before the redirect URI is trusted are shown here rather than sent back
+  const authorizeParams = (source: Record<string, unknown>) => {
+    const get = (key: string) => typeof source[key] === 'string' ? source[key] as string : '';
+    const params = {
+      clientId: get('client_id'), redirectUri: get('redirect_uri'), state: get('state'), nonce: get('nonce'),
+      codeChallenge: get('code_challenge'), codeChallengeMethod: get('code_challenge_method'),
+      responseType: get('response_type'), scope: get('scope'),
+    };
+    if (params.clientId !== clientId) return { error: `Unknown client_id "${params.clientId}"` };
+    if (!/^https?:\/\//.test(params.redirectUri)) return { error: 'redirect_uri is required' };
+    return { params };
+  };
+
+  const approve = (res: express.Response, params: NonNullable<ReturnType<typeof authorizeParams>['params']>,
+    user: { email: string; name: string; emailVerified: boolean }) => {
+    const redirect = new URL(params.redirectUri);
+    if (params.state) redirect.searchParams.set('state', params.state);
+    if (params.responseType !== 'code' || !params.scope.split(' ').includes('openid')) {
+      redirect.searchParams.set('error', 'unsupported_response_type');
+    } else if (!params.codeChallenge || params.codeChallengeMethod !== 'S256') {
+      redirect.searchParams.set('error', 'invalid_request');
+      redirect.searchParams.set('error_description', 'PKCE with S256 is required');
+    } else {
+      const code = crypto.randomBytes(24).toString('base64url');
+      codes.set(code, { ...params, ...user, expiresAt: Date.now() + CODE_TTL_MS });
+      redirect.searchParams.set('code', code);
+    }
+    res.redirect(redirect.toString());
+  };
+
+  app.get('/authorize', (req, res) => {
+    const checked = authorizeParams(req.query);
+    if (!checked.params) {
+      res.status(400).send(escapeHtml(checked.error));
+      return;
+    }
+    if (options.autoLogin) {
+      approve(res, checked.params, { email: options.autoLogin, name: options.autoLogin.split('@')[0], emailVerified: true });
+      return;
+    }
+
+    const hidden = Object.entries(req.query)
+      .filter(([, value]) => typeof value === 'string')
+      .map(([key, value]) => `<input type="hidden" name="${escapeHtml(key)}" value="${escapeHtml(value as string)}">`)
+      .join('');
+    res.type('html').send(`<!doctype html>
+<title>Mock identity provider</title>
+<body style="font-family: sans-serif; max-width: 360px; margin: 60px auto">
+  <h2>Mock identity provider</h2>
+  <p style="color: #64748b">Sign in as anyone. No password needed.</p>
+  <form method="post" action="/authorize">
+    ${hidden}
+    <p><label>Email<br><input name="email" type="email" required style="width: 100%" value="${escapeHtml(String(req.query.login_hint ?? ''))}"></label></p>
+    <p><label>Name<br><input name="name" style="width: 100%"></label></p>
+    <p><label><input name="email_verified" type="checkbox" checked> Email verified</label></p>
+    <button type="submit">Sign in</button>
+    <button type="submit" name="deny" value="1">Cancel</button>
+  </form>
+</body>`);
+  });
+
+  app.post('/authorize', (req, res) => {
+    const checked = authorizeParams(req.body);
+    if (!checked.params) {
+      res.status(400).send(escapeHtml(checked.error));
+      return;
+    }
+    if (req.body.deny) {
+      const redirect = new URL(checked.params.redirectUri);
+      redirect.searchParams.set('error', 'access_denied');
+      if (checked.params.state) redirect.searchParams.set('state', checked.params.state);
+      res.redirect(redirect.toString());
+      return;
+    }
+    const email = String(req.body.email ?? '').trim();
+    approve(res, checked.params, {
+      email,
+      name: String(req.body.name ?? '').trim() || email.split('@')[0],
+      emailVerified: req.body.email_verified === 'on',
+    });
+  });
+
+  app.post('/token', (req, res) => {
+    const tokenError = (status: number, error: string, description: string) =>
+      res.status(status).json({ error, error_description: description });
+
+    // client_secret_basic, client_secret_post, or none for a public client
+    let id = req.body.client_id as string | undefined;
+    let secret = req.body.client_secret as string | undefined;
+    const basic = req.get('authorization')?.match(/^Basic (.+)$/);
+    if (basic) {
+      const [user, pass] = Buffer.from(basic[1], 'base64').toString().split(':');
+      id = decodeURIComponent(user);
+      secret = decodeURIComponent(pass ?? '');
+    }
+    if (id !== clientId || (clientSecret && secret !== clientSecret)) {
+      tokenError(401, 'invalid_client', 'Client authentication failed');
+      return;
+    }
+
+    if (req.body.grant_type !== 'authorization_code') {
+      tokenError(400, 'unsupported_grant_type', 'Only authorization_code is supported');
+      return;
+    }
+    const issued = codes.get(req.body.code);
+    codes.delete(req.body.code);
+    if (!issued || issued.expiresAt < Date.now() || issued.clientId !== id) {
+      tokenError(400, 'invalid_grant', 'Unknown, used or expired code');
+      return;
+    }
+    if (req.body.redirect_uri !== issued.redirectUri) {
+      tokenError(400, 'invalid_grant', 'redirect_uri does not match the authorization request');
+      return;
+    }
+    const challenge = crypto.createHash('sha256').update(String(req.body.code_verifier ?? '')).digest('base64url');
+    if (challenge !== issued.codeChallenge) {
+      tokenError(400, 'invalid_grant', 'code_verifier does not match code_challenge');
+      return;
+    }
+
+    const idToken = jwt.sign({
+      sub: crypto.createHash('sha256').update(issued.email.toLowerCase()).digest('hex').slice(0, 24),
+      email: issued.email,
+      email_verified: issued.emailVerified,
+      name: issued.name,
+      ...(issued.nonce ? { nonce: issued.nonce } : {}),
+    }, privateKey, { algorithm: 'RS256', keyid: kid, issuer, audience: clientId, expiresIn: 300 });
+
+    res.json({
+      access_token: crypto.randomBytes(24).toString('base64url'),
+      token_type: 'Bearer',
+      expires_in: 300,
+      id_token: idToken,
+    });
+  });
+
+  return app;
+}
+
+if (process.argv[1]?.endsWith('mockIdp.ts') || process.argv[1]?.endsWith('mockIdp.js')) {
+  const port = parseInt(process.env.MOCK_IDP_PORT || '4010');
+  const issuer = `http://localhost:${port}`;
+  const clientId = process.env.MOCK_IDP_CLIENT_ID || 'bim-viewer';
+  const clientSecret = process.env.MOCK_IDP_CLIENT_SECRET ?? 'mock-secret';
+  createMockIdp({ issuer, clientId, clientSecret, autoLogin: process.env.MOCK_IDP_AUTO_LOGIN }).listen(port, () => {
+    console.log(`[mock-idp] OpenID provider at ${issuer}`);
+    console.log(`[mock-idp] Client id: ${clientId}, secret: ${clientSecret || '(public client)'}`);
+  });
+}
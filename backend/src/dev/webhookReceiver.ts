@@ -0,0 +1,97 @@
+/**
+ * A local endpoint for trying webhooks: it checks each delivery's signature,
+ * logs it and keeps it in memory for `GET /received`.
+ *
+ *   WEBHOOK_RECEIVER_SECRET=whsec_... npm run --workspace=backend webhook-receiver
+ *
+ * Run the API with NODE_ENV=development WEBHOOK_ALLOW_PRIVATE_TARGETS=true so
+ * webhooks may POST to this machine over plain http. Then, as an admin, add a
+ * webhook for http://localhost:4020/hooks and use the secret it shows. Without a secret the receiver accepts anything and reports
+ * the signature as unchecked.
+ *
+ * WEBHOOK_RECEIVER_PORT overrides the port. WEBHOOK_RECEIVER_FAIL=<n> answers
+ * the first n deliveries with a 500, to watch retries and backoff in the
+ * delivery log. WEBHOOK_RECEIVER_DELAY_MS=<ms> waits before answering, to
+ * watch deliveries time out.
+ */
+import express from 'express';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, verifyWebhookSignature } from '../services/webhooks.js';
+import type { WebhookPayload } from '../../../shared/types/webhook.js';
+
+export interface WebhookReceiverOptions {
+  secret?: string;
+  /** Answer this many deliveries with a 500 before accepting any */
+  failFirst?: number;
+  /** Wait this long before answering each delivery */
+  delayMs?: number;
+}
+
+export interface ReceivedDelivery {
+  deliveryId: string | undefined;
+  /** null when the receiver has no secret to check against */
+  signatureValid: boolean | null;
+  receivedAt: string;
+  payload: WebhookPayload;
+}
+
+export function createWebhookReceiver(options: WebhookReceiverOptions = {}) {
+  const received: ReceivedDelivery[] = [];
+  let toFail = options.failFirst ?? 0;
+
+  const app = express();
+
+  // The signature covers the exact bytes sent, so keep the body as text
+  app.post('/hooks', express.text({ type: '*/*', limit: '5mb' }), async (req, res) => {
+    if (options.delayMs) await new Promise(resolve => setTimeout(resolve, options.delayMs));
+    const body = typeof req.body === 'string' ? req.body : '';
+    const signatureValid = options.secret
+      ? verifyWebhookSignature(options.secret, {
+        timestamp: req.get(TIMESTAMP_HEADER), signature: req.get(SIGNATURE_HEADER),
+      }, body)
+      : null;
+    if (signatureValid === false) {
+      console.log(`[webhook-receiver] Rejected ${req.get('X-Webhook-Id')}: bad signature`);
+      res.status(401).json({ error: 'Invalid signature' });
+      return;
+    }
+
+    let payload: WebhookPayload;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      res.status(400).json({ error: 'Body is not JSON' });
+      return;
+    }
+
+    if (toFail > 0) {
+      toFail--;
+      console.log(`[webhook-receiver] Failing ${payload.event} ${payload.id} on purpose (${toFail} more to fail)`);
+      res.status(500).json({ error: 'Failing on purpose' });
+      return;
+    }
+
+    received.push({ deliveryId: req.get('X-Webhook-Id'), signatureValid, receivedAt: new Date().toISOString(), payload });
+    console.log(`[webhook-receiver] ${payload.event} ${payload.id}${signatureValid === null ? ' (signature not checked)' : ''}`);
+    res.json({ received: true });
+  });
+
+  app.get('/received', (_req, res) => {
+    res.json({ received });
+  });
+
+  return { app, received };
+}
+
+if (process.argv[1]?.endsWith('webhookReceiver.ts') || process.argv[1]?.endsWith('webhookReceiver.js')) {
+  const port = parseInt(process.env.WEBHOOK_RECEIVER_PORT || '4020');
+  const secret = process.env.WEBHOOK_RECEIVER_SECRET || undefined;
+  const { app } = createWebhookReceiver({
+    secret,
+    failFirst: parseInt(process.env.WEBHOOK_RECEIVER_FAIL || '0'),
+    delayMs: parseInt(process.env.WEBHOOK_RECEIVER_DELAY_MS || '0'),
+  });
+  app.listen(port, () => {
+    console.log(`[webhook-receiver] Listening on http://localhost:${port}/hooks`);
+    console.log(`[webhook-receiver] ${secret ? 'Checking signatures' : 'No WEBHOOK_RECEIVER_SECRET set; signatures are not checked'}`);
+  });
+}
@@ -4,9 +4,18 @@ import { tenantMiddleware } from './middleware/tenant.js';
 import { errorHandler, notFoundHandler } from './middleware/error.js';
 import { createMasterSchema } from './db/migrate.js';
 import authRoutes from './routes/auth.js';
+import ssoRoutes from './routes/sso.js';
 import detailRoutes from './routes/details.js';
 import tenantRoutes from './routes/tenants.js';
 import productRoutes from './routes/products.js';
+import projectRoutes from './routes/projects.js';
+import userRoutes from './routes/users.js';
+import apiKeyRoutes from './routes/apiKeys.js';
+import auditRoutes from './routes/audit.js';
+import templateRoutes from './routes/templates.js';
+import webhookRoutes from './routes/webhooks.js';
+import { UPLOAD_DIR } from './services/storage.js';
+import { startWebhookWorker } from './services/webhooks.js';
 
 const app = express();
 const PORT = parseInt(process.env.PORT || '3001');
@@ -23,13 +32,28 @@ app.get('/api/health', (_req, res) => {
   res.json({ status: 'ok', service: '3D BIM Detail Viewer API', version: '1.0.0' });
 });
 
+// Uploaded files (tenant logos) when STORAGE_DRIVER is local
+app.use('/uploads', express.static(UPLOAD_DIR, {
+  maxAge: '7d',
+  immutable: true,
+  fallthrough: false,
+  setHeaders: res => res.setHeader('X-Content-Type-Options', 'nosniff'),
+}));
+
 // Tenant management routes (no tenant middleware needed)
 app.use('/api/tenants', tenantRoutes);
 
 // Tenant-scoped routes
+app.use('/api/auth/sso', tenantMiddleware, ssoRoutes);
 app.use('/api/auth', tenantMiddleware, authRoutes);
 app.use('/api/details', tenantMiddleware, detailRoutes);
 app.use('/api/products', tenantMiddleware, productRoutes);
+app.use('/api/projects', tenantMiddleware, projectRoutes);
+app.use('/api/users', tenantMiddleware, userRoutes);
+app.use('/api/api-keys', tenantMiddleware, apiKeyRoutes);
+app.use('/api/audit', tenantMiddleware, auditRoutes);
+app.use('/api/templates', tenantMiddleware, templateRoutes);
+app.use('/api/webhooks', tenantMiddleware, webhookRoutes);
 app.use('/api/tenant', tenantMiddleware, tenantRoutes);
 
 // Error handling
@@ -42,6 +66,7 @@ async function start() {
     try {
       await createMasterSchema();
       console.log('[server] Database connected, master schema ready');
+      startWebhookWorker();
     } catch (dbErr) {
       console.warn('[server] Database not available — running in API-only mode');
       console.warn('[server] Set DB_HOST, DB_NAME, DB_USER, DB_PASSWORD to connect');
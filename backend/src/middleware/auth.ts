@@ -1,10 +1,14 @@
 import { Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { queryWithSchema } from '../db/connection.js';
+import { authenticateApiKey, roleForScope } from '../services/apiKeys.js';
+import { isUuid } from '../utils/ids.js';
 import type { AuthenticatedRequest } from '../types/express.js';
 import type { JwtPayload, UserRole } from '../../../shared/types/user.js';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'bim-viewer-dev-secret-change-in-production';
-const JWT_EXPIRY = process.env.JWT_EXPIRY || '24h';
+export const JWT_SECRET = process.env.JWT_SECRET || 'bim-viewer-dev-secret-change-in-production';
+// Access tokens are short-lived; clients renew them with a refresh token
+const JWT_EXPIRY = process.env.JWT_EXPIRY || '15m';
 
 export function signToken(payload: JwtPayload): string {
   return jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRY });
@@ -14,30 +18,92 @@ export function verifyToken(token: string): JwtPayload {
   return jwt.verify(token, JWT_SECRET) as JwtPayload;
 }
 
+async function apiKeyAuth(req: AuthenticatedRequest, res: Response, next: NextFunction, key: string) {
+  if (!req.tenant) {
+    res.status(401).json({ error: 'API keys require tenant context. Provide X-Tenant-ID header.' });
+    return;
+  }
+
+  try {
+    const row = await authenticateApiKey(req.tenant.schemaName, key);
+    if (!row) {
+      res.status(401).json({ error: 'Invalid, expired or revoked API key, or its creator is deactivated.' });
+      return;
+    }
+
+    req.apiKey = { id: row.id, name: row.name, scope: row.scope };
+    req.user = {
+      userId: row.created_by,
+      tenantId: req.tenant.id,
+      tenantSlug: req.tenant.slug,
+      role: roleForScope(row.scope),
+    };
+    next();
+  } catch (err) {
+    console.error('[auth] API key lookup error:', err);
+    res.status(500).json({ error: 'Failed to verify API key.' });
+  }
+}
+
 export async function authMiddleware(req: AuthenticatedRequest, res: Response, next: NextFunction) {
   const authHeader = req.headers.authorization;
 
+  // Integrations authenticate with `X-API-Key: <key>` or `Authorization: ApiKey <key>`
+  const apiKey = req.get('x-api-key') || (authHeader?.startsWith('ApiKey ') ? authHeader.slice(7) : undefined);
+  if (apiKey) {
+    await apiKeyAuth(req, res, next, apiKey);
+    return;
+  }
+
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    res.status(401).json({ error: 'Authentication required. Provide Bearer token.' });
+    res.status(401).json({ error: 'Authentication required. Provide Bearer token or X-API-Key.' });
     return;
   }
 
   const token = authHeader.slice(7);
 
+  let payload: JwtPayload;
   try {
-    const payload = verifyToken(token);
+    payload = verifyToken(token);
+  } catch (err) {
+    res.status(401).json({ error: 'Invalid or expired token.' });
+    return;
+  }
 
-    // Verify token tenant matches request tenant
-    if (req.tenant && payload.tenantId !== req.tenant.id) {
-      res.status(403).json({ error: 'Token tenant does not match request tenant.' });
+  // Verify token tenant matches request tenant. Tokens are always for one
+  // tenant; people in several switch with POST /api/auth/switch instead.
+  if (req.tenant && payload.tenantId !== req.tenant.id) {
+    res.status(403).json({ error: 'Token tenant does not match request tenant.' });
+    return;
+  }
+
+  // Tokens outlive role changes, deactivation and logout, so check the user and session rows
+  if (req.tenant) {
+    try {
+      const result = await queryWithSchema(req.tenant.schemaName,
+        `SELECT u.role, u.is_active, s.id AS session_id, s.revoked_at AS session_revoked_at
+         FROM users u LEFT JOIN sessions s ON s.id = $2 AND s.user_id = u.id
+         WHERE u.id = $1`,
+        [payload.userId, isUuid(payload.sessionId) ? payload.sessionId : null]
+      );
+      if (result.rows.length === 0 || !result.rows[0].is_active) {
+        res.status(401).json({ error: 'Account is deactivated.' });
+        return;
+      }
+      if (!result.rows[0].session_id || result.rows[0].session_revoked_at) {
+        res.status(401).json({ error: 'Session has been revoked. Please sign in again.' });
+        return;
+      }
+      payload.role = result.rows[0].role;
+    } catch (err) {
+      console.error('[auth] User lookup error:', err);
+      res.status(500).json({ error: 'Failed to verify user.' });
       return;
     }
-
-    req.user = payload;
-    next();
-  } catch (err) {
-    res.status(401).json({ error: 'Invalid or expired token.' });
   }
+
+  req.user = payload;
+  next();
 }
 
 export function requireRole(...roles: UserRole[]) {
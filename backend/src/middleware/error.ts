@@ -1,6 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
 
 export function errorHandler(err: Error, _req: Request, res: Response, _next: NextFunction) {
+  // Body parsers reject oversized or malformed bodies with a 4xx status on the error
+  const status = (err as { status?: unknown }).status;
+  if (typeof status === 'number' && status >= 400 && status < 500) {
+    res.status(status).json({ error: err.message });
+    return;
+  }
+
   console.error('[error]', err.message);
   console.error(err.stack);
 
@@ -0,0 +1,19 @@
+import { Response, NextFunction } from 'express';
+import { featureError, hasFeature } from '../services/plans.js';
+import type { AuthenticatedRequest } from '../types/express.js';
+import type { PlanFeature } from '../../../shared/types/plan.js';
+
+/** Answer 403 with a plan error unless the tenant's plan includes `feature`. */
+export function requireFeature(feature: PlanFeature) {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.tenant) {
+      res.status(401).json({ error: 'No tenant' });
+      return;
+    }
+    if (!hasFeature(req.tenant, feature)) {
+      res.status(403).json(featureError(req.tenant, feature));
+      return;
+    }
+    next();
+  };
+}
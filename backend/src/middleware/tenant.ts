@@ -31,7 +31,7 @@ export async function tenantMiddleware(req: Request, res: Response, next: NextFu
 
   try {
     const result = await query(
-      'SELECT id, slug, schema_name FROM tenants WHERE slug = $1',
+      'SELECT id, slug, schema_name, plan FROM tenants WHERE slug = $1',
       [tenantSlug]
     );
 
@@ -45,6 +45,7 @@ export async function tenantMiddleware(req: Request, res: Response, next: NextFu
       id: tenant.id,
       slug: tenant.slug,
       schemaName: tenant.schema_name,
+      plan: tenant.plan,
     } as TenantContext;
 
     next();
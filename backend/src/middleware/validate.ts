@@ -0,0 +1,25 @@
+import { Request, Response, NextFunction } from 'express';
+import { describeErrors, validate, type Schema } from '../../../shared/validation/index.js';
+import type { ValidationErrorBody } from '../../../shared/types/validation.js';
+
+/**
+ * Check `req.body` against a shared request schema. Invalid bodies get a 400
+ * listing every field error; valid ones are replaced with the checked value
+ * (trimmed, defaults filled in, unknown keys dropped) before the handler runs.
+ */
+export function validateBody<T>(schema: Schema<T>) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const result = validate(schema, req.body);
+    if ('errors' in result) {
+      const body: ValidationErrorBody = {
+        error: describeErrors(result.errors),
+        code: 'validation_failed',
+        fields: result.errors,
+      };
+      res.status(400).json(body);
+      return;
+    }
+    req.body = result.value;
+    next();
+  };
+}
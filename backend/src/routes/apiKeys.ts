@@ -0,0 +1,128 @@
+import { Router, Response } from 'express';
+import { queryWithSchema, transactionWithSchema } from '../db/connection.js';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+import { validateBody } from '../middleware/validate.js';
+import { generateApiKey, rowToApiKey } from '../services/apiKeys.js';
+import { logAudit, recordAudit } from '../services/audit.js';
+import { checkQuota } from '../services/plans.js';
+import { isUuid } from '../utils/ids.js';
+import { createApiKeySchema } from '../../../shared/validation/index.js';
+import type { AuthenticatedRequest } from '../types/express.js';
+import type { CreateApiKeyRequest } from '../../../shared/types/apiKey.js';
+
+const router = Router();
+
+router.use(authMiddleware as any);
+router.use(requireRole('admin') as any);
+
+// GET /api/api-keys — list keys (never the secrets)
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+
+    const result = await queryWithSchema(req.tenant.schemaName,
+      `SELECT k.*, u.name as creator_name
+       FROM api_keys k LEFT JOIN users u ON k.created_by = u.id
+       ORDER BY k.revoked_at IS NOT NULL, k.created_at DESC`
+    );
+
+    res.json({ apiKeys: result.rows.map(rowToApiKey) });
+  } catch (err) {
+    console.error('[api-keys/list]', err);
+    res.status(500).json({ error: 'Failed to list API keys.' });
+  }
+});
+
+// POST /api/api-keys — create key; the secret is only returned in this response
+router.post('/', validateBody(createApiKeySchema), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant || !req.user) { res.status(401).json({ error: 'No tenant/user' }); return; }
+
+    const { name, scope = 'read', expiresInDays }: CreateApiKeyRequest = req.body;
+
+    const { key, prefix, keyHash } = generateApiKey();
+    const tenant = req.tenant;
+    const userId = req.user.userId;
+    const outcome = await transactionWithSchema(tenant.schemaName, async (client) => {
+      const quotaError = await checkQuota(client, tenant, 'apiKeys');
+      if (quotaError) return { status: 402 as const, body: quotaError };
+
+      const result = await client.query(
+        `INSERT INTO api_keys (name, prefix, key_hash, scope, created_by, expires_at)
+         VALUES ($1, $2, $3, $4, $5, CASE WHEN $6::int IS NULL THEN NULL ELSE NOW() + make_interval(days => $6::int) END)
+         RETURNING *`,
+        [name, prefix, keyHash, scope, userId, expiresInDays ?? null]
+      );
+      const apiKey = rowToApiKey(result.rows[0]);
+      await recordAudit(client, req, { action: 'api_key.created', entityType: 'api_key', entityId: apiKey.id, after: apiKey });
+      return { status: 201 as const, apiKey };
+    });
+
+    if (outcome.status === 402) {
+      res.status(402).json(outcome.body);
+      return;
+    }
+
+    res.status(201).json({ apiKey: outcome.apiKey, key });
+  } catch (err) {
+    console.error('[api-keys/create]', err);
+    res.status(500).json({ error: 'Failed to create API key.' });
+  }
+});
+
+// POST /api/api-keys/:id/rotate — replace the secret; the old one stops working immediately
+router.post('/:id/rotate', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+    if (!isUuid(req.params.id)) { res.status(404).json({ error: 'API key not found.' }); return; }
+
+    const { key, prefix, keyHash } = generateApiKey();
+    const result = await queryWithSchema(req.tenant.schemaName,
+      `UPDATE api_keys SET prefix = $1, key_hash = $2, rotated_at = NOW()
+       WHERE id = $3 AND revoked_at IS NULL RETURNING *`,
+      [prefix, keyHash, req.params.id]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'API key not found.' });
+      return;
+    }
+
+    const apiKey = rowToApiKey(result.rows[0]);
+    await logAudit(req.tenant.schemaName, req, { action: 'api_key.rotated', entityType: 'api_key', entityId: apiKey.id, after: apiKey });
+
+    res.json({ apiKey, key });
+  } catch (err) {
+    console.error('[api-keys/rotate]', err);
+    res.status(500).json({ error: 'Failed to rotate API key.' });
+  }
+});
+
+// DELETE /api/api-keys/:id — revoke key (kept for the audit trail)
+router.delete('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+    if (!isUuid(req.params.id)) { res.status(404).json({ error: 'API key not found.' }); return; }
+
+    const result = await queryWithSchema(req.tenant.schemaName,
+      'UPDATE api_keys SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL RETURNING *',
+      [req.params.id]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'API key not found.' });
+      return;
+    }
+
+    await logAudit(req.tenant.schemaName, req, {
+      action: 'api_key.revoked', entityType: 'api_key', entityId: req.params.id, after: rowToApiKey(result.rows[0]),
+    });
+
+    res.json({ revoked: true });
+  } catch (err) {
+    console.error('[api-keys/revoke]', err);
+    res.status(500).json({ error: 'Failed to revoke API key.' });
+  }
+});
+
+export default router;
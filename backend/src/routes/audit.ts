@@ -0,0 +1,132 @@
+import { Router, Response } from 'express';
+import { queryWithSchema } from '../db/connection.js';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+import { requireFeature } from '../middleware/plan.js';
+import { rowToAuditEntry } from '../services/audit.js';
+import { toCsv } from '../services/csv.js';
+import { isUuid } from '../utils/ids.js';
+import type { AuthenticatedRequest } from '../types/express.js';
+
+const router = Router();
+
+const EXPORT_LIMIT = 50000;
+
+router.use(authMiddleware as any);
+router.use(requireRole('admin') as any);
+
+/**
+ * Translate query-string filters into a WHERE clause:
+ * ?actorId=, ?action=detail.updated (or a prefix such as `detail.`),
+ * ?entityType=, ?entityId=, ?from=, ?to= (ISO timestamps).
+ */
+function buildFilters(query: Record<string, unknown>): { where: string; vals: unknown[] } | { error: string } {
+  const clauses: string[] = [];
+  const vals: unknown[] = [];
+  const str = (key: string) => typeof query[key] === 'string' && query[key] !== '' ? query[key] as string : undefined;
+
+  const actorId = str('actorId');
+  if (actorId) {
+    if (!isUuid(actorId)) return { error: 'actorId must be a UUID.' };
+    vals.push(actorId); clauses.push(`a.actor_id = $${vals.length}`);
+  }
+
+  const action = str('action');
+  if (action) {
+    if (action.endsWith('.')) { vals.push(`${action}%`); clauses.push(`a.action LIKE $${vals.length}`); }
+    else { vals.push(action); clauses.push(`a.action = $${vals.length}`); }
+  }
+
+  const entityType = str('entityType');
+  if (entityType) { vals.push(entityType); clauses.push(`a.entity_type = $${vals.length}`); }
+
+  const entityId = str('entityId');
+  if (entityId) { vals.push(entityId); clauses.push(`a.entity_id = $${vals.length}`); }
+
+  for (const [key, op] of [['from', '>='], ['to', '<']] as const) {
+    const value = str(key);
+    if (!value) continue;
+    if (Number.isNaN(Date.parse(value))) return { error: `${key} must be an ISO date.` };
+    vals.push(value); clauses.push(`a.occurred_at ${op} $${vals.length}`);
+  }
+
+  return { where: clauses.length ? `WHERE ${clauses.join(' AND ')}` : '', vals };
+}
+
+const SELECT_AUDIT = `
+  SELECT a.*, u.name as actor_name, u.email as actor_email, k.name as api_key_name
+  FROM audit_log a
+  LEFT JOIN users u ON a.actor_id = u.id
+  LEFT JOIN api_keys k ON a.api_key_id = k.id`;
+
+// GET /api/audit — newest first; page with ?before=<id from nextCursor>&limit=
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+
+    const filters = buildFilters(req.query);
+    if ('error' in filters) {
+      res.status(400).json({ error: filters.error });
+      return;
+    }
+
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit)) || 100, 1), 500);
+    const { vals } = filters;
+    let where = filters.where;
+    if (req.query.before) {
+      const before = parseInt(String(req.query.before));
+      if (Number.isNaN(before)) {
+        res.status(400).json({ error: 'before must be an audit entry id.' });
+        return;
+      }
+      vals.push(before);
+      where += `${where ? ' AND' : 'WHERE'} a.id < $${vals.length}`;
+    }
+    vals.push(limit + 1);
+
+    const result = await queryWithSchema(req.tenant.schemaName,
+      `${SELECT_AUDIT} ${where} ORDER BY a.id DESC LIMIT $${vals.length}`, vals);
+
+    const rows = result.rows.slice(0, limit);
+    res.json({
+      entries: rows.map(rowToAuditEntry),
+      nextCursor: result.rows.length > limit ? String(rows[rows.length - 1].id) : null,
+    });
+  } catch (err) {
+    console.error('[audit/list]', err);
+    res.status(500).json({ error: 'Failed to list audit log.' });
+  }
+});
+
+// GET /api/audit/export — same filters as the list, as a CSV download
+router.get('/export', requireFeature('exports') as any, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+
+    const filters = buildFilters(req.query);
+    if ('error' in filters) {
+      res.status(400).json({ error: filters.error });
+      return;
+    }
+
+    const result = await queryWithSchema(req.tenant.schemaName,
+      `${SELECT_AUDIT} ${filters.where} ORDER BY a.id DESC LIMIT ${EXPORT_LIMIT}`, filters.vals);
+
+    const csv = toCsv(
+      ['id', 'occurred_at', 'actor_email', 'actor_name', 'api_key', 'action', 'entity_type', 'entity_id', 'ip_address', 'before', 'after'],
+      result.rows.map(r => [
+        r.id, r.occurred_at, r.actor_email, r.actor_name, r.api_key_name, r.action,
+        r.entity_type, r.entity_id, r.ip_address, r.before_json, r.after_json,
+      ])
+    );
+
+    const date = new Date().toISOString().slice(0, 10);
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="audit-${req.tenant.slug}-${date}.csv"`);
+    res.send(csv);
+  } catch (err) {
+    console.error('[audit/export]', err);
+    res.status(500).json({ error: 'Failed to export audit log.' });
+  }
+});
+
+export default router;
@@ -1,20 +1,55 @@
 import { Router, Response } from 'express';
 import bcrypt from 'bcryptjs';
-import { queryWithSchema, query } from '../db/connection.js';
-import { signToken } from '../middleware/auth.js';
+import { queryWithSchema, query, transactionWithSchema } from '../db/connection.js';
+import { authMiddleware, signToken } from '../middleware/auth.js';
+import { validateBody } from '../middleware/validate.js';
 import { createTenantSchema } from '../db/migrate.js';
+import { logAudit, recordAudit } from '../services/audit.js';
+import {
+  matchesAccountToken, readAccountToken, sendPasswordResetEmail, sendVerificationEmail,
+} from '../services/accountTokens.js';
+import {
+  USERS_WITH_IDENTITY, addMembership, claimIdentity, findMembership, identityIdFor, listMemberships,
+  markIdentityVerified, membershipsFor, revokeSessionsElsewhere,
+} from '../services/identities.js';
+import { checkQuota } from '../services/plans.js';
+import {
+  createSession, findSessionByToken, revokeAllSessions, revokeSession, rotateRefreshToken,
+} from '../services/sessions.js';
+import { rowToUser } from '../services/users.js';
+import { hashToken } from '../utils/tokens.js';
+import {
+  acceptInviteSchema, forgotPasswordSchema, loginSchema, refreshSchema, registerSchema, resetPasswordSchema,
+  switchTenantSchema, verifyEmailSchema,
+} from '../../../shared/validation/index.js';
 import type { AuthenticatedRequest } from '../types/express.js';
+import type {
+  AcceptInviteRequest, ForgotPasswordRequest, JwtPayload, LoginRequest, RefreshRequest, RegisterRequest,
+  ResetPasswordRequest, SwitchTenantRequest, VerifyEmailRequest,
+} from '../../../shared/types/user.js';
 
 const router = Router();
 
+/** Open a session for a freshly authenticated user and return its access + refresh tokens. */
+async function startSession(schemaName: string, claims: Omit<JwtPayload, 'sessionId'>, req: AuthenticatedRequest) {
+  const { sessionId, refreshToken } = await transactionWithSchema(schemaName, client =>
+    createSession(client, claims.userId, { userAgent: req.get('user-agent'), ipAddress: req.ip }));
+  return { token: signToken({ ...claims, sessionId }), refreshToken };
+}
+
+/** Verification mail is best-effort: a transport failure should not undo a sign-up. */
+async function sendVerificationQuietly(...args: Parameters<typeof sendVerificationEmail>) {
+  try {
+    await sendVerificationEmail(...args);
+  } catch (err) {
+    console.error('[auth/verify] Failed to send verification email:', err);
+  }
+}
+
 // POST /api/auth/login
-router.post('/login', async (req: AuthenticatedRequest, res: Response) => {
+router.post('/login', validateBody(loginSchema), async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { email, password } = req.body;
-    if (!email || !password) {
-      res.status(400).json({ error: 'Email and password required.' });
-      return;
-    }
+    const { email, password }: LoginRequest = req.body;
 
     if (!req.tenant) {
       res.status(401).json({ error: 'Tenant context required.' });
@@ -22,8 +57,9 @@ router.post('/login', async (req: AuthenticatedRequest, res: Response) => {
     }
 
     const result = await queryWithSchema(req.tenant.schemaName,
-      'SELECT id, email, password_hash, name, role FROM users WHERE email = $1',
-      [email]
+      `SELECT u.id, u.email, u.name, u.role, u.is_active, u.email_verified_at, i.id AS identity_id, i.password_hash
+       FROM ${USERS_WITH_IDENTITY} WHERE lower(i.email) = $2`,
+      [req.tenant.id, email]
     );
 
     if (result.rows.length === 0) {
@@ -38,29 +74,32 @@ router.post('/login', async (req: AuthenticatedRequest, res: Response) => {
       return;
     }
 
-    const token = signToken({
+    if (!user.is_active) {
+      res.status(403).json({ error: 'Account is deactivated.' });
+      return;
+    }
+
+    const { token, refreshToken } = await startSession(req.tenant.schemaName, {
       userId: user.id,
       tenantId: req.tenant.id,
       tenantSlug: req.tenant.slug,
       role: user.role,
-    });
+    }, req);
 
     res.json({
       token,
+      refreshToken,
       user: {
         id: user.id,
         email: user.email,
         name: user.name,
         role: user.role,
         tenantId: req.tenant.id,
+        emailVerifiedAt: user.email_verified_at,
         createdAt: '',
         updatedAt: '',
       },
-      tenant: {
-        id: req.tenant.id,
-        slug: req.tenant.slug,
-        name: req.tenant.slug, // Will be enriched
-      },
+      ...await membershipsFor(user.identity_id, req.tenant),
     });
   } catch (err) {
     console.error('[auth/login]', err);
@@ -69,11 +108,15 @@ router.post('/login', async (req: AuthenticatedRequest, res: Response) => {
 });
 
 // POST /api/auth/register
-router.post('/register', async (req: AuthenticatedRequest, res: Response) => {
+router.post('/register', validateBody(registerSchema), async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { email, password, name, tenantSlug } = req.body;
-    if (!email || !password || !name) {
-      res.status(400).json({ error: 'Email, password, and name required.' });
+    const { email, password, name, tenantSlug }: RegisterRequest = req.body;
+
+    // A verified address that signs in elsewhere keeps its password; check before creating anything
+    const existing = await query(
+      'SELECT password_hash FROM identities WHERE lower(email) = $1 AND email_verified_at IS NOT NULL', [email]);
+    if (existing.rows.length > 0 && !(await bcrypt.compare(password, existing.rows[0].password_hash))) {
+      res.status(409).json({ error: 'Email already registered. Use your existing password to join another organization.' });
       return;
     }
 
@@ -84,7 +127,7 @@ router.post('/register', async (req: AuthenticatedRequest, res: Response) => {
 
     if (tenantSlug && !req.tenant) {
       // Creating new tenant
-      const newSlug = tenantSlug.toLowerCase().replace(/[^a-z0-9-]/g, '');
+      const newSlug = tenantSlug.toLowerCase();
       schemaName = `tenant_${newSlug}`;
 
       const existingTenant = await query('SELECT id FROM tenants WHERE slug = $1', [newSlug]);
@@ -112,39 +155,68 @@ router.post('/register', async (req: AuthenticatedRequest, res: Response) => {
 
     // Check if user already exists
     const existingUser = await queryWithSchema(schemaName,
-      'SELECT id FROM users WHERE email = $1', [email]);
+      'SELECT id FROM users WHERE lower(email) = $1', [email]);
     if (existingUser.rows.length > 0) {
       res.status(409).json({ error: 'Email already registered.' });
       return;
     }
 
-    const passwordHash = await bcrypt.hash(password, 10);
     const role = req.tenant ? 'viewer' : 'admin'; // First user gets admin
 
-    const userResult = await queryWithSchema(schemaName,
-      'INSERT INTO users (email, password_hash, name, role) VALUES ($1, $2, $3, $4) RETURNING id',
-      [email, passwordHash, name, role]
-    );
+    // Joining an existing organization takes a seat; a new organization starts empty
+    const tenant = req.tenant;
+    const outcome = await transactionWithSchema(schemaName, async (client) => {
+      if (tenant) {
+        const quotaError = await checkQuota(client, tenant, 'users');
+        if (quotaError) return { status: 402 as const, body: quotaError };
+      }
+      const identity = await claimIdentity(client, email, password);
+      if (!identity) return { status: 409 as const };
+      const result = await client.query(
+        'INSERT INTO users (email, name, role) VALUES ($1, $2, $3) RETURNING id', [email, name, role]);
+      await addMembership(client, identity.id, tenantId, result.rows[0].id);
+      return { status: 201 as const, userResult: result, identity };
+    });
 
-    const token = signToken({
+    if (outcome.status === 402) {
+      res.status(402).json(outcome.body);
+      return;
+    }
+    if (outcome.status === 409) {
+      res.status(409).json({ error: 'Email already registered. Use your existing password to join another organization.' });
+      return;
+    }
+    const { userResult, identity: claimed } = outcome;
+
+    await logAudit(schemaName, req, {
+      action: 'user.registered', entityType: 'user', entityId: userResult.rows[0].id,
+      after: { email, name, role, createdTenant: !req.tenant },
+    }, userResult.rows[0].id);
+
+    await sendVerificationQuietly(
+      { id: tenantId, slug }, { id: userResult.rows[0].id, email, name, password_hash: claimed.password_hash });
+
+    const { token, refreshToken } = await startSession(schemaName, {
       userId: userResult.rows[0].id,
       tenantId,
       tenantSlug: slug,
       role: role as 'admin' | 'editor' | 'viewer',
-    });
+    }, req);
 
     res.status(201).json({
       token,
+      refreshToken,
       user: {
         id: userResult.rows[0].id,
         email,
         name,
         role,
         tenantId,
+        emailVerifiedAt: null,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       },
-      tenant: { id: tenantId, slug, name: slug },
+      ...await membershipsFor(claimed.id, { id: tenantId, slug }),
     });
   } catch (err) {
     console.error('[auth/register]', err);
@@ -152,4 +224,465 @@ router.post('/register', async (req: AuthenticatedRequest, res: Response) => {
   }
 });
 
+// GET /api/auth/invitations/:token — look up a pending invitation before accepting it
+router.get('/invitations/:token', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) {
+      res.status(401).json({ error: 'Tenant context required.' });
+      return;
+    }
+
+    const result = await queryWithSchema(req.tenant.schemaName,
+      `SELECT email, role, expires_at,
+         EXISTS (
+           SELECT 1 FROM public.identities i
+           WHERE lower(i.email) = lower(invitations.email) AND i.email_verified_at IS NOT NULL
+         ) AS has_account
+       FROM invitations
+       WHERE token_hash = $1 AND accepted_at IS NULL AND revoked_at IS NULL AND expires_at > NOW()`,
+      [hashToken(req.params.token)]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Invitation is invalid or has expired.' });
+      return;
+    }
+
+    const invite = result.rows[0];
+    res.json({ email: invite.email, role: invite.role, expiresAt: invite.expires_at, hasAccount: invite.has_account });
+  } catch (err) {
+    console.error('[auth/invitation]', err);
+    res.status(500).json({ error: 'Failed to look up invitation.' });
+  }
+});
+
+// POST /api/auth/accept-invite — create the invited user with the role chosen by the admin
+router.post('/accept-invite', validateBody(acceptInviteSchema), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { token, name, password }: AcceptInviteRequest = req.body;
+
+    if (!req.tenant) {
+      res.status(401).json({ error: 'Tenant context required.' });
+      return;
+    }
+    const tenant = req.tenant;
+
+    const outcome = await transactionWithSchema(tenant.schemaName, async (client) => {
+      const inviteResult = await client.query(
+        `SELECT * FROM invitations
+         WHERE token_hash = $1 AND accepted_at IS NULL AND revoked_at IS NULL AND expires_at > NOW()
+         FOR UPDATE`,
+        [hashToken(token)]
+      );
+      if (inviteResult.rows.length === 0) return { status: 404 as const };
+      const invite = inviteResult.rows[0];
+
+      const existing = await client.query('SELECT id FROM users WHERE lower(email) = lower($1)', [invite.email]);
+      if (existing.rows.length > 0) return { status: 409 as const };
+
+      // Someone who already signs in to another organization joins with that account
+      const identity = await claimIdentity(client, invite.email, password);
+      if (!identity) return { status: 401 as const };
+
+      const userResult = await client.query(
+        'INSERT INTO users (email, name, role) VALUES ($1, $2, $3) RETURNING *', [invite.email, name, invite.role]);
+      await addMembership(client, identity.id, tenant.id, userResult.rows[0].id);
+      await client.query(
+        'UPDATE invitations SET accepted_at = NOW(), accepted_user_id = $1 WHERE id = $2',
+        [userResult.rows[0].id, invite.id]
+      );
+      await recordAudit(client, req, {
+        action: 'invitation.accepted', entityType: 'user', entityId: userResult.rows[0].id,
+        after: { email: invite.email, name, role: invite.role, invitationId: invite.id },
+      }, userResult.rows[0].id);
+      return { status: 201 as const, user: userResult.rows[0], identity };
+    });
+
+    if (outcome.status === 404) {
+      res.status(404).json({ error: 'Invitation is invalid or has expired.' });
+      return;
+    }
+    if (outcome.status === 401) {
+      res.status(401).json({ error: 'This email already has an account. Enter its current password to join.' });
+      return;
+    }
+    if (outcome.status === 409) {
+      res.status(409).json({ error: 'Email already registered.' });
+      return;
+    }
+
+    const { user, identity } = outcome;
+    await sendVerificationQuietly(tenant, { ...user, password_hash: identity.password_hash });
+
+    const session = await startSession(tenant.schemaName, {
+      userId: user.id,
+      tenantId: tenant.id,
+      tenantSlug: tenant.slug,
+      role: user.role,
+    }, req);
+
+    res.status(201).json({
+      token: session.token,
+      refreshToken: session.refreshToken,
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        tenantId: tenant.id,
+        emailVerifiedAt: user.email_verified_at,
+        createdAt: user.created_at,
+        updatedAt: user.updated_at,
+      },
+      ...await membershipsFor(identity.id, tenant),
+    });
+  } catch (err) {
+    console.error('[auth/accept-invite]', err);
+    res.status(500).json({ error: 'Failed to accept invitation.' });
+  }
+});
+
+// POST /api/auth/forgot — email a password reset link; the answer never reveals whether the address exists
+router.post('/forgot', validateBody(forgotPasswordSchema), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { email }: ForgotPasswordRequest = req.body;
+
+    if (!req.tenant) {
+      res.status(401).json({ error: 'Tenant context required.' });
+      return;
+    }
+
+    const result = await queryWithSchema(req.tenant.schemaName,
+      `SELECT u.id, u.email, u.name, i.password_hash FROM ${USERS_WITH_IDENTITY}
+       WHERE lower(u.email) = $2 AND u.is_active`,
+      [req.tenant.id, email]
+    );
+    if (result.rows.length > 0) {
+      await sendPasswordResetEmail(req.tenant, result.rows[0]);
+      await logAudit(req.tenant.schemaName, req, {
+        action: 'user.password_reset_requested', entityType: 'user', entityId: result.rows[0].id,
+      }, result.rows[0].id);
+    }
+
+    res.json({ sent: true });
+  } catch (err) {
+    console.error('[auth/forgot]', err);
+    res.status(500).json({ error: 'Failed to send reset email.' });
+  }
+});
+
+// POST /api/auth/reset — set a new password from a reset link and sign out every session
+router.post('/reset', validateBody(resetPasswordSchema), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { token, password }: ResetPasswordRequest = req.body;
+
+    if (!req.tenant) {
+      res.status(401).json({ error: 'Tenant context required.' });
+      return;
+    }
+
+    const claims = readAccountToken(token, 'password_reset', req.tenant.id);
+    if (!claims) {
+      res.status(400).json({ error: 'Reset link is invalid or has expired.' });
+      return;
+    }
+
+    const tenant = req.tenant;
+    const passwordHash = await bcrypt.hash(password, 10);
+    const outcome = await transactionWithSchema(tenant.schemaName, async (client) => {
+      const current = await client.query(
+        `SELECT u.id, u.email, u.is_active, i.id AS identity_id, i.password_hash FROM ${USERS_WITH_IDENTITY}
+         WHERE u.id = $2 FOR UPDATE OF u, i`,
+        [tenant.id, claims.userId]
+      );
+      const user = current.rows[0];
+      // The token is bound to the old password hash, so a used link no longer matches
+      if (!user || !user.is_active || !matchesAccountToken('password_reset', claims.fp, user)) {
+        return { status: 400 as const };
+      }
+
+      // The password belongs to the identity, so the new one works in every organization
+      await client.query(
+        'UPDATE public.identities SET password_hash = $1, updated_at = NOW() WHERE id = $2',
+        [passwordHash, user.identity_id]
+      );
+      // Following the link proves the address, so it also counts as verification
+      await client.query(
+        'UPDATE users SET email_verified_at = COALESCE(email_verified_at, NOW()), updated_at = NOW() WHERE id = $1',
+        [user.id]
+      );
+      await markIdentityVerified(client, user.identity_id, user.email);
+      const revokedSessions = await revokeAllSessions(client, user.id);
+      await recordAudit(client, req, {
+        action: 'user.password_reset', entityType: 'user', entityId: user.id, after: { revokedSessions },
+      }, user.id);
+      return { status: 200 as const, identityId: user.identity_id as string };
+    });
+
+    if (outcome.status === 400) {
+      res.status(400).json({ error: 'Reset link is invalid or has expired.' });
+      return;
+    }
+    await revokeSessionsElsewhere(outcome.identityId, tenant.id);
+
+    res.json({ reset: true });
+  } catch (err) {
+    console.error('[auth/reset]', err);
+    res.status(500).json({ error: 'Failed to reset password.' });
+  }
+});
+
+// POST /api/auth/verify — confirm an email address from a verification link
+router.post('/verify', validateBody(verifyEmailSchema), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { token }: VerifyEmailRequest = req.body;
+
+    if (!req.tenant) {
+      res.status(401).json({ error: 'Tenant context required.' });
+      return;
+    }
+
+    const claims = readAccountToken(token, 'email_verification', req.tenant.id);
+    if (!claims) {
+      res.status(400).json({ error: 'Verification link is invalid or has expired.' });
+      return;
+    }
+
+    const tenant = req.tenant;
+    const outcome = await transactionWithSchema(tenant.schemaName, async (client) => {
+      const current = await client.query(
+        `SELECT u.id, u.email, u.email_verified_at, i.id AS identity_id, i.password_hash FROM ${USERS_WITH_IDENTITY}
+         WHERE u.id = $2 FOR UPDATE OF u`,
+        [tenant.id, claims.userId]
+      );
+      const user = current.rows[0];
+      // Bound to the address it was sent to, in case the email has changed since
+      if (!user || !matchesAccountToken('email_verification', claims.fp, user)) return { status: 400 as const };
+      // Links may be opened more than once; only the first one changes anything
+      if (user.email_verified_at) return { status: 200 as const, verifiedAt: user.email_verified_at };
+
+      const updated = await client.query(
+        'UPDATE users SET email_verified_at = NOW(), updated_at = NOW() WHERE id = $1 RETURNING email_verified_at',
+        [user.id]
+      );
+      // From now on the address counts as this identity's in other organizations too
+      await markIdentityVerified(client, user.identity_id, user.email);
+      await recordAudit(client, req, {
+        action: 'user.email_verified', entityType: 'user', entityId: user.id, after: { email: user.email },
+      }, user.id);
+      return { status: 200 as const, verifiedAt: updated.rows[0].email_verified_at };
+    });
+
+    if (outcome.status === 400) {
+      res.status(400).json({ error: 'Verification link is invalid or has expired.' });
+      return;
+    }
+
+    res.json({ verified: true, emailVerifiedAt: outcome.verifiedAt });
+  } catch (err) {
+    console.error('[auth/verify]', err);
+    res.status(500).json({ error: 'Failed to verify email.' });
+  }
+});
+
+// POST /api/auth/verify/resend — email the signed-in user a new verification link
+router.post('/verify/resend', authMiddleware as any, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant || !req.user) { res.status(401).json({ error: 'No tenant/user' }); return; }
+    if (req.apiKey) { res.status(403).json({ error: 'API keys have no email address to verify.' }); return; }
+
+    const result = await queryWithSchema(req.tenant.schemaName,
+      `SELECT u.id, u.email, u.name, u.email_verified_at, i.password_hash FROM ${USERS_WITH_IDENTITY} WHERE u.id = $2`,
+      [req.tenant.id, req.user.userId]
+    );
+    const user = result.rows[0];
+    if (user.email_verified_at) {
+      res.status(409).json({ error: 'Email is already verified.' });
+      return;
+    }
+
+    await sendVerificationEmail(req.tenant, user);
+    res.json({ sent: true });
+  } catch (err) {
+    console.error('[auth/verify-resend]', err);
+    res.status(500).json({ error: 'Failed to send verification email.' });
+  }
+});
+
+// GET /api/auth/me — the signed-in user, e.g. to restore a session after a reload
+router.get('/me', authMiddleware as any, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant || !req.user) { res.status(401).json({ error: 'No tenant/user' }); return; }
+
+    const result = await queryWithSchema(req.tenant.schemaName, 'SELECT * FROM users WHERE id = $1', [req.user.userId]);
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'User not found.' });
+      return;
+    }
+
+    // API keys act for one organization only
+    const identityId = req.apiKey ? null : await identityIdFor(req.tenant.id, req.user.userId);
+    res.json({
+      user: { ...rowToUser(result.rows[0]), tenantId: req.tenant.id },
+      memberships: identityId ? await listMemberships(identityId) : [],
+    });
+  } catch (err) {
+    console.error('[auth/me]', err);
+    res.status(500).json({ error: 'Failed to load user.' });
+  }
+});
+
+// POST /api/auth/switch — sign in to another organization the same person belongs to
+router.post('/switch', authMiddleware as any, validateBody(switchTenantSchema), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { tenantSlug }: SwitchTenantRequest = req.body;
+
+    if (!req.tenant || !req.user) { res.status(401).json({ error: 'No tenant/user' }); return; }
+    if (req.apiKey) { res.status(403).json({ error: 'API keys belong to a single organization.' }); return; }
+    const from = req.tenant;
+    const { userId, sessionId } = req.user;
+
+    const identityId = await identityIdFor(from.id, userId);
+    const target = identityId ? await findMembership(identityId, tenantSlug.toLowerCase()) : null;
+    if (!identityId || !target) {
+      res.status(404).json({ error: 'You are not a member of that organization.' });
+      return;
+    }
+    if (target.tenant_id === from.id) {
+      res.status(400).json({ error: 'Already signed in to that organization.' });
+      return;
+    }
+
+    const outcome = await transactionWithSchema(target.schema_name, async (client) => {
+      const userResult = await client.query('SELECT * FROM users WHERE id = $1', [target.user_id]);
+      const user = userResult.rows[0];
+      if (!user?.is_active) return { status: 403 as const };
+
+      const session = await createSession(client, user.id, { userAgent: req.get('user-agent'), ipAddress: req.ip });
+      await recordAudit(client, req, {
+        action: 'user.tenant_switched', entityType: 'user', entityId: user.id,
+        after: { fromTenant: from.slug, sessionId: session.sessionId },
+      }, user.id);
+      return { status: 200 as const, user, session };
+    });
+
+    if (outcome.status === 403) {
+      res.status(403).json({ error: 'Your account in that organization is deactivated.' });
+      return;
+    }
+
+    // The client drops its token for the old organization, so end that session too
+    if (sessionId) await transactionWithSchema(from.schemaName, client => revokeSession(client, sessionId));
+
+    const { user, session } = outcome;
+    res.json({
+      token: signToken({
+        userId: user.id,
+        tenantId: target.tenant_id,
+        tenantSlug: target.slug,
+        role: user.role,
+        sessionId: session.sessionId,
+      }),
+      refreshToken: session.refreshToken,
+      user: { ...rowToUser(user), tenantId: target.tenant_id },
+      ...await membershipsFor(identityId, { id: target.tenant_id, slug: target.slug }),
+    });
+  } catch (err) {
+    console.error('[auth/switch]', err);
+    res.status(500).json({ error: 'Failed to switch organization.' });
+  }
+});
+
+// POST /api/auth/refresh — trade a refresh token for a new access token and refresh token
+router.post('/refresh', validateBody(refreshSchema), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { refreshToken }: RefreshRequest = req.body;
+
+    if (!req.tenant) {
+      res.status(401).json({ error: 'Tenant context required.' });
+      return;
+    }
+    const tenant = req.tenant;
+
+    const outcome = await transactionWithSchema(tenant.schemaName, async (client) => {
+      const rotated = await rotateRefreshToken(client, refreshToken);
+      if (rotated.status !== 'ok') return rotated;
+
+      const userResult = await client.query('SELECT id, role, is_active FROM users WHERE id = $1', [rotated.userId]);
+      const user = userResult.rows[0];
+      if (!user || !user.is_active) {
+        await revokeSession(client, rotated.sessionId);
+        return { status: 'invalid' as const };
+      }
+      return { ...rotated, role: user.role };
+    });
+
+    if (outcome.status === 'reused') {
+      console.warn(`[auth/refresh] Refresh token reuse in ${tenant.slug}; revoked session ${outcome.sessionId}`);
+    }
+    if (outcome.status !== 'ok') {
+      res.status(401).json({ error: 'Invalid or expired refresh token.' });
+      return;
+    }
+
+    const token = signToken({
+      userId: outcome.userId,
+      tenantId: tenant.id,
+      tenantSlug: tenant.slug,
+      role: outcome.role,
+      sessionId: outcome.sessionId,
+    });
+
+    res.json({ token, refreshToken: outcome.refreshToken });
+  } catch (err) {
+    console.error('[auth/refresh]', err);
+    res.status(500).json({ error: 'Failed to refresh session.' });
+  }
+});
+
+// POST /api/auth/logout — end the session behind a refresh token
+router.post('/logout', validateBody(refreshSchema), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { refreshToken }: RefreshRequest = req.body;
+
+    if (!req.tenant) {
+      res.status(401).json({ error: 'Tenant context required.' });
+      return;
+    }
+
+    await transactionWithSchema(req.tenant.schemaName, async (client) => {
+      const session = await findSessionByToken(client, refreshToken);
+      if (session) await revokeSession(client, session.sessionId);
+    });
+
+    // Unknown tokens still succeed so logout is always safe to retry
+    res.json({ loggedOut: true });
+  } catch (err) {
+    console.error('[auth/logout]', err);
+    res.status(500).json({ error: 'Logout failed.' });
+  }
+});
+
+// POST /api/auth/logout-all — sign the current user out on every device
+router.post('/logout-all', authMiddleware as any, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant || !req.user) { res.status(401).json({ error: 'No tenant/user' }); return; }
+    if (req.apiKey) { res.status(403).json({ error: 'API keys have no sessions to sign out.' }); return; }
+    const userId = req.user.userId;
+
+    const revoked = await transactionWithSchema(req.tenant.schemaName, async (client) => {
+      const count = await revokeAllSessions(client, userId);
+      await recordAudit(client, req, {
+        action: 'user.sessions_revoked', entityType: 'user', entityId: userId, after: { revokedSessions: count },
+      });
+      return count;
+    });
+
+    res.json({ loggedOut: true, revokedSessions: revoked });
+  } catch (err) {
+    console.error('[auth/logout-all]', err);
+    res.status(500).json({ error: 'Logout failed.' });
+  }
+});
+
 export default router;
@@ -1,33 +1,77 @@
-import { Router, Response } from 'express';
-import { queryWithSchema } from '../db/connection.js';
+import express, { Router, Response } from 'express';
+import { queryWithSchema, transactionWithSchema, type Queryable } from '../db/connection.js';
 import { authMiddleware, requireRole } from '../middleware/auth.js';
+import { requireFeature } from '../middleware/plan.js';
+import { validateBody } from '../middleware/validate.js';
+import { recordAudit } from '../services/audit.js';
+import { detailFacets, parseDetailSearch, searchDetails } from '../services/detailSearch.js';
+import { loadDetailSnapshot, rowToDetail, rowToLayer } from '../services/details.js';
+import {
+  buildSectionDrawing, DEFAULT_DRAWING_SCALE, DRAWING_SCALES, renderDxf, renderSvg,
+} from '../services/drawings.js';
+import { buildDetailGltf, embedBuffer, encodeGlb } from '../services/gltf.js';
+import { buildDetailIfc } from '../services/ifcExport.js';
+import { readIfcLayerSets } from '../services/ifcImport.js';
+import {
+  deleteLayer, findMissingProducts, insertLayer, updateLayer, type LayerInput,
+} from '../services/layers.js';
+import { checkQuota } from '../services/plans.js';
+import { ensureBaselineRevision, recordRevision } from '../services/revisions.js';
+import { queueWebhookEvent } from '../services/webhooks.js';
+import { isUuid } from '../utils/ids.js';
+import revisionRoutes from './revisions.js';
+import {
+  createDetailSchema, createLayerSchema, describeErrors, updateDetailSchema, updateLayerSchema, updateLayersSchema, validate,
+} from '../../../shared/validation/index.js';
 import type { AuthenticatedRequest } from '../types/express.js';
+import type { CreateDetailRequest, Detail, UpdateDetailRequest } from '../../../shared/types/detail.js';
+import type { DetailExportFormat } from '../../../shared/types/export.js';
+import type { IfcImportResult } from '../../../shared/types/ifcImport.js';
+import type { UpdateLayersRequest } from '../../../shared/types/layer.js';
+import type { DetailSnapshot } from '../../../shared/types/revision.js';
 
 const router = Router();
 
 // All detail routes require auth
 router.use(authMiddleware as any);
 
-// GET /api/details — list details for tenant
+router.use('/:id/revisions', revisionRoutes);
+
+// GET /api/details — one page of the tenant's details
+// (?q=, ?category=, ?manufacturer=, ?csiSection=, ?createdBy=, ?sort=, ?order=, ?cursor=, ?limit=)
 router.get('/', async (req: AuthenticatedRequest, res: Response) => {
   try {
     if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
 
-    const result = await queryWithSchema(req.tenant.schemaName,
-      `SELECT d.*, u.name as creator_name,
-       (SELECT COUNT(*) FROM layers WHERE detail_id = d.id) as layer_count
-       FROM details d
-       LEFT JOIN users u ON d.created_by = u.id
-       ORDER BY d.updated_at DESC`
-    );
-
-    res.json({ details: result.rows.map(rowToDetail) });
+    const search = parseDetailSearch(req.query);
+    if ('error' in search) {
+      res.status(400).json({ error: search.error });
+      return;
+    }
+
+    const page = await transactionWithSchema(req.tenant.schemaName, (client) => searchDetails(client, search));
+
+    res.json({ details: page.rows.map(rowToDetail), total: page.total, nextCursor: page.nextCursor });
   } catch (err) {
     console.error('[details/list]', err);
     res.status(500).json({ error: 'Failed to list details.' });
   }
 });
 
+// GET /api/details/facets — values the list can be filtered by
+router.get('/facets', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+
+    const facets = await transactionWithSchema(req.tenant.schemaName, (client) => detailFacets(client));
+
+    res.json({ facets });
+  } catch (err) {
+    console.error('[details/facets]', err);
+    res.status(500).json({ error: 'Failed to load detail filters.' });
+  }
+});
+
 // GET /api/details/:id — get detail with layers
 router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -54,62 +98,233 @@ router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
   }
 });
 
-// POST /api/details — create detail
-router.post('/', requireRole('admin', 'editor') as any, async (req: AuthenticatedRequest, res: Response) => {
+// POST /api/details — create detail, with its layers, in one transaction
+router.post('/', requireRole('admin', 'editor') as any, validateBody(createDetailSchema), async (req: AuthenticatedRequest, res: Response) => {
   try {
     if (!req.tenant || !req.user) { res.status(401).json({ error: 'No tenant/user' }); return; }
 
-    const { name, category, description, metadata, layers } = req.body;
-    if (!name || !category) {
-      res.status(400).json({ error: 'Name and category required.' });
+    const { name, category, description, metadata, layers = [] }: CreateDetailRequest = req.body;
+
+    // Layers are stored in orderIndex order (submission order breaks ties) and renumbered from 0
+    const ordered: LayerInput[] = layers
+      .map((input, i) => ({ input, key: input.orderIndex ?? i }))
+      .sort((x, y) => x.key - y.key)
+      .map(({ input }) => ({ ...input, orderIndex: undefined }));
+
+    const userId = req.user.userId;
+    const tenant = req.tenant;
+    const outcome = await transactionWithSchema(tenant.schemaName, async (client) => {
+      const productIds = ordered.map(l => l.productId).filter((id): id is string => !!id);
+      const missing = await findMissingProducts(client, productIds);
+      if (missing.length > 0) return { status: 400 as const, error: `Product ${missing[0]} not found.` };
+
+      const quotaError = await checkQuota(client, tenant, 'details');
+      if (quotaError) return { status: 402 as const, body: quotaError };
+
+      const detailResult = await client.query(
+        `INSERT INTO details (name, category, description, metadata_json, created_by)
+         VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+        [name, category, description, JSON.stringify(metadata || {}), userId]
+      );
+      const detail = rowToDetail(detailResult.rows[0]);
+
+      detail.layers = [];
+      for (const input of ordered) {
+        const inserted = await insertLayer(client, detail.id, input);
+        // Products were checked above, so this only happens if one is deleted mid-request
+        if ('error' in inserted) throw new Error(inserted.error);
+        detail.layers.push(rowToLayer(inserted.row));
+      }
+
+      const revision = await recordRevision(client, detail.id, userId, 'Created');
+      await recordAudit(client, req, {
+        action: 'detail.created', entityType: 'detail', entityId: detail.id, after: revision?.snapshot,
+      });
+      await queueWebhookEvent(client, req, 'detail.created', {
+        detailId: detail.id, revision: revision?.revisionNumber ?? null, detail: revision?.snapshot,
+      });
+      return { status: 201 as const, detail };
+    });
+
+    if (outcome.status === 400) {
+      res.status(400).json({ error: outcome.error });
+      return;
+    }
+    if (outcome.status === 402) {
+      res.status(402).json(outcome.body);
       return;
     }
 
-    const detailResult = await queryWithSchema(req.tenant.schemaName,
-      `INSERT INTO details (name, category, description, metadata_json, created_by)
-       VALUES ($1, $2, $3, $4, $5) RETURNING *`,
-      [name, category, description || '', JSON.stringify(metadata || {}), req.user.userId]
-    );
+    res.status(201).json({ detail: outcome.detail });
+  } catch (err) {
+    console.error('[details/create]', err);
+    res.status(500).json({ error: 'Failed to create detail.' });
+  }
+});
 
-    const detail = rowToDetail(detailResult.rows[0]);
+// IFC files are STEP text; browsers often send .ifc uploads as octet-stream or with no useful type
+const ifcUpload = express.text({
+  type: ['application/x-step', 'application/p21', 'model/ifc', 'text/plain', 'application/octet-stream'], limit: '50mb',
+});
+
+// POST /api/details/import/ifc/preview — layer sets and wall/slab types in an IFC file (STEP text body), as details
+router.post('/import/ifc/preview', requireRole('admin', 'editor') as any, ifcUpload, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
 
-    // Insert layers if provided
-    if (layers && Array.isArray(layers)) {
-      for (const layer of layers) {
-        await queryWithSchema(req.tenant.schemaName,
-          `INSERT INTO layers (detail_id, name, order_index, color, material_type, thickness_mm, product_name, manufacturer, csi_section, geometry_params_json, visible_default)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
-          [detail.id, layer.name, layer.orderIndex, layer.color, layer.materialType, layer.thicknessMm, layer.productName, layer.manufacturer, layer.csiSection, JSON.stringify(layer.geometryParams || {}), layer.visibleDefault ?? true]
+    if (typeof req.body !== 'string' || req.body.trim() === '') {
+      res.status(400).json({ error: 'IFC file body required (Content-Type: application/x-step).' });
+      return;
+    }
+    const preview = readIfcLayerSets(req.body);
+    if ('error' in preview) {
+      res.status(400).json({ error: preview.error });
+      return;
+    }
+
+    res.json(preview.value);
+  } catch (err) {
+    console.error('[details/import-ifc-preview]', err);
+    res.status(500).json({ error: 'Failed to read IFC file.' });
+  }
+});
+
+// POST /api/details/import/ifc?select=<key>,...[&category=] — create a detail from each selected preview candidate
+router.post('/import/ifc', requireRole('admin', 'editor') as any, ifcUpload, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant || !req.user) { res.status(401).json({ error: 'No tenant/user' }); return; }
+
+    const keys = [...new Set(String(req.query.select ?? '').split(',').map(k => k.trim()).filter(Boolean))];
+    if (keys.length === 0) {
+      res.status(400).json({ error: 'select must list at least one candidate key from the preview.' });
+      return;
+    }
+    const override = validate(updateDetailSchema, { category: req.query.category });
+    if ('errors' in override) {
+      res.status(400).json({ error: describeErrors(override.errors) });
+      return;
+    }
+    if (typeof req.body !== 'string' || req.body.trim() === '') {
+      res.status(400).json({ error: 'IFC file body required (Content-Type: application/x-step).' });
+      return;
+    }
+    const preview = readIfcLayerSets(req.body);
+    if ('error' in preview) {
+      res.status(400).json({ error: preview.error });
+      return;
+    }
+
+    const { schema, fileName, candidates } = preview.value;
+    const unknown = keys.filter(key => !candidates.some(c => c.key === key));
+    if (unknown.length > 0) {
+      res.status(400).json({ error: `No layer set or type ${unknown.join(', ')} in this file.` });
+      return;
+    }
+    const selected = keys.map(key => candidates.find(c => c.key === key)!);
+
+    // The importer fits names and values to the layer schema; check before writing
+    // anything so a layer it could not fit is reported rather than failing midway
+    const layerErrors: string[] = [];
+    const checkedLayers = selected.map(candidate => candidate.layers.flatMap((layer, i) => {
+      const checked = validate(createLayerSchema, layer);
+      if ('value' in checked) return [checked.value];
+      layerErrors.push(`${candidate.name}, layer ${i + 1}: ${describeErrors(checked.errors)}`);
+      return [];
+    }));
+    if (layerErrors.length > 0) {
+      res.status(400).json({ error: `Cannot import these layers. ${layerErrors.join(' ')}` });
+      return;
+    }
+
+    const userId = req.user.userId;
+    const tenant = req.tenant;
+    const outcome = await transactionWithSchema(tenant.schemaName, async (client) => {
+      const quotaError = await checkQuota(client, tenant, 'details', selected.length);
+      if (quotaError) return { status: 402 as const, body: quotaError };
+
+      const importedAt = new Date().toISOString();
+      const created: Detail[] = [];
+      for (const [index, candidate] of selected.entries()) {
+        const metadata = { ifc: { fileName, schema, source: candidate.source, key: candidate.key, importedAt } };
+        const detailResult = await client.query(
+          `INSERT INTO details (name, category, description, metadata_json, created_by)
+           VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+          [candidate.name, override.value.category ?? candidate.category, candidate.description, JSON.stringify(metadata), userId]
         );
+        const detail = rowToDetail(detailResult.rows[0]);
+
+        detail.layers = [];
+        for (const layer of checkedLayers[index]) {
+          const inserted = await insertLayer(client, detail.id, { ...layer, orderIndex: undefined });
+          if ('error' in inserted) throw new Error(inserted.error);
+          detail.layers.push(rowToLayer(inserted.row));
+        }
+
+        const revision = await recordRevision(client, detail.id, userId, `Imported from IFC${fileName ? ` ${fileName}` : ''}`);
+        await recordAudit(client, req, {
+          action: 'detail.created', entityType: 'detail', entityId: detail.id, after: revision?.snapshot,
+        });
+        await queueWebhookEvent(client, req, 'detail.created', {
+          detailId: detail.id, revision: revision?.revisionNumber ?? null, detail: revision?.snapshot,
+        });
+        created.push(detail);
       }
+      return { status: 201 as const, details: created };
+    });
+
+    if (outcome.status === 402) {
+      res.status(402).json(outcome.body);
+      return;
     }
 
-    res.status(201).json({ detail });
+    const result: IfcImportResult = {
+      details: outcome.details,
+      warnings: [
+        ...preview.value.warnings,
+        ...selected.flatMap(c => c.warnings.map(w => `${c.name}: ${w}`)),
+      ],
+    };
+    res.status(201).json(result);
   } catch (err) {
-    console.error('[details/create]', err);
-    res.status(500).json({ error: 'Failed to create detail.' });
+    console.error('[details/import-ifc]', err);
+    res.status(500).json({ error: 'Failed to import IFC file.' });
   }
 });
 
 // PUT /api/details/:id — update detail
-router.put('/:id', requireRole('admin', 'editor') as any, async (req: AuthenticatedRequest, res: Response) => {
+router.put('/:id', requireRole('admin', 'editor') as any, validateBody(updateDetailSchema), async (req: AuthenticatedRequest, res: Response) => {
   try {
-    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+    if (!req.tenant || !req.user) { res.status(401).json({ error: 'No tenant/user' }); return; }
+    const userId = req.user.userId;
 
-    const { name, category, description, metadata } = req.body;
+    const { name, category, description, metadata }: UpdateDetailRequest = req.body;
     const sets: string[] = [];
     const vals: unknown[] = [];
     let idx = 1;
 
-    if (name) { sets.push(`name = $${idx++}`); vals.push(name); }
-    if (category) { sets.push(`category = $${idx++}`); vals.push(category); }
+    if (name !== undefined) { sets.push(`name = $${idx++}`); vals.push(name); }
+    if (category !== undefined) { sets.push(`category = $${idx++}`); vals.push(category); }
     if (description !== undefined) { sets.push(`description = $${idx++}`); vals.push(description); }
-    if (metadata) { sets.push(`metadata_json = $${idx++}`); vals.push(JSON.stringify(metadata)); }
+    if (metadata !== undefined) { sets.push(`metadata_json = $${idx++}`); vals.push(JSON.stringify(metadata)); }
     sets.push(`updated_at = NOW()`);
     vals.push(req.params.id);
 
-    const result = await queryWithSchema(req.tenant.schemaName,
-      `UPDATE details SET ${sets.join(', ')} WHERE id = $${idx} RETURNING *`, vals);
+    const result = await transactionWithSchema(req.tenant.schemaName, async (client) => {
+      await ensureBaselineRevision(client, req.params.id);
+      const before = await loadDetailSnapshot(client, req.params.id, true);
+      const updated = await client.query(
+        `UPDATE details SET ${sets.join(', ')} WHERE id = $${idx} RETURNING *`, vals);
+      if (updated.rows.length > 0) {
+        const revision = await recordRevision(client, req.params.id, userId, 'Updated detail');
+        await recordAudit(client, req, {
+          action: 'detail.updated', entityType: 'detail', entityId: req.params.id, before, after: revision?.snapshot,
+        });
+        await queueWebhookEvent(client, req, 'detail.updated', {
+          detailId: req.params.id, revision: revision?.revisionNumber ?? null, detail: revision?.snapshot,
+        });
+      }
+      return updated;
+    });
 
     if (result.rows.length === 0) {
       res.status(404).json({ error: 'Detail not found.' });
@@ -128,8 +343,18 @@ router.delete('/:id', requireRole('admin') as any, async (req: AuthenticatedRequ
   try {
     if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
 
-    const result = await queryWithSchema(req.tenant.schemaName,
-      'DELETE FROM details WHERE id = $1 RETURNING id', [req.params.id]);
+    const result = await transactionWithSchema(req.tenant.schemaName, async (client) => {
+      const before = await loadDetailSnapshot(client, req.params.id, true);
+      const deleted = await client.query('DELETE FROM details WHERE id = $1 RETURNING id', [req.params.id]);
+      if (deleted.rows.length > 0) {
+        await client.query(
+          'UPDATE projects SET detail_ids = array_remove(detail_ids, $1::uuid) WHERE $1::uuid = ANY(detail_ids)',
+          [req.params.id]);
+        await recordAudit(client, req, { action: 'detail.deleted', entityType: 'detail', entityId: req.params.id, before });
+        await queueWebhookEvent(client, req, 'detail.deleted', { detailId: req.params.id, detail: before });
+      }
+      return deleted;
+    });
 
     if (result.rows.length === 0) {
       res.status(404).json({ error: 'Detail not found.' });
@@ -158,76 +383,278 @@ router.get('/:id/layers', async (req: AuthenticatedRequest, res: Response) => {
   }
 });
 
-// PUT /api/details/:id/layers — update layer visibility/order
-router.put('/:id/layers', requireRole('admin', 'editor') as any, async (req: AuthenticatedRequest, res: Response) => {
+interface ExportContext {
+  detailId: string;
+  revision: number | null;
+  exploded: boolean;
+  scale: number;
+  fileName: string;
+  organization: string;
+}
+
+// 3D models are glTF and IFC; svg and dxf are 2D section drawings
+const EXPORTERS: Record<DetailExportFormat, { contentType: string; render: (snapshot: DetailSnapshot, ctx: ExportContext) => Buffer | string }> = {
+  glb: {
+    contentType: 'model/gltf-binary',
+    render: (snapshot, ctx) => {
+      const { json, bin } = buildDetailGltf(snapshot, ctx);
+      return encodeGlb(json, bin);
+    },
+  },
+  gltf: {
+    contentType: 'model/gltf+json',
+    render: (snapshot, ctx) => {
+      const { json, bin } = buildDetailGltf(snapshot, ctx);
+      return JSON.stringify(embedBuffer(json, bin));
+    },
+  },
+  ifc: {
+    contentType: 'application/x-step',
+    render: (snapshot, ctx) => buildDetailIfc(snapshot, ctx),
+  },
+  svg: {
+    contentType: 'image/svg+xml; charset=utf-8',
+    render: (snapshot, ctx) => renderSvg(buildSectionDrawing(snapshot, ctx)),
+  },
+  dxf: {
+    contentType: 'image/vnd.dxf',
+    render: (snapshot, ctx) => renderDxf(buildSectionDrawing(snapshot, ctx)),
+  },
+};
+const EXPORT_FORMATS = Object.keys(EXPORTERS) as DetailExportFormat[];
+
+/** Detail name as a safe download filename, e.g. "Parapet Wall (Type A)" → "parapet-wall-type-a.glb" */
+function exportFilename(name: string, extension: string): string {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 80);
+  return `${base || 'detail'}.${extension}`;
+}
+
+// GET /api/details/:id/export?format=glb|gltf|ifc|svg|dxf[&revision=n][&exploded=true][&scale=n] — the detail as a download
+router.get('/:id/export', requireFeature('exports') as any, async (req: AuthenticatedRequest, res: Response) => {
   try {
     if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+    if (!isUuid(req.params.id)) { res.status(404).json({ error: 'Detail not found.' }); return; }
 
-    const { layers } = req.body;
-    if (!layers || !Array.isArray(layers)) {
-      res.status(400).json({ error: 'Layers array required.' });
+    const format = String(req.query.format || 'glb') as DetailExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      res.status(400).json({ error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` });
+      return;
+    }
+    const revision = req.query.revision === undefined ? null : Number(req.query.revision);
+    if (revision !== null && (!Number.isInteger(revision) || revision < 1)) {
+      res.status(400).json({ error: 'revision must be a positive integer' });
+      return;
+    }
+    const scale = req.query.scale === undefined ? DEFAULT_DRAWING_SCALE : Number(req.query.scale);
+    if (!DRAWING_SCALES.includes(scale)) {
+      res.status(400).json({ error: `scale must be one of: ${DRAWING_SCALES.join(', ')}` });
       return;
     }
 
-    for (const layer of layers) {
-      const sets: string[] = [];
-      const vals: unknown[] = [];
-      let idx = 1;
+    // One transaction so the detail and its layers are read at the same moment
+    const snapshot = await transactionWithSchema(req.tenant.schemaName, async (client): Promise<DetailSnapshot | null> => {
+      if (revision === null) return loadDetailSnapshot(client, req.params.id);
+      const result = await client.query(
+        'SELECT snapshot_json FROM detail_revisions WHERE original_detail_id = $1 AND revision_number = $2', [req.params.id, revision]);
+      return result.rows[0]?.snapshot_json ?? null;
+    });
+    if (!snapshot) {
+      res.status(404).json({ error: revision === null ? 'Detail not found.' : 'Revision not found.' });
+      return;
+    }
+
+    const fileName = exportFilename(snapshot.detail.name, format);
+    const exporter = EXPORTERS[format];
+    const body = exporter.render(snapshot, {
+      detailId: req.params.id, revision, exploded: req.query.exploded === 'true', scale, fileName, organization: req.tenant.slug,
+    });
+
+    res.setHeader('Content-Type', exporter.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.send(body);
+  } catch (err) {
+    console.error('[details/export]', err);
+    res.status(500).json({ error: 'Failed to export detail.' });
+  }
+});
 
-      if (layer.orderIndex !== undefined) { sets.push(`order_index = $${idx++}`); vals.push(layer.orderIndex); }
-      if (layer.visibleDefault !== undefined) { sets.push(`visible_default = $${idx++}`); vals.push(layer.visibleDefault); }
-      if (layer.color) { sets.push(`color = $${idx++}`); vals.push(layer.color); }
+/**
+ * Bump the detail's updated_at, store the new state as a revision, audit the
+ * change and tell webhooks the detail was updated. Runs inside the layer
+ * write's transaction.
+ */
+async function recordLayerChange(
+  client: Queryable,
+  req: AuthenticatedRequest,
+  detailId: string,
+  before: DetailSnapshot,
+  summary: string,
+  action: string,
+) {
+  await client.query('UPDATE details SET updated_at = NOW() WHERE id = $1', [detailId]);
+  const revision = await recordRevision(client, detailId, req.user!.userId, summary);
+  await recordAudit(client, req, {
+    action, entityType: 'detail', entityId: detailId, before, after: revision?.snapshot,
+  });
+  await queueWebhookEvent(client, req, 'detail.updated', {
+    detailId, revision: revision?.revisionNumber ?? null, detail: revision?.snapshot,
+  });
+}
 
-      if (sets.length > 0) {
-        vals.push(layer.id);
-        await queryWithSchema(req.tenant.schemaName,
-          `UPDATE layers SET ${sets.join(', ')} WHERE id = $${idx}`, vals);
+// PUT /api/details/:id/layers — edit several layers at once (any layer field; orderIndex is written as given)
+router.put('/:id/layers', requireRole('admin', 'editor') as any, validateBody(updateLayersSchema), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant || !req.user) { res.status(401).json({ error: 'No tenant/user' }); return; }
+    if (!isUuid(req.params.id)) { res.status(404).json({ error: 'Detail not found.' }); return; }
+
+    const { layers }: UpdateLayersRequest = req.body;
+    const updates = layers.map(({ id, ...input }) => ({ id, input }));
+
+    const detailId = req.params.id;
+    const outcome = await transactionWithSchema(req.tenant.schemaName, async (client) => {
+      await ensureBaselineRevision(client, detailId);
+      const before = await loadDetailSnapshot(client, detailId, true);
+      if (!before) return { status: 404 as const, error: 'Detail not found.' };
+
+      // Refuse the whole batch before writing anything
+      const known = new Set(before.layers.map(l => l.id));
+      const unknown = updates.find(u => !known.has(u.id));
+      if (unknown) return { status: 404 as const, error: `Layer ${unknown.id} not found.` };
+      const productIds = updates.map(u => u.input.productId).filter((id): id is string => !!id);
+      const missing = await findMissingProducts(client, productIds);
+      if (missing.length > 0) return { status: 400 as const, error: `Product ${missing[0]} not found.` };
+
+      for (const { id, input } of updates) {
+        const updated = await updateLayer(client, detailId, id, input, { reorder: false });
+        if (updated && 'error' in updated) throw new Error(updated.error);
       }
-    }
 
-    // Return updated layers
-    const result = await queryWithSchema(req.tenant.schemaName,
-      'SELECT * FROM layers WHERE detail_id = $1 ORDER BY order_index', [req.params.id]);
+      await recordLayerChange(client, req, detailId, before, 'Updated layers', 'detail.layers_updated');
 
-    res.json({ layers: result.rows.map(rowToLayer) });
+      const result = await client.query(
+        'SELECT * FROM layers WHERE detail_id = $1 ORDER BY order_index', [detailId]);
+      return { status: 200 as const, layers: result.rows.map(rowToLayer) };
+    });
+
+    if (outcome.status !== 200) {
+      res.status(outcome.status).json({ error: outcome.error });
+      return;
+    }
+
+    res.json({ layers: outcome.layers });
   } catch (err) {
     console.error('[details/layers/update]', err);
     res.status(500).json({ error: 'Failed to update layers.' });
   }
 });
 
-function rowToDetail(row: any) {
-  return {
-    id: row.id,
-    name: row.name,
-    category: row.category,
-    description: row.description,
-    metadata: row.metadata_json,
-    createdBy: row.created_by,
-    createdAt: row.created_at,
-    updatedAt: row.updated_at,
-    layerCount: row.layer_count,
-    creatorName: row.creator_name,
-    layers: undefined as any,
-  };
-}
+// POST /api/details/:id/layers — add a layer (appended, or inserted at orderIndex)
+router.post('/:id/layers', requireRole('admin', 'editor') as any, validateBody(createLayerSchema), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant || !req.user) { res.status(401).json({ error: 'No tenant/user' }); return; }
+    if (!isUuid(req.params.id)) { res.status(404).json({ error: 'Detail not found.' }); return; }
+
+    const input: LayerInput = req.body;
+    const detailId = req.params.id;
+    const outcome = await transactionWithSchema(req.tenant.schemaName, async (client) => {
+      await ensureBaselineRevision(client, detailId);
+      const before = await loadDetailSnapshot(client, detailId, true);
+      if (!before) return { status: 404 as const, error: 'Detail not found.' };
+
+      const inserted = await insertLayer(client, detailId, input);
+      if ('error' in inserted) return { status: 400 as const, error: inserted.error };
+
+      await recordLayerChange(client, req, detailId, before, `Added layer "${inserted.row.name}"`, 'detail.layer_added');
+      return { status: 201 as const, layer: rowToLayer(inserted.row) };
+    });
 
-function rowToLayer(row: any) {
-  return {
-    id: row.id,
-    detailId: row.detail_id,
-    name: row.name,
-    orderIndex: row.order_index,
-    color: row.color,
-    materialType: row.material_type,
-    thicknessMm: row.thickness_mm,
-    productName: row.product_name,
-    manufacturer: row.manufacturer,
-    csiSection: row.csi_section,
-    geometryParams: row.geometry_params_json,
-    visibleDefault: row.visible_default,
-    createdAt: row.created_at,
+    if (outcome.status !== 201) {
+      res.status(outcome.status).json({ error: outcome.error });
+      return;
+    }
+
+    res.status(201).json({ layer: outcome.layer });
+  } catch (err) {
+    console.error('[details/layers/create]', err);
+    res.status(500).json({ error: 'Failed to add layer.' });
+  }
+});
+
+// Shared by PUT (replace every field) and PATCH (change only the fields sent); the body is validated by the route
+function layerUpdateHandler(mode: 'replace' | 'patch') {
+  return async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.tenant || !req.user) { res.status(401).json({ error: 'No tenant/user' }); return; }
+      if (!isUuid(req.params.id) || !isUuid(req.params.layerId)) {
+        res.status(404).json({ error: 'Layer not found.' });
+        return;
+      }
+
+      const input: LayerInput = req.body;
+      const { id: detailId, layerId } = req.params;
+      const outcome = await transactionWithSchema(req.tenant.schemaName, async (client) => {
+        await ensureBaselineRevision(client, detailId);
+        const before = await loadDetailSnapshot(client, detailId, true);
+        if (!before) return { status: 404 as const, error: 'Layer not found.' };
+
+        const updated = await updateLayer(client, detailId, layerId, input, { replace: mode === 'replace' });
+        if (!updated) return { status: 404 as const, error: 'Layer not found.' };
+        if ('error' in updated) return { status: 400 as const, error: updated.error };
+
+        await recordLayerChange(client, req, detailId, before, `Edited layer "${updated.row.name}"`, 'detail.layer_updated');
+        return { status: 200 as const, layer: rowToLayer(updated.row) };
+      });
+
+      if (outcome.status !== 200) {
+        res.status(outcome.status).json({ error: outcome.error });
+        return;
+      }
+
+      res.json({ layer: outcome.layer });
+    } catch (err) {
+      console.error(`[details/layers/${mode}]`, err);
+      res.status(500).json({ error: 'Failed to update layer.' });
+    }
   };
 }
 
+// PUT /api/details/:id/layers/:layerId — replace a layer (omitted optional fields are cleared)
+router.put('/:id/layers/:layerId', requireRole('admin', 'editor') as any, validateBody(createLayerSchema), layerUpdateHandler('replace'));
+
+// PATCH /api/details/:id/layers/:layerId — edit some fields of a layer
+router.patch('/:id/layers/:layerId', requireRole('admin', 'editor') as any, validateBody(updateLayerSchema), layerUpdateHandler('patch'));
+
+// DELETE /api/details/:id/layers/:layerId — remove a layer
+router.delete('/:id/layers/:layerId', requireRole('admin', 'editor') as any, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant || !req.user) { res.status(401).json({ error: 'No tenant/user' }); return; }
+    if (!isUuid(req.params.id) || !isUuid(req.params.layerId)) {
+      res.status(404).json({ error: 'Layer not found.' });
+      return;
+    }
+
+    const { id: detailId, layerId } = req.params;
+    const found = await transactionWithSchema(req.tenant.schemaName, async (client) => {
+      await ensureBaselineRevision(client, detailId);
+      const before = await loadDetailSnapshot(client, detailId, true);
+      const layer = before?.layers.find(l => l.id === layerId);
+      if (!before || !layer) return false;
+
+      await deleteLayer(client, detailId, layerId);
+      await recordLayerChange(client, req, detailId, before, `Removed layer "${layer.name}"`, 'detail.layer_deleted');
+      return true;
+    });
+
+    if (!found) {
+      res.status(404).json({ error: 'Layer not found.' });
+      return;
+    }
+
+    res.json({ deleted: true });
+  } catch (err) {
+    console.error('[details/layers/delete]', err);
+    res.status(500).json({ error: 'Failed to delete layer.' });
+  }
+});
+
 export default router;
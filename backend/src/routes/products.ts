@@ -1,26 +1,269 @@
-import { Router, Response } from 'express';
-import { queryWithSchema } from '../db/connection.js';
-import { authMiddleware } from '../middleware/auth.js';
+import express, { Router, Response } from 'express';
+import { queryWithSchema, transactionWithSchema } from '../db/connection.js';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+import { validateBody } from '../middleware/validate.js';
+import { logAudit, recordAudit } from '../services/audit.js';
+import { parseCsvRecords } from '../services/csv.js';
+import {
+  catalogIdFor, defaultCsiSection, normalizeProductType, rowToProduct, syncLinkedLayers,
+} from '../services/products.js';
+import { ensureBaselineRevision, recordRevision } from '../services/revisions.js';
+import { isUuid } from '../utils/ids.js';
+import { createProductSchema, updateProductSchema } from '../../../shared/validation/index.js';
 import type { AuthenticatedRequest } from '../types/express.js';
+import type { CreateProductRequest, UpdateProductRequest } from '../../../shared/types/product.js';
 
 const router = Router();
 
 router.use(authMiddleware as any);
 
-// GET /api/products — product catalog for tenant
+// GET /api/products — product catalog for tenant (?q=, ?manufacturer=, ?type=)
 router.get('/', async (req: AuthenticatedRequest, res: Response) => {
   try {
     if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
 
+    const where: string[] = [];
+    const vals: unknown[] = [];
+    if (req.query.q) { vals.push(`%${req.query.q}%`); where.push(`(name ILIKE $${vals.length} OR manufacturer ILIKE $${vals.length})`); }
+    if (req.query.manufacturer) { vals.push(req.query.manufacturer); where.push(`manufacturer = $${vals.length}`); }
+    if (req.query.type) { vals.push(req.query.type); where.push(`product_type = $${vals.length}`); }
+
     const result = await queryWithSchema(req.tenant.schemaName,
-      'SELECT * FROM products ORDER BY manufacturer, name'
+      `SELECT * FROM products ${where.length ? `WHERE ${where.join(' AND ')}` : ''} ORDER BY manufacturer, name`,
+      vals
     );
 
-    res.json({ products: result.rows });
+    res.json({ products: result.rows.map(rowToProduct) });
   } catch (err) {
     console.error('[products/list]', err);
     res.status(500).json({ error: 'Failed to list products.' });
   }
 });
 
+// POST /api/products/import — bulk upsert from CSV (Manufacturer, Product_Name, Type, ...)
+router.post('/import',
+  requireRole('admin', 'editor') as any,
+  express.text({ type: ['text/csv', 'text/plain'], limit: '5mb' }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+
+      if (typeof req.body !== 'string' || req.body.trim() === '') {
+        res.status(400).json({ error: 'CSV body required (Content-Type: text/csv).' });
+        return;
+      }
+
+      const records = parseCsvRecords(req.body);
+      const errors: { row: number; message: string }[] = [];
+      let created = 0;
+      let updated = 0;
+
+      await transactionWithSchema(req.tenant.schemaName, async (client) => {
+        for (const [i, record] of records.entries()) {
+          const row = i + 2; // header is row 1
+          const name = record.product_name || record.name;
+          const manufacturer = record.manufacturer || null;
+          if (!name) {
+            errors.push({ row, message: 'Missing Product_Name.' });
+            continue;
+          }
+
+          // Blank Type and CSI_Section cells keep what an existing product
+          // already has; the generic type and its default section only fill
+          // in new products
+          const typeCell = (record.type || record.product_type || '').trim();
+          const productType = typeCell ? normalizeProductType(typeCell) : null;
+          const newProductType = productType ?? normalizeProductType('');
+          const csiSection = record.csi_section?.trim() || null;
+
+          const result = await client.query(
+            `INSERT INTO products (catalog_id, name, manufacturer, product_type, csi_section, description, source_url)
+             VALUES ($1, $2, $3, COALESCE($4, $9), COALESCE($5, $8), $6, $7)
+             ON CONFLICT (catalog_id) DO UPDATE SET
+               product_type = COALESCE($4, products.product_type),
+               csi_section = COALESCE($5, products.csi_section),
+               description = CASE WHEN EXCLUDED.description = '' THEN products.description ELSE EXCLUDED.description END,
+               source_url = COALESCE(EXCLUDED.source_url, products.source_url),
+               updated_at = NOW()
+             RETURNING (xmax = 0) AS inserted`,
+            [catalogIdFor(manufacturer, name), name, manufacturer, productType, csiSection,
+             record.description || '', record.source_url || null, defaultCsiSection(newProductType), newProductType]
+          );
+
+          if (result.rows[0].inserted) created++;
+          else updated++;
+        }
+
+        await recordAudit(client, req, {
+          action: 'product.imported', entityType: 'product',
+          after: { rows: records.length, created, updated, skipped: errors.length },
+        });
+      });
+
+      res.json({ created, updated, skipped: errors.length, errors });
+    } catch (err) {
+      console.error('[products/import]', err);
+      res.status(500).json({ error: 'Failed to import products.' });
+    }
+  }
+);
+
+// GET /api/products/:id — single product with the number of layers using it
+router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+    if (!isUuid(req.params.id)) { res.status(404).json({ error: 'Product not found.' }); return; }
+
+    const result = await queryWithSchema(req.tenant.schemaName,
+      `SELECT p.*, (SELECT COUNT(*) FROM layers WHERE product_id = p.id) as layer_count
+       FROM products p WHERE p.id = $1`,
+      [req.params.id]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Product not found.' });
+      return;
+    }
+
+    res.json({ product: rowToProduct(result.rows[0]) });
+  } catch (err) {
+    console.error('[products/get]', err);
+    res.status(500).json({ error: 'Failed to get product.' });
+  }
+});
+
+// POST /api/products — create product
+router.post('/', requireRole('admin', 'editor') as any, validateBody(createProductSchema), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+
+    const {
+      name, manufacturer, productType, csiSection, description, thicknessRange, applicationNotes, sourceUrl,
+    }: CreateProductRequest = req.body;
+
+    const type = normalizeProductType(productType || '');
+    const result = await queryWithSchema(req.tenant.schemaName,
+      `INSERT INTO products (catalog_id, name, manufacturer, product_type, csi_section, description, thickness_range, application_notes, source_url)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       ON CONFLICT (catalog_id) DO NOTHING
+       RETURNING *`,
+      [catalogIdFor(manufacturer, name), name, manufacturer || null, type, csiSection || defaultCsiSection(type),
+       description || '', thicknessRange || null, applicationNotes || '', sourceUrl || null]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(409).json({ error: 'A product with this manufacturer and name already exists.' });
+      return;
+    }
+
+    const product = rowToProduct(result.rows[0]);
+    await logAudit(req.tenant.schemaName, req, { action: 'product.created', entityType: 'product', entityId: product.id, after: product });
+
+    res.status(201).json({ product });
+  } catch (err) {
+    console.error('[products/create]', err);
+    res.status(500).json({ error: 'Failed to create product.' });
+  }
+});
+
+// PUT /api/products/:id — update product; renames propagate to every linked layer
+router.put('/:id', requireRole('admin', 'editor') as any, validateBody(updateProductSchema), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant || !req.user) { res.status(401).json({ error: 'No tenant/user' }); return; }
+    if (!isUuid(req.params.id)) { res.status(404).json({ error: 'Product not found.' }); return; }
+    const userId = req.user.userId;
+
+    const {
+      name, manufacturer, productType, csiSection, description, thicknessRange, applicationNotes, sourceUrl,
+    }: UpdateProductRequest = req.body;
+
+    const outcome = await transactionWithSchema(req.tenant.schemaName, async (client) => {
+      const current = await client.query('SELECT * FROM products WHERE id = $1 FOR UPDATE', [req.params.id]);
+      if (current.rows.length === 0) return { status: 404 as const };
+      const before = current.rows[0];
+
+      const nextName = name || before.name;
+      const nextManufacturer = manufacturer !== undefined ? (manufacturer || null) : before.manufacturer;
+      const catalogId = catalogIdFor(nextManufacturer, nextName);
+
+      if (catalogId !== before.catalog_id) {
+        const clash = await client.query('SELECT 1 FROM products WHERE catalog_id = $1 AND id <> $2', [catalogId, before.id]);
+        if (clash.rows.length > 0) return { status: 409 as const };
+      }
+
+      // Details whose layers pick up the new name get a revision before and after
+      const linked = await client.query('SELECT DISTINCT detail_id FROM layers WHERE product_id = $1', [before.id]);
+      const renamed = nextName !== before.name || nextManufacturer !== before.manufacturer;
+      if (renamed) {
+        for (const row of linked.rows) await ensureBaselineRevision(client, row.detail_id);
+      }
+
+      const updated = await client.query(
+        `UPDATE products SET catalog_id = $1, name = $2, manufacturer = $3,
+           product_type = COALESCE($4, product_type), csi_section = COALESCE($5, csi_section),
+           description = COALESCE($6, description), thickness_range = COALESCE($7, thickness_range),
+           application_notes = COALESCE($8, application_notes), source_url = COALESCE($9, source_url),
+           updated_at = NOW()
+         WHERE id = $10 RETURNING *`,
+        [catalogId, nextName, nextManufacturer, productType ? normalizeProductType(productType) : null,
+         csiSection ?? null, description ?? null, thicknessRange ?? null, applicationNotes ?? null, sourceUrl ?? null, before.id]
+      );
+
+      const affected = await syncLinkedLayers(client, before.id);
+      for (const detailId of affected) {
+        await client.query('UPDATE details SET updated_at = NOW() WHERE id = $1', [detailId]);
+        await recordRevision(client, detailId, userId, nextName !== before.name
+          ? `Product "${before.name}" renamed to "${nextName}"`
+          : `Product "${nextName}" manufacturer changed`);
+      }
+
+      await recordAudit(client, req, {
+        action: 'product.updated', entityType: 'product', entityId: before.id,
+        before: rowToProduct(before), after: { ...rowToProduct(updated.rows[0]), affectedDetails: affected },
+      });
+
+      return { status: 200 as const, product: updated.rows[0], affectedDetails: affected.length };
+    });
+
+    if (outcome.status === 404) {
+      res.status(404).json({ error: 'Product not found.' });
+      return;
+    }
+    if (outcome.status === 409) {
+      res.status(409).json({ error: 'A product with this manufacturer and name already exists.' });
+      return;
+    }
+
+    res.json({ product: rowToProduct(outcome.product), affectedDetails: outcome.affectedDetails });
+  } catch (err) {
+    console.error('[products/update]', err);
+    res.status(500).json({ error: 'Failed to update product.' });
+  }
+});
+
+// DELETE /api/products/:id — delete product; linked layers keep their text and lose the link
+router.delete('/:id', requireRole('admin') as any, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+    if (!isUuid(req.params.id)) { res.status(404).json({ error: 'Product not found.' }); return; }
+
+    const result = await queryWithSchema(req.tenant.schemaName,
+      'DELETE FROM products WHERE id = $1 RETURNING *', [req.params.id]);
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Product not found.' });
+      return;
+    }
+
+    await logAudit(req.tenant.schemaName, req, {
+      action: 'product.deleted', entityType: 'product', entityId: req.params.id, before: rowToProduct(result.rows[0]),
+    });
+
+    res.json({ deleted: true });
+  } catch (err) {
+    console.error('[products/delete]', err);
+    res.status(500).json({ error: 'Failed to delete product.' });
+  }
+});
+
 export default router;
@@ -0,0 +1,329 @@
+import { Router, Response } from 'express';
+import { queryWithSchema, transactionWithSchema } from '../db/connection.js';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+import { validateBody } from '../middleware/validate.js';
+import { recordAudit } from '../services/audit.js';
+import { rowToDetail } from '../services/details.js';
+import { checkQuota } from '../services/plans.js';
+import { queueWebhookEvent } from '../services/webhooks.js';
+import { isUuid } from '../utils/ids.js';
+import {
+  addProjectDetailSchema, createProjectSchema, setProjectDetailsSchema, updateProjectSchema,
+} from '../../../shared/validation/index.js';
+import type { AuthenticatedRequest } from '../types/express.js';
+import type {
+  AddProjectDetailRequest, CreateProjectRequest, SetProjectDetailsRequest, UpdateProjectRequest,
+} from '../../../shared/types/project.js';
+
+const router = Router();
+
+router.use(authMiddleware as any);
+
+// GET /api/projects — list projects for tenant
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+
+    const result = await queryWithSchema(req.tenant.schemaName,
+      `SELECT p.*, u.name as creator_name
+       FROM projects p
+       LEFT JOIN users u ON p.created_by = u.id
+       ORDER BY p.updated_at DESC`
+    );
+
+    res.json({ projects: result.rows.map(rowToProject) });
+  } catch (err) {
+    console.error('[projects/list]', err);
+    res.status(500).json({ error: 'Failed to list projects.' });
+  }
+});
+
+// GET /api/projects/:id — project with its details in project order
+router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+    if (!isUuid(req.params.id)) { res.status(404).json({ error: 'Project not found.' }); return; }
+
+    const projectResult = await queryWithSchema(req.tenant.schemaName,
+      'SELECT * FROM projects WHERE id = $1', [req.params.id]);
+
+    if (projectResult.rows.length === 0) {
+      res.status(404).json({ error: 'Project not found.' });
+      return;
+    }
+
+    const project = projectResult.rows[0];
+    const detailResult = await queryWithSchema(req.tenant.schemaName,
+      `SELECT d.*, u.name as creator_name,
+       (SELECT COUNT(*) FROM layers WHERE detail_id = d.id) as layer_count
+       FROM unnest($1::uuid[]) WITH ORDINALITY AS m(detail_id, position)
+       JOIN details d ON d.id = m.detail_id
+       LEFT JOIN users u ON d.created_by = u.id
+       ORDER BY m.position`,
+      [project.detail_ids]
+    );
+
+    res.json({ project: { ...rowToProject(project), details: detailResult.rows.map(rowToDetail) } });
+  } catch (err) {
+    console.error('[projects/get]', err);
+    res.status(500).json({ error: 'Failed to get project.' });
+  }
+});
+
+// POST /api/projects — create project
+router.post('/', requireRole('admin', 'editor') as any, validateBody(createProjectSchema), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant || !req.user) { res.status(401).json({ error: 'No tenant/user' }); return; }
+
+    const { name, clientName, detailIds }: CreateProjectRequest = req.body;
+    const ids = detailIds ?? [];
+    const invalid = await findInvalidDetailIds(req.tenant.schemaName, ids);
+    if (invalid) {
+      res.status(400).json({ error: invalid });
+      return;
+    }
+
+    const tenant = req.tenant;
+    const userId = req.user.userId;
+    const outcome = await transactionWithSchema(tenant.schemaName, async (client) => {
+      const quotaError = await checkQuota(client, tenant, 'projects');
+      if (quotaError) return { status: 402 as const, body: quotaError };
+
+      const result = await client.query(
+        `INSERT INTO projects (name, client_name, detail_ids, created_by)
+         VALUES ($1, $2, $3, $4) RETURNING *`,
+        [name, clientName || null, ids, userId]
+      );
+      const project = rowToProject(result.rows[0]);
+      await recordAudit(client, req, { action: 'project.created', entityType: 'project', entityId: project.id, after: project });
+      await queueWebhookEvent(client, req, 'project.created', { projectId: project.id, project });
+      return { status: 201 as const, project };
+    });
+
+    if (outcome.status === 402) {
+      res.status(402).json(outcome.body);
+      return;
+    }
+
+    res.status(201).json({ project: outcome.project });
+  } catch (err) {
+    console.error('[projects/create]', err);
+    res.status(500).json({ error: 'Failed to create project.' });
+  }
+});
+
+// PUT /api/projects/:id — update project name/client
+router.put('/:id', requireRole('admin', 'editor') as any, validateBody(updateProjectSchema), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+    if (!isUuid(req.params.id)) { res.status(404).json({ error: 'Project not found.' }); return; }
+
+    const { name, clientName }: UpdateProjectRequest = req.body;
+    const sets: string[] = [];
+    const vals: unknown[] = [];
+    let idx = 1;
+
+    if (name !== undefined) { sets.push(`name = $${idx++}`); vals.push(name); }
+    if (clientName !== undefined) { sets.push(`client_name = $${idx++}`); vals.push(clientName || null); }
+    sets.push(`updated_at = NOW()`);
+    vals.push(req.params.id);
+
+    const project = await transactionWithSchema(req.tenant.schemaName, async (client) => {
+      const before = await client.query('SELECT * FROM projects WHERE id = $1 FOR UPDATE', [req.params.id]);
+      if (before.rows.length === 0) return null;
+      const updated = await client.query(
+        `UPDATE projects SET ${sets.join(', ')} WHERE id = $${idx} RETURNING *`, vals);
+      const after = rowToProject(updated.rows[0]);
+      await recordAudit(client, req, {
+        action: 'project.updated', entityType: 'project', entityId: req.params.id,
+        before: rowToProject(before.rows[0]), after,
+      });
+      await queueWebhookEvent(client, req, 'project.updated', { projectId: req.params.id, project: after });
+      return updated.rows[0];
+    });
+
+    if (!project) {
+      res.status(404).json({ error: 'Project not found.' });
+      return;
+    }
+
+    res.json({ project: rowToProject(project) });
+  } catch (err) {
+    console.error('[projects/update]', err);
+    res.status(500).json({ error: 'Failed to update project.' });
+  }
+});
+
+// DELETE /api/projects/:id — delete project (details are kept)
+router.delete('/:id', requireRole('admin') as any, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+    if (!isUuid(req.params.id)) { res.status(404).json({ error: 'Project not found.' }); return; }
+
+    const result = await transactionWithSchema(req.tenant.schemaName, async (client) => {
+      const deleted = await client.query('DELETE FROM projects WHERE id = $1 RETURNING *', [req.params.id]);
+      if (deleted.rows.length > 0) {
+        const before = rowToProject(deleted.rows[0]);
+        await recordAudit(client, req, { action: 'project.deleted', entityType: 'project', entityId: req.params.id, before });
+        await queueWebhookEvent(client, req, 'project.deleted', { projectId: req.params.id, project: before });
+      }
+      return deleted;
+    });
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Project not found.' });
+      return;
+    }
+
+    res.json({ deleted: true });
+  } catch (err) {
+    console.error('[projects/delete]', err);
+    res.status(500).json({ error: 'Failed to delete project.' });
+  }
+});
+
+// PUT /api/projects/:id/details — replace membership; array order is display order
+router.put('/:id/details', requireRole('admin', 'editor') as any, validateBody(setProjectDetailsSchema), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+    if (!isUuid(req.params.id)) { res.status(404).json({ error: 'Project not found.' }); return; }
+
+    const { detailIds }: SetProjectDetailsRequest = req.body;
+
+    const invalid = await findInvalidDetailIds(req.tenant.schemaName, detailIds);
+    if (invalid) {
+      res.status(400).json({ error: invalid });
+      return;
+    }
+
+    const project = await transactionWithSchema(req.tenant.schemaName, async (client) => {
+      const current = await client.query('SELECT detail_ids FROM projects WHERE id = $1 FOR UPDATE', [req.params.id]);
+      if (current.rows.length === 0) return null;
+      const updated = await client.query(
+        'UPDATE projects SET detail_ids = $1, updated_at = NOW() WHERE id = $2 RETURNING *',
+        [detailIds, req.params.id]
+      );
+      await recordAudit(client, req, {
+        action: 'project.details_updated', entityType: 'project', entityId: req.params.id,
+        before: { detailIds: current.rows[0].detail_ids }, after: { detailIds },
+      });
+      await queueWebhookEvent(client, req, 'project.updated', { projectId: req.params.id, project: rowToProject(updated.rows[0]) });
+      return updated.rows[0];
+    });
+
+    if (!project) {
+      res.status(404).json({ error: 'Project not found.' });
+      return;
+    }
+
+    res.json({ project: rowToProject(project) });
+  } catch (err) {
+    console.error('[projects/details/set]', err);
+    res.status(500).json({ error: 'Failed to update project details.' });
+  }
+});
+
+// POST /api/projects/:id/details — add a detail, optionally at a position
+router.post('/:id/details', requireRole('admin', 'editor') as any, validateBody(addProjectDetailSchema), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+    if (!isUuid(req.params.id)) { res.status(404).json({ error: 'Project not found.' }); return; }
+
+    const { detailId, position }: AddProjectDetailRequest = req.body;
+    const invalid = await findInvalidDetailIds(req.tenant.schemaName, [detailId]);
+    if (invalid) {
+      res.status(400).json({ error: invalid });
+      return;
+    }
+
+    const project = await transactionWithSchema(req.tenant.schemaName, async (client) => {
+      const current = await client.query('SELECT detail_ids FROM projects WHERE id = $1 FOR UPDATE', [req.params.id]);
+      if (current.rows.length === 0) return null;
+
+      const ids: string[] = current.rows[0].detail_ids.filter((id: string) => id !== detailId);
+      const at = Math.min(position ?? ids.length, ids.length);
+      ids.splice(at, 0, detailId);
+
+      const updated = await client.query(
+        'UPDATE projects SET detail_ids = $1, updated_at = NOW() WHERE id = $2 RETURNING *', [ids, req.params.id]);
+      await recordAudit(client, req, {
+        action: 'project.details_updated', entityType: 'project', entityId: req.params.id,
+        before: { detailIds: current.rows[0].detail_ids }, after: { detailIds: ids },
+      });
+      await queueWebhookEvent(client, req, 'project.updated', { projectId: req.params.id, project: rowToProject(updated.rows[0]) });
+      return updated.rows[0];
+    });
+
+    if (!project) {
+      res.status(404).json({ error: 'Project not found.' });
+      return;
+    }
+
+    res.json({ project: rowToProject(project) });
+  } catch (err) {
+    console.error('[projects/details/add]', err);
+    res.status(500).json({ error: 'Failed to add detail to project.' });
+  }
+});
+
+// DELETE /api/projects/:id/details/:detailId — remove a detail from the project
+router.delete('/:id/details/:detailId', requireRole('admin', 'editor') as any, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+    if (!isUuid(req.params.id) || !isUuid(req.params.detailId)) {
+      res.status(404).json({ error: 'Project not found.' });
+      return;
+    }
+
+    const project = await transactionWithSchema(req.tenant.schemaName, async (client) => {
+      const current = await client.query('SELECT detail_ids FROM projects WHERE id = $1 FOR UPDATE', [req.params.id]);
+      if (current.rows.length === 0) return null;
+      const updated = await client.query(
+        `UPDATE projects SET detail_ids = array_remove(detail_ids, $1::uuid), updated_at = NOW()
+         WHERE id = $2 RETURNING *`,
+        [req.params.detailId, req.params.id]
+      );
+      await recordAudit(client, req, {
+        action: 'project.details_updated', entityType: 'project', entityId: req.params.id,
+        before: { detailIds: current.rows[0].detail_ids }, after: { detailIds: updated.rows[0].detail_ids },
+      });
+      await queueWebhookEvent(client, req, 'project.updated', { projectId: req.params.id, project: rowToProject(updated.rows[0]) });
+      return updated.rows[0];
+    });
+
+    if (!project) {
+      res.status(404).json({ error: 'Project not found.' });
+      return;
+    }
+
+    res.json({ project: rowToProject(project) });
+  } catch (err) {
+    console.error('[projects/details/remove]', err);
+    res.status(500).json({ error: 'Failed to remove detail from project.' });
+  }
+});
+
+/** Returns an error message if any id is malformed, duplicated or not a detail in this tenant. */
+async function findInvalidDetailIds(schemaName: string, ids: string[]): Promise<string | null> {
+  if (new Set(ids).size !== ids.length) return 'detailIds must not contain duplicates.';
+  if (ids.length === 0) return null;
+
+  const result = await queryWithSchema(schemaName, 'SELECT id FROM details WHERE id = ANY($1::uuid[])', [ids]);
+  if (result.rows.length !== ids.length) return 'One or more details not found.';
+  return null;
+}
+
+function rowToProject(row: any) {
+  return {
+    id: row.id,
+    name: row.name,
+    clientName: row.client_name,
+    detailIds: row.detail_ids || [],
+    createdBy: row.created_by,
+    creatorName: row.creator_name,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export default router;
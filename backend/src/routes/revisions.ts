@@ -0,0 +1,187 @@
+import { Router, Response } from 'express';
+import { queryWithSchema, transactionWithSchema } from '../db/connection.js';
+import { requireRole } from '../middleware/auth.js';
+import { applySnapshot, diffSnapshots, recordRevision, rowToRevision } from '../services/revisions.js';
+import { loadDetailSnapshot } from '../services/details.js';
+import { recordAudit } from '../services/audit.js';
+import { queueWebhookEvent } from '../services/webhooks.js';
+import type { AuthenticatedRequest } from '../types/express.js';
+
+// Mounted under /api/details/:id/revisions — auth is applied by the details router
+const router = Router({ mergeParams: true });
+
+// GET /api/details/:id/revisions — revision history, newest first, and which one is published
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+
+    const detail = await queryWithSchema(req.tenant.schemaName,
+      'SELECT published_revision FROM details WHERE id = $1', [req.params.id]);
+
+    const result = await queryWithSchema(req.tenant.schemaName,
+      `SELECT r.id, r.detail_id, r.original_detail_id, r.revision_number, r.change_summary, r.created_by, r.created_at,
+       u.name as creator_name
+       FROM detail_revisions r
+       LEFT JOIN users u ON r.created_by = u.id
+       WHERE r.original_detail_id = $1
+       ORDER BY r.revision_number DESC`,
+      [req.params.id]
+    );
+
+    res.json({ revisions: result.rows.map(rowToRevision), publishedRevision: detail.rows[0]?.published_revision ?? null });
+  } catch (err) {
+    console.error('[revisions/list]', err);
+    res.status(500).json({ error: 'Failed to list revisions.' });
+  }
+});
+
+// GET /api/details/:id/revisions/diff?from=1&to=3 — structured diff (to defaults to latest)
+router.get('/diff', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+
+    const from = parseInt(req.query.from as string);
+    const to = req.query.to !== undefined ? parseInt(req.query.to as string) : null;
+    if (isNaN(from) || (to !== null && isNaN(to))) {
+      res.status(400).json({ error: 'Numeric from (and optional to) revision required.' });
+      return;
+    }
+
+    let toNumber = to;
+    if (toNumber === null) {
+      const latest = await queryWithSchema(req.tenant.schemaName,
+        'SELECT MAX(revision_number) AS latest FROM detail_revisions WHERE original_detail_id = $1', [req.params.id]);
+      toNumber = latest.rows[0].latest;
+    }
+
+    const result = await queryWithSchema(req.tenant.schemaName,
+      'SELECT revision_number, snapshot_json FROM detail_revisions WHERE original_detail_id = $1 AND revision_number = ANY($2::int[])',
+      [req.params.id, [from, toNumber]]
+    );
+
+    const fromRow = result.rows.find(r => r.revision_number === from);
+    const toRow = result.rows.find(r => r.revision_number === toNumber);
+
+    if (!fromRow || !toRow) {
+      res.status(404).json({ error: 'Revision not found.' });
+      return;
+    }
+
+    res.json({ diff: diffSnapshots(fromRow.snapshot_json, toRow.snapshot_json, fromRow.revision_number, toRow.revision_number) });
+  } catch (err) {
+    console.error('[revisions/diff]', err);
+    res.status(500).json({ error: 'Failed to diff revisions.' });
+  }
+});
+
+// GET /api/details/:id/revisions/:revision — single revision with its snapshot
+router.get('/:revision', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+
+    const result = await queryWithSchema(req.tenant.schemaName,
+      `SELECT r.*, u.name as creator_name
+       FROM detail_revisions r
+       LEFT JOIN users u ON r.created_by = u.id
+       WHERE r.original_detail_id = $1 AND r.revision_number = $2`,
+      [req.params.id, parseInt(req.params.revision)]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Revision not found.' });
+      return;
+    }
+
+    res.json({ revision: rowToRevision(result.rows[0]) });
+  } catch (err) {
+    console.error('[revisions/get]', err);
+    res.status(500).json({ error: 'Failed to get revision.' });
+  }
+});
+
+// POST /api/details/:id/revisions/:revision/restore — restore an older revision as a new one
+router.post('/:revision/restore', requireRole('admin', 'editor') as any, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant || !req.user) { res.status(401).json({ error: 'No tenant/user' }); return; }
+    const userId = req.user.userId;
+    const revisionNumber = parseInt(req.params.revision);
+
+    const restored = await transactionWithSchema(req.tenant.schemaName, async (client) => {
+      const current = await loadDetailSnapshot(client, req.params.id, true);
+      if (!current) return null;
+
+      const source = await client.query(
+        'SELECT snapshot_json FROM detail_revisions WHERE original_detail_id = $1 AND revision_number = $2',
+        [req.params.id, revisionNumber]
+      );
+      if (source.rows.length === 0) return null;
+
+      await applySnapshot(client, req.params.id, source.rows[0].snapshot_json);
+      const revision = await recordRevision(client, req.params.id, userId, `Restored revision ${revisionNumber}`);
+      await recordAudit(client, req, {
+        action: 'detail.restored', entityType: 'detail', entityId: req.params.id, before: current, after: revision?.snapshot,
+      });
+      await queueWebhookEvent(client, req, 'detail.updated', {
+        detailId: req.params.id, revision: revision?.revisionNumber ?? null, detail: revision?.snapshot,
+      });
+      return revision;
+    });
+
+    if (!restored) {
+      res.status(404).json({ error: 'Detail or revision not found.' });
+      return;
+    }
+
+    res.json({ revision: restored });
+  } catch (err) {
+    console.error('[revisions/restore]', err);
+    res.status(500).json({ error: 'Failed to restore revision.' });
+  }
+});
+
+// POST /api/details/:id/revisions/:revision/publish — mark a revision as the issued version of the detail
+router.post('/:revision/publish', requireRole('admin', 'editor') as any, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant || !req.user) { res.status(401).json({ error: 'No tenant/user' }); return; }
+    const userId = req.user.userId;
+    const revisionNumber = parseInt(req.params.revision);
+
+    const published = await transactionWithSchema(req.tenant.schemaName, async (client) => {
+      const detail = await client.query('SELECT published_revision FROM details WHERE id = $1 FOR UPDATE', [req.params.id]);
+      if (detail.rows.length === 0) return null;
+
+      const source = await client.query(
+        'SELECT snapshot_json FROM detail_revisions WHERE original_detail_id = $1 AND revision_number = $2',
+        [req.params.id, revisionNumber]
+      );
+      if (source.rows.length === 0) return null;
+
+      const updated = await client.query(
+        `UPDATE details SET published_revision = $1, published_at = NOW(), published_by = $2
+         WHERE id = $3 RETURNING published_revision, published_at`,
+        [revisionNumber, userId, req.params.id]
+      );
+      const { published_revision: publishedRevision, published_at: publishedAt } = updated.rows[0];
+      await recordAudit(client, req, {
+        action: 'detail.published', entityType: 'detail', entityId: req.params.id,
+        before: { publishedRevision: detail.rows[0].published_revision }, after: { publishedRevision },
+      });
+      await queueWebhookEvent(client, req, 'detail.published', {
+        detailId: req.params.id, revision: publishedRevision, publishedAt, detail: source.rows[0].snapshot_json,
+      });
+      return { publishedRevision, publishedAt };
+    });
+
+    if (!published) {
+      res.status(404).json({ error: 'Detail or revision not found.' });
+      return;
+    }
+
+    res.json(published);
+  } catch (err) {
+    console.error('[revisions/publish]', err);
+    res.status(500).json({ error: 'Failed to publish revision.' });
+  }
+});
+
+export default router;
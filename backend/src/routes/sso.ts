@@ -0,0 +1,259 @@
+import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
+import { queryWithSchema, transactionWithSchema } from '../db/connection.js';
+import { signToken } from '../middleware/auth.js';
+import { validateBody } from '../middleware/validate.js';
+import { logAudit, recordAudit } from '../services/audit.js';
+import { APP_URL } from '../services/mail.js';
+import {
+  API_URL, SSO_HANDOFF_TTL_SECONDS, SSO_LOGIN_TTL_MINUTES, authorizationUrl, completeLogin, discover, newPendingLogin,
+  resolveSsoUser, type SsoUserOutcome,
+} from '../services/oidc.js';
+import { identityIdFor, membershipsFor } from '../services/identities.js';
+import { hasFeature } from '../services/plans.js';
+import { createSession } from '../services/sessions.js';
+import { generateToken, hashToken } from '../utils/tokens.js';
+import { ssoExchangeSchema } from '../../../shared/validation/index.js';
+import type { AuthenticatedRequest, TenantContext } from '../types/express.js';
+import type { SsoExchangeRequest, SsoStatus } from '../../../shared/types/sso.js';
+
+const router = Router();
+
+/** The tenant's provider, if SSO is configured, switched on and part of its plan. */
+async function activeSettings(tenant: TenantContext) {
+  if (!hasFeature(tenant, 'sso')) return null;
+  const result = await queryWithSchema(tenant.schemaName, 'SELECT * FROM sso_settings WHERE enabled');
+  return result.rows[0] ?? null;
+}
+
+// The browser that starts a login has to be the one that finishes it.
+// Otherwise anyone could start a login, stop at the provider's redirect and
+// send the callback link to someone else, who would land signed in as them.
+const STATE_COOKIE_PATH = '/api/auth/sso/callback';
+const stateCookieName = (tenantSlug: string) => `sso_state_${tenantSlug}`;
+
+function stateCookieOptions() {
+  return { httpOnly: true, sameSite: 'lax' as const, secure: API_URL.startsWith('https:'), path: STATE_COOKIE_PATH };
+}
+
+/** Whether the state cookie this browser got from /start belongs to `state` */
+function matchesStateCookie(req: Request, tenantSlug: string, state: string): boolean {
+  const name = stateCookieName(tenantSlug);
+  const cookie = (req.get('cookie') ?? '').split(';').map(c => c.trim()).find(c => c.startsWith(`${name}=`));
+  const expected = Buffer.from(hashToken(state));
+  const actual = Buffer.from(cookie?.slice(name.length + 1) ?? '');
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+// The callback runs in the browser's top-level navigation, so it answers with
+// a redirect into the app rather than JSON
+function appRedirect(res: Response, tenantSlug: string, params: Record<string, string>) {
+  const search = new URLSearchParams({ tenant: tenantSlug, ...params });
+  res.redirect(`${APP_URL}/?${search}`);
+}
+
+const OUTCOME_MESSAGES: Record<Exclude<SsoUserOutcome['status'], 'ok'>, string> = {
+  no_email: 'Your identity provider did not share an email address.',
+  email_unverified: 'Your identity provider has not verified your email address.',
+  domain_not_allowed: 'Your email domain is not allowed to sign in to this organization.',
+  identity_conflict: 'This email address is already linked to a different single sign-on identity.',
+  deactivated: 'Account is deactivated.',
+  quota: 'This organization has no seats left. Ask an admin to upgrade the plan.',
+};
+
+// GET /api/auth/sso — whether the login page should offer single sign-on
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) {
+      res.status(401).json({ error: 'Tenant context required.' });
+      return;
+    }
+
+    const status: SsoStatus = { enabled: !!(await activeSettings(req.tenant)) };
+    res.json(status);
+  } catch (err) {
+    console.error('[sso/status]', err);
+    res.status(500).json({ error: 'Failed to load single sign-on status.' });
+  }
+});
+
+// GET /api/auth/sso/start?tenant=<slug> — send the browser to the identity provider
+router.get('/start', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) {
+      res.status(401).json({ error: 'Tenant context required.' });
+      return;
+    }
+
+    const settings = await activeSettings(req.tenant);
+    if (!settings) {
+      res.status(404).json({ error: 'Single sign-on is not configured for this organization.' });
+      return;
+    }
+
+    const metadata = await discover(settings.issuer);
+    const login = newPendingLogin();
+    await queryWithSchema(req.tenant.schemaName,
+      `INSERT INTO sso_logins (state_hash, code_verifier, nonce, expires_at)
+       VALUES ($1, $2, $3, NOW() + make_interval(mins => $4))`,
+      [hashToken(login.state), login.codeVerifier, login.nonce, SSO_LOGIN_TTL_MINUTES]
+    );
+    // Abandoned logins are kept a day for troubleshooting, then dropped
+    await queryWithSchema(req.tenant.schemaName,
+      `DELETE FROM sso_logins WHERE expires_at < NOW() - INTERVAL '1 day'`);
+
+    res.cookie(stateCookieName(req.tenant.slug), hashToken(login.state), {
+      ...stateCookieOptions(), maxAge: SSO_LOGIN_TTL_MINUTES * 60 * 1000,
+    });
+    res.redirect(authorizationUrl(metadata, settings.client_id, req.tenant.slug, login));
+  } catch (err) {
+    console.error('[sso/start]', err);
+    res.status(502).json({ error: 'Could not reach the identity provider.' });
+  }
+});
+
+// GET /api/auth/sso/callback?tenant=<slug>&code=&state= — the provider sends the browser back here
+router.get('/callback', async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.tenant) {
+    res.status(401).json({ error: 'Tenant context required.' });
+    return;
+  }
+  const tenant = req.tenant;
+  const fail = (message: string) => appRedirect(res, tenant.slug, { sso_error: message });
+
+  try {
+    const { code, state, error, error_description: description } = req.query;
+    if (typeof error === 'string') {
+      fail(typeof description === 'string' ? description : `Sign-in was not completed (${error}).`);
+      return;
+    }
+    if (typeof code !== 'string' || typeof state !== 'string') {
+      fail('The identity provider sent an incomplete response.');
+      return;
+    }
+
+    const startedHere = matchesStateCookie(req, tenant.slug, state);
+    res.clearCookie(stateCookieName(tenant.slug), stateCookieOptions());
+    if (!startedHere) {
+      fail('This sign-in was started in a different browser or has expired. Please try again.');
+      return;
+    }
+
+    const settings = await activeSettings(tenant);
+    if (!settings) {
+      fail('Single sign-on is not configured for this organization.');
+      return;
+    }
+
+    // Each state works once, whatever happens next
+    const claimed = await queryWithSchema(tenant.schemaName,
+      `UPDATE sso_logins SET completed_at = NOW()
+       WHERE state_hash = $1 AND completed_at IS NULL AND expires_at > NOW()
+       RETURNING id, code_verifier, nonce`,
+      [hashToken(state)]
+    );
+    if (claimed.rows.length === 0) {
+      fail('This sign-in attempt has expired. Please try again.');
+      return;
+    }
+    const login = claimed.rows[0];
+
+    const metadata = await discover(settings.issuer);
+    const claims = await completeLogin(metadata, settings, tenant.slug, code, {
+      nonce: login.nonce, codeVerifier: login.code_verifier,
+    });
+
+    const handoff = generateToken();
+    const outcome = await transactionWithSchema(tenant.schemaName, async (client) => {
+      const resolved = await resolveSsoUser(client, tenant, settings, claims);
+      if (resolved.status !== 'ok') return resolved;
+
+      await client.query(
+        `UPDATE sso_logins SET user_id = $1, handoff_hash = $2, expires_at = NOW() + make_interval(secs => $3)
+         WHERE id = $4`,
+        [resolved.user.id, hashToken(handoff), SSO_HANDOFF_TTL_SECONDS, login.id]
+      );
+      if (resolved.created) {
+        await recordAudit(client, req, {
+          action: 'user.registered', entityType: 'user', entityId: resolved.user.id,
+          after: { email: resolved.user.email, name: resolved.user.name, role: resolved.user.role, via: 'sso' },
+        }, resolved.user.id);
+      }
+      return resolved;
+    });
+
+    if (outcome.status !== 'ok') {
+      fail(OUTCOME_MESSAGES[outcome.status]);
+      return;
+    }
+
+    appRedirect(res, tenant.slug, { sso: handoff });
+  } catch (err) {
+    console.error('[sso/callback]', err);
+    fail('Single sign-on failed. Please try again or contact your administrator.');
+  }
+});
+
+// POST /api/auth/sso/exchange — trade the callback's one-time code for our own access and refresh tokens
+router.post('/exchange', validateBody(ssoExchangeSchema), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { code }: SsoExchangeRequest = req.body;
+
+    if (!req.tenant) {
+      res.status(401).json({ error: 'Tenant context required.' });
+      return;
+    }
+    const tenant = req.tenant;
+
+    const outcome = await transactionWithSchema(tenant.schemaName, async (client) => {
+      const handoff = await client.query(
+        'DELETE FROM sso_logins WHERE handoff_hash = $1 AND expires_at > NOW() RETURNING user_id', [hashToken(code)]);
+      if (handoff.rows.length === 0) return { status: 401 as const };
+
+      const userResult = await client.query('SELECT * FROM users WHERE id = $1 AND is_active', [handoff.rows[0].user_id]);
+      const user = userResult.rows[0];
+      if (!user) return { status: 401 as const };
+
+      const session = await createSession(client, user.id, { userAgent: req.get('user-agent'), ipAddress: req.ip });
+      return { status: 200 as const, user, session };
+    });
+
+    if (outcome.status === 401) {
+      res.status(401).json({ error: 'Single sign-on code is invalid or has expired.' });
+      return;
+    }
+
+    const { user, session } = outcome;
+    const identityId = await identityIdFor(tenant.id, user.id);
+    await logAudit(tenant.schemaName, req, {
+      action: 'user.sso_login', entityType: 'user', entityId: user.id, after: { sessionId: session.sessionId },
+    }, user.id);
+
+    res.json({
+      token: signToken({
+        userId: user.id,
+        tenantId: tenant.id,
+        tenantSlug: tenant.slug,
+        role: user.role,
+        sessionId: session.sessionId,
+      }),
+      refreshToken: session.refreshToken,
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        tenantId: tenant.id,
+        emailVerifiedAt: user.email_verified_at,
+        createdAt: user.created_at,
+        updatedAt: user.updated_at,
+      },
+      ...await membershipsFor(identityId, tenant),
+    });
+  } catch (err) {
+    console.error('[sso/exchange]', err);
+    res.status(500).json({ error: 'Single sign-on failed.' });
+  }
+});
+
+export default router;
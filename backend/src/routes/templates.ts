@@ -0,0 +1,135 @@
+import { Router, Response } from 'express';
+import { queryWithSchema, transactionWithSchema } from '../db/connection.js';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+import { validateBody } from '../middleware/validate.js';
+import { recordAudit } from '../services/audit.js';
+import { checkQuota } from '../services/plans.js';
+import { rowToDetail, rowToLayer } from '../services/details.js';
+import { insertLayer } from '../services/layers.js';
+import { recordRevision } from '../services/revisions.js';
+import { findTemplate, rowToTemplate } from '../services/templates.js';
+import { queueWebhookEvent } from '../services/webhooks.js';
+import { isUuid } from '../utils/ids.js';
+import { createLayerSchema, describeErrors, forkTemplateSchema, validate } from '../../../shared/validation/index.js';
+import type { AuthenticatedRequest } from '../types/express.js';
+import type { ForkTemplateRequest } from '../../../shared/types/template.js';
+
+const router = Router();
+
+router.use(authMiddleware as any);
+
+// Newest fork of each template in the tenant, so the library can say "already in your library"
+const FORKED_DETAIL = `
+  (SELECT d.id FROM details d WHERE d.template_id = t.id ORDER BY d.created_at DESC LIMIT 1) as forked_detail_id`;
+
+// GET /api/templates — platform template library (?category=, ?q=)
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+
+    const where: string[] = [];
+    const vals: unknown[] = [];
+    if (req.query.category) { vals.push(req.query.category); where.push(`t.category = $${vals.length}`); }
+    if (req.query.q) { vals.push(`%${req.query.q}%`); where.push(`(t.name ILIKE $${vals.length} OR t.description ILIKE $${vals.length})`); }
+
+    const result = await queryWithSchema(req.tenant.schemaName,
+      `SELECT t.*, ${FORKED_DETAIL}
+       FROM public.detail_templates t
+       ${where.length ? `WHERE ${where.join(' AND ')}` : ''}
+       ORDER BY t.category, t.name`,
+      vals
+    );
+
+    res.json({ templates: result.rows.map(row => rowToTemplate(row)) });
+  } catch (err) {
+    console.error('[templates/list]', err);
+    res.status(500).json({ error: 'Failed to list templates.' });
+  }
+});
+
+// GET /api/templates/:id — template with its layers
+router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+    if (!isUuid(req.params.id)) { res.status(404).json({ error: 'Template not found.' }); return; }
+
+    const result = await queryWithSchema(req.tenant.schemaName,
+      `SELECT t.*, ${FORKED_DETAIL} FROM public.detail_templates t WHERE t.id = $1`, [req.params.id]);
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Template not found.' });
+      return;
+    }
+
+    res.json({ template: rowToTemplate(result.rows[0], true) });
+  } catch (err) {
+    console.error('[templates/get]', err);
+    res.status(500).json({ error: 'Failed to get template.' });
+  }
+});
+
+// POST /api/templates/:id/fork — copy a template and its layers into the tenant as a new detail
+router.post('/:id/fork', requireRole('admin', 'editor') as any, validateBody(forkTemplateSchema), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant || !req.user) { res.status(401).json({ error: 'No tenant/user' }); return; }
+    if (!isUuid(req.params.id)) { res.status(404).json({ error: 'Template not found.' }); return; }
+
+    const { name }: ForkTemplateRequest = req.body;
+
+    const userId = req.user.userId;
+    const tenant = req.tenant;
+    const outcome = await transactionWithSchema(tenant.schemaName, async (client) => {
+      const template = await findTemplate(client, req.params.id);
+      if (!template) return { status: 404 as const };
+
+      const quotaError = await checkQuota(client, tenant, 'details');
+      if (quotaError) return { status: 402 as const, body: quotaError };
+
+      const metadata = {
+        ...template.metadata_json,
+        template: { slug: template.slug, forkedAt: new Date().toISOString() },
+      };
+      const detailResult = await client.query(
+        `INSERT INTO details (name, category, description, metadata_json, template_id, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+        [name ?? template.name, template.category, template.description, JSON.stringify(metadata), template.id, userId]
+      );
+      const forked = rowToDetail(detailResult.rows[0]);
+
+      // Templates are seeded from checked-in data, so a layer that fails validation is a bug, not bad input
+      forked.layers = [];
+      for (const layer of template.layers_json) {
+        const checked = validate(createLayerSchema, layer);
+        if ('errors' in checked) throw new Error(`Template ${template.slug} layer: ${describeErrors(checked.errors)}`);
+        const inserted = await insertLayer(client, forked.id, { ...checked.value, orderIndex: undefined });
+        if ('error' in inserted) throw new Error(inserted.error);
+        forked.layers.push(rowToLayer(inserted.row));
+      }
+
+      const revision = await recordRevision(client, forked.id, userId, `Forked from template ${template.slug}`);
+      await recordAudit(client, req, {
+        action: 'detail.created', entityType: 'detail', entityId: forked.id, after: revision?.snapshot,
+      });
+      await queueWebhookEvent(client, req, 'detail.created', {
+        detailId: forked.id, revision: revision?.revisionNumber ?? null, detail: revision?.snapshot,
+      });
+      return { status: 201 as const, detail: forked };
+    });
+
+    if (outcome.status === 404) {
+      res.status(404).json({ error: 'Template not found.' });
+      return;
+    }
+    if (outcome.status === 402) {
+      res.status(402).json(outcome.body);
+      return;
+    }
+
+    res.status(201).json({ detail: outcome.detail });
+  } catch (err) {
+    console.error('[templates/fork]', err);
+    res.status(500).json({ error: 'Failed to fork template.' });
+  }
+});
+
+export default router;
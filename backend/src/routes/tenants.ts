@@ -1,23 +1,32 @@
-import { Router, Response } from 'express';
-import { query } from '../db/connection.js';
+import express, { Router, Response } from 'express';
+import { query, queryWithSchema, transactionWithSchema } from '../db/connection.js';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+import { requireFeature } from '../middleware/plan.js';
+import { validateBody } from '../middleware/validate.js';
+import { logAudit, recordAudit } from '../services/audit.js';
+import { LOGO_MAX_BYTES, LOGO_TYPES, rowToSettings, brandingColumns } from '../services/branding.js';
+import { rowToSsoSettings, saveSsoSettings } from '../services/oidc.js';
+import { planUsage, policyFor } from '../services/plans.js';
+import { getObjectStore } from '../services/storage.js';
+import {
+  applyArchiveBranding, exportTenantArchive, importTenantArchive, isImportStrategy, readTenantArchive,
+} from '../services/tenantArchive.js';
+import { generateToken } from '../utils/tokens.js';
+import { createTenantSchema, updateBrandingSchema, updateSsoSettingsSchema } from '../../../shared/validation/index.js';
 import type { AuthenticatedRequest } from '../types/express.js';
+import type { PlanStatus } from '../../../shared/types/plan.js';
+import type { CreateTenantRequest, UpdateBrandingRequest } from '../../../shared/types/tenant.js';
+import type { UpdateSsoSettingsRequest } from '../../../shared/types/sso.js';
 
 const router = Router();
 
+const IMPORT_MAX_BYTES = process.env.IMPORT_MAX_BYTES || '200mb';
+
 // POST /api/tenants — create new tenant (no auth needed for self-serve signup)
-router.post('/', async (req: AuthenticatedRequest, res: Response) => {
+router.post('/', validateBody(createTenantSchema), async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { name, slug } = req.body;
-    if (!name || !slug) {
-      res.status(400).json({ error: 'Name and slug required.' });
-      return;
-    }
-
-    const cleanSlug = slug.toLowerCase().replace(/[^a-z0-9-]/g, '');
-    if (cleanSlug.length < 2) {
-      res.status(400).json({ error: 'Slug must be at least 2 characters.' });
-      return;
-    }
+    const { name, slug }: Pick<CreateTenantRequest, 'name' | 'slug'> = req.body;
+    const cleanSlug = slug.toLowerCase();
 
     const existing = await query('SELECT id FROM tenants WHERE slug = $1', [cleanSlug]);
     if (existing.rows.length > 0) {
@@ -63,19 +72,286 @@ router.get('/settings', async (req: AuthenticatedRequest, res: Response) => {
       return;
     }
 
-    const t = result.rows[0];
-    res.json({
-      tenantId: t.id,
-      brandName: t.name,
-      logoUrl: t.logo_url,
-      primaryColor: t.primary_color,
-      secondaryColor: '#2563eb',
-      footerText: `© 2026 ${t.name}`,
-    });
+    res.json(rowToSettings(result.rows[0]));
   } catch (err) {
     console.error('[tenant/settings]', err);
     res.status(500).json({ error: 'Failed to get settings.' });
   }
 });
 
+// PUT /api/tenant/settings — update brand name, colors and footer text
+router.put('/settings', authMiddleware as any, requireRole('admin') as any, validateBody(updateBrandingSchema), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+
+    const values = brandingColumns(req.body as UpdateBrandingRequest);
+    const columns = Object.keys(values);
+    const before = await query('SELECT * FROM tenants WHERE id = $1', [req.tenant.id]);
+    const result = await query(
+      `UPDATE tenants SET ${columns.map((c, i) => `${c} = $${i + 2}`).join(', ')}, updated_at = NOW()
+       WHERE id = $1 RETURNING *`,
+      [req.tenant.id, ...columns.map(c => values[c])]
+    );
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Tenant not found.' });
+      return;
+    }
+
+    const settings = rowToSettings(result.rows[0]);
+    await logAudit(req.tenant.schemaName, req, {
+      action: 'tenant.branding_updated', entityType: 'tenant', entityId: req.tenant.id,
+      before: rowToSettings(before.rows[0]), after: settings,
+    });
+
+    res.json(settings);
+  } catch (err) {
+    console.error('[tenant/update-settings]', err);
+    res.status(500).json({ error: 'Failed to update settings.' });
+  }
+});
+
+// PUT /api/tenant/settings/logo — upload a logo as the raw request body (image/png, image/jpeg or image/webp)
+router.put('/settings/logo',
+  authMiddleware as any,
+  requireRole('admin') as any,
+  express.raw({ type: Object.keys(LOGO_TYPES), limit: LOGO_MAX_BYTES }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+
+      const type = LOGO_TYPES[req.get('content-type')?.split(';')[0].trim().toLowerCase() ?? ''];
+      if (!type || !Buffer.isBuffer(req.body) || req.body.length === 0) {
+        res.status(400).json({ error: `Logo must be sent as ${Object.keys(LOGO_TYPES).join(', ')}.` });
+        return;
+      }
+      if (!type.magic(req.body)) {
+        res.status(400).json({ error: 'File content does not match its Content-Type.' });
+        return;
+      }
+
+      // A fresh key per upload, so browsers and CDNs never serve a stale logo
+      const store = getObjectStore();
+      const key = `tenants/${req.tenant.id}/logo-${generateToken(8)}.${type.ext}`;
+      const url = await store.put(key, req.body, req.get('content-type')!);
+
+      const before = await query('SELECT logo_url, logo_key FROM tenants WHERE id = $1', [req.tenant.id]);
+      const result = await query(
+        'UPDATE tenants SET logo_url = $2, logo_key = $3, updated_at = NOW() WHERE id = $1 RETURNING *',
+        [req.tenant.id, url, key]
+      ).catch(async (err) => {
+        await store.remove(key).catch(() => undefined);
+        throw err;
+      });
+
+      const oldKey = before.rows[0]?.logo_key;
+      if (oldKey) {
+        await store.remove(oldKey).catch(err => console.error('[tenant/logo] Failed to remove old logo:', err));
+      }
+      await logAudit(req.tenant.schemaName, req, {
+        action: 'tenant.logo_updated', entityType: 'tenant', entityId: req.tenant.id,
+        before: { logoUrl: before.rows[0]?.logo_url ?? null }, after: { logoUrl: url },
+      });
+
+      res.json(rowToSettings(result.rows[0]));
+    } catch (err) {
+      console.error('[tenant/logo]', err);
+      res.status(500).json({ error: 'Failed to upload logo.' });
+    }
+  });
+
+// DELETE /api/tenant/settings/logo — remove the logo
+router.delete('/settings/logo', authMiddleware as any, requireRole('admin') as any, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+
+    const before = await query('SELECT logo_url, logo_key FROM tenants WHERE id = $1', [req.tenant.id]);
+    const result = await query(
+      'UPDATE tenants SET logo_url = NULL, logo_key = NULL, updated_at = NOW() WHERE id = $1 RETURNING *',
+      [req.tenant.id]
+    );
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Tenant not found.' });
+      return;
+    }
+
+    const oldKey = before.rows[0].logo_key;
+    if (oldKey) {
+      await getObjectStore().remove(oldKey).catch(err => console.error('[tenant/logo] Failed to remove old logo:', err));
+    }
+    await logAudit(req.tenant.schemaName, req, {
+      action: 'tenant.logo_removed', entityType: 'tenant', entityId: req.tenant.id,
+      before: { logoUrl: before.rows[0].logo_url }, after: { logoUrl: null },
+    });
+
+    res.json(rowToSettings(result.rows[0]));
+  } catch (err) {
+    console.error('[tenant/logo-delete]', err);
+    res.status(500).json({ error: 'Failed to remove logo.' });
+  }
+});
+
+// GET /api/tenant/export — the tenant's data as a versioned ZIP archive
+router.get('/export', authMiddleware as any, requireRole('admin') as any, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+
+    const tenantRow = (await query('SELECT * FROM tenants WHERE id = $1', [req.tenant.id])).rows[0];
+    if (!tenantRow) {
+      res.status(404).json({ error: 'Tenant not found.' });
+      return;
+    }
+
+    const { zip, manifest } = await transactionWithSchema(req.tenant.schemaName, async (client) => {
+      // One snapshot for every table, so layers always match their details
+      await client.query('SET TRANSACTION ISOLATION LEVEL REPEATABLE READ, READ ONLY');
+      return exportTenantArchive(client, tenantRow);
+    });
+
+    await logAudit(req.tenant.schemaName, req, {
+      action: 'tenant.exported', entityType: 'tenant', entityId: req.tenant.id,
+      after: Object.fromEntries(Object.entries(manifest.files).map(([name, f]) => [name, f.records ?? f.bytes])),
+    });
+
+    const date = manifest.exportedAt.slice(0, 10);
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="tenant-${req.tenant.slug}-${date}.zip"`);
+    res.send(zip);
+  } catch (err) {
+    console.error('[tenant/export]', err);
+    res.status(500).json({ error: 'Failed to export tenant.' });
+  }
+});
+
+// POST /api/tenant/import?strategy=fail|skip|overwrite — restore an export archive (raw application/zip body)
+router.post('/import',
+  authMiddleware as any,
+  requireRole('admin') as any,
+  express.raw({ type: ['application/zip', 'application/x-zip-compressed', 'application/octet-stream'], limit: IMPORT_MAX_BYTES }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.tenant || !req.user) { res.status(401).json({ error: 'No tenant/user' }); return; }
+
+      const strategy = req.query.strategy ?? 'fail';
+      if (!isImportStrategy(strategy)) {
+        res.status(400).json({ error: 'strategy must be fail, skip or overwrite.' });
+        return;
+      }
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        res.status(400).json({ error: 'Archive required (Content-Type: application/zip).' });
+        return;
+      }
+
+      const archive = readTenantArchive(req.body);
+      if ('error' in archive) {
+        res.status(400).json({ error: archive.error });
+        return;
+      }
+
+      const tenant = req.tenant;
+      const outcome = await transactionWithSchema(tenant.schemaName, client =>
+        importTenantArchive(client, archive.value, { strategy, tenantId: tenant.id, actorId: req.user!.userId, tenant }));
+      if (outcome.status !== 200) {
+        res.status(outcome.status).json(outcome.body);
+        return;
+      }
+
+      // Branding is a single record, so only an overwrite replaces it
+      const report = outcome.report;
+      if (strategy === 'overwrite') {
+        report.brandingApplied = await applyArchiveBranding(tenant.id, archive.value, report.warnings);
+      }
+
+      await logAudit(tenant.schemaName, req, {
+        action: 'tenant.imported', entityType: 'tenant', entityId: tenant.id,
+        after: { source: report.source, strategy, counts: report.counts },
+      });
+
+      res.json({ report });
+    } catch (err) {
+      console.error('[tenant/import]', err);
+      res.status(500).json({ error: 'Failed to import archive.' });
+    }
+  });
+
+// GET /api/tenant/plan — current plan, its limits and features, and usage against them
+router.get('/plan', authMiddleware as any, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+
+    const tenant = req.tenant;
+    const usage = await transactionWithSchema(tenant.schemaName, client => planUsage(client));
+    const status: PlanStatus = { plan: tenant.plan, ...policyFor(tenant.plan), usage };
+    res.json(status);
+  } catch (err) {
+    console.error('[tenant/plan]', err);
+    res.status(500).json({ error: 'Failed to get plan.' });
+  }
+});
+
+// GET /api/tenant/sso — the tenant's OpenID Connect provider (null when none is set up)
+router.get('/sso', authMiddleware as any, requireRole('admin') as any, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+
+    const result = await queryWithSchema(req.tenant.schemaName, 'SELECT * FROM sso_settings');
+    res.json({ sso: result.rows[0] ? rowToSsoSettings(result.rows[0], req.tenant.slug) : null });
+  } catch (err) {
+    console.error('[tenant/sso]', err);
+    res.status(500).json({ error: 'Failed to get single sign-on settings.' });
+  }
+});
+
+// PUT /api/tenant/sso — set up or change the OpenID Connect provider
+router.put('/sso',
+  authMiddleware as any,
+  requireRole('admin') as any,
+  requireFeature('sso') as any,
+  validateBody(updateSsoSettingsSchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.tenant || !req.user) { res.status(401).json({ error: 'No tenant/user' }); return; }
+
+      const input: UpdateSsoSettingsRequest = req.body;
+      const tenant = req.tenant;
+      const userId = req.user.userId;
+      const sso = await transactionWithSchema(tenant.schemaName, async (client) => {
+        const before = await client.query('SELECT * FROM sso_settings FOR UPDATE');
+        const row = await saveSsoSettings(client, input, userId);
+        const after = rowToSsoSettings(row, tenant.slug);
+        await recordAudit(client, req, {
+          action: 'tenant.sso_updated', entityType: 'tenant', entityId: tenant.id,
+          before: before.rows[0] ? rowToSsoSettings(before.rows[0], tenant.slug) : null, after,
+        });
+        return after;
+      });
+
+      res.json({ sso });
+    } catch (err) {
+      console.error('[tenant/update-sso]', err);
+      res.status(500).json({ error: 'Failed to save single sign-on settings.' });
+    }
+  });
+
+// DELETE /api/tenant/sso — remove the provider; SSO-only users can still use "Forgot password?"
+router.delete('/sso', authMiddleware as any, requireRole('admin') as any, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+
+    const result = await queryWithSchema(req.tenant.schemaName, 'DELETE FROM sso_settings RETURNING *');
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Single sign-on is not set up.' });
+      return;
+    }
+
+    await logAudit(req.tenant.schemaName, req, {
+      action: 'tenant.sso_removed', entityType: 'tenant', entityId: req.tenant.id,
+      before: rowToSsoSettings(result.rows[0], req.tenant.slug),
+    });
+    res.json({ deleted: true });
+  } catch (err) {
+    console.error('[tenant/delete-sso]', err);
+    res.status(500).json({ error: 'Failed to remove single sign-on settings.' });
+  }
+});
+
 export default router;
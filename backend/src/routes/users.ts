@@ -0,0 +1,333 @@
+import { Router, Response } from 'express';
+import { queryWithSchema, transactionWithSchema } from '../db/connection.js';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+import { validateBody } from '../middleware/validate.js';
+import { logAudit, recordAudit } from '../services/audit.js';
+import {
+  INVITE_TTL_DAYS, countOtherActiveAdmins, rowToInvitation, rowToUser,
+} from '../services/users.js';
+import { sendPasswordResetEmail } from '../services/accountTokens.js';
+import { USERS_WITH_IDENTITY } from '../services/identities.js';
+import { APP_URL } from '../services/mail.js';
+import { checkQuota } from '../services/plans.js';
+import { revokeAllSessions } from '../services/sessions.js';
+import { isUuid } from '../utils/ids.js';
+import { generateToken, hashToken } from '../utils/tokens.js';
+import { inviteUserSchema, updateUserRoleSchema } from '../../../shared/validation/index.js';
+import type { AuthenticatedRequest } from '../types/express.js';
+import type { InviteUserRequest, UpdateUserRoleRequest } from '../../../shared/types/user.js';
+
+const router = Router();
+
+router.use(authMiddleware as any);
+router.use(requireRole('admin') as any);
+
+// GET /api/users — list users in tenant
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+
+    const result = await queryWithSchema(req.tenant.schemaName,
+      'SELECT * FROM users ORDER BY is_active DESC, name');
+
+    res.json({ users: result.rows.map(rowToUser) });
+  } catch (err) {
+    console.error('[users/list]', err);
+    res.status(500).json({ error: 'Failed to list users.' });
+  }
+});
+
+// GET /api/users/invitations — pending invitations
+router.get('/invitations', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+
+    const result = await queryWithSchema(req.tenant.schemaName,
+      `SELECT i.*, u.name as inviter_name
+       FROM invitations i LEFT JOIN users u ON i.invited_by = u.id
+       WHERE i.accepted_at IS NULL AND i.revoked_at IS NULL AND i.expires_at > NOW()
+       ORDER BY i.created_at DESC`
+    );
+
+    res.json({ invitations: result.rows.map(rowToInvitation) });
+  } catch (err) {
+    console.error('[users/invitations]', err);
+    res.status(500).json({ error: 'Failed to list invitations.' });
+  }
+});
+
+// POST /api/users/invitations — invite by email; the token is only returned here
+router.post('/invitations', validateBody(inviteUserSchema), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant || !req.user) { res.status(401).json({ error: 'No tenant/user' }); return; }
+
+    const { email, role = 'viewer' }: InviteUserRequest = req.body;
+
+    const existing = await queryWithSchema(req.tenant.schemaName,
+      'SELECT id FROM users WHERE lower(email) = $1', [email]);
+    if (existing.rows.length > 0) {
+      res.status(409).json({ error: 'A user with this email already exists.' });
+      return;
+    }
+
+    const token = generateToken();
+    const tenant = req.tenant;
+    const outcome = await transactionWithSchema(tenant.schemaName, async (client) => {
+      // A re-invite replaces a seat that is already counted, so it needs no extra room
+      const pending = await client.query(
+        `SELECT 1 FROM invitations
+         WHERE lower(email) = $1 AND accepted_at IS NULL AND revoked_at IS NULL AND expires_at > NOW()`,
+        [email]
+      );
+      const quotaError = await checkQuota(client, tenant, 'users', pending.rows.length > 0 ? 0 : 1);
+      if (quotaError) return { status: 402 as const, body: quotaError };
+
+      // Re-inviting replaces any outstanding invitation for the same address
+      await client.query(
+        `UPDATE invitations SET revoked_at = NOW()
+         WHERE lower(email) = $1 AND accepted_at IS NULL AND revoked_at IS NULL`,
+        [email]
+      );
+      const result = await client.query(
+        `INSERT INTO invitations (email, role, token_hash, invited_by, expires_at)
+         VALUES ($1, $2, $3, $4, NOW() + make_interval(days => $5)) RETURNING *`,
+        [email, role, hashToken(token), req.user!.userId, INVITE_TTL_DAYS]
+      );
+      await recordAudit(client, req, {
+        action: 'invitation.created', entityType: 'invitation', entityId: result.rows[0].id,
+        after: rowToInvitation(result.rows[0]),
+      });
+      return { status: 201 as const, invitation: result.rows[0] };
+    });
+
+    if (outcome.status === 402) {
+      res.status(402).json(outcome.body);
+      return;
+    }
+
+    const inviteUrl = `${APP_URL}/?tenant=${encodeURIComponent(req.tenant.slug)}&invite=${token}`;
+    res.status(201).json({ invitation: rowToInvitation(outcome.invitation), token, inviteUrl });
+  } catch (err) {
+    console.error('[users/invite]', err);
+    res.status(500).json({ error: 'Failed to create invitation.' });
+  }
+});
+
+// DELETE /api/users/invitations/:id — revoke a pending invitation
+router.delete('/invitations/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+    if (!isUuid(req.params.id)) { res.status(404).json({ error: 'Invitation not found.' }); return; }
+
+    const result = await queryWithSchema(req.tenant.schemaName,
+      `UPDATE invitations SET revoked_at = NOW()
+       WHERE id = $1 AND accepted_at IS NULL AND revoked_at IS NULL RETURNING *`,
+      [req.params.id]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Invitation not found.' });
+      return;
+    }
+
+    await logAudit(req.tenant.schemaName, req, {
+      action: 'invitation.revoked', entityType: 'invitation', entityId: req.params.id, before: rowToInvitation(result.rows[0]),
+    });
+
+    res.json({ revoked: true });
+  } catch (err) {
+    console.error('[users/revoke-invite]', err);
+    res.status(500).json({ error: 'Failed to revoke invitation.' });
+  }
+});
+
+// PUT /api/users/:id/role — change a user's role
+router.put('/:id/role', validateBody(updateUserRoleSchema), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+    if (!isUuid(req.params.id)) { res.status(404).json({ error: 'User not found.' }); return; }
+
+    const { role }: UpdateUserRoleRequest = req.body;
+
+    const outcome = await transactionWithSchema(req.tenant.schemaName, async (client) => {
+      const current = await client.query('SELECT * FROM users WHERE id = $1 FOR UPDATE', [req.params.id]);
+      if (current.rows.length === 0) return { status: 404 as const };
+
+      if (current.rows[0].role === 'admin' && role !== 'admin'
+          && await countOtherActiveAdmins(client, req.params.id) === 0) {
+        return { status: 409 as const };
+      }
+
+      const updated = await client.query(
+        'UPDATE users SET role = $1, updated_at = NOW() WHERE id = $2 RETURNING *',
+        [role, req.params.id]
+      );
+      await recordAudit(client, req, {
+        action: 'user.role_changed', entityType: 'user', entityId: req.params.id,
+        before: rowToUser(current.rows[0]), after: rowToUser(updated.rows[0]),
+      });
+      return { status: 200 as const, user: updated.rows[0] };
+    });
+
+    if (outcome.status === 404) {
+      res.status(404).json({ error: 'User not found.' });
+      return;
+    }
+    if (outcome.status === 409) {
+      res.status(409).json({ error: 'Cannot remove the last active admin.' });
+      return;
+    }
+
+    res.json({ user: rowToUser(outcome.user) });
+  } catch (err) {
+    console.error('[users/role]', err);
+    res.status(500).json({ error: 'Failed to change role.' });
+  }
+});
+
+// POST /api/users/:id/deactivate — block sign-in; existing tokens and their API keys stop working immediately
+router.post('/:id/deactivate', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+    if (!isUuid(req.params.id)) { res.status(404).json({ error: 'User not found.' }); return; }
+
+    const outcome = await transactionWithSchema(req.tenant.schemaName, async (client) => {
+      const current = await client.query('SELECT * FROM users WHERE id = $1 FOR UPDATE', [req.params.id]);
+      if (current.rows.length === 0) return { status: 404 as const };
+
+      if (current.rows[0].role === 'admin' && current.rows[0].is_active
+          && await countOtherActiveAdmins(client, req.params.id) === 0) {
+        return { status: 409 as const };
+      }
+
+      const updated = await client.query(
+        `UPDATE users SET is_active = false, deactivated_at = COALESCE(deactivated_at, NOW()), updated_at = NOW()
+         WHERE id = $1 RETURNING *`,
+        [req.params.id]
+      );
+      await revokeAllSessions(client, req.params.id);
+      await recordAudit(client, req, {
+        action: 'user.deactivated', entityType: 'user', entityId: req.params.id,
+        before: rowToUser(current.rows[0]), after: rowToUser(updated.rows[0]),
+      });
+      return { status: 200 as const, user: updated.rows[0] };
+    });
+
+    if (outcome.status === 404) {
+      res.status(404).json({ error: 'User not found.' });
+      return;
+    }
+    if (outcome.status === 409) {
+      res.status(409).json({ error: 'Cannot deactivate the last active admin.' });
+      return;
+    }
+
+    res.json({ user: rowToUser(outcome.user) });
+  } catch (err) {
+    console.error('[users/deactivate]', err);
+    res.status(500).json({ error: 'Failed to deactivate user.' });
+  }
+});
+
+// POST /api/users/:id/reactivate
+router.post('/:id/reactivate', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+    if (!isUuid(req.params.id)) { res.status(404).json({ error: 'User not found.' }); return; }
+
+    const tenant = req.tenant;
+    const outcome = await transactionWithSchema(tenant.schemaName, async (client) => {
+      const current = await client.query('SELECT is_active FROM users WHERE id = $1 FOR UPDATE', [req.params.id]);
+      if (current.rows.length === 0) return { status: 404 as const };
+
+      if (!current.rows[0].is_active) {
+        const quotaError = await checkQuota(client, tenant, 'users');
+        if (quotaError) return { status: 402 as const, body: quotaError };
+      }
+
+      const result = await client.query(
+        `UPDATE users SET is_active = true, deactivated_at = NULL, updated_at = NOW()
+         WHERE id = $1 RETURNING *`,
+        [req.params.id]
+      );
+      const user = rowToUser(result.rows[0]);
+      await recordAudit(client, req, { action: 'user.reactivated', entityType: 'user', entityId: user.id, after: user });
+      return { status: 200 as const, user };
+    });
+
+    if (outcome.status === 404) {
+      res.status(404).json({ error: 'User not found.' });
+      return;
+    }
+    if (outcome.status === 402) {
+      res.status(402).json(outcome.body);
+      return;
+    }
+
+    res.json({ user: outcome.user });
+  } catch (err) {
+    console.error('[users/reactivate]', err);
+    res.status(500).json({ error: 'Failed to reactivate user.' });
+  }
+});
+
+// POST /api/users/:id/password-reset — email a locked-out user a reset link
+router.post('/:id/password-reset', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+    if (!isUuid(req.params.id)) { res.status(404).json({ error: 'User not found.' }); return; }
+
+    const result = await queryWithSchema(req.tenant.schemaName,
+      `SELECT u.id, u.email, u.name, u.is_active, i.password_hash FROM ${USERS_WITH_IDENTITY} WHERE u.id = $2`,
+      [req.tenant.id, req.params.id]);
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'User not found.' });
+      return;
+    }
+    const user = result.rows[0];
+    if (!user.is_active) {
+      res.status(409).json({ error: 'Reactivate the user before sending a reset link.' });
+      return;
+    }
+
+    await sendPasswordResetEmail(req.tenant, user);
+    await logAudit(req.tenant.schemaName, req, {
+      action: 'user.password_reset_requested', entityType: 'user', entityId: user.id, after: { email: user.email },
+    });
+
+    res.json({ sent: true });
+  } catch (err) {
+    console.error('[users/password-reset]', err);
+    res.status(500).json({ error: 'Failed to send reset link.' });
+  }
+});
+
+// DELETE /api/users/:id/sessions — sign a user out on every device
+router.delete('/:id/sessions', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+    if (!isUuid(req.params.id)) { res.status(404).json({ error: 'User not found.' }); return; }
+
+    const revoked = await transactionWithSchema(req.tenant.schemaName, async (client) => {
+      const user = await client.query('SELECT id FROM users WHERE id = $1', [req.params.id]);
+      if (user.rows.length === 0) return null;
+      const count = await revokeAllSessions(client, req.params.id);
+      await recordAudit(client, req, {
+        action: 'user.sessions_revoked', entityType: 'user', entityId: req.params.id, after: { revokedSessions: count },
+      });
+      return count;
+    });
+
+    if (revoked === null) {
+      res.status(404).json({ error: 'User not found.' });
+      return;
+    }
+
+    res.json({ revokedSessions: revoked });
+  } catch (err) {
+    console.error('[users/revoke-sessions]', err);
+    res.status(500).json({ error: 'Failed to revoke sessions.' });
+  }
+});
+
+export default router;
@@ -0,0 +1,287 @@
+import { Router, Response } from 'express';
+import { queryWithSchema, transactionWithSchema } from '../db/connection.js';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+import { requireFeature } from '../middleware/plan.js';
+import { validateBody } from '../middleware/validate.js';
+import { logAudit, recordAudit } from '../services/audit.js';
+import {
+  generateWebhookSecret, queuePing, queueRedelivery, rowToDelivery, rowToWebhook, webhookTargetError,
+} from '../services/webhooks.js';
+import { isUuid } from '../utils/ids.js';
+import { sealSecret } from '../utils/secrets.js';
+import { createWebhookSchema, describeErrors, updateWebhookSchema } from '../../../shared/validation/index.js';
+import type { AuthenticatedRequest } from '../types/express.js';
+import type { ValidationErrorBody } from '../../../shared/types/validation.js';
+import type { CreateWebhookRequest, UpdateWebhookRequest, WebhookDeliveryStatus } from '../../../shared/types/webhook.js';
+
+const router = Router();
+
+router.use(authMiddleware as any);
+router.use(requireRole('admin') as any);
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'delivering', 'delivered', 'failed'];
+const DEFAULT_DELIVERY_LIMIT = 50;
+const MAX_DELIVERY_LIMIT = 200;
+
+/** Answer 400 like a validation error when webhooks may not POST to `url`. Returns whether it did. */
+async function rejectTarget(res: Response, url: string): Promise<boolean> {
+  const message = await webhookTargetError(url);
+  if (!message) return false;
+  const fields = [{ field: 'url', message }];
+  const body: ValidationErrorBody = { error: describeErrors(fields), code: 'validation_failed', fields };
+  res.status(400).json(body);
+  return true;
+}
+
+// GET /api/webhooks — list webhooks (never the secrets)
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+
+    const result = await queryWithSchema(req.tenant.schemaName, 'SELECT * FROM webhooks ORDER BY created_at DESC');
+
+    res.json({ webhooks: result.rows.map(rowToWebhook) });
+  } catch (err) {
+    console.error('[webhooks/list]', err);
+    res.status(500).json({ error: 'Failed to list webhooks.' });
+  }
+});
+
+// POST /api/webhooks — subscribe a URL to events; the signing secret is only returned in this response
+router.post('/', requireFeature('webhooks') as any, validateBody(createWebhookSchema), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant || !req.user) { res.status(401).json({ error: 'No tenant/user' }); return; }
+
+    const { url, description, events, enabled = true }: CreateWebhookRequest = req.body;
+    if (await rejectTarget(res, url)) return;
+    const secret = generateWebhookSecret();
+    const userId = req.user.userId;
+
+    const webhook = await transactionWithSchema(req.tenant.schemaName, async (client) => {
+      const result = await client.query(
+        `INSERT INTO webhooks (url, description, events, secret_sealed, enabled, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+        [url, description || null, events, sealSecret(secret), enabled, userId]
+      );
+      const created = rowToWebhook(result.rows[0]);
+      await recordAudit(client, req, { action: 'webhook.created', entityType: 'webhook', entityId: created.id, after: created });
+      return created;
+    });
+
+    res.status(201).json({ webhook, secret });
+  } catch (err) {
+    console.error('[webhooks/create]', err);
+    res.status(500).json({ error: 'Failed to create webhook.' });
+  }
+});
+
+// PUT /api/webhooks/:id — change the URL, events, description or enabled flag
+router.put('/:id', requireFeature('webhooks') as any, validateBody(updateWebhookSchema), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+    if (!isUuid(req.params.id)) { res.status(404).json({ error: 'Webhook not found.' }); return; }
+
+    const { url, description, events, enabled }: UpdateWebhookRequest = req.body;
+    if (url !== undefined && await rejectTarget(res, url)) return;
+    const sets: string[] = [];
+    const vals: unknown[] = [];
+    let idx = 1;
+
+    if (url !== undefined) { sets.push(`url = $${idx++}`); vals.push(url); }
+    if (description !== undefined) { sets.push(`description = $${idx++}`); vals.push(description || null); }
+    if (events !== undefined) { sets.push(`events = $${idx++}`); vals.push(events); }
+    if (enabled !== undefined) { sets.push(`enabled = $${idx++}`); vals.push(enabled); }
+    sets.push('updated_at = NOW()');
+    vals.push(req.params.id);
+
+    const webhook = await transactionWithSchema(req.tenant.schemaName, async (client) => {
+      const before = await client.query('SELECT * FROM webhooks WHERE id = $1 FOR UPDATE', [req.params.id]);
+      if (before.rows.length === 0) return null;
+      const updated = await client.query(
+        `UPDATE webhooks SET ${sets.join(', ')} WHERE id = $${idx} RETURNING *`, vals);
+      const after = rowToWebhook(updated.rows[0]);
+      await recordAudit(client, req, {
+        action: 'webhook.updated', entityType: 'webhook', entityId: after.id, before: rowToWebhook(before.rows[0]), after,
+      });
+      return after;
+    });
+
+    if (!webhook) {
+      res.status(404).json({ error: 'Webhook not found.' });
+      return;
+    }
+
+    res.json({ webhook });
+  } catch (err) {
+    console.error('[webhooks/update]', err);
+    res.status(500).json({ error: 'Failed to update webhook.' });
+  }
+});
+
+// DELETE /api/webhooks/:id — remove a webhook and its delivery log
+router.delete('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+    if (!isUuid(req.params.id)) { res.status(404).json({ error: 'Webhook not found.' }); return; }
+
+    const result = await queryWithSchema(req.tenant.schemaName,
+      'DELETE FROM webhooks WHERE id = $1 RETURNING *', [req.params.id]);
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Webhook not found.' });
+      return;
+    }
+
+    await logAudit(req.tenant.schemaName, req, {
+      action: 'webhook.deleted', entityType: 'webhook', entityId: req.params.id, before: rowToWebhook(result.rows[0]),
+    });
+
+    res.json({ deleted: true });
+  } catch (err) {
+    console.error('[webhooks/delete]', err);
+    res.status(500).json({ error: 'Failed to delete webhook.' });
+  }
+});
+
+// POST /api/webhooks/:id/rotate-secret — replace the signing secret; the old one stops being used immediately
+router.post('/:id/rotate-secret', requireFeature('webhooks') as any, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+    if (!isUuid(req.params.id)) { res.status(404).json({ error: 'Webhook not found.' }); return; }
+
+    const secret = generateWebhookSecret();
+    const result = await queryWithSchema(req.tenant.schemaName,
+      'UPDATE webhooks SET secret_sealed = $1, updated_at = NOW() WHERE id = $2 RETURNING *',
+      [sealSecret(secret), req.params.id]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Webhook not found.' });
+      return;
+    }
+
+    const webhook = rowToWebhook(result.rows[0]);
+    await logAudit(req.tenant.schemaName, req, { action: 'webhook.secret_rotated', entityType: 'webhook', entityId: webhook.id });
+
+    res.json({ webhook, secret });
+  } catch (err) {
+    console.error('[webhooks/rotate-secret]', err);
+    res.status(500).json({ error: 'Failed to rotate webhook secret.' });
+  }
+});
+
+// POST /api/webhooks/:id/ping — queue a `ping` event to check the endpoint
+router.post('/:id/ping', requireFeature('webhooks') as any, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+    if (!isUuid(req.params.id)) { res.status(404).json({ error: 'Webhook not found.' }); return; }
+
+    const delivery = await transactionWithSchema(req.tenant.schemaName, async (client) => {
+      const found = await client.query('SELECT * FROM webhooks WHERE id = $1', [req.params.id]);
+      if (found.rows.length === 0) return null;
+      return queuePing(client, req, rowToWebhook(found.rows[0]));
+    });
+
+    if (!delivery) {
+      res.status(404).json({ error: 'Webhook not found.' });
+      return;
+    }
+
+    res.status(202).json({ delivery });
+  } catch (err) {
+    console.error('[webhooks/ping]', err);
+    res.status(500).json({ error: 'Failed to queue ping.' });
+  }
+});
+
+// GET /api/webhooks/:id/deliveries — delivery log, newest first (?status=, ?event=, ?limit=)
+router.get('/:id/deliveries', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+    if (!isUuid(req.params.id)) { res.status(404).json({ error: 'Webhook not found.' }); return; }
+
+    const { status, event } = req.query;
+    if (status !== undefined && !DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+      res.status(400).json({ error: `status must be one of ${DELIVERY_STATUSES.join(', ')}.` });
+      return;
+    }
+    const limit = req.query.limit === undefined ? DEFAULT_DELIVERY_LIMIT : parseInt(req.query.limit as string);
+    if (isNaN(limit) || limit < 1 || limit > MAX_DELIVERY_LIMIT) {
+      res.status(400).json({ error: `limit must be between 1 and ${MAX_DELIVERY_LIMIT}.` });
+      return;
+    }
+
+    const found = await queryWithSchema(req.tenant.schemaName, 'SELECT 1 FROM webhooks WHERE id = $1', [req.params.id]);
+    if (found.rows.length === 0) {
+      res.status(404).json({ error: 'Webhook not found.' });
+      return;
+    }
+
+    const vals: unknown[] = [req.params.id];
+    const clauses = ['webhook_id = $1'];
+    if (status) { vals.push(status); clauses.push(`status = $${vals.length}`); }
+    if (typeof event === 'string' && event) { vals.push(event); clauses.push(`event = $${vals.length}`); }
+    vals.push(limit);
+
+    const result = await queryWithSchema(req.tenant.schemaName,
+      `SELECT * FROM webhook_deliveries WHERE ${clauses.join(' AND ')}
+       ORDER BY created_at DESC LIMIT $${vals.length}`,
+      vals
+    );
+
+    res.json({ deliveries: result.rows.map(row => rowToDelivery(row)) });
+  } catch (err) {
+    console.error('[webhooks/deliveries]', err);
+    res.status(500).json({ error: 'Failed to list deliveries.' });
+  }
+});
+
+// GET /api/webhooks/:id/deliveries/:deliveryId — one delivery with the payload that was sent
+router.get('/:id/deliveries/:deliveryId', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+    if (!isUuid(req.params.id) || !isUuid(req.params.deliveryId)) {
+      res.status(404).json({ error: 'Delivery not found.' });
+      return;
+    }
+
+    const result = await queryWithSchema(req.tenant.schemaName,
+      'SELECT * FROM webhook_deliveries WHERE id = $1 AND webhook_id = $2', [req.params.deliveryId, req.params.id]);
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Delivery not found.' });
+      return;
+    }
+
+    res.json({ delivery: rowToDelivery(result.rows[0], true) });
+  } catch (err) {
+    console.error('[webhooks/delivery]', err);
+    res.status(500).json({ error: 'Failed to get delivery.' });
+  }
+});
+
+// POST /api/webhooks/:id/deliveries/:deliveryId/redeliver — send a logged payload again as a new delivery
+router.post('/:id/deliveries/:deliveryId/redeliver', requireFeature('webhooks') as any, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.tenant) { res.status(401).json({ error: 'No tenant' }); return; }
+    if (!isUuid(req.params.id) || !isUuid(req.params.deliveryId)) {
+      res.status(404).json({ error: 'Delivery not found.' });
+      return;
+    }
+
+    const delivery = await transactionWithSchema(req.tenant.schemaName,
+      (client) => queueRedelivery(client, req.params.id, req.params.deliveryId));
+
+    if (!delivery) {
+      res.status(404).json({ error: 'Delivery not found.' });
+      return;
+    }
+
+    res.status(202).json({ delivery });
+  } catch (err) {
+    console.error('[webhooks/redeliver]', err);
+    res.status(500).json({ error: 'Failed to queue redelivery.' });
+  }
+});
+
+export default router;
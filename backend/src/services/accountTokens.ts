@@ -0,0 +1,113 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { JWT_SECRET } from '../middleware/auth.js';
+import { APP_URL, sendMail } from './mail.js';
+
+export type AccountTokenPurpose = 'password_reset' | 'email_verification';
+
+const TTL: Record<AccountTokenPurpose, string> = {
+  password_reset: process.env.PASSWORD_RESET_TTL || '1h',
+  email_verification: process.env.EMAIL_VERIFICATION_TTL || '7d',
+};
+
+// A separate key, so an account token can never pass as an access token
+const SECRET = crypto.createHmac('sha256', JWT_SECRET).update('account-tokens').digest('hex');
+
+interface AccountTokenPayload {
+  sub: string;
+  tid: string;
+  purpose: AccountTokenPurpose;
+  fp: string;
+}
+
+/**
+ * Ties a token to the state it was issued for: the password hash for resets
+ * (so a reset link stops working once used) and the address for verification.
+ */
+function fingerprint(purpose: AccountTokenPurpose, user: { password_hash: string; email: string }) {
+  const source = purpose === 'password_reset' ? user.password_hash : user.email.toLowerCase();
+  return crypto.createHash('sha256').update(source).digest('hex').slice(0, 16);
+}
+
+export function signAccountToken(
+  purpose: AccountTokenPurpose, tenantId: string, user: { id: string; password_hash: string; email: string },
+): string {
+  const payload: AccountTokenPayload = { sub: user.id, tid: tenantId, purpose, fp: fingerprint(purpose, user) };
+  return jwt.sign(payload, SECRET, { expiresIn: TTL[purpose] } as jwt.SignOptions);
+}
+
+/**
+ * Decode a token for `purpose` in `tenantId`. Returns the user id, or null
+ * when the token is malformed, expired, or for another purpose or tenant.
+ * Call `matchesAccountToken` against the current user row before acting on it.
+ */
+export function readAccountToken(token: string, purpose: AccountTokenPurpose, tenantId: string) {
+  try {
+    const payload = jwt.verify(token, SECRET) as AccountTokenPayload;
+    if (payload.purpose !== purpose || payload.tid !== tenantId) return null;
+    return { userId: payload.sub, fp: payload.fp };
+  } catch {
+    return null;
+  }
+}
+
+export function matchesAccountToken(
+  purpose: AccountTokenPurpose, fp: string, user: { password_hash: string; email: string },
+) {
+  return fingerprint(purpose, user) === fp;
+}
+
+interface Recipient {
+  id: string;
+  email: string;
+  name: string;
+  password_hash: string;
+}
+
+interface TenantRef {
+  id: string;
+  slug: string;
+}
+
+const linkFor = (tenant: TenantRef, param: 'reset' | 'verify', token: string) =>
+  `${APP_URL}/?tenant=${encodeURIComponent(tenant.slug)}&${param}=${token}`;
+
+export async function sendPasswordResetEmail(tenant: TenantRef, user: Recipient) {
+  const url = linkFor(tenant, 'reset', signAccountToken('password_reset', tenant.id, user));
+  await sendMail({
+    kind: 'password_reset',
+    tenantId: tenant.id,
+    to: user.email,
+    subject: 'Reset your BIM Detail Viewer password',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      `Someone asked to reset the password for your account in ${tenant.slug}. Choose a new password here:`,
+      '',
+      url,
+      '',
+      `The link expires in ${TTL.password_reset} and works once. If you did not ask for this, ignore this email.`,
+    ].join('\n'),
+  });
+  return url;
+}
+
+export async function sendVerificationEmail(tenant: TenantRef, user: Recipient) {
+  const url = linkFor(tenant, 'verify', signAccountToken('email_verification', tenant.id, user));
+  await sendMail({
+    kind: 'email_verification',
+    tenantId: tenant.id,
+    to: user.email,
+    subject: 'Confirm your email address',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      `Confirm the email address for your BIM Detail Viewer account in ${tenant.slug}:`,
+      '',
+      url,
+      '',
+      `The link expires in ${TTL.email_verification}.`,
+    ].join('\n'),
+  });
+  return url;
+}
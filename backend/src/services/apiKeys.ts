@@ -0,0 +1,52 @@
+import { queryWithSchema } from '../db/connection.js';
+import type { ApiKeyContext } from '../types/express.js';
+import type { UserRole } from '../../../shared/types/user.js';
+import { generateToken, hashToken } from '../utils/tokens.js';
+
+/** Keys act with the permissions of a viewer or an editor, never an admin. */
+export function roleForScope(scope: ApiKeyContext['scope']): UserRole {
+  return scope === 'read-write' ? 'editor' : 'viewer';
+}
+
+/**
+ * Keys look like `bim_<8 char prefix>_<secret>`. The prefix is stored in
+ * clear so admins can tell keys apart; the full key is only stored hashed.
+ */
+export function generateApiKey() {
+  const prefix = `bim_${generateToken(6)}`;
+  const key = `${prefix}_${generateToken(32)}`;
+  return { key, prefix, keyHash: hashToken(key) };
+}
+
+/**
+ * Resolve a presented key to its row, recording the use. Returns null for
+ * unknown, revoked or expired keys, and for keys whose creator has been
+ * deactivated: a key acts as its creator, so it stops when they do.
+ */
+export async function authenticateApiKey(schemaName: string, key: string) {
+  const result = await queryWithSchema(schemaName,
+    `UPDATE api_keys k SET last_used_at = NOW()
+     FROM users u
+     WHERE k.key_hash = $1 AND k.revoked_at IS NULL AND (k.expires_at IS NULL OR k.expires_at > NOW())
+       AND u.id = k.created_by AND u.is_active
+     RETURNING k.id, k.name, k.scope, k.created_by`,
+    [hashToken(key)]
+  );
+  return result.rows[0] ?? null;
+}
+
+export function rowToApiKey(row: any) {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    scope: row.scope,
+    createdBy: row.created_by,
+    creatorName: row.creator_name,
+    createdAt: row.created_at,
+    rotatedAt: row.rotated_at,
+    lastUsedAt: row.last_used_at,
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at,
+  };
+}
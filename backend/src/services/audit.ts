@@ -0,0 +1,70 @@
+import { queryWithSchema, type Queryable } from '../db/connection.js';
+import type { AuthenticatedRequest } from '../types/express.js';
+import type { AuditEntityType, AuditLogEntry } from '../../../shared/types/audit.js';
+
+export interface AuditEntry {
+  /** `<entity>.<verb>`, e.g. `detail.updated` */
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  before?: unknown;
+  after?: unknown;
+}
+
+const INSERT_AUDIT = `
+  INSERT INTO audit_log (actor_id, api_key_id, action, entity_type, entity_id, before_json, after_json, ip_address, user_agent)
+  VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`;
+
+function auditParams(req: AuthenticatedRequest, entry: AuditEntry, actorId?: string) {
+  return [
+    actorId ?? req.user?.userId ?? null,
+    req.apiKey?.id ?? null,
+    entry.action,
+    entry.entityType,
+    entry.entityId ?? null,
+    entry.before === undefined ? null : JSON.stringify(entry.before),
+    entry.after === undefined ? null : JSON.stringify(entry.after),
+    req.ip ?? null,
+    req.get('user-agent')?.slice(0, 500) ?? null,
+  ];
+}
+
+/**
+ * Record a mutation inside the caller's transaction, so the audit row exists
+ * exactly when the change does. `actorId` overrides the request user for
+ * unauthenticated flows such as registration.
+ */
+export async function recordAudit(db: Queryable, req: AuthenticatedRequest, entry: AuditEntry, actorId?: string) {
+  await db.query(INSERT_AUDIT, auditParams(req, entry, actorId));
+}
+
+/**
+ * Record a mutation that has already committed. A failure here is logged
+ * rather than thrown so the client still sees the change succeed.
+ */
+export async function logAudit(schemaName: string, req: AuthenticatedRequest, entry: AuditEntry, actorId?: string) {
+  try {
+    await queryWithSchema(schemaName, INSERT_AUDIT, auditParams(req, entry, actorId));
+  } catch (err) {
+    console.error(`[audit] Failed to record ${entry.action}:`, err);
+  }
+}
+
+export function rowToAuditEntry(row: any): AuditLogEntry {
+  return {
+    id: String(row.id),
+    occurredAt: row.occurred_at,
+    actorId: row.actor_id,
+    actorName: row.actor_name,
+    actorEmail: row.actor_email,
+    apiKeyId: row.api_key_id,
+    apiKeyName: row.api_key_name,
+    action: row.action,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    before: row.before_json,
+    after: row.after_json,
+    ipAddress: row.ip_address,
+    userAgent: row.user_agent,
+  };
+}
@@ -0,0 +1,34 @@
+import type { TenantSettings, UpdateBrandingRequest } from '../../../shared/types/tenant.js';
+
+export const LOGO_MAX_BYTES = 1024 * 1024;
+
+// SVG is left out on purpose: served from our origin it could carry script
+export const LOGO_TYPES: Record<string, { ext: string; magic: (b: Buffer) => boolean }> = {
+  'image/png': { ext: 'png', magic: b => b.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  'image/jpeg': { ext: 'jpg', magic: b => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff },
+  'image/webp': { ext: 'webp', magic: b => b.toString('ascii', 0, 4) === 'RIFF' && b.toString('ascii', 8, 12) === 'WEBP' },
+};
+
+export function rowToSettings(row: any): TenantSettings {
+  return {
+    tenantId: row.id,
+    brandName: row.name,
+    logoUrl: row.logo_url ?? undefined,
+    primaryColor: row.primary_color || '#1a365d',
+    secondaryColor: row.secondary_color || '#2563eb',
+    footerText: row.footer_text ?? `© ${new Date().getFullYear()} ${row.name}`,
+  };
+}
+
+/**
+ * Map a validated branding update onto `tenants` columns. Colors are stored
+ * lower-case; an empty or null `footerText` goes back to the default footer.
+ */
+export function brandingColumns(input: UpdateBrandingRequest): Record<string, string | null> {
+  const columns: Record<string, string | null> = {};
+  if (input.brandName !== undefined) columns.name = input.brandName;
+  if (input.primaryColor !== undefined) columns.primary_color = input.primaryColor.toLowerCase();
+  if (input.secondaryColor !== undefined) columns.secondary_color = input.secondaryColor.toLowerCase();
+  if (input.footerText !== undefined) columns.footer_text = input.footerText || null;
+  return columns;
+}
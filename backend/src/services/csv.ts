@@ -0,0 +1,69 @@
+/**
+ * Minimal RFC 4180 CSV parsing. Handles quoted fields with embedded commas,
+ * doubled quotes and line breaks, and both LF and CRLF row endings.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 BOM left by spreadsheet exports
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+
+    if (inQuotes) {
+      if (ch === '"' && src[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+      continue;
+    }
+
+    if (ch === '"') inQuotes = true;
+    else if (ch === ',') { row.push(field); field = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(f => f !== '')) rows.push(row);
+      row = [];
+    } else field += ch;
+  }
+
+  row.push(field);
+  if (row.some(f => f !== '')) rows.push(row);
+  return rows;
+}
+
+/** Parse CSV with a header row into objects keyed by lower-cased header names. */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const keys = header.map(h => h.trim().toLowerCase());
+  return rows.map(row => keys.reduce<Record<string, string>>((record, key, i) => {
+    record[key] = (row[i] ?? '').trim();
+    return record;
+  }, {}));
+}
+
+// Spreadsheets run a cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCsvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string' && FORMULA_PREFIX.test(value)) return `"'${value.replace(/"/g, '""')}"`;
+  const text = value instanceof Date ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value)
+    : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize rows to CSV with a header row. Objects are written as JSON, and
+ * text that a spreadsheet would read as a formula gets a leading `'`.
+ */
+export function toCsv(headers: string[], rows: unknown[][]): string {
+  return [headers, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+}
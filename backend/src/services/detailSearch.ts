@@ -0,0 +1,181 @@
+import type { Queryable } from '../db/connection.js';
+import { isUuid } from '../utils/ids.js';
+
+export const DETAIL_SORT_FIELDS = ['updatedAt', 'createdAt', 'name', 'category', 'relevance'] as const;
+export type DetailSortField = typeof DETAIL_SORT_FIELDS[number];
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+// Must match the expression index created by the detail_search migration
+const LAYER_PRODUCT_VECTOR = `to_tsvector('english', coalesce(l.product_name, ''))`;
+
+interface SortSpec {
+  expr: string;
+  /** Postgres type the cursor value is cast back to */
+  type: string;
+  defaultOrder: 'asc' | 'desc';
+}
+
+const SORTS: Record<DetailSortField, SortSpec> = {
+  updatedAt: { expr: 'd.updated_at', type: 'timestamptz', defaultOrder: 'desc' },
+  createdAt: { expr: 'd.created_at', type: 'timestamptz', defaultOrder: 'desc' },
+  name: { expr: 'lower(d.name)', type: 'text', defaultOrder: 'asc' },
+  category: { expr: 'd.category', type: 'text', defaultOrder: 'asc' },
+  // A name/description hit outranks a product-name hit on one of the layers
+  relevance: {
+    expr: `(ts_rank(d.search_vector, q.query) + 0.5 * COALESCE(
+      (SELECT MAX(ts_rank(${LAYER_PRODUCT_VECTOR}, q.query)) FROM layers l WHERE l.detail_id = d.id), 0))`,
+    type: 'real',
+    defaultOrder: 'desc',
+  },
+};
+
+export interface DetailSearch {
+  q?: string;
+  categories: string[];
+  manufacturer?: string;
+  csiSection?: string;
+  createdBy?: string;
+  sort: DetailSortField;
+  order: 'asc' | 'desc';
+  cursor?: { key: string; id: string };
+  limit: number;
+}
+
+function encodeCursor(key: string, id: string): string {
+  return Buffer.from(JSON.stringify([key, id])).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { key: string; id: string } | null {
+  try {
+    const [key, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return typeof key === 'string' && isUuid(id) ? { key, id } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read list parameters from the query string:
+ * ?q=, ?category= (comma-separated), ?manufacturer=, ?csiSection= (prefix),
+ * ?createdBy=, ?sort=, ?order=asc|desc, ?cursor=, ?limit=.
+ */
+export function parseDetailSearch(query: Record<string, unknown>): DetailSearch | { error: string } {
+  const str = (key: string) => typeof query[key] === 'string' && (query[key] as string).trim() !== ''
+    ? (query[key] as string).trim() : undefined;
+
+  const q = str('q');
+  const createdBy = str('createdBy');
+  if (createdBy && !isUuid(createdBy)) return { error: 'createdBy must be a UUID.' };
+
+  const sort = (str('sort') ?? (q ? 'relevance' : 'updatedAt')) as DetailSortField;
+  if (!DETAIL_SORT_FIELDS.includes(sort)) return { error: `sort must be one of ${DETAIL_SORT_FIELDS.join(', ')}.` };
+  if (sort === 'relevance' && !q) return { error: 'sort=relevance requires q.' };
+
+  const order = str('order') ?? SORTS[sort].defaultOrder;
+  if (order !== 'asc' && order !== 'desc') return { error: 'order must be asc or desc.' };
+
+  let cursor: DetailSearch['cursor'];
+  const rawCursor = str('cursor');
+  if (rawCursor) {
+    const decoded = decodeCursor(rawCursor);
+    if (!decoded) return { error: 'Invalid cursor.' };
+    cursor = decoded;
+  }
+
+  return {
+    q,
+    categories: (str('category') ?? '').split(',').map(c => c.trim()).filter(Boolean),
+    manufacturer: str('manufacturer'),
+    csiSection: str('csiSection'),
+    createdBy,
+    sort,
+    order,
+    cursor,
+    limit: Math.min(Math.max(parseInt(String(query.limit)) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE),
+  };
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, c => `\\${c}`);
+}
+
+/**
+ * One page of the details list plus the total matching count. Pages are
+ * keyset-based on (sort key, id), so inserts between requests never shift
+ * or repeat rows the way OFFSET would.
+ */
+export async function searchDetails(db: Queryable, search: DetailSearch) {
+  const where: string[] = [];
+  const vals: unknown[] = [];
+  const param = (value: unknown) => { vals.push(value); return `$${vals.length}`; };
+
+  // websearch_to_tsquery accepts free user input ("quoted phrases", -exclusions) without syntax errors
+  const from = search.q
+    ? `details d CROSS JOIN websearch_to_tsquery('english', ${param(search.q)}) AS q(query)`
+    : 'details d';
+
+  if (search.q) {
+    where.push(`(d.search_vector @@ q.query OR EXISTS (
+      SELECT 1 FROM layers l WHERE l.detail_id = d.id AND ${LAYER_PRODUCT_VECTOR} @@ q.query))`);
+  }
+  if (search.categories.length) where.push(`d.category = ANY(${param(search.categories)})`);
+  if (search.manufacturer) {
+    where.push(`EXISTS (SELECT 1 FROM layers l WHERE l.detail_id = d.id AND lower(l.manufacturer) = lower(${param(search.manufacturer)}))`);
+  }
+  if (search.csiSection) {
+    where.push(`EXISTS (SELECT 1 FROM layers l WHERE l.detail_id = d.id AND l.csi_section LIKE ${param(`${escapeLike(search.csiSection)}%`)})`);
+  }
+  if (search.createdBy) where.push(`d.created_by = ${param(search.createdBy)}`);
+
+  const filterWhere = where.length ? `WHERE ${where.join(' AND ')}` : '';
+  const countResult = await db.query(`SELECT COUNT(*) FROM ${from} ${filterWhere}`, vals);
+
+  const { expr, type } = SORTS[search.sort];
+  const dir = search.order === 'asc' ? 'ASC' : 'DESC';
+  const pageWhere = [...where];
+  if (search.cursor) {
+    const cmp = search.order === 'asc' ? '>' : '<';
+    pageWhere.push(`(${expr}, d.id) ${cmp} (${param(search.cursor.key)}::${type}, ${param(search.cursor.id)}::uuid)`);
+  }
+  const limitParam = param(search.limit + 1);
+
+  const result = await db.query(
+    `SELECT d.*, u.name as creator_name,
+       (SELECT COUNT(*) FROM layers WHERE detail_id = d.id) as layer_count,
+       (${expr})::text as sort_key
+     FROM ${from}
+     LEFT JOIN users u ON d.created_by = u.id
+     ${pageWhere.length ? `WHERE ${pageWhere.join(' AND ')}` : ''}
+     ORDER BY ${expr} ${dir}, d.id ${dir}
+     LIMIT ${limitParam}`,
+    vals
+  );
+
+  const rows = result.rows.slice(0, search.limit);
+  const last = rows[rows.length - 1];
+  return {
+    rows,
+    total: parseInt(countResult.rows[0].count),
+    nextCursor: result.rows.length > search.limit ? encodeCursor(last.sort_key, last.id) : null,
+  };
+}
+
+/** Distinct values the list can be filtered by, for building filter controls. */
+export async function detailFacets(db: Queryable) {
+  const categories = await db.query('SELECT category, COUNT(*) FROM details GROUP BY category ORDER BY category');
+  const manufacturers = await db.query(
+    `SELECT DISTINCT manufacturer FROM layers WHERE manufacturer IS NOT NULL AND manufacturer <> '' ORDER BY manufacturer`);
+  const csiSections = await db.query(
+    `SELECT DISTINCT csi_section FROM layers WHERE csi_section IS NOT NULL AND csi_section <> '' ORDER BY csi_section`);
+  const creators = await db.query(
+    'SELECT DISTINCT u.id, u.name FROM details d JOIN users u ON d.created_by = u.id ORDER BY u.name');
+
+  return {
+    categories: categories.rows.map(r => ({ category: r.category, count: parseInt(r.count) })),
+    manufacturers: manufacturers.rows.map(r => r.manufacturer as string),
+    csiSections: csiSections.rows.map(r => r.csi_section as string),
+    creators: creators.rows.map(r => ({ id: r.id as string, name: r.name as string })),
+  };
+}
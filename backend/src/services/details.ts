@@ -0,0 +1,68 @@
+import type { Queryable } from '../db/connection.js';
+import type { DetailSnapshot, LayerSnapshot } from '../../../shared/types/revision.js';
+
+export function rowToDetail(row: any) {
+  return {
+    id: row.id,
+    name: row.name,
+    category: row.category,
+    description: row.description,
+    metadata: row.metadata_json,
+    templateId: row.template_id,
+    publishedRevision: row.published_revision,
+    publishedAt: row.published_at,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    layerCount: row.layer_count === undefined ? undefined : Number(row.layer_count),
+    creatorName: row.creator_name,
+    layers: undefined as any,
+  };
+}
+
+export function rowToLayer(row: any) {
+  return {
+    id: row.id,
+    detailId: row.detail_id,
+    name: row.name,
+    orderIndex: row.order_index,
+    color: row.color,
+    materialType: row.material_type,
+    thicknessMm: row.thickness_mm,
+    productId: row.product_id,
+    productName: row.product_name,
+    manufacturer: row.manufacturer,
+    csiSection: row.csi_section,
+    geometryParams: row.geometry_params_json,
+    visibleDefault: row.visible_default,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Capture the current state of a detail and its layers, or null if the
+ * detail does not exist. Callers that go on to write should run this inside
+ * a transaction with `lock` set so the snapshot matches what they save.
+ */
+export async function loadDetailSnapshot(db: Queryable, detailId: string, lock = false): Promise<DetailSnapshot | null> {
+  const detailResult = await db.query(
+    `SELECT * FROM details WHERE id = $1${lock ? ' FOR UPDATE' : ''}`, [detailId]);
+  if (detailResult.rows.length === 0) return null;
+
+  const layerResult = await db.query(
+    'SELECT * FROM layers WHERE detail_id = $1 ORDER BY order_index', [detailId]);
+
+  const d = detailResult.rows[0];
+  return {
+    detail: {
+      name: d.name,
+      category: d.category,
+      description: d.description,
+      metadata: d.metadata_json,
+    },
+    layers: layerResult.rows.map(row => {
+      const { detailId: _detailId, createdAt: _createdAt, ...layer } = rowToLayer(row);
+      return layer as LayerSnapshot;
+    }),
+  };
+}
@@ -0,0 +1,463 @@
+import {
+  counterClockwise, interiorPoint, layerSection, pointInPolygon, signedArea, triangulate, type Vec2,
+} from '../../../shared/geometry/index.js';
+import type { PatternType } from '../../../shared/types/export.js';
+import type { DetailSnapshot, LayerSnapshot } from '../../../shared/types/revision.js';
+
+/**
+ * 2D section drawings of a detail for drawing sets. The layer stack is cut
+ * through the middle of the detail (z = 0, looking along the detail's length)
+ * using the same layer layout as the 3D viewer, then drawn with a hatch per
+ * material, a line-weight hierarchy and a leader with product and CSI
+ * callouts per layer.
+ *
+ * Drawings are built once in real-size millimetres and written as SVG or
+ * DXF. Annotation sizes, hatch spacing and pen widths are paper millimetres
+ * multiplied by the scale, so a drawing plotted at 1:scale reads as intended.
+ */
+
+export interface DrawingOptions {
+  /** Revision the snapshot came from, shown in the title */
+  revision?: number | null;
+  /** Plot scale as 1:scale */
+  scale?: number;
+}
+
+export const DRAWING_SCALES = [1, 2, 5, 10, 20, 25, 50];
+export const DEFAULT_DRAWING_SCALE = 10;
+
+type LineWeight = 'heavy' | 'medium' | 'light' | 'fine';
+
+/** Pen widths in paper millimetres, from cut outlines down to hatching */
+const LINE_WEIGHTS: Record<LineWeight, number> = { heavy: 0.5, medium: 0.35, light: 0.18, fine: 0.13 };
+
+interface MaterialStyle {
+  pattern: PatternType;
+  /** Outline weight: structure reads heavier than the layers applied to it */
+  weight: 'heavy' | 'medium';
+}
+
+// First match on the layer's material type wins
+const MATERIAL_STYLES: (MaterialStyle & { match: RegExp })[] = [
+  { match: /concrete|grout|mortar/, pattern: 'stipple', weight: 'heavy' },
+  { match: /masonry|cmu|brick|block/, pattern: 'hatch', weight: 'heavy' },
+  { match: /wood|timber|plywood|osb/, pattern: 'diagonal', weight: 'heavy' },
+  { match: /steel/, pattern: 'solid', weight: 'heavy' },
+  { match: /metal|flashing|coping|reglet|termination/, pattern: 'solid', weight: 'medium' },
+  { match: /insulation|polyiso|xps|eps|foam/, pattern: 'crosshatch', weight: 'medium' },
+  { match: /board|gypsum|sheathing/, pattern: 'dots', weight: 'medium' },
+  { match: /membrane|barrier|retarder|sealant|primer|adhesive|tape|backer/, pattern: 'solid', weight: 'medium' },
+];
+const DEFAULT_STYLE: MaterialStyle = { pattern: 'diagonal', weight: 'medium' };
+
+const PATTERN_TYPES: PatternType[] = ['solid', 'hatch', 'dots', 'crosshatch', 'diagonal', 'stipple'];
+
+// Paper millimetres
+const HATCH_SPACING = 2;
+const DIAGONAL_SPACING = 3;
+const DOT_SPACING = 2;
+const DOT_RADIUS = 0.15;
+const STIPPLE_AREA_PER_DOT = 1.5;
+/** Layers cut thinner than this on paper are filled solid; there is no room to hatch them */
+const MIN_HATCH_WIDTH = 1.5;
+const TEXT_HEIGHT = 2.5;
+const TITLE_HEIGHT = 3.5;
+const LINE_SPACING = 1.6;
+const CALLOUT_GAP = 3;
+const CALLOUT_OFFSET = 25;
+const ARROW_LENGTH = 2.5;
+const ARROW_WIDTH = 1.2;
+const MARGIN = 10;
+
+interface DrawingRegion {
+  layer: LayerSnapshot;
+  outlines: Vec2[][];
+  pattern: PatternType;
+  weight: LineWeight;
+  strokes: [Vec2, Vec2][];
+  dots: Vec2[];
+}
+
+interface DrawingText {
+  at: Vec2;
+  height: number;
+  text: string;
+  bold?: boolean;
+}
+
+interface DrawingLeader {
+  layerId: string;
+  path: Vec2[];
+  arrow: Vec2[];
+}
+
+export interface SectionDrawing {
+  name: string;
+  scale: number;
+  regions: DrawingRegion[];
+  leaders: DrawingLeader[];
+  texts: DrawingText[];
+  rules: { from: Vec2; to: Vec2; weight: LineWeight }[];
+  bounds: { min: Vec2; max: Vec2 };
+}
+
+export function materialStyle(layer: Pick<LayerSnapshot, 'materialType' | 'geometryParams'>): MaterialStyle {
+  const style = MATERIAL_STYLES.find(s => s.match.test((layer.materialType || '').toLowerCase())) ?? DEFAULT_STYLE;
+  const override = layer.geometryParams?.pattern;
+  return PATTERN_TYPES.includes(override as PatternType) ? { ...style, pattern: override as PatternType } : style;
+}
+
+/** Cut the detail and lay out its hatching, callouts and title. */
+export function buildSectionDrawing(snapshot: DetailSnapshot, options: DrawingOptions = {}): SectionDrawing {
+  const scale = options.scale ?? DEFAULT_DRAWING_SCALE;
+  const paper = (mm: number) => mm * scale;
+
+  const layers = [...snapshot.layers].sort((a, b) => a.orderIndex - b.orderIndex);
+  const regions: DrawingRegion[] = [];
+  layers.forEach((layer, i) => {
+    const outlines = layerSection(layer.geometryParams, i).map(outline => outline.map(([x, y]): Vec2 => [x * 1000, y * 1000]));
+    if (outlines.length === 0) return;
+
+    const style = materialStyle(layer);
+    const pattern = outlines.every(o => minWidth(o) < paper(MIN_HATCH_WIDTH)) ? 'solid' : style.pattern;
+    const region: DrawingRegion = { layer, outlines, pattern, weight: style.weight, strokes: [], dots: [] };
+    for (const outline of outlines) {
+      if (pattern === 'hatch') region.strokes.push(...hatchLines(outline, 45, paper(HATCH_SPACING)));
+      if (pattern === 'diagonal') region.strokes.push(...hatchLines(outline, 135, paper(DIAGONAL_SPACING)));
+      if (pattern === 'crosshatch') {
+        region.strokes.push(...hatchLines(outline, 45, paper(HATCH_SPACING)), ...hatchLines(outline, 135, paper(HATCH_SPACING)));
+      }
+      if (pattern === 'dots') region.dots.push(...gridDots(outline, paper(DOT_SPACING)));
+      if (pattern === 'stipple') region.dots.push(...stippleDots(outline, paper(1) ** 2 * STIPPLE_AREA_PER_DOT, i + 1));
+    }
+    regions.push(region);
+  });
+
+  const points = regions.flatMap(r => r.outlines.flat());
+  const sectionMin: Vec2 = points.length ? [Math.min(...points.map(p => p[0])), Math.min(...points.map(p => p[1]))] : [0, 0];
+  const sectionMax: Vec2 = points.length ? [Math.max(...points.map(p => p[0])), Math.max(...points.map(p => p[1]))] : [0, 0];
+
+  // Callouts stack in a column right of the section, in the order their layers appear top to bottom
+  const columnX = sectionMax[0] + paper(CALLOUT_OFFSET);
+  const callouts = regions
+    .map(region => {
+      const largest = region.outlines.reduce((a, b) => Math.abs(signedArea(b)) > Math.abs(signedArea(a)) ? b : a);
+      return { region, anchor: leaderAnchor(largest, paper(10)), lines: calloutLines(region.layer) };
+    })
+    .sort((a, b) => b.anchor[1] - a.anchor[1]);
+
+  const texts: DrawingText[] = [];
+  const leaders: DrawingLeader[] = [];
+  const lineHeight = paper(TEXT_HEIGHT);
+  let highest = Infinity;
+  for (const callout of callouts) {
+    // The leader meets the middle of the first line; blocks keep clear of the one above
+    const y = Math.min(callout.anchor[1], highest);
+    callout.lines.forEach((text, l) => {
+      texts.push({ at: [columnX, y - lineHeight / 2 - l * lineHeight * LINE_SPACING], height: lineHeight, text, bold: l === 0 });
+    });
+    highest = y - lineHeight * (1 + LINE_SPACING * (callout.lines.length - 1)) - paper(CALLOUT_GAP);
+
+    const knee: Vec2 = [columnX - paper(8), y];
+    leaders.push({
+      layerId: callout.region.layer.id,
+      path: [callout.anchor, knee, [columnX - paper(1.5), y]],
+      arrow: arrowHead(knee, callout.anchor, paper(ARROW_LENGTH), paper(ARROW_WIDTH)),
+    });
+  }
+
+  // Title under the section: name above a heavy rule, scale below it
+  const ruleY = Math.min(sectionMin[1], ...texts.map(t => t.at[1])) - paper(15);
+  const title = snapshot.detail.name;
+  const subtitle = [`SECTION`, `SCALE 1:${scale}`, options.revision ? `REVISION ${options.revision}` : null].filter(Boolean).join('  ·  ');
+  texts.push(
+    { at: [sectionMin[0], ruleY + paper(1.5)], height: paper(TITLE_HEIGHT), text: title, bold: true },
+    { at: [sectionMin[0], ruleY - paper(1.5 + TEXT_HEIGHT)], height: paper(TEXT_HEIGHT), text: subtitle },
+  );
+  const ruleLength = Math.max(textWidth(title, paper(TITLE_HEIGHT)), textWidth(subtitle, paper(TEXT_HEIGHT)));
+  const rules = [{ from: [sectionMin[0], ruleY] as Vec2, to: [sectionMin[0] + ruleLength, ruleY] as Vec2, weight: 'heavy' as const }];
+
+  const right = Math.max(sectionMax[0], ...texts.map(t => t.at[0] + textWidth(t.text, t.height)));
+  const top = Math.max(sectionMax[1], ...texts.map(t => t.at[1] + t.height));
+  const bottom = Math.min(sectionMin[1], ...texts.map(t => t.at[1]));
+  return {
+    name: snapshot.detail.name,
+    scale,
+    regions,
+    leaders,
+    texts,
+    rules,
+    bounds: {
+      min: [sectionMin[0] - paper(MARGIN), bottom - paper(MARGIN)],
+      max: [right + paper(MARGIN), top + paper(MARGIN)],
+    },
+  };
+}
+
+/**
+ * Where a leader arrow lands: inside the cut, at most `reach` in from its
+ * right-hand edge, so leaders to long thin layers stay short and don't cross.
+ */
+function leaderAnchor(outline: Vec2[], reach: number): Vec2 {
+  const [cx, y] = interiorPoint(outline);
+  const xs: number[] = [];
+  outline.forEach(([x1, y1], i) => {
+    const [x2, y2] = outline[(i + 1) % outline.length];
+    if ((y1 > y) !== (y2 > y)) xs.push(x1 + ((y - y1) * (x2 - x1)) / (y2 - y1));
+  });
+  xs.sort((p, q) => p - q);
+  if (xs.length < 2) return [cx, y];
+  const [start, end] = xs.slice(-2);
+  return [Math.max((start + end) / 2, end - reach), y];
+}
+
+function calloutLines(layer: LayerSnapshot): string[] {
+  const product = layer.productName
+    ? layer.manufacturer ? `${layer.productName} (${layer.manufacturer})` : layer.productName
+    : layer.manufacturer;
+  return [layer.name, product, layer.csiSection ? `CSI ${layer.csiSection}` : null].filter((l): l is string => !!l);
+}
+
+// Good enough for layout; renderers use a plain sans-serif
+function textWidth(text: string, height: number): number {
+  return text.length * height * 0.6;
+}
+
+function minWidth(outline: Vec2[]): number {
+  const xs = outline.map(p => p[0]);
+  const ys = outline.map(p => p[1]);
+  return Math.min(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+}
+
+function arrowHead(from: Vec2, tip: Vec2, length: number, width: number): Vec2[] {
+  const dx = tip[0] - from[0];
+  const dy = tip[1] - from[1];
+  const d = Math.hypot(dx, dy) || 1;
+  const [ux, uy] = [dx / d, dy / d];
+  const base: Vec2 = [tip[0] - ux * length, tip[1] - uy * length];
+  return [tip, [base[0] - uy * width / 2, base[1] + ux * width / 2], [base[0] + uy * width / 2, base[1] - ux * width / 2]];
+}
+
+// ── Patterns ──
+
+/**
+ * Parallel lines at `angle` degrees clipped to the outline. Lines sit on a
+ * grid shared by every region so hatching continues across adjoining cuts.
+ */
+function hatchLines(outline: Vec2[], angle: number, spacing: number): [Vec2, Vec2][] {
+  const a = (angle * Math.PI) / 180;
+  const [cos, sin] = [Math.cos(a), Math.sin(a)];
+  // Rotate so the hatch runs along x, scan, then rotate the segments back
+  const rotated = outline.map(([x, y]): Vec2 => [x * cos + y * sin, -x * sin + y * cos]);
+  const unrotate = ([x, y]: Vec2): Vec2 => [x * cos - y * sin, x * sin + y * cos];
+
+  const ys = rotated.map(p => p[1]);
+  const segments: [Vec2, Vec2][] = [];
+  for (let y = Math.ceil(Math.min(...ys) / spacing) * spacing; y < Math.max(...ys); y += spacing) {
+    const xs: number[] = [];
+    rotated.forEach(([x1, y1], i) => {
+      const [x2, y2] = rotated[(i + 1) % rotated.length];
+      if ((y1 > y) !== (y2 > y)) xs.push(x1 + ((y - y1) * (x2 - x1)) / (y2 - y1));
+    });
+    xs.sort((p, q) => p - q);
+    for (let k = 0; k + 1 < xs.length; k += 2) segments.push([unrotate([xs[k], y]), unrotate([xs[k + 1], y])]);
+  }
+  return segments;
+}
+
+function gridDots(outline: Vec2[], spacing: number): Vec2[] {
+  const xs = outline.map(p => p[0]);
+  const ys = outline.map(p => p[1]);
+  const dots: Vec2[] = [];
+  for (let x = Math.ceil(Math.min(...xs) / spacing) * spacing; x < Math.max(...xs); x += spacing) {
+    // Every other row is offset by half a step
+    const row = Math.round(x / spacing) % 2 ? spacing / 2 : 0;
+    for (let y = Math.ceil(Math.min(...ys) / spacing) * spacing + row; y < Math.max(...ys); y += spacing) {
+      if (pointInPolygon([x, y], outline)) dots.push([x, y]);
+    }
+  }
+  return dots;
+}
+
+/** Scattered dots, seeded so the same detail always draws the same way */
+function stippleDots(outline: Vec2[], areaPerDot: number, seed: number): Vec2[] {
+  const xs = outline.map(p => p[0]);
+  const ys = outline.map(p => p[1]);
+  const [minX, minY] = [Math.min(...xs), Math.min(...ys)];
+  const [w, h] = [Math.max(...xs) - minX, Math.max(...ys) - minY];
+  const random = mulberry32(seed);
+  const dots: Vec2[] = [];
+  for (let n = Math.round((w * h) / areaPerDot); n > 0; n--) {
+    const dot: Vec2 = [minX + random() * w, minY + random() * h];
+    if (pointInPolygon(dot, outline)) dots.push(dot);
+  }
+  return dots;
+}
+
+function mulberry32(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// ── SVG ──
+
+const num = (value: number) => String(Math.round(value * 100) / 100);
+// SVG's y axis points down
+const svgPoint = ([x, y]: Vec2) => `${num(x)},${num(-y)}`;
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function svgPath(outlines: Vec2[][], closed = true): string {
+  return outlines.map(o => `M${o.map(svgPoint).join('L')}${closed ? 'Z' : ''}`).join('');
+}
+
+/** SVG sized in paper millimetres; each layer is a `<g>` carrying its product data. */
+export function renderSvg(drawing: SectionDrawing): string {
+  const { min, max } = drawing.bounds;
+  const [width, height] = [max[0] - min[0], max[1] - min[1]];
+  const pen = (weight: LineWeight) => num(LINE_WEIGHTS[weight] * drawing.scale);
+  const dotRadius = num(DOT_RADIUS * drawing.scale);
+
+  const out: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(width / drawing.scale)}mm" height="${num(height / drawing.scale)}mm" viewBox="${num(min[0])} ${num(-max[1])} ${num(width)} ${num(height)}">`,
+    `<title>${escapeXml(drawing.name)} (section, 1:${drawing.scale})</title>`,
+    `<rect x="${num(min[0])}" y="${num(-max[1])}" width="${num(width)}" height="${num(height)}" fill="#fff"/>`,
+    '<g id="section" stroke="#000" stroke-linejoin="round" stroke-linecap="round">',
+  ];
+
+  // Later layers paint over earlier ones, as they sit on top in the assembly
+  for (const region of drawing.regions) {
+    const { layer } = region;
+    const data = [
+      ['data-layer-name', layer.name], ['data-material', layer.materialType], ['data-product', layer.productName],
+      ['data-manufacturer', layer.manufacturer], ['data-csi-section', layer.csiSection], ['data-pattern', region.pattern],
+    ].filter(([, value]) => value).map(([key, value]) => ` ${key}="${escapeXml(String(value))}"`).join('');
+    out.push(`<g id="layer-${escapeXml(layer.id)}"${data}>`);
+    out.push(`<path d="${svgPath(region.outlines)}" fill="${region.pattern === 'solid' ? '#000' : '#fff'}" stroke="none"/>`);
+    if (region.strokes.length) {
+      out.push(`<path d="${region.strokes.map(([a, b]) => `M${svgPoint(a)}L${svgPoint(b)}`).join('')}" fill="none" stroke-width="${pen('fine')}"/>`);
+    }
+    if (region.dots.length) {
+      out.push(`<g fill="#000" stroke="none">${region.dots.map(([x, y]) => `<circle cx="${num(x)}" cy="${num(-y)}" r="${dotRadius}"/>`).join('')}</g>`);
+    }
+    out.push(`<path d="${svgPath(region.outlines)}" fill="none" stroke-width="${pen(region.weight)}"/>`);
+    out.push('</g>');
+  }
+  out.push('</g>');
+
+  out.push(`<g id="annotations" stroke="#000" stroke-width="${pen('light')}" stroke-linecap="round">`);
+  for (const leader of drawing.leaders) {
+    out.push(`<path d="${svgPath([leader.path], false)}" fill="none"/>`);
+    out.push(`<path d="${svgPath([leader.arrow])}" fill="#000" stroke="none"/>`);
+  }
+  for (const rule of drawing.rules) {
+    out.push(`<path d="${svgPath([[rule.from, rule.to]], false)}" stroke-width="${pen(rule.weight)}"/>`);
+  }
+  out.push('</g>');
+
+  out.push('<g id="text" font-family="Arial, Helvetica, sans-serif" fill="#000">');
+  for (const text of drawing.texts) {
+    out.push(`<text x="${num(text.at[0])}" y="${num(-text.at[1])}" font-size="${num(text.height)}"${text.bold ? ' font-weight="bold"' : ''}>${escapeXml(text.text)}</text>`);
+  }
+  out.push('</g>', '</svg>', '');
+  return out.join('\n');
+}
+
+// ── DXF ──
+
+/**
+ * Layers by line weight. DXF R12 has no per-entity lineweight, so plot
+ * weights follow the layer; the names carry the pen width in hundredths of
+ * a millimetre for offices that map weights by layer rather than colour.
+ */
+const DXF_LAYERS: Record<LineWeight, { name: string; color: number }> = {
+  heavy: { name: 'SECTION-HEAVY-050', color: 7 },
+  medium: { name: 'SECTION-MEDIUM-035', color: 4 },
+  light: { name: 'ANNOTATION-018', color: 2 },
+  fine: { name: 'HATCH-013', color: 8 },
+};
+
+/** DXF R12 (AC1009) text drawing in millimetres at real size; opens in AutoCAD, BricsCAD, LibreCAD and QCAD. */
+export function renderDxf(drawing: SectionDrawing): string {
+  const out: (string | number)[] = [];
+  const group = (code: number, value: string | number) => out.push(code, value);
+  const point = (code: number, [x, y]: Vec2) => { group(code, num(x)); group(code + 10, num(y)); group(code + 20, 0); };
+
+  group(0, 'SECTION'); group(2, 'HEADER');
+  group(9, '$ACADVER'); group(1, 'AC1009');
+  group(9, '$INSBASE'); point(10, [0, 0]);
+  group(9, '$EXTMIN'); point(10, drawing.bounds.min);
+  group(9, '$EXTMAX'); point(10, drawing.bounds.max);
+  group(9, '$DIMSCALE'); group(40, drawing.scale);
+  group(0, 'ENDSEC');
+
+  group(0, 'SECTION'); group(2, 'TABLES');
+  group(0, 'TABLE'); group(2, 'LTYPE'); group(70, 1);
+  group(0, 'LTYPE'); group(2, 'CONTINUOUS'); group(70, 0); group(3, 'Solid line'); group(72, 65); group(73, 0); group(40, 0);
+  group(0, 'ENDTAB');
+  group(0, 'TABLE'); group(2, 'LAYER'); group(70, Object.keys(DXF_LAYERS).length);
+  for (const layer of Object.values(DXF_LAYERS)) {
+    group(0, 'LAYER'); group(2, layer.name); group(70, 0); group(62, layer.color); group(6, 'CONTINUOUS');
+  }
+  group(0, 'ENDTAB');
+  group(0, 'TABLE'); group(2, 'STYLE'); group(70, 1);
+  group(0, 'STYLE'); group(2, 'STANDARD'); group(70, 0); group(40, 0); group(41, 1); group(50, 0); group(71, 0);
+  group(42, TEXT_HEIGHT * drawing.scale); group(3, 'txt'); group(4, '');
+  group(0, 'ENDTAB');
+  group(0, 'ENDSEC');
+
+  const layerOf = (weight: LineWeight) => DXF_LAYERS[weight].name;
+  const polyline = (points: Vec2[], weight: LineWeight, closed: boolean) => {
+    group(0, 'POLYLINE'); group(8, layerOf(weight)); group(66, 1); point(10, [0, 0]); group(70, closed ? 1 : 0);
+    for (const p of points) { group(0, 'VERTEX'); group(8, layerOf(weight)); point(10, p); }
+    group(0, 'SEQEND'); group(8, layerOf(weight));
+  };
+  // SOLID takes its corners in zigzag order; a triangle repeats the last one
+  const solid = ([a, b, c]: Vec2[], weight: LineWeight) => {
+    group(0, 'SOLID'); group(8, layerOf(weight)); point(10, a); point(11, b); point(12, c); point(13, c);
+  };
+
+  group(0, 'SECTION'); group(2, 'ENTITIES');
+  for (const region of drawing.regions) {
+    if (region.pattern === 'solid') {
+      for (const outline of region.outlines) {
+        const ccw = counterClockwise(outline);
+        const indices = triangulate(ccw);
+        for (let t = 0; t < indices.length; t += 3) solid([ccw[indices[t]], ccw[indices[t + 1]], ccw[indices[t + 2]]], region.weight);
+      }
+    }
+    for (const [a, b] of region.strokes) {
+      group(0, 'LINE'); group(8, layerOf('fine')); point(10, a); point(11, b);
+    }
+    for (const dot of region.dots) {
+      group(0, 'CIRCLE'); group(8, layerOf('fine')); point(10, dot); group(40, num(DOT_RADIUS * drawing.scale));
+    }
+    for (const outline of region.outlines) polyline(outline, region.weight, true);
+  }
+  for (const leader of drawing.leaders) {
+    polyline(leader.path, 'light', false);
+    solid(leader.arrow, 'light');
+  }
+  for (const rule of drawing.rules) polyline([rule.from, rule.to], rule.weight, false);
+  for (const text of drawing.texts) {
+    group(0, 'TEXT'); group(8, layerOf('light')); point(10, text.at); group(40, num(text.height)); group(1, dxfText(text.text)); group(7, 'STANDARD');
+  }
+  group(0, 'ENDSEC');
+  group(0, 'EOF');
+
+  return out.join('\n') + '\n';
+}
+
+/** R12 files are ASCII; anything else goes in AutoCAD's \U+XXXX form */
+function dxfText(text: string): string {
+  return text.replace(/[^\x20-\x7e]/g, ch => `\\U+${ch.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0')}`);
+}
@@ -0,0 +1,296 @@
+import {
+  counterClockwise, explodeOffset, layerGeometry, triangulate, type LayerPart, type Vec2, type Vec3,
+} from '../../../shared/geometry/index.js';
+import type { DetailSnapshot, LayerSnapshot } from '../../../shared/types/revision.js';
+
+/**
+ * glTF 2.0 export of a detail, built from the same layer layout as the 3D
+ * viewer. The scene has one node for the detail, a child per layer and a
+ * mesh node per layer part; layer and mesh nodes carry the layer's product
+ * data in `extras`, which Blender and most BIM tools show as custom properties.
+ */
+
+export interface GltfExportOptions {
+  detailId: string;
+  /** Revision the snapshot came from, recorded in the detail node's extras */
+  revision?: number | null;
+  /** Apply the viewer's exploded-view offsets */
+  exploded?: boolean;
+}
+
+interface MeshData {
+  positions: number[];
+  normals: number[];
+  indices: number[];
+}
+
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+const FLOAT = 5126;
+const UNSIGNED_SHORT = 5123;
+const UNSIGNED_INT = 5125;
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const CHUNK_JSON = 0x4e4f534a; // "JSON"
+const CHUNK_BIN = 0x004e4942; // "BIN\0"
+
+/** The glTF document and its binary buffer, ready for encodeGlb or embedBuffer. */
+export function buildDetailGltf(snapshot: DetailSnapshot, options: GltfExportOptions) {
+  const bin = new BufferBuilder();
+  const accessors: object[] = [];
+  const bufferViews: object[] = [];
+  const meshes: object[] = [];
+  const materials: object[] = [];
+  const nodes: object[] = [];
+
+  const addView = (bytes: Buffer, target: number) => {
+    bufferViews.push({ buffer: 0, byteOffset: bin.append(bytes), byteLength: bytes.length, target });
+    return bufferViews.length - 1;
+  };
+  const addAccessor = (accessor: object) => {
+    accessors.push(accessor);
+    return accessors.length - 1;
+  };
+
+  const root = { name: snapshot.detail.name, children: [] as number[], extras: {
+    detailId: options.detailId,
+    category: snapshot.detail.category,
+    description: snapshot.detail.description,
+    revision: options.revision ?? null,
+  } };
+  nodes.push(root);
+
+  const layers = [...snapshot.layers].sort((a, b) => a.orderIndex - b.orderIndex);
+  layers.forEach((layer, i) => {
+    const geometry = layerGeometry(layer.geometryParams, i);
+    const extras = layerExtras(layer);
+
+    materials.push({
+      name: layer.materialType || layer.name,
+      pbrMetallicRoughness: {
+        baseColorFactor: [...srgbToLinear(layer.color), 1],
+        metallicFactor: geometry.metalness,
+        roughnessFactor: geometry.roughness,
+      },
+      doubleSided: true,
+    });
+    const material = materials.length - 1;
+
+    const layerNode = {
+      name: layer.name,
+      children: [] as number[],
+      ...(options.exploded ? { translation: explodeOffset(layer.geometryParams, i) } : {}),
+      extras,
+    };
+    nodes.push(layerNode);
+    root.children.push(nodes.length - 1);
+
+    geometry.parts.forEach((part, p) => {
+      const mesh = partMesh(part);
+      // A degenerate profile has nothing to draw, and no bounds to give its accessor
+      if (mesh.indices.length === 0) return;
+      const bounds = positionBounds(mesh.positions);
+      const position = addAccessor({
+        bufferView: addView(floatBytes(mesh.positions), ARRAY_BUFFER),
+        componentType: FLOAT, count: mesh.positions.length / 3, type: 'VEC3', min: bounds.min, max: bounds.max,
+      });
+      const normal = addAccessor({
+        bufferView: addView(floatBytes(mesh.normals), ARRAY_BUFFER),
+        componentType: FLOAT, count: mesh.normals.length / 3, type: 'VEC3',
+      });
+      const wide = mesh.positions.length / 3 > 0xffff;
+      const indices = addAccessor({
+        bufferView: addView(indexBytes(mesh.indices, wide), ELEMENT_ARRAY_BUFFER),
+        componentType: wide ? UNSIGNED_INT : UNSIGNED_SHORT, count: mesh.indices.length, type: 'SCALAR',
+      });
+
+      const name = geometry.parts.length > 1 ? `${layer.name} ${p + 1}` : layer.name;
+      meshes.push({ name, primitives: [{ attributes: { POSITION: position, NORMAL: normal }, indices, material }] });
+      nodes.push({ name, mesh: meshes.length - 1, translation: part.position, extras });
+      layerNode.children.push(nodes.length - 1);
+    });
+  });
+
+  const buffer = bin.toBuffer();
+  // glTF arrays may not be empty: a detail without layers is just its node
+  const json = {
+    asset: { version: '2.0', generator: '3D BIM Detail Viewer' },
+    scene: 0,
+    scenes: [{ name: snapshot.detail.name, nodes: [0] }],
+    nodes,
+    ...nonEmpty({ meshes, materials, accessors, bufferViews }),
+    ...(buffer.length > 0 ? { buffers: [{ byteLength: buffer.length }] } : {}),
+  };
+  return { json, bin: buffer };
+}
+
+function nonEmpty(lists: Record<string, object[]>) {
+  return Object.fromEntries(Object.entries(lists).filter(([, list]) => list.length > 0));
+}
+
+/**
+ * Binary glTF: a 12-byte header, then the JSON chunk and the BIN chunk, each
+ * padded to 4 bytes. Without any binary data the BIN chunk is left out.
+ */
+export function encodeGlb(json: object, bin: Buffer): Buffer {
+  const jsonChunk = pad(Buffer.from(JSON.stringify(json)), 0x20);
+  const chunks = [chunkHeader(jsonChunk.length, CHUNK_JSON), jsonChunk];
+  if (bin.length > 0) {
+    const binChunk = pad(bin, 0);
+    chunks.push(chunkHeader(binChunk.length, CHUNK_BIN), binChunk);
+  }
+  const header = Buffer.alloc(12);
+  header.writeUInt32LE(GLB_MAGIC, 0);
+  header.writeUInt32LE(2, 4);
+  header.writeUInt32LE(12 + chunks.reduce((sum, chunk) => sum + chunk.length, 0), 8);
+  return Buffer.concat([header, ...chunks]);
+}
+
+/** A self-contained `.gltf`: the buffer, if there is one, goes inline as a base64 data URI. */
+export function embedBuffer(json: { buffers?: { byteLength: number; uri?: string }[] }, bin: Buffer) {
+  if (bin.length === 0) return json;
+  return { ...json, buffers: [{ byteLength: bin.length, uri: `data:application/octet-stream;base64,${bin.toString('base64')}` }] };
+}
+
+function layerExtras(layer: LayerSnapshot) {
+  return {
+    layerId: layer.id,
+    layerName: layer.name,
+    orderIndex: layer.orderIndex,
+    materialType: layer.materialType,
+    thicknessMm: layer.thicknessMm,
+    productId: layer.productId ?? null,
+    productName: layer.productName ?? null,
+    manufacturer: layer.manufacturer ?? null,
+    csiSection: layer.csiSection ?? null,
+    visibleDefault: layer.visibleDefault,
+  };
+}
+
+// ── Meshes ──
+
+function partMesh(part: LayerPart): MeshData {
+  return part.kind === 'box' ? boxMesh(part.size) : extrusionMesh(part.profile, part.depth);
+}
+
+// Four vertices per face so each face gets its own flat normal
+const BOX_FACES: { normal: Vec3; corners: Vec3[] }[] = [
+  { normal: [1, 0, 0], corners: [[1, -1, 1], [1, -1, -1], [1, 1, -1], [1, 1, 1]] },
+  { normal: [-1, 0, 0], corners: [[-1, -1, -1], [-1, -1, 1], [-1, 1, 1], [-1, 1, -1]] },
+  { normal: [0, 1, 0], corners: [[-1, 1, 1], [1, 1, 1], [1, 1, -1], [-1, 1, -1]] },
+  { normal: [0, -1, 0], corners: [[-1, -1, -1], [1, -1, -1], [1, -1, 1], [-1, -1, 1]] },
+  { normal: [0, 0, 1], corners: [[-1, -1, 1], [1, -1, 1], [1, 1, 1], [-1, 1, 1]] },
+  { normal: [0, 0, -1], corners: [[1, -1, -1], [-1, -1, -1], [-1, 1, -1], [1, 1, -1]] },
+];
+
+/** Box centred on the origin, counter-clockwise faces seen from outside */
+export function boxMesh([w, h, d]: Vec3): MeshData {
+  const mesh: MeshData = { positions: [], normals: [], indices: [] };
+  for (const face of BOX_FACES) {
+    const base = mesh.positions.length / 3;
+    for (const [x, y, z] of face.corners) {
+      mesh.positions.push(x * w / 2, y * h / 2, z * d / 2);
+      mesh.normals.push(...face.normal);
+    }
+    mesh.indices.push(base, base + 1, base + 2, base, base + 2, base + 3);
+  }
+  return mesh;
+}
+
+/** Profile in the XY plane swept from z = 0 to z = depth, with flat caps and sides */
+export function extrusionMesh(profile: Vec2[], depth: number): MeshData {
+  const mesh: MeshData = { positions: [], normals: [], indices: [] };
+  const ccw = counterClockwise(profile);
+  const caps = triangulate(ccw);
+
+  // Back cap faces -Z, so its triangles are wound the other way
+  for (const [z, nz, flip] of [[depth, 1, false], [0, -1, true]] as const) {
+    const base = mesh.positions.length / 3;
+    for (const [x, y] of ccw) {
+      mesh.positions.push(x, y, z);
+      mesh.normals.push(0, 0, nz);
+    }
+    for (let t = 0; t < caps.length; t += 3) {
+      const [a, b, c] = caps.slice(t, t + 3);
+      mesh.indices.push(base + a, ...(flip ? [base + c, base + b] : [base + b, base + c]));
+    }
+  }
+
+  ccw.forEach(([x1, y1], i) => {
+    const [x2, y2] = ccw[(i + 1) % ccw.length];
+    const length = Math.hypot(x2 - x1, y2 - y1) || 1;
+    // Outward normal of a counter-clockwise edge
+    const normal: Vec3 = [(y2 - y1) / length, -(x2 - x1) / length, 0];
+    const base = mesh.positions.length / 3;
+    mesh.positions.push(x1, y1, 0, x2, y2, 0, x2, y2, depth, x1, y1, depth);
+    for (let k = 0; k < 4; k++) mesh.normals.push(...normal);
+    mesh.indices.push(base, base + 1, base + 2, base, base + 2, base + 3);
+  });
+
+  return mesh;
+}
+
+// ── Encoding ──
+
+/** glTF colours are linear; layer colours are sRGB hex like the viewer's */
+export function srgbToLinear(hex: string): Vec3 {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex);
+  const value = match ? parseInt(match[1], 16) : 0x808080;
+  const channel = (c: number) => {
+    const s = c / 255;
+    return s <= 0.04045 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+  };
+  return [channel((value >> 16) & 0xff), channel((value >> 8) & 0xff), channel(value & 0xff)];
+}
+
+function positionBounds(positions: number[]) {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < positions.length; i += 3) {
+    for (let axis = 0; axis < 3; axis++) {
+      // Accessor bounds must match the stored float32 values exactly
+      const value = Math.fround(positions[i + axis]);
+      min[axis] = Math.min(min[axis], value);
+      max[axis] = Math.max(max[axis], value);
+    }
+  }
+  return { min, max };
+}
+
+function floatBytes(values: number[]): Buffer {
+  return Buffer.from(new Float32Array(values).buffer);
+}
+
+function indexBytes(values: number[], wide: boolean): Buffer {
+  return Buffer.from((wide ? new Uint32Array(values) : new Uint16Array(values)).buffer);
+}
+
+function pad(bytes: Buffer, fill: number): Buffer {
+  const padding = (4 - (bytes.length % 4)) % 4;
+  return padding ? Buffer.concat([bytes, Buffer.alloc(padding, fill)]) : bytes;
+}
+
+function chunkHeader(length: number, type: number): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32LE(length, 0);
+  header.writeUInt32LE(type, 4);
+  return header;
+}
+
+/** Concatenates buffer views, keeping each one 4-byte aligned as glTF requires */
+class BufferBuilder {
+  private chunks: Buffer[] = [];
+  private length = 0;
+
+  append(bytes: Buffer): number {
+    const offset = this.length;
+    const padded = pad(bytes, 0);
+    this.chunks.push(padded);
+    this.length += padded.length;
+    return offset;
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.concat(this.chunks, this.length);
+  }
+}
@@ -0,0 +1,147 @@
+import bcrypt from 'bcryptjs';
+import { query, transactionWithSchema, type Queryable } from '../db/connection.js';
+import { revokeAllSessions } from './sessions.js';
+import type { TenantMembership } from '../../../shared/types/user.js';
+
+/**
+ * A person signs in with one email and password (public.identities) and may
+ * belong to several tenants. In each tenant they are an ordinary `users` row,
+ * which keeps the role, activation, sessions and everything tenant data
+ * points at; public.tenant_memberships links the rows to the identity.
+ */
+
+/**
+ * FROM clause for a tenant-scoped query that needs a user's identity, e.g.
+ * `SELECT u.*, i.password_hash FROM ${USERS_WITH_IDENTITY} WHERE u.id = $2`.
+ * `$1` must be the tenant id: restored archives reuse user ids across tenants.
+ */
+export const USERS_WITH_IDENTITY = `users u
+  JOIN public.tenant_memberships m ON m.user_id = u.id AND m.tenant_id = $1
+  JOIN public.identities i ON i.id = m.identity_id`;
+
+/** The identity that owns `email` across tenants: only a verified address is shared. */
+export async function findIdentity(db: Queryable, email: string) {
+  const result = await db.query(
+    'SELECT * FROM public.identities WHERE lower(email) = lower($1) AND email_verified_at IS NOT NULL', [email]);
+  return result.rows[0] ?? null;
+}
+
+/**
+ * A new identity of its own, whoever else uses `email`. Accounts made for
+ * someone else (single sign-on, archive imports) start here, so they can
+ * never reach another tenant's account by naming its address.
+ */
+export async function createIdentity(db: Queryable, email: string, passwordHash: string) {
+  const inserted = await db.query(
+    'INSERT INTO public.identities (email, password_hash) VALUES (lower($1), $2) RETURNING *', [email, passwordHash]);
+  return inserted.rows[0];
+}
+
+/**
+ * Sign-up and invitations for an address that may already have an account
+ * elsewhere: a verified identity must match `password`, otherwise a new one
+ * gets it. Unverified identities are never joined, so signing up with
+ * someone else's address does not lock them out. Returns null on a mismatch.
+ * Run it in the transaction that adds the user.
+ */
+export async function claimIdentity(db: Queryable, email: string, password: string) {
+  const existing = await findIdentity(db, email);
+  if (existing) return await bcrypt.compare(password, existing.password_hash) ? existing : null;
+  return createIdentity(db, email, await bcrypt.hash(password, 10));
+}
+
+/**
+ * Share the identity under `email` after a link sent there was followed,
+ * unless another identity already owns that address.
+ */
+export async function markIdentityVerified(db: Queryable, identityId: string, email: string) {
+  await db.query(
+    `UPDATE public.identities i SET email_verified_at = NOW(), updated_at = NOW()
+     WHERE i.id = $1 AND lower(i.email) = lower($2) AND i.email_verified_at IS NULL
+       AND NOT EXISTS (
+         SELECT 1 FROM public.identities v WHERE lower(v.email) = lower(i.email) AND v.email_verified_at IS NOT NULL
+       )`,
+    [identityId, email]
+  );
+}
+
+export async function addMembership(db: Queryable, identityId: string, tenantId: string, userId: string) {
+  await db.query(
+    `INSERT INTO public.tenant_memberships (identity_id, tenant_id, user_id) VALUES ($1, $2, $3)
+     ON CONFLICT DO NOTHING`,
+    [identityId, tenantId, userId]
+  );
+}
+
+/**
+ * Move the user's membership to an identity of its own, keeping the
+ * password, when its identity also belongs to other tenants. Users who sign
+ * in through a tenant's identity provider are split off like this, since
+ * that provider must not be able to switch into the other tenants.
+ */
+export async function detachIdentity(db: Queryable, tenantId: string, userId: string) {
+  const shared = await db.query(
+    `SELECT i.email, i.password_hash FROM public.tenant_memberships m JOIN public.identities i ON i.id = m.identity_id
+     WHERE m.tenant_id = $1 AND m.user_id = $2
+       AND EXISTS (SELECT 1 FROM public.tenant_memberships o WHERE o.identity_id = m.identity_id AND o.tenant_id <> $1)`,
+    [tenantId, userId]
+  );
+  if (shared.rows.length === 0) return;
+  const identity = await createIdentity(db, shared.rows[0].email, shared.rows[0].password_hash);
+  await db.query(
+    'UPDATE public.tenant_memberships SET identity_id = $1 WHERE tenant_id = $2 AND user_id = $3',
+    [identity.id, tenantId, userId]
+  );
+}
+
+export async function identityIdFor(tenantId: string, userId: string): Promise<string | null> {
+  const result = await query(
+    'SELECT identity_id FROM public.tenant_memberships WHERE tenant_id = $1 AND user_id = $2', [tenantId, userId]);
+  return result.rows[0]?.identity_id ?? null;
+}
+
+async function membershipRows(identityId: string) {
+  const result = await query(
+    `SELECT m.user_id, t.id AS tenant_id, t.slug, t.name, t.schema_name
+     FROM tenant_memberships m JOIN tenants t ON t.id = m.tenant_id
+     WHERE m.identity_id = $1 ORDER BY t.name`,
+    [identityId]
+  );
+  return result.rows;
+}
+
+/** Tenants the identity can sign in to, with its role in each. Deactivated memberships are left out. */
+export async function listMemberships(identityId: string): Promise<TenantMembership[]> {
+  const memberships: TenantMembership[] = [];
+  for (const row of await membershipRows(identityId)) {
+    const user = await query(`SELECT role, is_active FROM ${row.schema_name}.users WHERE id = $1`, [row.user_id]);
+    if (!user.rows[0]?.is_active) continue;
+    memberships.push({ tenantId: row.tenant_id, slug: row.slug, name: row.name, role: user.rows[0].role });
+  }
+  return memberships;
+}
+
+/** The `tenant` and `memberships` fields of a sign-in response, naming the tenant from its membership. */
+export async function membershipsFor(identityId: string | null, tenant: { id: string; slug: string }) {
+  const memberships = identityId ? await listMemberships(identityId) : [];
+  const name = memberships.find(m => m.tenantId === tenant.id)?.name ?? tenant.slug;
+  return { tenant: { id: tenant.id, slug: tenant.slug, name }, memberships };
+}
+
+/** The identity's user row in the tenant with `slug`, if it is a member there. */
+export async function findMembership(identityId: string, slug: string) {
+  return (await membershipRows(identityId)).find(row => row.slug === slug) ?? null;
+}
+
+/**
+ * A password change applies to every tenant, so sign the identity out of
+ * the others too (the caller handles `exceptTenantId` in its transaction).
+ */
+export async function revokeSessionsElsewhere(identityId: string, exceptTenantId: string): Promise<number> {
+  let revoked = 0;
+  for (const row of await membershipRows(identityId)) {
+    if (row.tenant_id === exceptTenantId) continue;
+    revoked += await transactionWithSchema(row.schema_name, client => revokeAllSessions(client, row.user_id));
+  }
+  return revoked;
+}
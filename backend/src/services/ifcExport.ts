@@ -0,0 +1,240 @@
+import crypto from 'crypto';
+import { layerGeometry, type LayerPart } from '../../../shared/geometry/index.js';
+import { step, StepWriter, type StepValue } from './step.js';
+import type { GeometryParams } from '../../../shared/types/layer.js';
+import type { DetailSnapshot, LayerSnapshot } from '../../../shared/types/revision.js';
+
+/**
+ * IFC4 export of a detail for Revit, ArchiCAD and Solibri.
+ *
+ * The detail becomes an IfcElementAssembly on a single storey, associated
+ * with an IfcMaterialLayerSet holding one IfcMaterialLayer per layer
+ * (thickness from `thicknessMm`, product data as IfcMaterialProperties).
+ * Each layer is also an element in the assembly with its geometry from the
+ * viewer's layout as extruded solids, its own material and property sets.
+ *
+ * Lengths are millimetres. IFC is Z up where the viewer is Y up: IFC x is
+ * the viewer's x, IFC y is minus the viewer's z and IFC z is the viewer's y.
+ */
+
+export interface IfcExportOptions {
+  detailId: string;
+  /** Revision the snapshot came from, recorded on the assembly */
+  revision?: number | null;
+  fileName?: string;
+  author?: string;
+  organization?: string;
+  /** Fixed for reproducible files; defaults to now */
+  timestamp?: Date;
+}
+
+/** Custom property set names; the Pset_ prefix is reserved for buildingSMART's own */
+export const LAYER_PSET = 'BIMDetail_Layer';
+export const DETAIL_PSET = 'BIMDetail_Detail';
+
+const GUID_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz_$';
+
+/**
+ * IFC GlobalIds are 128 bits in a 22-character base-64 form. They are
+ * derived from the detail id and a key so exporting the same detail twice
+ * gives the same ids, which lets BIM tools match elements across versions.
+ */
+export function ifcGuid(seed: string): string {
+  const bytes = crypto.createHash('sha256').update(seed).digest().subarray(0, 16);
+  let value = BigInt(`0x${bytes.toString('hex')}`);
+  const chars: string[] = [];
+  for (let i = 0; i < 22; i++) {
+    chars.unshift(GUID_ALPHABET[Number(value & 63n)]);
+    value >>= 6n;
+  }
+  return chars.join('');
+}
+
+type ElementKind = { entity: 'IFCWALL' | 'IFCSLAB' | 'IFCCOVERING' | 'IFCBUILDINGELEMENTPROXY'; predefinedType: string };
+
+/** The IFC class a layer is exported as, from its role in the layout and its material */
+export function ifcElementKind(layer: Pick<LayerSnapshot, 'materialType' | 'geometryParams'>): ElementKind {
+  const gp = layer.geometryParams || ({} as GeometryParams);
+  const material = (layer.materialType || '').toLowerCase();
+  if (gp.isWall) return { entity: 'IFCWALL', predefinedType: 'PARAPET' };
+  if (gp.isCoping || gp.isFlashing || gp.isSealant) return { entity: 'IFCBUILDINGELEMENTPROXY', predefinedType: 'ELEMENT' };
+  if (/insulation|polyiso|xps|eps|foam/.test(material)) return { entity: 'IFCCOVERING', predefinedType: 'INSULATION' };
+  if (/membrane|barrier|retarder/.test(material)) return { entity: 'IFCCOVERING', predefinedType: 'MEMBRANE' };
+  if (/concrete|deck|masonry|cmu|steel|wood|timber/.test(material)) return { entity: 'IFCSLAB', predefinedType: 'ROOF' };
+  return { entity: 'IFCCOVERING', predefinedType: 'ROOFING' };
+}
+
+/** The IFC4 STEP file for a detail snapshot. */
+export function buildDetailIfc(snapshot: DetailSnapshot, options: IfcExportOptions): string {
+  const w = new StepWriter();
+  const guid = (key: string) => step.string(ifcGuid(`${options.detailId}:${key}`));
+  const mm = (metres: number) => step.real(metres * 1000);
+  const point3 = (x: number, y: number, z: number) => w.add('IFCCARTESIANPOINT', [[step.real(x), step.real(y), step.real(z)]]);
+  const point2 = (x: number, y: number) => w.add('IFCCARTESIANPOINT', [[step.real(x), step.real(y)]]);
+  const direction = (...xyz: number[]) => w.add('IFCDIRECTION', [xyz.map(step.real)]);
+  const label = (value: string) => step.typed('IFCLABEL', step.string(value));
+
+  const origin = point3(0, 0, 0);
+  const zAxis = direction(0, 0, 1);
+  const xAxis = direction(1, 0, 0);
+  const worldPlacement = w.add('IFCAXIS2PLACEMENT3D', [origin, zAxis, xAxis]);
+
+  // ── Project, units and the spatial structure ──
+  const units = w.add('IFCUNITASSIGNMENT', [[
+    w.add('IFCSIUNIT', [step.derived, step.enum('LENGTHUNIT'), step.enum('MILLI'), step.enum('METRE')]),
+    w.add('IFCSIUNIT', [step.derived, step.enum('AREAUNIT'), step.null, step.enum('SQUARE_METRE')]),
+    w.add('IFCSIUNIT', [step.derived, step.enum('VOLUMEUNIT'), step.null, step.enum('CUBIC_METRE')]),
+    w.add('IFCSIUNIT', [step.derived, step.enum('PLANEANGLEUNIT'), step.null, step.enum('RADIAN')]),
+  ]]);
+  const context = w.add('IFCGEOMETRICREPRESENTATIONCONTEXT', [step.null, step.string('Model'), step.integer(3), step.real(1e-5), worldPlacement, step.null]);
+  const body = w.add('IFCGEOMETRICREPRESENTATIONSUBCONTEXT', [
+    step.string('Body'), step.string('Model'), step.derived, step.derived, step.derived, step.derived, context, step.null, step.enum('MODEL_VIEW'), step.null,
+  ]);
+
+  const name = snapshot.detail.name;
+  const project = w.add('IFCPROJECT', [guid('project'), step.null, step.string(name), step.label(snapshot.detail.description), step.null, step.null, step.null, [context], units]);
+
+  const placement = (relativeTo: StepValue | null) =>
+    w.add('IFCLOCALPLACEMENT', [relativeTo ?? step.null, w.add('IFCAXIS2PLACEMENT3D', [origin, step.null, step.null])]);
+  const sitePlacement = placement(null);
+  const buildingPlacement = placement(sitePlacement);
+  const storeyPlacement = placement(buildingPlacement);
+  const site = w.add('IFCSITE', [guid('site'), step.null, step.string('Site'), step.null, step.null, sitePlacement, step.null, step.null, step.enum('ELEMENT'), step.null, step.null, step.null, step.null, step.null]);
+  const building = w.add('IFCBUILDING', [guid('building'), step.null, step.string('Building'), step.null, step.null, buildingPlacement, step.null, step.null, step.enum('ELEMENT'), step.null, step.null, step.null]);
+  const storey = w.add('IFCBUILDINGSTOREY', [guid('storey'), step.null, step.string('Detail'), step.null, step.null, storeyPlacement, step.null, step.null, step.enum('ELEMENT'), step.real(0)]);
+  w.add('IFCRELAGGREGATES', [guid('project-site'), step.null, step.null, step.null, project, [site]]);
+  w.add('IFCRELAGGREGATES', [guid('site-building'), step.null, step.null, step.null, site, [building]]);
+  w.add('IFCRELAGGREGATES', [guid('building-storey'), step.null, step.null, step.null, building, [storey]]);
+
+  // ── The detail as an assembly with its material layer set ──
+  const layers = [...snapshot.layers].sort((a, b) => a.orderIndex - b.orderIndex);
+  const assemblyPlacement = placement(storeyPlacement);
+  const assembly = w.add('IFCELEMENTASSEMBLY', [
+    guid('assembly'), step.null, step.string(name), step.label(snapshot.detail.description), step.label(snapshot.detail.category),
+    assemblyPlacement, step.null, step.null, step.enum('NOTDEFINED'), step.enum('NOTDEFINED'),
+  ]);
+  w.add('IFCRELCONTAINEDINSPATIALSTRUCTURE', [guid('storey-contents'), step.null, step.null, step.null, [assembly], storey]);
+
+  const materials = layers.map(layer =>
+    w.add('IFCMATERIAL', [step.string(layer.productName || layer.name), step.null, step.label(layer.materialType)]));
+  const materialLayers = layers.map((layer, i) => {
+    const materialLayer = w.add('IFCMATERIALLAYER', [
+      materials[i], step.real(layer.thicknessMm), step.enum('U'), step.string(layer.name), step.null, step.label(layer.materialType), step.null,
+    ]);
+    w.add('IFCMATERIALPROPERTIES', [step.string(LAYER_PSET), step.null, layerProperties(w, layer, label), materialLayer]);
+    return materialLayer;
+  });
+  // A layer set needs at least one layer
+  if (materialLayers.length) {
+    const layerSet = w.add('IFCMATERIALLAYERSET', [materialLayers, step.string(name), step.label(snapshot.detail.description)]);
+    w.add('IFCRELASSOCIATESMATERIAL', [guid('assembly-material'), step.null, step.null, step.null, [assembly], layerSet]);
+  }
+
+  const detailProperties = [
+    w.add('IFCPROPERTYSINGLEVALUE', [step.string('DetailId'), step.null, step.typed('IFCIDENTIFIER', step.string(options.detailId)), step.null]),
+    w.add('IFCPROPERTYSINGLEVALUE', [step.string('Category'), step.null, label(snapshot.detail.category), step.null]),
+    w.add('IFCPROPERTYSINGLEVALUE', [step.string('LayerCount'), step.null, step.typed('IFCCOUNTMEASURE', step.integer(layers.length)), step.null]),
+    w.add('IFCPROPERTYSINGLEVALUE', [step.string('TotalThickness'), step.null,
+      step.typed('IFCPOSITIVELENGTHMEASURE', step.real(Math.max(layers.reduce((sum, l) => sum + l.thicknessMm, 0), 0.001))), step.null]),
+    ...(options.revision ? [w.add('IFCPROPERTYSINGLEVALUE', [step.string('Revision'), step.null, step.typed('IFCINTEGER', step.integer(options.revision)), step.null])] : []),
+  ];
+  const detailPset = w.add('IFCPROPERTYSET', [guid('assembly-pset'), step.null, step.string(DETAIL_PSET), step.null, detailProperties]);
+  w.add('IFCRELDEFINESBYPROPERTIES', [guid('assembly-pset-rel'), step.null, step.null, step.null, [assembly], detailPset]);
+
+  // ── One element per layer, with extruded solid geometry ──
+  const elements = layers.map((layer, i) => {
+    const solids = layerGeometry(layer.geometryParams, i).parts.map(part => extrudedSolid(w, part, { mm, point2, point3, direction }));
+    const style = surfaceStyle(w, layer);
+    for (const solid of solids) w.add('IFCSTYLEDITEM', [solid, [style], step.null]);
+    const shape = w.add('IFCPRODUCTDEFINITIONSHAPE', [step.null, step.null, [
+      w.add('IFCSHAPEREPRESENTATION', [body, step.string('Body'), step.string('SweptSolid'), solids]),
+    ]]);
+
+    const kind = ifcElementKind(layer);
+    const element = w.add(kind.entity, [
+      guid(`layer:${layer.id}`), step.null, step.string(layer.name), step.label(layer.productName), step.label(layer.materialType),
+      placement(assemblyPlacement), shape, step.string(layer.id), step.enum(kind.predefinedType),
+    ]);
+    w.add('IFCRELASSOCIATESMATERIAL', [guid(`layer:${layer.id}:material`), step.null, step.null, step.null, [element], materials[i]]);
+
+    const layerPset = w.add('IFCPROPERTYSET', [guid(`layer:${layer.id}:pset`), step.null, step.string(LAYER_PSET), step.null, layerProperties(w, layer, label)]);
+    w.add('IFCRELDEFINESBYPROPERTIES', [guid(`layer:${layer.id}:pset-rel`), step.null, step.null, step.null, [element], layerPset]);
+    if (layer.manufacturer || layer.productName) {
+      // The standard set Revit and Solibri show as manufacturer data
+      const manufacturerPset = w.add('IFCPROPERTYSET', [guid(`layer:${layer.id}:manufacturer`), step.null, step.string('Pset_ManufacturerTypeInformation'), step.null, [
+        ...(layer.manufacturer ? [w.add('IFCPROPERTYSINGLEVALUE', [step.string('Manufacturer'), step.null, label(layer.manufacturer), step.null])] : []),
+        ...(layer.productName ? [w.add('IFCPROPERTYSINGLEVALUE', [step.string('ModelLabel'), step.null, label(layer.productName), step.null])] : []),
+      ]]);
+      w.add('IFCRELDEFINESBYPROPERTIES', [guid(`layer:${layer.id}:manufacturer-rel`), step.null, step.null, step.null, [element], manufacturerPset]);
+    }
+    return element;
+  });
+  if (elements.length) w.add('IFCRELAGGREGATES', [guid('assembly-layers'), step.null, step.null, step.null, assembly, elements]);
+
+  const timestamp = (options.timestamp ?? new Date()).toISOString().replace(/\.\d{3}Z$/, '');
+  return w.toString({
+    description: 'ViewDefinition [DesignTransferView]',
+    fileName: options.fileName ?? `${name}.ifc`,
+    timestamp,
+    author: options.author,
+    organization: options.organization,
+    application: '3D BIM Detail Viewer',
+    schema: 'IFC4',
+  });
+}
+
+function layerProperties(w: StepWriter, layer: LayerSnapshot, label: (value: string) => StepValue): StepValue[] {
+  const property = (name: string, value: StepValue) => w.add('IFCPROPERTYSINGLEVALUE', [step.string(name), step.null, value, step.null]);
+  return [
+    property('LayerName', label(layer.name)),
+    property('LayerPosition', step.typed('IFCINTEGER', step.integer(layer.orderIndex))),
+    property('MaterialType', label(layer.materialType)),
+    property('Thickness', step.typed('IFCLENGTHMEASURE', step.real(layer.thicknessMm))),
+    ...(layer.productName ? [property('ProductName', label(layer.productName))] : []),
+    ...(layer.manufacturer ? [property('Manufacturer', label(layer.manufacturer))] : []),
+    ...(layer.csiSection ? [property('CsiSection', step.typed('IFCIDENTIFIER', step.string(layer.csiSection)))] : []),
+    ...(layer.productId ? [property('ProductId', step.typed('IFCIDENTIFIER', step.string(layer.productId)))] : []),
+    property('Color', label(layer.color)),
+  ];
+}
+
+interface GeometryHelpers {
+  mm: (metres: number) => StepValue;
+  point2: (x: number, y: number) => StepValue;
+  point3: (x: number, y: number, z: number) => StepValue;
+  direction: (...xyz: number[]) => StepValue;
+}
+
+/**
+ * A layout part as an IfcExtrudedAreaSolid. Parts are swept along the
+ * viewer's +z, which is IFC -y; the profile's x and y are IFC x and z.
+ */
+function extrudedSolid(w: StepWriter, part: LayerPart, { mm, point2, point3, direction }: GeometryHelpers): StepValue {
+  const [px, py, pz] = part.position;
+  const profileOrigin = w.add('IFCAXIS2PLACEMENT2D', [point2(0, 0), step.null]);
+  let profile: StepValue;
+  let start: number;
+  let depth: number;
+  if (part.kind === 'box') {
+    const [width, height, length] = part.size;
+    profile = w.add('IFCRECTANGLEPROFILEDEF', [step.enum('AREA'), step.null, profileOrigin, mm(width), mm(height)]);
+    start = pz - length / 2;
+    depth = length;
+  } else {
+    const points = part.profile.map(([x, y]) => point2(x * 1000, y * 1000));
+    // IfcPolyline closes by repeating its first point
+    const outline = w.add('IFCPOLYLINE', [[...points, points[0]]]);
+    profile = w.add('IFCARBITRARYCLOSEDPROFILEDEF', [step.enum('AREA'), step.null, outline]);
+    start = pz;
+    depth = part.depth;
+  }
+  const position = w.add('IFCAXIS2PLACEMENT3D', [point3(px * 1000, -start * 1000, py * 1000), direction(0, -1, 0), direction(1, 0, 0)]);
+  return w.add('IFCEXTRUDEDAREASOLID', [profile, position, direction(0, 0, 1), mm(depth)]);
+}
+
+function surfaceStyle(w: StepWriter, layer: LayerSnapshot): StepValue {
+  const match = /^#?([0-9a-f]{6})$/i.exec(layer.color);
+  const value = match ? parseInt(match[1], 16) : 0x808080;
+  const colour = w.add('IFCCOLOURRGB', [step.null, step.real(((value >> 16) & 0xff) / 255), step.real(((value >> 8) & 0xff) / 255), step.real((value & 0xff) / 255)]);
+  return w.add('IFCSURFACESTYLE', [step.string(layer.name), step.enum('BOTH'), [w.add('IFCSURFACESTYLESHADING', [colour, step.real(0)])]]);
+}
@@ -0,0 +1,281 @@
+import {
+  LAYER_ID_TO_MATERIAL_TYPE, MATERIAL_TO_EQUIVALENCY_KEY, resolveMaterialType,
+} from '../../../polr-holographic-viewer/data/layer-material-mapping.js';
+import {
+  StepParseError, asNumber, asPlain, asText, deref, derefList, entitiesOfType, parseStep,
+  type StepEntity, type StepFile,
+} from './step.js';
+import { stackedSlabGeometry } from './templates.js';
+import type { DetailCategory } from '../../../shared/types/detail.js';
+import type { IfcImportCandidate, IfcImportPreview, IfcImportSource } from '../../../shared/types/ifcImport.js';
+import type { LayerFields } from '../../../shared/types/layer.js';
+
+// Colours for layers whose material has no surface style, by mapped material type
+const MATERIAL_COLORS: [RegExp, string][] = [
+  [/concrete/, '#888888'],
+  [/cmu|masonry|brick/, '#D4B896'],
+  [/wood/, '#B8864B'],
+  [/steel|aluminum/, '#707070'],
+  [/insulation/, '#FFCC00'],
+  [/vapor/, '#4488CC'],
+  [/air-barrier/, '#228B22'],
+  [/cover-board/, '#CCCCCC'],
+  [/drainage/, '#6B8E23'],
+  [/flashing|fastener/, '#C0C0C0'],
+  [/sealant/, '#CC3333'],
+  [/membrane|coating/, '#333333'],
+];
+const DEFAULT_COLOR = '#888888';
+
+const SI_PREFIXES: Record<string, number> = { KILO: 1e3, HECTO: 1e2, DECA: 1e1, DECI: 1e-1, CENTI: 1e-2, MILLI: 1e-3, MICRO: 1e-6 };
+
+const TYPE_SOURCES: Record<string, IfcImportSource> = { IFCWALLTYPE: 'wall-type', IFCSLABTYPE: 'slab-type' };
+
+const NAME_MAX = 255;
+const MATERIAL_TYPE_MAX = 100;
+const CSI_SECTION_MAX = 20;
+
+/** Everything about one IfcMaterial (or layer) the importer needs, gathered up front */
+interface MaterialIndex {
+  /** Property values from IfcMaterialProperties, by the material or layer they describe */
+  properties: Map<number, Record<string, string | number | null>>;
+  /** Surface colour from the material's styled representation */
+  colors: Map<number, string>;
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+function hexColor(rgb: StepEntity): string | null {
+  const channels = rgb.args.slice(1, 4).map(asNumber);
+  if (channels.some(c => c === null)) return null;
+  return `#${channels.map(c => Math.round(Math.min(Math.max(c!, 0), 1) * 255).toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+}
+
+/**
+ * Millimetres per model length unit, from the project's IfcUnitAssignment.
+ * SI units apply their prefix; conversion-based units (feet, inches) their
+ * conversion factor.
+ */
+function lengthUnitMm(file: StepFile): { factor: number; warning?: string } {
+  const siMm = (unit: StepEntity) => 1000 * (SI_PREFIXES[asText(unit.args[2]) ?? ''] ?? 1);
+  const units = entitiesOfType(file, 'IFCUNITASSIGNMENT').flatMap(a => derefList(file, a.args[0]));
+  for (const unit of units) {
+    if (unit.type === 'IFCSIUNIT' && asText(unit.args[1]) === 'LENGTHUNIT') return { factor: siMm(unit) };
+    if (unit.type === 'IFCCONVERSIONBASEDUNIT' && asText(unit.args[1]) === 'LENGTHUNIT') {
+      const measure = deref(file, unit.args[3]);
+      const value = asNumber(measure?.args[0]);
+      const base = deref(file, measure?.args[1]);
+      if (value !== null && base?.type === 'IFCSIUNIT') return { factor: value * siMm(base) };
+      const name = (asText(unit.args[2]) ?? '').toLowerCase();
+      if (name.includes('inch')) return { factor: 25.4 };
+      if (name.includes('foot') || name.includes('feet')) return { factor: 304.8 };
+      return { factor: 1, warning: `Length unit "${asText(unit.args[2])}" is not understood; thicknesses were read as millimetres.` };
+    }
+  }
+  return { factor: 1, warning: 'The file has no length unit; thicknesses were read as millimetres.' };
+}
+
+function indexMaterials(file: StepFile): MaterialIndex {
+  const properties = new Map<number, Record<string, string | number | null>>();
+  const addProperties = (target: StepEntity | null, list: StepEntity[]) => {
+    if (!target) return;
+    const values = properties.get(target.id) ?? {};
+    for (const property of list) {
+      const name = asText(property.args[0]);
+      if (name && property.type === 'IFCPROPERTYSINGLEVALUE') values[name] = asPlain(property.args[2]);
+    }
+    properties.set(target.id, values);
+  };
+  // IFC4 names the set and points at a material or layer; IFC2x3's extended properties point at a material
+  for (const entity of entitiesOfType(file, 'IFCMATERIALPROPERTIES')) {
+    addProperties(deref(file, entity.args[3]), derefList(file, entity.args[2]));
+  }
+  for (const entity of entitiesOfType(file, 'IFCEXTENDEDMATERIALPROPERTIES')) {
+    addProperties(deref(file, entity.args[0]), derefList(file, entity.args[1]));
+  }
+
+  const colors = new Map<number, string>();
+  for (const definition of entitiesOfType(file, 'IFCMATERIALDEFINITIONREPRESENTATION')) {
+    const material = deref(file, definition.args[3]);
+    if (!material) continue;
+    const items = derefList(file, definition.args[2]).flatMap(rep => derefList(file, rep.args[3]));
+    // IFC4 styled items list surface styles directly; IFC2x3 wraps them in a presentation style assignment
+    const styles = items.flatMap(item => derefList(file, item.args[1]))
+      .flatMap(style => style.type === 'IFCPRESENTATIONSTYLEASSIGNMENT' ? derefList(file, style.args[0]) : [style])
+      .filter(style => style.type === 'IFCSURFACESTYLE');
+    const shading = styles.flatMap(style => derefList(file, style.args[2]))
+      .find(s => s.type === 'IFCSURFACESTYLESHADING' || s.type === 'IFCSURFACESTYLERENDERING');
+    const rgb = deref(file, shading?.args[0]);
+    const color = rgb?.type === 'IFCCOLOURRGB' ? hexColor(rgb) : null;
+    if (color) colors.set(material.id, color);
+  }
+  return { properties, colors };
+}
+
+/**
+ * Our materialType for an IFC material. Layers this app exported carry it in
+ * their BIMDetail_Layer properties; otherwise the material's name and
+ * category go through the viewer library's resolver, then each word of the
+ * name on its own ("Concrete, Cast-in-Place" is concrete). Anything that was
+ * not an exact match is reported.
+ */
+function mapMaterialType(
+  materialName: string, category: string | null, annotation: string, exported: string | null,
+): { materialType: string; warning?: string } {
+  if (exported) return { materialType: exported };
+
+  const id = slugify(materialName);
+  const material = slugify(category || materialName);
+  const resolved = resolveMaterialType(id, material, annotation);
+  if (resolved && (LAYER_ID_TO_MATERIAL_TYPE[id] || MATERIAL_TO_EQUIVALENCY_KEY[material])) return { materialType: resolved };
+  if (resolved) return { materialType: resolved, warning: `matched "${resolved}" by keyword` };
+
+  for (const word of id.split('-')) {
+    const byWord = resolveMaterialType(word, word);
+    if (byWord) return { materialType: byWord, warning: `matched "${byWord}" by the word "${word}"` };
+  }
+
+  const fallback = (material || 'unknown').slice(0, MATERIAL_TYPE_MAX);
+  return { materialType: fallback, warning: `has no known material type; kept as "${fallback}"` };
+}
+
+function layerFields(
+  file: StepFile, index: MaterialIndex, layers: StepEntity[], mmPerUnit: number, warnings: string[],
+): LayerFields[] {
+  const read = layers.map((layer, i) => {
+    const position = `Layer ${i + 1}`;
+    const material = deref(file, layer.args[0]);
+    const properties = { ...index.properties.get(material?.id ?? -1), ...index.properties.get(layer.id) };
+    // Blank and whitespace-only values count as missing, as they do in the layer schema
+    const text = (key: string) => {
+      const value = properties[key];
+      return value === null || value === undefined ? undefined : String(value).trim() || undefined;
+    };
+
+    const materialName = asText(material?.args[0])?.trim() ?? '';
+    // A layer without a material is a gap; a ventilated one is an air space
+    const ventilated = asText(layer.args[2]) === 'T';
+    const name = (asText(layer.args[3])?.trim() || text('LayerName') || materialName || (ventilated ? 'Air space' : position))
+      .slice(0, NAME_MAX);
+
+    let mapped: { materialType: string; warning?: string };
+    if (material) {
+      const annotation = [name, materialName, asText(material.args[1]), asText(layer.args[4])].filter(Boolean).join(' ');
+      const exported = text('MaterialType')?.slice(0, MATERIAL_TYPE_MAX) ?? null;
+      mapped = mapMaterialType(materialName, asText(material.args[2]) ?? asText(layer.args[5]), annotation, exported);
+      if (mapped.warning) warnings.push(`${position} "${name}": material "${materialName}" ${mapped.warning}.`);
+    } else {
+      mapped = { materialType: ventilated ? 'air-space' : 'unknown' };
+      warnings.push(`${position} "${name}" has no material; imported as "${mapped.materialType}".`);
+    }
+
+    const rawThickness = asNumber(layer.args[1]);
+    const scaled = Math.round(Math.max(rawThickness ?? 0, 0) * mmPerUnit * 1000) / 1000;
+    const thicknessMm = Number.isFinite(scaled) ? scaled : 0;
+    if (rawThickness === null || rawThickness <= 0 || thicknessMm !== scaled) {
+      warnings.push(`${position} "${name}" has no thickness; imported as 0 mm.`);
+    }
+
+    const styled = material ? index.colors.get(material.id) : undefined;
+    const exportedColor = text('Color');
+    const color = exportedColor && /^#[0-9a-f]{6}$/i.test(exportedColor)
+      ? exportedColor
+      : styled ?? MATERIAL_COLORS.find(([match]) => match.test(mapped.materialType))?.[1] ?? DEFAULT_COLOR;
+
+    return {
+      name,
+      orderIndex: i,
+      color,
+      materialType: mapped.materialType,
+      thicknessMm,
+      productName: (text('ProductName') ?? text('ModelLabel'))?.slice(0, NAME_MAX),
+      manufacturer: text('Manufacturer')?.slice(0, NAME_MAX),
+      csiSection: text('CsiSection')?.slice(0, CSI_SECTION_MAX),
+      visibleDefault: true,
+    };
+  });
+
+  const geometry = stackedSlabGeometry(read.map(layer => layer.thicknessMm));
+  return read.map((layer, i) => ({ ...layer, geometryParams: geometry[i] }));
+}
+
+function guessCategory(source: IfcImportSource, name: string, predefinedType: string | null): DetailCategory {
+  const lower = name.toLowerCase();
+  if (source === 'slab-type' && predefinedType === 'BASESLAB') return 'foundation';
+  if (/foundation|basement|below.?grade|footing/.test(lower)) return 'foundation';
+  // The viewer library files wall assemblies under air barriers
+  if (source === 'wall-type' || /wall|cladding|facade|façade/.test(lower)) return 'air-barrier';
+  return 'roofing';
+}
+
+/**
+ * Read an IFC STEP file and list the layer stacks it defines: every
+ * IfcMaterialLayerSet, and every wall or slab type associated with one
+ * (directly or through an IfcMaterialLayerSetUsage), each as the detail it
+ * would become. Layers keep the layer set's order, first layer at the
+ * bottom, with thicknesses converted to millimetres.
+ */
+export function readIfcLayerSets(text: string): { value: IfcImportPreview } | { error: string } {
+  let file: StepFile;
+  try {
+    file = parseStep(text);
+  } catch (err) {
+    if (err instanceof StepParseError) return { error: `Not a readable IFC file: ${err.message}` };
+    throw err;
+  }
+  const schema = file.schemas[0] ?? '';
+  if (!/^IFC/i.test(schema)) return { error: `Expected an IFC schema in FILE_SCHEMA, found "${schema || 'none'}".` };
+
+  const warnings: string[] = [];
+  const unit = lengthUnitMm(file);
+  if (unit.warning) warnings.push(unit.warning);
+  const index = indexMaterials(file);
+
+  const fromLayerSet = (
+    set: StepEntity, source: IfcImportSource, key: string, name: string, description: string, predefinedType: string | null,
+  ): IfcImportCandidate => {
+    const candidateWarnings: string[] = [];
+    const layers = layerFields(file, index, derefList(file, set.args[0]), unit.factor, candidateWarnings);
+    return {
+      key,
+      source,
+      name: name.slice(0, NAME_MAX),
+      description,
+      category: guessCategory(source, name, predefinedType),
+      layers,
+      totalThicknessMm: Math.round(layers.reduce((sum, l) => sum + l.thicknessMm, 0) * 1000) / 1000,
+      warnings: candidateWarnings,
+    };
+  };
+
+  const candidates: IfcImportCandidate[] = [];
+  for (const set of entitiesOfType(file, 'IFCMATERIALLAYERSET')) {
+    if (derefList(file, set.args[0]).length === 0) {
+      warnings.push(`Layer set #${set.id} has no layers and was left out.`);
+      continue;
+    }
+    const name = asText(set.args[1])?.trim() || `Layer set #${set.id}`;
+    candidates.push(fromLayerSet(set, 'layer-set', `layer-set-${set.id}`, name, asText(set.args[2]) ?? '', null));
+  }
+
+  // Types point at their layer set through a material association
+  for (const association of entitiesOfType(file, 'IFCRELASSOCIATESMATERIAL')) {
+    let relating = deref(file, association.args[5]);
+    if (relating?.type === 'IFCMATERIALLAYERSETUSAGE') relating = deref(file, relating.args[0]);
+    if (relating?.type !== 'IFCMATERIALLAYERSET' || derefList(file, relating.args[0]).length === 0) continue;
+
+    for (const type of derefList(file, association.args[4])) {
+      const source = TYPE_SOURCES[type.type];
+      if (!source || candidates.some(c => c.key === `${source}-${type.id}`)) continue;
+      const name = asText(type.args[2])?.trim() || asText(relating.args[1])?.trim() || `${type.type} #${type.id}`;
+      candidates.push({
+        ...fromLayerSet(relating, source, `${source}-${type.id}`, name, asText(type.args[3]) ?? '', asText(type.args[9])),
+        layerSetKey: `layer-set-${relating.id}`,
+      });
+    }
+  }
+
+  return { value: { schema, fileName: file.fileName, candidates, warnings } };
+}
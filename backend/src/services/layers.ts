@@ -0,0 +1,135 @@
+import type { Queryable } from '../db/connection.js';
+import { resolveProductLink } from './products.js';
+import type { GeometryParams, UpdateLayerRequest } from '../../../shared/types/layer.js';
+
+/**
+ * Writable layer fields, already checked against the shared layer schemas
+ * by the route's body validation.
+ */
+export type LayerInput = UpdateLayerRequest;
+
+const COLUMNS: Record<keyof LayerInput, string> = {
+  name: 'name',
+  orderIndex: 'order_index',
+  color: 'color',
+  materialType: 'material_type',
+  thicknessMm: 'thickness_mm',
+  productId: 'product_id',
+  productName: 'product_name',
+  manufacturer: 'manufacturer',
+  csiSection: 'csi_section',
+  geometryParams: 'geometry_params_json',
+  visibleDefault: 'visible_default',
+};
+
+/**
+ * Resolve a product link for a write. A linked product overrides any
+ * free-text product name/manufacturer; an unknown product id is an error.
+ */
+async function withProductLink(db: Queryable, input: LayerInput): Promise<LayerInput | { error: string }> {
+  if (!input.productId) return input;
+  const link = await resolveProductLink(db, input.productId);
+  if (!link) return { error: 'Product not found.' };
+  return { ...input, productId: link.productId, productName: link.productName, manufacturer: link.manufacturer };
+}
+
+function columnValue(field: keyof LayerInput, value: unknown) {
+  return field === 'geometryParams' ? JSON.stringify(value ?? {}) : value;
+}
+
+/** Insert a validated layer after the last one, or at `orderIndex` shifting later layers down. */
+export async function insertLayer(db: Queryable, detailId: string, input: LayerInput) {
+  const linked = await withProductLink(db, input);
+  if ('error' in linked) return linked;
+
+  const next = await db.query(
+    'SELECT COALESCE(MAX(order_index) + 1, 0) AS next FROM layers WHERE detail_id = $1', [detailId]);
+  const end: number = next.rows[0].next;
+  const orderIndex = Math.min(linked.orderIndex ?? end, end);
+  await db.query(
+    'UPDATE layers SET order_index = order_index + 1 WHERE detail_id = $1 AND order_index >= $2',
+    [detailId, orderIndex]);
+
+  const fields = (Object.keys(linked) as (keyof LayerInput)[]).filter(f => f !== 'orderIndex');
+  const result = await db.query(
+    `INSERT INTO layers (detail_id, order_index${fields.map(f => `, ${COLUMNS[f]}`).join('')})
+     VALUES ($1, $2${fields.map((_, i) => `, $${i + 3}`).join('')})
+     RETURNING *`,
+    [detailId, orderIndex, ...fields.map(f => columnValue(f, linked[f]))]
+  );
+  return { row: result.rows[0] };
+}
+
+/**
+ * Apply a validated patch to one layer. With `replace`, optional fields that
+ * are absent are reset rather than left alone. Moving a layer (`orderIndex`)
+ * shifts the layers in between, unless `reorder` is off because the caller
+ * is writing every layer's position itself. Returns null if the layer does
+ * not belong to the detail.
+ */
+export async function updateLayer(
+  db: Queryable,
+  detailId: string,
+  layerId: string,
+  input: LayerInput,
+  { replace = false, reorder = true }: { replace?: boolean; reorder?: boolean } = {},
+) {
+  const current = await db.query(
+    'SELECT order_index FROM layers WHERE id = $1 AND detail_id = $2 FOR UPDATE', [layerId, detailId]);
+  if (current.rows.length === 0) return null;
+
+  const patch: LayerInput = replace
+    ? {
+      color: '#888888', visibleDefault: true, productId: null, productName: null, manufacturer: null,
+      csiSection: null, geometryParams: {} as GeometryParams, ...input,
+    }
+    : { ...input };
+  const linked = await withProductLink(db, patch);
+  if ('error' in linked) return linked;
+
+  if (reorder && linked.orderIndex !== undefined) {
+    const last = await db.query('SELECT MAX(order_index) AS last FROM layers WHERE detail_id = $1', [detailId]);
+    const from: number = current.rows[0].order_index;
+    const to = Math.min(linked.orderIndex, last.rows[0].last);
+    if (to > from) {
+      await db.query(
+        'UPDATE layers SET order_index = order_index - 1 WHERE detail_id = $1 AND order_index > $2 AND order_index <= $3',
+        [detailId, from, to]);
+    } else if (to < from) {
+      await db.query(
+        'UPDATE layers SET order_index = order_index + 1 WHERE detail_id = $1 AND order_index >= $2 AND order_index < $3',
+        [detailId, to, from]);
+    }
+    linked.orderIndex = to;
+  }
+
+  const fields = Object.keys(linked) as (keyof LayerInput)[];
+  if (fields.length === 0) {
+    return { row: (await db.query('SELECT * FROM layers WHERE id = $1', [layerId])).rows[0] };
+  }
+  const result = await db.query(
+    `UPDATE layers SET ${fields.map((f, i) => `${COLUMNS[f]} = $${i + 2}`).join(', ')}
+     WHERE id = $1 RETURNING *`,
+    [layerId, ...fields.map(f => columnValue(f, linked[f]))]
+  );
+  return { row: result.rows[0] };
+}
+
+/** Ids among `productIds` with no catalog product, so batch writes can be refused before anything changes. */
+export async function findMissingProducts(db: Queryable, productIds: string[]): Promise<string[]> {
+  if (productIds.length === 0) return [];
+  const found = await db.query('SELECT id FROM products WHERE id = ANY($1::uuid[])', [productIds]);
+  const existing = new Set(found.rows.map(r => r.id as string));
+  return productIds.filter(id => !existing.has(id));
+}
+
+/** Delete a layer and close the gap it leaves in the ordering. Returns false if it was not found. */
+export async function deleteLayer(db: Queryable, detailId: string, layerId: string): Promise<boolean> {
+  const deleted = await db.query(
+    'DELETE FROM layers WHERE id = $1 AND detail_id = $2 RETURNING order_index', [layerId, detailId]);
+  if (deleted.rows.length === 0) return false;
+  await db.query(
+    'UPDATE layers SET order_index = order_index - 1 WHERE detail_id = $1 AND order_index > $2',
+    [detailId, deleted.rows[0].order_index]);
+  return true;
+}
@@ -0,0 +1,104 @@
+import { randomBytes } from 'crypto';
+import { mkdir, rename, writeFile } from 'fs/promises';
+import { hostname } from 'os';
+import path from 'path';
+import { query } from '../db/connection.js';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  /** What the message is for, e.g. `password_reset`; stored with outbox rows */
+  kind: string;
+  tenantId?: string;
+}
+
+/** Delivers account emails. A real provider only needs to implement `send`. */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export const MAIL_FROM = process.env.MAIL_FROM || 'BIM Detail Viewer <no-reply@localhost>';
+/** Base URL of the frontend, for links in emails */
+export const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+// MAIL_TRANSPORT=outbox (default) stores messages in public.mail_outbox, where
+// developers and tests read them back; nothing leaves the machine.
+function outboxTransport(): MailTransport {
+  return {
+    async send(message) {
+      await query(
+        `INSERT INTO mail_outbox (tenant_id, kind, to_address, subject, text_body, html_body)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [message.tenantId ?? null, message.kind, message.to, message.subject, message.text, message.html ?? null]
+      );
+    },
+  };
+}
+
+// Non-ASCII subjects need an RFC 2047 encoded word
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+
+const base64Lines = (text: string) => Buffer.from(text).toString('base64').replace(/.{76}/g, '$&\r\n');
+
+/** Render a message as RFC 5322 text, multipart/alternative when it has an HTML part. */
+export function formatMessage(message: MailMessage, date = new Date()): string {
+  const id = `${Date.now()}.${randomBytes(6).toString('hex')}@${hostname()}`;
+  const headers = [
+    `From: ${MAIL_FROM}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${id}>`,
+    'MIME-Version: 1.0',
+  ];
+  const part = (type: string, body: string) =>
+    [`Content-Type: ${type}; charset=utf-8`, 'Content-Transfer-Encoding: base64', '', base64Lines(body)].join('\r\n');
+
+  if (!message.html) return [...headers, part('text/plain', message.text)].join('\r\n') + '\r\n';
+
+  const boundary = `=_${randomBytes(12).toString('hex')}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    part('text/plain', message.text),
+    `--${boundary}`,
+    part('text/html', message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+// MAIL_TRANSPORT=maildir writes each message as a file under MAILDIR/new,
+// readable by any mail client or plain `cat`.
+function maildirTransport(dir: string): MailTransport {
+  return {
+    async send(message) {
+      await Promise.all(['tmp', 'new', 'cur'].map(sub => mkdir(path.join(dir, sub), { recursive: true })));
+      // Maildir delivery: write under tmp/, then rename into new/ so readers never see a partial file
+      const name = `${Date.now()}.${process.pid}_${randomBytes(4).toString('hex')}.${hostname()}`;
+      const tmp = path.join(dir, 'tmp', name);
+      await writeFile(tmp, formatMessage(message));
+      await rename(tmp, path.join(dir, 'new', name));
+    },
+  };
+}
+
+let transport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  if (transport) return transport;
+  transport = process.env.MAIL_TRANSPORT === 'maildir'
+    ? maildirTransport(path.resolve(process.env.MAILDIR || 'maildir'))
+    : outboxTransport();
+  return transport;
+}
+
+/** Send through the configured transport. */
+export async function sendMail(message: MailMessage) {
+  await getMailTransport().send(message);
+}
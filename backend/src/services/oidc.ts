@@ -0,0 +1,277 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import type { Queryable } from '../db/connection.js';
+import { addMembership, createIdentity, detachIdentity } from './identities.js';
+import { APP_URL } from './mail.js';
+import { checkQuota } from './plans.js';
+import { openSecret, sealSecret } from '../utils/secrets.js';
+import { generateToken } from '../utils/tokens.js';
+import type { TenantContext } from '../types/express.js';
+import type { PlanErrorBody } from '../../../shared/types/plan.js';
+import type { SsoSettings, UpdateSsoSettingsRequest } from '../../../shared/types/sso.js';
+import type { UserRole } from '../../../shared/types/user.js';
+
+/** Where the identity provider sends the browser back; defaults to the app origin, which proxies /api */
+export const API_URL = process.env.API_URL || APP_URL;
+
+/** How long a user has to finish signing in at the provider */
+export const SSO_LOGIN_TTL_MINUTES = 10;
+/** How long the app has to trade the callback's one-time code for tokens */
+export const SSO_HANDOFF_TTL_SECONDS = 60;
+
+export function redirectUriFor(tenantSlug: string) {
+  return `${API_URL}/api/auth/sso/callback?tenant=${encodeURIComponent(tenantSlug)}`;
+}
+
+// ── Settings ──
+
+export function rowToSsoSettings(row: any, tenantSlug: string): SsoSettings {
+  return {
+    enabled: row.enabled,
+    issuer: row.issuer,
+    clientId: row.client_id,
+    hasClientSecret: !!row.client_secret_sealed,
+    allowedDomains: row.allowed_domains,
+    defaultRole: row.default_role,
+    redirectUri: redirectUriFor(tenantSlug),
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Insert or replace the tenant's provider. A missing `clientSecret` keeps the
+ * stored one; null clears it. Issuers are stored without a trailing slash.
+ */
+export async function saveSsoSettings(db: Queryable, input: UpdateSsoSettingsRequest, updatedBy: string) {
+  const secret = input.clientSecret === undefined ? undefined : input.clientSecret && sealSecret(input.clientSecret);
+  const result = await db.query(
+    `INSERT INTO sso_settings (id, enabled, issuer, client_id, client_secret_sealed, allowed_domains, default_role, updated_by)
+     VALUES (true, $1, $2, $3, $4, $5, $6, $7)
+     ON CONFLICT (id) DO UPDATE SET
+       enabled = $1, issuer = $2, client_id = $3,
+       client_secret_sealed = CASE WHEN $8 THEN sso_settings.client_secret_sealed ELSE $4 END,
+       allowed_domains = $5, default_role = $6, updated_by = $7, updated_at = NOW()
+     RETURNING *`,
+    [
+      input.enabled, input.issuer.replace(/\/+$/, ''), input.clientId, secret ?? null,
+      input.allowedDomains.map(d => d.toLowerCase()), input.defaultRole, updatedBy, secret === undefined,
+    ]
+  );
+  return result.rows[0];
+}
+
+// ── Provider discovery and keys ──
+
+export interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+const METADATA_TTL_MS = 60 * 60 * 1000;
+// A token signed with an unknown key triggers a JWKS refetch, at most this often
+const JWKS_REFETCH_MS = 60 * 1000;
+
+const metadataCache = new Map<string, { metadata: ProviderMetadata; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: (crypto.webcrypto.JsonWebKey & { kid?: string })[]; fetchedAt: number }>();
+
+async function getJson(url: string, init?: RequestInit): Promise<any> {
+  const res = await fetch(url, { ...init, headers: { Accept: 'application/json', ...init?.headers } });
+  const text = await res.text();
+  if (!res.ok) throw new Error(`${init?.method ?? 'GET'} ${url} failed: ${res.status} ${text.slice(0, 500)}`);
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(`${url} did not return JSON`);
+  }
+}
+
+/** The provider's `/.well-known/openid-configuration`, cached for an hour. */
+export async function discover(issuer: string): Promise<ProviderMetadata> {
+  const cached = metadataCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < METADATA_TTL_MS) return cached.metadata;
+
+  const metadata = await getJson(`${issuer}/.well-known/openid-configuration`) as ProviderMetadata;
+  for (const field of ['authorization_endpoint', 'token_endpoint', 'jwks_uri'] as const) {
+    if (typeof metadata[field] !== 'string') throw new Error(`Discovery document for ${issuer} has no ${field}`);
+  }
+  // OpenID Connect Discovery §4.3: the document must name the issuer it was fetched for
+  if (metadata.issuer !== issuer) throw new Error(`Discovery issuer ${metadata.issuer} does not match ${issuer}`);
+  metadataCache.set(issuer, { metadata, fetchedAt: Date.now() });
+  return metadata;
+}
+
+async function signingKey(jwksUri: string, kid: string | undefined): Promise<crypto.KeyObject> {
+  let cached = jwksCache.get(jwksUri);
+  const find = () => cached?.keys.find(k => (kid === undefined || k.kid === kid) && k.use !== 'enc');
+  if (!find() && (!cached || Date.now() - cached.fetchedAt > JWKS_REFETCH_MS)) {
+    const { keys } = await getJson(jwksUri);
+    if (!Array.isArray(keys)) throw new Error(`${jwksUri} has no keys`);
+    cached = { keys, fetchedAt: Date.now() };
+    jwksCache.set(jwksUri, cached);
+  }
+  const jwk = find();
+  if (!jwk) throw new Error(`No signing key ${kid ?? ''} at ${jwksUri}`);
+  return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+}
+
+// ── Authorization code flow with PKCE ──
+
+export interface PendingLogin {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+export function newPendingLogin(): PendingLogin {
+  return { state: generateToken(), nonce: generateToken(16), codeVerifier: generateToken(48) };
+}
+
+const codeChallenge = (verifier: string) => crypto.createHash('sha256').update(verifier).digest('base64url');
+
+export function authorizationUrl(metadata: ProviderMetadata, clientId: string, tenantSlug: string, login: PendingLogin) {
+  const url = new URL(metadata.authorization_endpoint);
+  url.search = new URLSearchParams({
+    ...Object.fromEntries(url.searchParams),
+    response_type: 'code',
+    client_id: clientId,
+    redirect_uri: redirectUriFor(tenantSlug),
+    scope: 'openid email profile',
+    state: login.state,
+    nonce: login.nonce,
+    code_challenge: codeChallenge(login.codeVerifier),
+    code_challenge_method: 'S256',
+  }).toString();
+  return url.toString();
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+}
+
+/** Trade the authorization code for tokens and return the verified ID token claims. */
+export async function completeLogin(
+  metadata: ProviderMetadata,
+  settings: { client_id: string; client_secret_sealed: string | null },
+  tenantSlug: string,
+  code: string,
+  login: { nonce: string; codeVerifier: string },
+): Promise<IdTokenClaims> {
+  const params = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUriFor(tenantSlug),
+    code_verifier: login.codeVerifier,
+    client_id: settings.client_id,
+  });
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+
+  if (settings.client_secret_sealed) {
+    const secret = openSecret(settings.client_secret_sealed);
+    // client_secret_basic is the default when the provider does not list its methods (RFC 8414 §2)
+    const methods = metadata.token_endpoint_auth_methods_supported ?? ['client_secret_basic'];
+    if (methods.includes('client_secret_basic')) {
+      const basic = `${encodeURIComponent(settings.client_id)}:${encodeURIComponent(secret)}`;
+      headers.Authorization = `Basic ${Buffer.from(basic).toString('base64')}`;
+    } else {
+      params.set('client_secret', secret);
+    }
+  }
+
+  const tokens = await getJson(metadata.token_endpoint, { method: 'POST', headers, body: params.toString() });
+  if (typeof tokens.id_token !== 'string') throw new Error('Token response has no id_token');
+  return verifyIdToken(metadata, tokens.id_token, settings.client_id, login.nonce);
+}
+
+async function verifyIdToken(metadata: ProviderMetadata, idToken: string, clientId: string, nonce: string) {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') throw new Error('ID token is not a JWT');
+  const key = await signingKey(metadata.jwks_uri, decoded.header.kid);
+  // Symmetric algorithms are refused: the key would have to be the client secret
+  const claims = jwt.verify(idToken, key, {
+    algorithms: ['RS256', 'RS384', 'RS512', 'PS256', 'ES256', 'ES384'],
+    issuer: metadata.issuer,
+    audience: clientId,
+    clockTolerance: 60,
+  }) as IdTokenClaims;
+  if (claims.nonce !== nonce) throw new Error('ID token nonce does not match the login');
+  return claims;
+}
+
+// ── Users ──
+
+export type SsoUserOutcome =
+  | { status: 'ok'; user: any; created: boolean }
+  | { status: 'no_email' | 'email_unverified' | 'domain_not_allowed' | 'identity_conflict' | 'deactivated' }
+  | { status: 'quota'; body: PlanErrorBody };
+
+const emailVerified = (claims: IdTokenClaims) => claims.email_verified === true || claims.email_verified === 'true';
+
+/**
+ * Find the user behind a verified ID token, linking an existing account by
+ * email (only when the provider has verified the address) or creating one
+ * with the tenant's default role. Either way the user's identity stays in
+ * this tenant. Run it in a transaction on the tenant schema.
+ */
+export async function resolveSsoUser(
+  db: Queryable,
+  tenant: TenantContext,
+  settings: { allowed_domains: string[]; default_role: UserRole },
+  claims: IdTokenClaims,
+): Promise<SsoUserOutcome> {
+  const email = claims.email?.trim().toLowerCase();
+  if (!email) return { status: 'no_email' };
+  const domain = email.slice(email.lastIndexOf('@') + 1);
+  if (settings.allowed_domains.length > 0 && !settings.allowed_domains.includes(domain)) {
+    return { status: 'domain_not_allowed' };
+  }
+
+  const linked = await db.query('SELECT * FROM users WHERE oidc_issuer = $1 AND oidc_subject = $2', [claims.iss, claims.sub]);
+  let user = linked.rows[0];
+
+  if (!user) {
+    // Domain checks and account linking trust the address, so the provider must vouch for it
+    if (!emailVerified(claims)) return { status: 'email_unverified' };
+    const byEmail = await db.query('SELECT * FROM users WHERE lower(email) = $1 FOR UPDATE', [email]);
+    user = byEmail.rows[0];
+    if (user?.oidc_subject) return { status: 'identity_conflict' };
+    if (user) {
+      const updated = await db.query(
+        `UPDATE users SET oidc_issuer = $1, oidc_subject = $2,
+           email_verified_at = COALESCE(email_verified_at, NOW()), updated_at = NOW()
+         WHERE id = $3 RETURNING *`,
+        [claims.iss, claims.sub, user.id]
+      );
+      user = updated.rows[0];
+      await detachIdentity(db, tenant.id, user.id);
+    }
+  }
+
+  if (user) return user.is_active ? { status: 'ok', user, created: false } : { status: 'deactivated' };
+
+  const quotaError = await checkQuota(db, tenant, 'users');
+  if (quotaError) return { status: 'quota', body: quotaError };
+
+  // The provider only speaks for this tenant, so the account never joins an
+  // identity elsewhere; its password is one nobody knows
+  const identity = await createIdentity(db, email, await bcrypt.hash(generateToken(), 10));
+  const name = claims.name || [claims.given_name, claims.family_name].filter(Boolean).join(' ') || email;
+  const created = await db.query(
+    `INSERT INTO users (email, name, role, email_verified_at, oidc_issuer, oidc_subject)
+     VALUES ($1, $2, $3, NOW(), $4, $5) RETURNING *`,
+    [email, name.slice(0, 255), settings.default_role, claims.iss, claims.sub]
+  );
+  await addMembership(db, identity.id, tenant.id, created.rows[0].id);
+  return { status: 'ok', user: created.rows[0], created: true };
+}
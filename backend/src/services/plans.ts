@@ -0,0 +1,114 @@
+import type { Queryable } from '../db/connection.js';
+import type { TenantContext } from '../types/express.js';
+import type {
+  PlanErrorBody, PlanFeature, PlanPolicy, QuotaResource, TenantPlan,
+} from '../../../shared/types/plan.js';
+
+export const PLAN_ORDER: TenantPlan[] = ['free', 'pro', 'enterprise'];
+
+export const PLAN_POLICIES: Record<TenantPlan, PlanPolicy> = {
+  free: {
+    limits: { details: 25, users: 3, projects: 5, apiKeys: 1 },
+    features: [],
+  },
+  pro: {
+    limits: { details: 1000, users: 25, projects: 200, apiKeys: 10 },
+    features: ['exports', 'webhooks'],
+  },
+  enterprise: {
+    limits: { details: null, users: null, projects: null, apiKeys: null },
+    features: ['exports', 'sso', 'webhooks'],
+  },
+};
+
+const PLAN_NAMES: Record<TenantPlan, string> = { free: 'Free', pro: 'Pro', enterprise: 'Enterprise' };
+
+const RESOURCE_LABELS: Record<QuotaResource, string> = {
+  details: 'details',
+  users: 'users',
+  projects: 'projects',
+  apiKeys: 'API keys',
+};
+
+const FEATURE_LABELS: Record<PlanFeature, string> = {
+  exports: 'Exporting',
+  sso: 'Single sign-on',
+  webhooks: 'Webhook delivery',
+};
+
+// Pending invitations count as seats so admins cannot invite past the limit
+const USAGE_QUERIES: Record<QuotaResource, string> = {
+  details: 'SELECT COUNT(*) FROM details',
+  users: `SELECT (SELECT COUNT(*) FROM users WHERE is_active)
+           + (SELECT COUNT(*) FROM invitations WHERE accepted_at IS NULL AND revoked_at IS NULL AND expires_at > NOW())`,
+  projects: 'SELECT COUNT(*) FROM projects',
+  apiKeys: 'SELECT COUNT(*) FROM api_keys WHERE revoked_at IS NULL',
+};
+
+/** Unknown plan values (e.g. a typo in the tenants table) get the most restrictive policy. */
+export function policyFor(plan: string): PlanPolicy {
+  return PLAN_POLICIES[plan as TenantPlan] ?? PLAN_POLICIES.free;
+}
+
+function upgradeFor(plan: TenantPlan, allows: (policy: PlanPolicy) => boolean): TenantPlan | null {
+  return PLAN_ORDER.slice(PLAN_ORDER.indexOf(plan) + 1).find(p => allows(PLAN_POLICIES[p])) ?? null;
+}
+
+/** Current count of each capped resource. Needs a client whose search_path is the tenant schema. */
+export async function planUsage(db: Queryable): Promise<Record<QuotaResource, number>> {
+  const usage = {} as Record<QuotaResource, number>;
+  for (const resource of Object.keys(USAGE_QUERIES) as QuotaResource[]) {
+    const result = await db.query(USAGE_QUERIES[resource]);
+    usage[resource] = parseInt(Object.values(result.rows[0])[0] as string);
+  }
+  return usage;
+}
+
+/**
+ * Check that the tenant can add `adding` more of a resource. Returns the
+ * 402 body to send, or null if there is room. Run it in the same
+ * transaction as the insert: the advisory lock serialises concurrent
+ * creators so two requests cannot both take the last slot.
+ */
+export async function checkQuota(
+  db: Queryable,
+  tenant: TenantContext,
+  resource: QuotaResource,
+  adding = 1,
+): Promise<PlanErrorBody | null> {
+  const limit = policyFor(tenant.plan).limits[resource];
+  if (limit === null) return null;
+
+  await db.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`${tenant.schemaName}:quota:${resource}`]);
+  const result = await db.query(USAGE_QUERIES[resource]);
+  const usage = parseInt(Object.values(result.rows[0])[0] as string);
+  if (usage + adding <= limit) return null;
+
+  const upgradeTo = upgradeFor(tenant.plan, p => p.limits[resource] === null || p.limits[resource]! >= usage + adding);
+  return {
+    error: `The ${PLAN_NAMES[tenant.plan] ?? tenant.plan} plan allows ${limit} ${RESOURCE_LABELS[resource]}.`
+      + (upgradeTo ? ` Upgrade to ${PLAN_NAMES[upgradeTo]} to add more.` : ''),
+    code: 'plan_limit_reached',
+    plan: tenant.plan,
+    upgradeTo,
+    resource,
+    limit,
+    usage,
+  };
+}
+
+export function hasFeature(tenant: TenantContext, feature: PlanFeature): boolean {
+  return policyFor(tenant.plan).features.includes(feature);
+}
+
+export function featureError(tenant: TenantContext, feature: PlanFeature): PlanErrorBody {
+  const upgradeTo = upgradeFor(tenant.plan, p => p.features.includes(feature));
+  return {
+    error: `${FEATURE_LABELS[feature]} is not included in the ${PLAN_NAMES[tenant.plan] ?? tenant.plan} plan.`
+      + (upgradeTo ? ` Upgrade to ${PLAN_NAMES[upgradeTo]} to use it.` : ''),
+    code: 'feature_not_in_plan',
+    plan: tenant.plan,
+    upgradeTo,
+    feature,
+  };
+}
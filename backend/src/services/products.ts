@@ -0,0 +1,92 @@
+import type { Queryable } from '../db/connection.js';
+import {
+  generateProductId, mapCsvTypeToProductType, type ProductTypeId,
+} from '../../../polr-holographic-viewer/types/products.js';
+
+const PRODUCT_TYPE_IDS: ProductTypeId[] = [
+  'membrane-tpo', 'membrane-epdm', 'membrane-pvc', 'membrane-mod-bit', 'membrane-fleece', 'membrane-generic',
+  'insulation-polyiso', 'insulation-xps', 'insulation-eps', 'insulation-mineral-wool',
+  'coating-silicone', 'coating-acrylic', 'coating-asphalt', 'coating-liquid',
+  'air-barrier', 'vapor-barrier', 'cover-board', 'flashing', 'fastener', 'adhesive', 'sealant', 'primer',
+];
+
+// Fallback CSI MasterFormat section when an import row does not name one
+const DEFAULT_CSI_BY_TYPE: Partial<Record<ProductTypeId, string>> = {
+  'membrane-tpo': '07 54 23',
+  'membrane-epdm': '07 53 23',
+  'membrane-pvc': '07 54 19',
+  'membrane-mod-bit': '07 52 00',
+  'membrane-fleece': '07 53 23',
+  'insulation-polyiso': '07 22 00',
+  'insulation-xps': '07 21 13',
+  'insulation-eps': '07 21 13',
+  'insulation-mineral-wool': '07 21 16',
+  'coating-silicone': '07 56 00',
+  'coating-acrylic': '07 56 00',
+  'coating-liquid': '07 56 00',
+  'air-barrier': '07 27 00',
+  'vapor-barrier': '07 26 00',
+  'cover-board': '07 22 16',
+  'flashing': '07 62 00',
+  'sealant': '07 92 00',
+};
+
+/** Accept either a catalog product type id or a free-text CSV type such as "TPO". */
+export function normalizeProductType(value: string): ProductTypeId {
+  const trimmed = value.trim().toLowerCase();
+  return (PRODUCT_TYPE_IDS as string[]).includes(trimmed)
+    ? trimmed as ProductTypeId
+    : mapCsvTypeToProductType(trimmed);
+}
+
+export function catalogIdFor(manufacturer: string | null | undefined, name: string): string {
+  return generateProductId(manufacturer || 'generic', name);
+}
+
+export function defaultCsiSection(productType: ProductTypeId): string | null {
+  return DEFAULT_CSI_BY_TYPE[productType] || null;
+}
+
+/**
+ * Look up the product a layer should link to. Layers keep a copy of the
+ * product name and manufacturer so exports and older clients can read them
+ * without a join; `syncLinkedLayers` keeps the copies current.
+ */
+export async function resolveProductLink(db: Queryable, productId: string | null | undefined) {
+  if (!productId) return null;
+  const result = await db.query('SELECT id, name, manufacturer FROM products WHERE id = $1', [productId]);
+  if (result.rows.length === 0) return null;
+  const p = result.rows[0];
+  return { productId: p.id as string, productName: p.name as string, manufacturer: p.manufacturer as string | null };
+}
+
+/** Copy a product's current name and manufacturer onto every layer that links to it. Returns affected detail ids. */
+export async function syncLinkedLayers(db: Queryable, productId: string): Promise<string[]> {
+  const result = await db.query(
+    `UPDATE layers l SET product_name = p.name, manufacturer = p.manufacturer
+     FROM products p
+     WHERE l.product_id = p.id AND p.id = $1
+       AND (l.product_name IS DISTINCT FROM p.name OR l.manufacturer IS DISTINCT FROM p.manufacturer)
+     RETURNING l.detail_id`,
+    [productId]
+  );
+  return [...new Set(result.rows.map(r => r.detail_id as string))];
+}
+
+export function rowToProduct(row: any) {
+  return {
+    id: row.id,
+    catalogId: row.catalog_id,
+    name: row.name,
+    manufacturer: row.manufacturer,
+    productType: row.product_type,
+    csiSection: row.csi_section,
+    description: row.description,
+    thicknessRange: row.thickness_range,
+    applicationNotes: row.application_notes,
+    sourceUrl: row.source_url,
+    layerCount: row.layer_count !== undefined ? parseInt(row.layer_count) : undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
@@ -0,0 +1,144 @@
+import type { Queryable } from '../db/connection.js';
+import { loadDetailSnapshot } from './details.js';
+import type {
+  DetailRevision, DetailSnapshot, FieldChange, LayerSnapshot, RevisionDiff,
+} from '../../../shared/types/revision.js';
+
+const DETAIL_FIELDS = ['name', 'category', 'description', 'metadata'] as const;
+const LAYER_FIELDS = [
+  'name', 'color', 'materialType', 'thicknessMm', 'productId', 'productName', 'manufacturer',
+  'csiSection', 'geometryParams', 'visibleDefault',
+] as const;
+
+/**
+ * Details created before revision tracking have no history. Record their
+ * current state as revision 1 before the first edit so it can be restored.
+ */
+export async function ensureBaselineRevision(db: Queryable, detailId: string) {
+  const detail = await db.query('SELECT created_by FROM details WHERE id = $1 FOR UPDATE', [detailId]);
+  if (detail.rows.length === 0) return;
+
+  const existing = await db.query(
+    'SELECT 1 FROM detail_revisions WHERE original_detail_id = $1 LIMIT 1', [detailId]);
+  if (existing.rows.length > 0) return;
+
+  await recordRevision(db, detailId, detail.rows[0].created_by, 'Baseline before revision tracking');
+}
+
+/** Snapshot the detail as it stands now and store it as the next revision. */
+export async function recordRevision(db: Queryable, detailId: string, userId: string | null, changeSummary: string) {
+  const snapshot = await loadDetailSnapshot(db, detailId, true);
+  if (!snapshot) return null;
+
+  const result = await db.query(
+    `INSERT INTO detail_revisions (detail_id, original_detail_id, revision_number, snapshot_json, change_summary, created_by)
+     VALUES ($1, $1, (SELECT COALESCE(MAX(revision_number), 0) + 1 FROM detail_revisions WHERE original_detail_id = $1), $2, $3, $4)
+     RETURNING *`,
+    [detailId, JSON.stringify(snapshot), changeSummary, userId]
+  );
+
+  return rowToRevision(result.rows[0]);
+}
+
+/**
+ * Overwrite a detail and its layers with a stored snapshot. Layer ids are
+ * preserved; a product link is dropped if that product has since been deleted.
+ */
+export async function applySnapshot(db: Queryable, detailId: string, snapshot: DetailSnapshot) {
+  const { detail, layers } = snapshot;
+
+  await db.query(
+    `UPDATE details SET name = $1, category = $2, description = $3, metadata_json = $4, updated_at = NOW()
+     WHERE id = $5`,
+    [detail.name, detail.category, detail.description, JSON.stringify(detail.metadata || {}), detailId]
+  );
+
+  await db.query('DELETE FROM layers WHERE detail_id = $1', [detailId]);
+
+  for (const layer of layers) {
+    await db.query(
+      `INSERT INTO layers (id, detail_id, name, order_index, color, material_type, thickness_mm, product_id, product_name, manufacturer, csi_section, geometry_params_json, visible_default)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, (SELECT id FROM products WHERE id = $8), $9, $10, $11, $12, $13)`,
+      [layer.id, detailId, layer.name, layer.orderIndex, layer.color, layer.materialType, layer.thicknessMm, layer.productId || null, layer.productName, layer.manufacturer, layer.csiSection, JSON.stringify(layer.geometryParams || {}), layer.visibleDefault]
+    );
+  }
+}
+
+/**
+ * Structured diff between two snapshots. Layers are matched by id; a layer
+ * counts as reordered when its position among the layers present in both
+ * snapshots changes, so inserting a layer does not mark everything below it.
+ */
+export function diffSnapshots(from: DetailSnapshot, to: DetailSnapshot, fromRevision: number, toRevision: number): RevisionDiff {
+  const detail: FieldChange[] = [];
+  for (const field of DETAIL_FIELDS) {
+    if (!isEqual(from.detail[field], to.detail[field])) {
+      detail.push({ field, from: from.detail[field], to: to.detail[field] });
+    }
+  }
+
+  const byOrder = (a: LayerSnapshot, b: LayerSnapshot) => a.orderIndex - b.orderIndex;
+  const fromLayers = [...from.layers].sort(byOrder);
+  const toLayers = [...to.layers].sort(byOrder);
+  const fromById = new Map(fromLayers.map(l => [l.id, l]));
+  const toById = new Map(toLayers.map(l => [l.id, l]));
+
+  const added = toLayers.filter(l => !fromById.has(l.id));
+  const removed = fromLayers.filter(l => !toById.has(l.id));
+
+  const commonFrom = fromLayers.filter(l => toById.has(l.id)).map(l => l.id);
+  const commonTo = toLayers.filter(l => fromById.has(l.id)).map(l => l.id);
+
+  const reordered: RevisionDiff['layers']['reordered'] = [];
+  const changed: RevisionDiff['layers']['changed'] = [];
+
+  commonTo.forEach((layerId, toPosition) => {
+    const before = fromById.get(layerId)!;
+    const after = toById.get(layerId)!;
+
+    const fromPosition = commonFrom.indexOf(layerId);
+    if (fromPosition !== toPosition) {
+      reordered.push({ layerId, name: after.name, fromPosition, toPosition });
+    }
+
+    const changes: FieldChange[] = [];
+    for (const field of LAYER_FIELDS) {
+      if (!isEqual(before[field], after[field])) {
+        changes.push({ field, from: before[field] ?? null, to: after[field] ?? null });
+      }
+    }
+    if (changes.length > 0) changed.push({ layerId, name: after.name, changes });
+  });
+
+  return { fromRevision, toRevision, detail, layers: { added, removed, reordered, changed } };
+}
+
+export function rowToRevision(row: any): DetailRevision {
+  return {
+    id: row.id,
+    detailId: row.detail_id ?? row.original_detail_id,
+    revisionNumber: row.revision_number,
+    changeSummary: row.change_summary,
+    createdBy: row.created_by,
+    createdByName: row.creator_name,
+    createdAt: row.created_at,
+    snapshot: row.snapshot_json,
+  };
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+}
+
+// JSONB does not preserve key order, so compare objects with sorted keys
+function normalize(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === 'object') {
+    return Object.keys(value as Record<string, unknown>).sort().reduce<Record<string, unknown>>((acc, key) => {
+      acc[key] = normalize((value as Record<string, unknown>)[key]);
+      return acc;
+    }, {});
+  }
+  return value;
+}
@@ -0,0 +1,95 @@
+import type { Queryable } from '../db/connection.js';
+import { generateToken, hashToken } from '../utils/tokens.js';
+
+export const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
+
+// Two tabs sharing one refresh token can race; a token presented again this
+// soon after rotation is refused without treating it as theft.
+const REUSE_GRACE_SECONDS = 10;
+
+export interface SessionMeta {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export type RotateResult =
+  | { status: 'ok'; sessionId: string; userId: string; refreshToken: string }
+  | { status: 'invalid' }
+  | { status: 'reused'; sessionId: string };
+
+async function issueRefreshToken(db: Queryable, sessionId: string): Promise<string> {
+  const token = generateToken(48);
+  await db.query(
+    `INSERT INTO refresh_tokens (session_id, token_hash, expires_at)
+     VALUES ($1, $2, NOW() + make_interval(days => $3))`,
+    [sessionId, hashToken(token), REFRESH_TOKEN_TTL_DAYS]
+  );
+  return token;
+}
+
+/** Start a session (one per sign-in) and return its first refresh token. */
+export async function createSession(db: Queryable, userId: string, meta: SessionMeta = {}) {
+  const result = await db.query(
+    'INSERT INTO sessions (user_id, user_agent, ip_address) VALUES ($1, $2, $3) RETURNING id',
+    [userId, meta.userAgent?.slice(0, 500) || null, meta.ipAddress || null]
+  );
+  const sessionId: string = result.rows[0].id;
+  const refreshToken = await issueRefreshToken(db, sessionId);
+  return { sessionId, refreshToken };
+}
+
+/**
+ * Exchange a refresh token for a new one in the same session. Each token
+ * works once; presenting a spent token revokes the whole session, since the
+ * only way that happens outside the grace window is a leaked token.
+ * Run inside a transaction.
+ */
+export async function rotateRefreshToken(db: Queryable, token: string): Promise<RotateResult> {
+  const result = await db.query(
+    `SELECT rt.id, rt.session_id, rt.expires_at, rt.used_at,
+            rt.used_at > NOW() - make_interval(secs => $2) AS within_grace,
+            s.user_id, s.revoked_at
+     FROM refresh_tokens rt JOIN sessions s ON s.id = rt.session_id
+     WHERE rt.token_hash = $1
+     FOR UPDATE OF rt, s`,
+    [hashToken(token), REUSE_GRACE_SECONDS]
+  );
+  if (result.rows.length === 0) return { status: 'invalid' };
+
+  const row = result.rows[0];
+  if (row.revoked_at || new Date(row.expires_at) <= new Date()) return { status: 'invalid' };
+
+  if (row.used_at) {
+    if (row.within_grace) return { status: 'invalid' };
+    await revokeSession(db, row.session_id);
+    return { status: 'reused', sessionId: row.session_id };
+  }
+
+  await db.query('UPDATE refresh_tokens SET used_at = NOW() WHERE id = $1', [row.id]);
+  await db.query('UPDATE sessions SET last_used_at = NOW() WHERE id = $1', [row.session_id]);
+  const refreshToken = await issueRefreshToken(db, row.session_id);
+
+  return { status: 'ok', sessionId: row.session_id, userId: row.user_id, refreshToken };
+}
+
+/** Find the session a refresh token belongs to, spent or not. */
+export async function findSessionByToken(db: Queryable, token: string) {
+  const result = await db.query(
+    `SELECT s.id, s.user_id FROM refresh_tokens rt JOIN sessions s ON s.id = rt.session_id
+     WHERE rt.token_hash = $1`,
+    [hashToken(token)]
+  );
+  if (result.rows.length === 0) return null;
+  return { sessionId: result.rows[0].id as string, userId: result.rows[0].user_id as string };
+}
+
+export async function revokeSession(db: Queryable, sessionId: string): Promise<void> {
+  await db.query('UPDATE sessions SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL', [sessionId]);
+}
+
+/** Sign a user out everywhere. Access tokens carry their session id, so they stop working too. */
+export async function revokeAllSessions(db: Queryable, userId: string): Promise<number> {
+  const result = await db.query(
+    'UPDATE sessions SET revoked_at = NOW() WHERE user_id = $1 AND revoked_at IS NULL', [userId]);
+  return result.rowCount ?? 0;
+}
@@ -0,0 +1,366 @@
+/**
+ * Reading and writing STEP physical files (ISO 10303-21), the text encoding
+ * IFC uses. The writer numbers entities as they are added; the parser gives
+ * back every entity in the DATA section with its attributes decoded into the
+ * same value shapes, so exports can be checked by reading them back and
+ * imports can walk the references.
+ */
+
+export type StepValue =
+  | { kind: 'ref'; id: number }
+  | { kind: 'enum'; value: string }
+  | { kind: 'string'; value: string }
+  | { kind: 'real'; value: number }
+  | { kind: 'integer'; value: number }
+  /** A value wrapped in its defined type, e.g. IFCLABEL('Membrane') */
+  | { kind: 'typed'; type: string; value: StepValue }
+  | { kind: 'null' }
+  /** `*`, an attribute a subtype derives instead of storing */
+  | { kind: 'derived' }
+  | StepValue[];
+
+export interface StepEntity {
+  id: number;
+  type: string;
+  args: StepValue[];
+}
+
+export interface StepFile {
+  /** FILE_SCHEMA identifiers, e.g. ['IFC4'] */
+  schemas: string[];
+  /** FILE_NAME's name attribute */
+  fileName: string | null;
+  entities: Map<number, StepEntity>;
+}
+
+export class StepParseError extends Error {}
+
+export const step = {
+  ref: (id: number): StepValue => ({ kind: 'ref', id }),
+  enum: (value: string): StepValue => ({ kind: 'enum', value }),
+  string: (value: string): StepValue => ({ kind: 'string', value }),
+  real: (value: number): StepValue => ({ kind: 'real', value }),
+  integer: (value: number): StepValue => ({ kind: 'integer', value }),
+  typed: (type: string, value: StepValue): StepValue => ({ kind: 'typed', type, value }),
+  null: { kind: 'null' } as StepValue,
+  derived: { kind: 'derived' } as StepValue,
+  /** Optional string: null and empty become `$` */
+  label: (value: string | null | undefined): StepValue => value ? { kind: 'string', value } : { kind: 'null' },
+};
+
+// ── Writing ──
+
+/** STEP strings are ASCII: quotes double, backslashes double, anything else goes in \X2\ blocks of UTF-16 hex. */
+export function encodeStepString(value: string): string {
+  let out = '';
+  let wide = '';
+  const flush = () => {
+    if (wide) out += `\\X2\\${wide}\\X0\\`;
+    wide = '';
+  };
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    if (code >= 0x20 && code <= 0x7e) {
+      flush();
+      out += value[i] === "'" ? "''" : value[i] === '\\' ? '\\\\' : value[i];
+    } else {
+      wide += code.toString(16).toUpperCase().padStart(4, '0');
+    }
+  }
+  flush();
+  return `'${out}'`;
+}
+
+/** Reals always carry a decimal point: 1. 0.5 1.E-05 */
+function encodeReal(value: number): string {
+  if (!Number.isFinite(value)) throw new Error(`Cannot write ${value} to a STEP file`);
+  const rounded = Number(value.toPrecision(12));
+  const [mantissa, exponent] = rounded.toExponential().split('e');
+  if (Math.abs(rounded) >= 1e-4 && Math.abs(rounded) < 1e15 || rounded === 0) {
+    const plain = String(rounded);
+    return plain.includes('.') ? plain : `${plain}.`;
+  }
+  return `${mantissa.includes('.') ? mantissa : `${mantissa}.`}E${exponent.startsWith('-') ? '-' : ''}${exponent.replace(/^[-+]/, '').padStart(2, '0')}`;
+}
+
+export function encodeStepValue(value: StepValue): string {
+  if (Array.isArray(value)) return `(${value.map(encodeStepValue).join(',')})`;
+  switch (value.kind) {
+    case 'ref': return `#${value.id}`;
+    case 'enum': return `.${value.value}.`;
+    case 'string': return encodeStepString(value.value);
+    case 'real': return encodeReal(value.value);
+    case 'integer': return String(Math.trunc(value.value));
+    case 'typed': return `${value.type}(${encodeStepValue(value.value)})`;
+    case 'null': return '$';
+    case 'derived': return '*';
+  }
+}
+
+export interface StepHeader {
+  description: string;
+  fileName: string;
+  timestamp: string;
+  author?: string;
+  organization?: string;
+  application: string;
+  schema: string;
+}
+
+export class StepWriter {
+  private lines: string[] = [];
+  private nextId = 1;
+
+  /** Add an entity and return its reference */
+  add(type: string, args: StepValue[]): StepValue {
+    const id = this.nextId++;
+    this.lines.push(`#${id}=${type.toUpperCase()}(${args.map(encodeStepValue).join(',')});`);
+    return step.ref(id);
+  }
+
+  toString(header: StepHeader): string {
+    const s = encodeStepString;
+    return [
+      'ISO-10303-21;',
+      'HEADER;',
+      `FILE_DESCRIPTION((${s(header.description)}),'2;1');`,
+      `FILE_NAME(${s(header.fileName)},${s(header.timestamp)},(${s(header.author ?? '')}),(${s(header.organization ?? '')}),${s(header.application)},${s(header.application)},'');`,
+      `FILE_SCHEMA((${s(header.schema)}));`,
+      'ENDSEC;',
+      'DATA;',
+      ...this.lines,
+      'ENDSEC;',
+      'END-ISO-10303-21;',
+      '',
+    ].join('\n');
+  }
+}
+
+// ── Parsing ──
+
+class Scanner {
+  pos = 0;
+  constructor(private text: string) {}
+
+  fail(message: string): never {
+    const line = this.text.slice(0, this.pos).split('\n').length;
+    throw new StepParseError(`${message} (line ${line})`);
+  }
+
+  skipSpace() {
+    for (;;) {
+      while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos++;
+      if (this.text.startsWith('/*', this.pos)) {
+        const end = this.text.indexOf('*/', this.pos + 2);
+        if (end < 0) this.fail('Unterminated comment');
+        this.pos = end + 2;
+      } else {
+        return;
+      }
+    }
+  }
+
+  peek(): string {
+    this.skipSpace();
+    return this.text[this.pos];
+  }
+
+  expect(token: string) {
+    this.skipSpace();
+    if (!this.text.startsWith(token, this.pos)) this.fail(`Expected "${token}"`);
+    this.pos += token.length;
+  }
+
+  keyword(): string {
+    this.skipSpace();
+    const match = /^!?[A-Za-z_][A-Za-z0-9_]*/.exec(this.text.slice(this.pos, this.pos + 200));
+    if (!match) this.fail('Expected a keyword');
+    this.pos += match[0].length;
+    return match[0].toUpperCase();
+  }
+
+  string(): string {
+    this.expect("'");
+    let raw = '';
+    for (;;) {
+      if (this.pos >= this.text.length) this.fail('Unterminated string');
+      const ch = this.text[this.pos++];
+      if (ch === "'") {
+        if (this.text[this.pos] === "'") { raw += "'"; this.pos++; continue; }
+        return decodeStepString(raw);
+      }
+      raw += ch;
+    }
+  }
+
+  value(): StepValue {
+    const ch = this.peek();
+    if (ch === '#') {
+      this.pos++;
+      const match = /^\d+/.exec(this.text.slice(this.pos, this.pos + 20));
+      if (!match) this.fail('Expected an entity number');
+      this.pos += match[0].length;
+      return step.ref(Number(match[0]));
+    }
+    if (ch === "'") return step.string(this.string());
+    if (ch === '$') { this.pos++; return step.null; }
+    if (ch === '*') { this.pos++; return step.derived; }
+    if (ch === '.') {
+      const end = this.text.indexOf('.', this.pos + 1);
+      if (end < 0) this.fail('Unterminated enumeration');
+      const value = this.text.slice(this.pos + 1, end).toUpperCase();
+      this.pos = end + 1;
+      return step.enum(value);
+    }
+    if (ch === '(') return this.list();
+    if (ch === '"') {
+      // Binary: kept as its hex text
+      const end = this.text.indexOf('"', this.pos + 1);
+      if (end < 0) this.fail('Unterminated binary');
+      const value = this.text.slice(this.pos + 1, end);
+      this.pos = end + 1;
+      return step.string(value);
+    }
+    const number = /^[+-]?\d+(\.\d*)?([eE][+-]?\d+)?/.exec(this.text.slice(this.pos, this.pos + 40));
+    if (number) {
+      this.pos += number[0].length;
+      return number[1] !== undefined || number[2] !== undefined ? step.real(Number(number[0])) : step.integer(Number(number[0]));
+    }
+    const type = this.keyword();
+    this.expect('(');
+    const inner = this.value();
+    this.expect(')');
+    return step.typed(type, inner);
+  }
+
+  list(): StepValue[] {
+    this.expect('(');
+    const items: StepValue[] = [];
+    if (this.peek() === ')') { this.pos++; return items; }
+    for (;;) {
+      items.push(this.value());
+      const next = this.peek();
+      if (next === ',') { this.pos++; continue; }
+      if (next === ')') { this.pos++; return items; }
+      this.fail('Expected "," or ")"');
+    }
+  }
+}
+
+/** Undo encodeStepString, plus the \S\ and \X\ escapes other writers use */
+export function decodeStepString(raw: string): string {
+  let out = '';
+  for (let i = 0; i < raw.length; i++) {
+    if (raw[i] !== '\\') { out += raw[i]; continue; }
+    if (raw.startsWith('\\\\', i)) { out += '\\'; i += 1; continue; }
+    if (raw.startsWith('\\X2\\', i) || raw.startsWith('\\X4\\', i)) {
+      const digits = raw[i + 2] === '2' ? 4 : 8;
+      const end = raw.indexOf('\\X0\\', i + 4);
+      if (end < 0) { out += raw[i]; continue; }
+      const hex = raw.slice(i + 4, end);
+      for (let k = 0; k + digits <= hex.length; k += digits) {
+        const code = parseInt(hex.slice(k, k + digits), 16);
+        out += digits === 4 ? String.fromCharCode(code) : String.fromCodePoint(code);
+      }
+      i = end + 3;
+      continue;
+    }
+    if (raw.startsWith('\\X\\', i)) {
+      out += String.fromCharCode(parseInt(raw.slice(i + 3, i + 5), 16));
+      i += 4;
+      continue;
+    }
+    if (raw.startsWith('\\S\\', i)) {
+      out += String.fromCharCode(raw.charCodeAt(i + 3) + 128);
+      i += 3;
+      continue;
+    }
+    // Code page switches (\PA\ etc.) carry no characters
+    if (/^\\P[A-I]\\/.test(raw.slice(i, i + 4))) { i += 3; continue; }
+    out += raw[i];
+  }
+  return out;
+}
+
+export function parseStep(text: string): StepFile {
+  const scanner: Scanner = new Scanner(text);
+  scanner.expect('ISO-10303-21;');
+
+  const file: StepFile = { schemas: [], fileName: null, entities: new Map() };
+
+  scanner.expect('HEADER;');
+  while (scanner.peek() !== undefined && !text.startsWith('ENDSEC', scanner.pos)) {
+    const name = scanner.keyword();
+    const args = scanner.list();
+    scanner.expect(';');
+    if (name === 'FILE_SCHEMA' && Array.isArray(args[0])) {
+      file.schemas = args[0].flatMap(v => !Array.isArray(v) && v.kind === 'string' ? [v.value.toUpperCase()] : []);
+    }
+    if (name === 'FILE_NAME' && !Array.isArray(args[0]) && args[0]?.kind === 'string') file.fileName = args[0].value;
+  }
+  scanner.expect('ENDSEC;');
+
+  scanner.expect('DATA');
+  // DATA may carry a section name and schema list in later editions of the standard
+  if (scanner.peek() === '(') scanner.list();
+  scanner.expect(';');
+  for (;;) {
+    if (scanner.peek() === undefined) scanner.fail('Missing ENDSEC after DATA');
+    if (text.startsWith('ENDSEC', scanner.pos)) break;
+    scanner.expect('#');
+    const idMatch = /^\d+/.exec(text.slice(scanner.pos, scanner.pos + 20));
+    if (!idMatch) scanner.fail('Expected an entity number');
+    scanner.pos += idMatch[0].length;
+    const id = Number(idMatch[0]);
+    scanner.expect('=');
+    if (scanner.peek() === '(') scanner.fail(`Complex entity #${id} is not supported`);
+    const type = scanner.keyword();
+    const args = scanner.list();
+    scanner.expect(';');
+    if (file.entities.has(id)) scanner.fail(`Entity #${id} is defined twice`);
+    file.entities.set(id, { id, type, args });
+  }
+  scanner.expect('ENDSEC;');
+  return file;
+}
+
+// ── Reading helpers ──
+
+export function entitiesOfType(file: StepFile, type: string): StepEntity[] {
+  const wanted = type.toUpperCase();
+  return [...file.entities.values()].filter(e => e.type === wanted);
+}
+
+export function deref(file: StepFile, value: StepValue | undefined): StepEntity | null {
+  return value && !Array.isArray(value) && value.kind === 'ref' ? file.entities.get(value.id) ?? null : null;
+}
+
+export function derefList(file: StepFile, value: StepValue | undefined): StepEntity[] {
+  return Array.isArray(value) ? value.map(v => deref(file, v)).filter((e): e is StepEntity => !!e) : [];
+}
+
+/** A string, number or enum attribute as a plain value, unwrapping typed values; null otherwise */
+export function asPlain(value: StepValue | undefined): string | number | null {
+  if (!value || Array.isArray(value)) return null;
+  switch (value.kind) {
+    case 'string':
+    case 'enum':
+    case 'real':
+    case 'integer':
+      return value.value;
+    case 'typed':
+      return asPlain(value.value);
+    default:
+      return null;
+  }
+}
+
+export function asText(value: StepValue | undefined): string | null {
+  const v = asPlain(value);
+  return v === null ? null : String(v);
+}
+
+export function asNumber(value: StepValue | undefined): number | null {
+  const v = asPlain(value);
+  return typeof v === 'number' ? v : null;
+}
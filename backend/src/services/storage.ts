@@ -0,0 +1,155 @@
+import { createHash, createHmac } from 'crypto';
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+
+/** Where uploaded files (tenant logos) live. Keys are `/`-separated paths. */
+export interface ObjectStore {
+  /** Store `body` under `key` and return the URL browsers should load it from. */
+  put(key: string, body: Buffer, contentType: string): Promise<string>;
+  /** Read an object back, or null if it does not exist. */
+  get(key: string): Promise<Buffer | null>;
+  /** Delete an object; a missing key is not an error. */
+  remove(key: string): Promise<void>;
+}
+
+// STORAGE_DRIVER=local (default) writes under UPLOAD_DIR, served by the API at /uploads
+export const UPLOAD_DIR = path.resolve(process.env.UPLOAD_DIR || 'uploads');
+export const UPLOAD_PUBLIC_URL = (process.env.UPLOAD_PUBLIC_URL || '/uploads').replace(/\/$/, '');
+
+function localStore(): ObjectStore {
+  // Keys are generated by the server, but never let one climb out of the upload dir
+  const resolve = (key: string) => {
+    const file = path.resolve(UPLOAD_DIR, key);
+    if (!file.startsWith(UPLOAD_DIR + path.sep)) throw new Error(`Invalid storage key: ${key}`);
+    return file;
+  };
+
+  return {
+    async put(key, body) {
+      const file = resolve(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, body);
+      return `${UPLOAD_PUBLIC_URL}/${key}`;
+    },
+    async get(key) {
+      return readFile(resolve(key)).catch(err => {
+        if (err.code === 'ENOENT') return null;
+        throw err;
+      });
+    },
+    async remove(key) {
+      await unlink(resolve(key)).catch(err => {
+        if (err.code !== 'ENOENT') throw err;
+      });
+    },
+  };
+}
+
+interface S3Config {
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  publicUrl: string;
+}
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) => createHmac('sha256', key).update(data).digest();
+const encodeKey = (key: string) =>
+  key.split('/').map(part => encodeURIComponent(part).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)).join('/');
+
+/**
+ * S3-compatible store (AWS S3, MinIO, R2, ...) using path-style requests
+ * signed with AWS Signature Version 4.
+ */
+function s3Store(config: S3Config): ObjectStore {
+  async function send(method: 'GET' | 'PUT' | 'DELETE', key: string, body?: Buffer, contentType?: string) {
+    const url = new URL(`${config.endpoint.replace(/\/$/, '')}/${config.bucket}/${encodeKey(key)}`);
+    const amzDate = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const date = amzDate.slice(0, 8);
+    const payloadHash = sha256(body ?? '');
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    if (contentType) headers['content-type'] = contentType;
+
+    const names = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      ...names.map(n => `${n}:${headers[n].trim()}`),
+      '',
+      names.join(';'),
+      payloadHash,
+    ].join('\n');
+    const scope = `${date}/${config.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+    const signingKey = ['s3', 'aws4_request'].reduce<Buffer>(
+      (k, part) => hmac(k, part),
+      hmac(hmac(`AWS4${config.secretAccessKey}`, date), config.region),
+    );
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const { host: _host, ...sent } = headers;
+    const res = await fetch(url, {
+      method,
+      headers: {
+        ...sent,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${names.join(';')}, Signature=${signature}`,
+      },
+      body,
+    });
+    if (!res.ok && !(method !== 'PUT' && res.status === 404)) {
+      throw new Error(`S3 ${method} ${key} failed: ${res.status} ${await res.text()}`);
+    }
+    return res;
+  }
+
+  return {
+    async put(key, body, contentType) {
+      await send('PUT', key, body, contentType);
+      return `${config.publicUrl.replace(/\/$/, '')}/${encodeKey(key)}`;
+    },
+    async get(key) {
+      const res = await send('GET', key);
+      return res.ok ? Buffer.from(await res.arrayBuffer()) : null;
+    },
+    async remove(key) {
+      await send('DELETE', key);
+    },
+  };
+}
+
+let store: ObjectStore | null = null;
+
+/**
+ * The configured store. STORAGE_DRIVER=s3 needs S3_BUCKET, S3_ACCESS_KEY_ID
+ * and S3_SECRET_ACCESS_KEY; S3_ENDPOINT defaults to AWS for S3_REGION and
+ * S3_PUBLIC_URL to the bucket URL on that endpoint.
+ */
+export function getObjectStore(): ObjectStore {
+  if (store) return store;
+
+  if (process.env.STORAGE_DRIVER === 's3') {
+    const region = process.env.S3_REGION || 'us-east-1';
+    const endpoint = process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`;
+    const bucket = process.env.S3_BUCKET;
+    const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+    const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+    if (!bucket || !accessKeyId || !secretAccessKey) {
+      throw new Error('STORAGE_DRIVER=s3 requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+    store = s3Store({
+      endpoint, bucket, region, accessKeyId, secretAccessKey,
+      publicUrl: process.env.S3_PUBLIC_URL || `${endpoint.replace(/\/$/, '')}/${bucket}`,
+    });
+  } else {
+    store = localStore();
+  }
+  return store;
+}
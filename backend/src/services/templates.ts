@@ -0,0 +1,132 @@
+import type { Queryable } from '../db/connection.js';
+import { SAMPLE_DETAILS } from '../../../polr-holographic-viewer/data/sample-details.js';
+import type { MaterialType, SemanticDetail } from '../../../polr-holographic-viewer/schemas/semantic-detail.js';
+import type { DetailCategory } from '../../../shared/types/detail.js';
+import type { GeometryParams, LayerFields } from '../../../shared/types/layer.js';
+
+// CSI MasterFormat section for each semantic material
+const CSI_BY_MATERIAL: Partial<Record<MaterialType, string>> = {
+  'concrete': '03 30 00',
+  'cmu': '04 22 00',
+  'steel': '05 12 00',
+  'wood': '06 10 00',
+  'membrane-fluid': '07 14 00',
+  'membrane-sheet': '07 13 00',
+  'insulation-rigid': '07 21 13',
+  'insulation-spray': '07 21 19',
+  'flashing-metal': '07 62 00',
+  'sealant': '07 92 00',
+  'backer-rod': '07 92 00',
+  'protection-board': '07 13 00',
+  'drainage-mat': '33 46 00',
+  'air-barrier': '07 27 00',
+  'vapor-barrier': '07 26 00',
+  'termination-bar': '07 62 00',
+  'reglet': '07 62 00',
+  'cant-strip': '07 22 00',
+};
+
+// Scene footprint used by the viewer's flat-layer geometry, in metres
+const SLAB_WIDTH = 2.4;
+const SLAB_DEPTH = 2.0;
+// Primers and films are a fraction of a millimetre; keep them visible
+const MIN_RENDER_HEIGHT = 0.005;
+
+function titleCase(text: string): string {
+  return text.toLowerCase().replace(/(^|[\s-])(\w)/g, (_, sep, c) => `${sep}${c.toUpperCase()}`);
+}
+
+/** Flat-slab geometry for layers stacked bottom to top, one entry per thickness. */
+export function stackedSlabGeometry(thicknessesMm: number[]): GeometryParams[] {
+  let top = 0;
+  return thicknessesMm.map(thicknessMm => {
+    const height = Math.max(thicknessMm / 1000, MIN_RENDER_HEIGHT);
+    const positionY = top + height / 2;
+    top += height;
+    return { type: 'box', width: SLAB_WIDTH, height, depth: SLAB_DEPTH, positionY };
+  });
+}
+
+/**
+ * Convert an authored semantic detail into template layers. Layers are
+ * stacked bottom to top as flat slabs, with thickness taken from the source
+ * and product names from its product references.
+ */
+export function semanticToTemplateLayers(detail: SemanticDetail): LayerFields[] {
+  const geometry = stackedSlabGeometry(detail.layers.map(layer => layer.thickness));
+  return detail.layers.map((layer, orderIndex) => {
+    const product = detail.products.find(p => p.layer === layer.id);
+    return {
+      name: titleCase(layer.annotation || layer.id.replace(/-/g, ' ')),
+      orderIndex,
+      color: product?.color || layer.properties.color,
+      materialType: layer.material,
+      thicknessMm: layer.thickness,
+      productName: product?.product,
+      manufacturer: product?.manufacturer,
+      csiSection: CSI_BY_MATERIAL[layer.material],
+      geometryParams: geometry[orderIndex],
+      visibleDefault: true,
+    };
+  });
+}
+
+// The viewer library has a wall-assembly category the SaaS does not
+function toDetailCategory(category: SemanticDetail['category']): DetailCategory {
+  return category === 'wall-assembly' ? 'air-barrier' : category;
+}
+
+/**
+ * Insert or refresh the built-in templates. Runs with every master schema
+ * migration, so the library is there without the demo seed; rows that
+ * already match are left alone.
+ */
+export async function seedTemplates(db: Queryable): Promise<number> {
+  for (const detail of SAMPLE_DETAILS) {
+    const metadata = {
+      parameters: detail.parameters,
+      viewport: detail.viewport,
+      connections: detail.connections,
+      // Same millimetre frame as the stacked layers, so the viewer draws them as authored
+      dimensions: detail.dimensions,
+      source: detail.source,
+      sourceVersion: detail.version,
+    };
+    await db.query(
+      `INSERT INTO public.detail_templates (slug, name, category, description, metadata_json, layers_json)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (slug) DO UPDATE SET
+         name = EXCLUDED.name, category = EXCLUDED.category, description = EXCLUDED.description,
+         metadata_json = EXCLUDED.metadata_json, layers_json = EXCLUDED.layers_json, updated_at = NOW()
+       WHERE (detail_templates.name, detail_templates.category, detail_templates.description,
+              detail_templates.metadata_json, detail_templates.layers_json)
+         IS DISTINCT FROM (EXCLUDED.name, EXCLUDED.category, EXCLUDED.description, EXCLUDED.metadata_json, EXCLUDED.layers_json)`,
+      [
+        detail.id, detail.name, toDetailCategory(detail.category), detail.description || '',
+        JSON.stringify(metadata), JSON.stringify(semanticToTemplateLayers(detail)),
+      ]
+    );
+  }
+  return SAMPLE_DETAILS.length;
+}
+
+export function rowToTemplate(row: any, withLayers = false) {
+  return {
+    id: row.id,
+    slug: row.slug,
+    name: row.name,
+    category: row.category,
+    description: row.description,
+    metadata: row.metadata_json,
+    layerCount: Array.isArray(row.layers_json) ? row.layers_json.length : 0,
+    layers: withLayers ? row.layers_json as LayerFields[] : undefined,
+    forkedDetailId: row.forked_detail_id ?? null,
+    updatedAt: row.updated_at,
+  };
+}
+
+/** Load one template by id, or null. Templates live in the public schema, visible from any tenant connection. */
+export async function findTemplate(db: Queryable, id: string) {
+  const result = await db.query('SELECT * FROM public.detail_templates WHERE id = $1', [id]);
+  return result.rows[0] ?? null;
+}
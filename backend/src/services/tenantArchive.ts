@@ -0,0 +1,524 @@
+import { createHash } from 'crypto';
+import bcrypt from 'bcryptjs';
+import { query, type Queryable } from '../db/connection.js';
+import { LOGO_TYPES, brandingColumns } from './branding.js';
+import { addMembership, createIdentity } from './identities.js';
+import { checkQuota } from './plans.js';
+import { ensureBaselineRevision, recordRevision } from './revisions.js';
+import { getObjectStore } from './storage.js';
+import { isUserRole } from './users.js';
+import { createZip, readZip, type ZipEntry } from './zip.js';
+import { isUuid } from '../utils/ids.js';
+import { generateToken } from '../utils/tokens.js';
+import { describeErrors, updateBrandingSchema, validate } from '../../../shared/validation/index.js';
+import type { TenantContext } from '../types/express.js';
+import type {
+  ArchiveEntity, ArchiveManifest, ImportConflictBody, ImportCounts, ImportReport, ImportStrategy,
+} from '../../../shared/types/archive.js';
+import type { PlanErrorBody } from '../../../shared/types/plan.js';
+
+export const ARCHIVE_FORMAT = 'bim-tenant-archive';
+export const ARCHIVE_VERSION = 1;
+export const IMPORT_STRATEGIES: ImportStrategy[] = ['fail', 'skip', 'overwrite'];
+
+// How far an uploaded archive may unpack. The JSON files are parsed as one
+// string each, so an entry can't usefully be larger than V8 strings allow.
+const UNPACK_LIMITS = {
+  maxEntryBytes: parseInt(process.env.IMPORT_MAX_ENTRY_BYTES || String(256 * 1024 * 1024)),
+  maxTotalBytes: parseInt(process.env.IMPORT_MAX_UNPACKED_BYTES || String(1024 * 1024 * 1024)),
+};
+
+export function isImportStrategy(value: unknown): value is ImportStrategy {
+  return IMPORT_STRATEGIES.includes(value as ImportStrategy);
+}
+
+// Import order: every table only references the ones before it
+const ENTITIES: ArchiveEntity[] = ['users', 'products', 'details', 'layers', 'projects'];
+
+// Archived columns per table. Passwords live with the global identity and are
+// never archived; sessions, API keys, invitations, revisions (and with them
+// the published revision), webhooks and the audit log stay behind.
+const COLUMNS: Record<ArchiveEntity, string[]> = {
+  users: ['id', 'email', 'name', 'role', 'is_active', 'deactivated_at', 'created_at', 'updated_at'],
+  products: [
+    'id', 'catalog_id', 'name', 'manufacturer', 'product_type', 'csi_section', 'description',
+    'thickness_range', 'application_notes', 'source_url', 'created_at', 'updated_at',
+  ],
+  details: ['id', 'name', 'category', 'description', 'metadata_json', 'template_id', 'created_by', 'created_at', 'updated_at'],
+  layers: [
+    'id', 'detail_id', 'name', 'order_index', 'color', 'material_type', 'thickness_mm', 'product_id',
+    'product_name', 'manufacturer', 'csi_section', 'geometry_params_json', 'visible_default', 'created_at',
+  ],
+  projects: ['id', 'name', 'client_name', 'detail_ids', 'created_by', 'created_at', 'updated_at'],
+};
+
+const ORDER_BY: Record<ArchiveEntity, string> = {
+  users: 'created_at, id',
+  products: 'catalog_id',
+  details: 'created_at, id',
+  layers: 'detail_id, order_index',
+  projects: 'created_at, id',
+};
+
+// Fields each archived record must carry; the rest may be null
+const REQUIRED: Record<ArchiveEntity, string[]> = {
+  users: ['email', 'name', 'role'],
+  products: ['catalog_id', 'name'],
+  details: ['name', 'category'],
+  layers: ['detail_id', 'name'],
+  projects: ['name'],
+};
+
+// Columns an overwrite leaves alone: identity, provenance and the user's email
+const KEEP_ON_OVERWRITE = new Set(['id', 'email', 'catalog_id', 'detail_id', 'created_by', 'created_at']);
+
+const JSON_COLUMNS = new Set(['metadata_json', 'geometry_params_json']);
+
+// Conflicts listed per entity in a 409, so the body stays readable for large tenants
+const MAX_LISTED_CONFLICTS = 50;
+
+interface BrandingRecord {
+  name: string;
+  primaryColor: string | null;
+  secondaryColor: string | null;
+  footerText: string | null;
+  /** Archive path of the logo file, if the tenant had one */
+  logo: string | null;
+}
+
+export interface TenantArchive {
+  manifest: ArchiveManifest;
+  records: Record<ArchiveEntity, Record<string, any>[]>;
+  branding: BrandingRecord;
+  logo: { data: Buffer; contentType: string; ext: string } | null;
+}
+
+const sha256 = (data: Buffer) => createHash('sha256').update(data).digest('hex');
+
+const jsonFile = (value: unknown) => Buffer.from(JSON.stringify(value, null, 2));
+
+/**
+ * Write a tenant's data to a ZIP. `db` must be scoped to the tenant schema;
+ * run it in a REPEATABLE READ transaction for a consistent snapshot.
+ * `tenant` is the tenants row.
+ */
+export async function exportTenantArchive(db: Queryable, tenant: any): Promise<{ zip: Buffer; manifest: ArchiveManifest }> {
+  const entries: ZipEntry[] = [];
+  const files: ArchiveManifest['files'] = {};
+  const add = (name: string, data: Buffer, records?: number) => {
+    entries.push({ name, data });
+    files[name] = { sha256: sha256(data), bytes: data.length, ...(records !== undefined && { records }) };
+  };
+
+  for (const entity of ENTITIES) {
+    const result = await db.query(`SELECT ${COLUMNS[entity].join(', ')} FROM ${entity} ORDER BY ${ORDER_BY[entity]}`);
+    add(`${entity}.json`, jsonFile(result.rows), result.rows.length);
+  }
+
+  let logo: string | null = null;
+  if (tenant.logo_key) {
+    const data = await getObjectStore().get(tenant.logo_key);
+    const type = data && Object.values(LOGO_TYPES).find(t => t.magic(data));
+    if (data && type) {
+      logo = `assets/logo.${type.ext}`;
+      add(logo, data);
+    }
+  }
+  const branding: BrandingRecord = {
+    name: tenant.name,
+    primaryColor: tenant.primary_color,
+    secondaryColor: tenant.secondary_color,
+    footerText: tenant.footer_text,
+    logo,
+  };
+  add('tenant.json', jsonFile(branding));
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: {
+      tenantId: tenant.id,
+      slug: tenant.slug,
+      name: tenant.name,
+      plan: tenant.plan,
+      schemaVersion: tenant.schema_version,
+    },
+    files,
+  };
+
+  return { zip: createZip([{ name: 'manifest.json', data: jsonFile(manifest) }, ...entries]), manifest };
+}
+
+function checkRecord(entity: ArchiveEntity, record: unknown, index: number): string | null {
+  const at = `${entity}.json[${index}]`;
+  if (typeof record !== 'object' || record === null || Array.isArray(record)) return `${at} must be an object.`;
+  const row = record as Record<string, unknown>;
+  if (!isUuid(row.id)) return `${at}.id must be a UUID.`;
+  for (const field of REQUIRED[entity]) {
+    if (row[field] === undefined || row[field] === null || row[field] === '') return `${at}.${field} is required.`;
+  }
+  if (entity === 'users' && !isUserRole(row.role)) return `${at}.role must be admin, editor or viewer.`;
+  if (entity === 'layers' && !isUuid(row.detail_id)) return `${at}.detail_id must be a UUID.`;
+  if (entity === 'projects' && row.detail_ids != null && !(Array.isArray(row.detail_ids) && row.detail_ids.every(isUuid))) {
+    return `${at}.detail_ids must be an array of UUIDs.`;
+  }
+  return null;
+}
+
+/** Unpack an archive and verify its manifest and checksums. Nothing is written. */
+export function readTenantArchive(zip: Buffer): { value: TenantArchive } | { error: string } {
+  let files: Map<string, Buffer>;
+  try {
+    files = readZip(zip, UNPACK_LIMITS);
+  } catch (err) {
+    return { error: `Not a valid archive: ${err instanceof Error ? err.message : String(err)}.` };
+  }
+
+  const parse = (name: string): { value: any } | { error: string } => {
+    try {
+      return { value: JSON.parse(files.get(name)!.toString('utf8')) };
+    } catch {
+      return { error: `${name} is not valid JSON.` };
+    }
+  };
+
+  if (!files.has('manifest.json')) return { error: 'Archive has no manifest.json.' };
+  const parsedManifest = parse('manifest.json');
+  if ('error' in parsedManifest) return parsedManifest;
+  const manifest = parsedManifest.value as ArchiveManifest;
+  if (manifest?.format !== ARCHIVE_FORMAT) return { error: 'Archive is not a tenant export.' };
+  if (!Number.isInteger(manifest.version) || manifest.version > ARCHIVE_VERSION) {
+    return { error: `Archive version ${manifest.version} is not supported (newest supported: ${ARCHIVE_VERSION}).` };
+  }
+  if (typeof manifest.files !== 'object' || manifest.files === null) return { error: 'Manifest has no file list.' };
+
+  for (const [name, meta] of Object.entries(manifest.files)) {
+    const data = files.get(name);
+    if (!data) return { error: `Archive is missing ${name}.` };
+    if (data.length !== meta.bytes || sha256(data) !== meta.sha256) return { error: `Checksum mismatch for ${name}.` };
+  }
+
+  // Only files covered by the manifest are trusted
+  const records = {} as TenantArchive['records'];
+  for (const entity of ENTITIES) {
+    const name = `${entity}.json`;
+    if (!manifest.files[name]) return { error: `Archive is missing ${name}.` };
+    const parsed = parse(name);
+    if ('error' in parsed) return parsed;
+    if (!Array.isArray(parsed.value)) return { error: `${name} must be an array.` };
+    for (const [i, record] of parsed.value.entries()) {
+      const err = checkRecord(entity, record, i);
+      if (err) return { error: err };
+    }
+    records[entity] = parsed.value;
+  }
+
+  const detailIds = new Set(records.details.map(d => d.id));
+  const orphan = records.layers.findIndex(l => !detailIds.has(l.detail_id));
+  if (orphan >= 0) return { error: `layers.json[${orphan}] belongs to a detail that is not in the archive.` };
+
+  if (!manifest.files['tenant.json']) return { error: 'Archive is missing tenant.json.' };
+  const parsedBranding = parse('tenant.json');
+  if ('error' in parsedBranding) return parsedBranding;
+  const branding = parsedBranding.value as BrandingRecord;
+
+  let logo: TenantArchive['logo'] = null;
+  if (branding.logo && manifest.files[branding.logo]) {
+    const data = files.get(branding.logo)!;
+    const match = Object.entries(LOGO_TYPES).find(([, t]) => t.magic(data));
+    if (match) logo = { data, contentType: match[0], ext: match[1].ext };
+  }
+
+  return { value: { manifest, records, branding, logo } };
+}
+
+function encode(column: string, value: unknown) {
+  return JSON_COLUMNS.has(column) ? JSON.stringify(value ?? {}) : value ?? null;
+}
+
+async function insertRecord(db: Queryable, table: ArchiveEntity, record: Record<string, any>) {
+  const columns = COLUMNS[table].filter(c => record[c] !== undefined);
+  await db.query(
+    `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map((_, i) => `$${i + 1}`).join(', ')})`,
+    columns.map(c => encode(c, record[c]))
+  );
+}
+
+async function overwriteRecord(db: Queryable, table: ArchiveEntity, id: string, record: Record<string, any>) {
+  const columns = COLUMNS[table].filter(c => !KEEP_ON_OVERWRITE.has(c) && record[c] !== undefined && c !== 'updated_at');
+  const touch = COLUMNS[table].includes('updated_at') ? ', updated_at = NOW()' : '';
+  await db.query(
+    `UPDATE ${table} SET ${columns.map((c, i) => `${c} = $${i + 2}`).join(', ')}${touch} WHERE id = $1`,
+    [id, ...columns.map(c => encode(c, record[c]))]
+  );
+}
+
+export interface ImportOptions {
+  strategy: ImportStrategy;
+  /** Tenant the schema belongs to; new users become its members */
+  tenantId: string;
+  /** Importing user; recorded on revisions and never demoted or deactivated by an overwrite */
+  actorId: string | null;
+  /** When set, plan quotas are enforced for the records the import would add */
+  tenant?: TenantContext;
+}
+
+export type ImportOutcome =
+  | { status: 200; report: ImportReport }
+  | { status: 402; body: PlanErrorBody }
+  | { status: 409; body: ImportConflictBody };
+
+/**
+ * Restore an archive into the tenant schema `db` is scoped to. Run it in a
+ * transaction: a conflict or quota refusal returns before anything is
+ * written, but an unexpected error part-way needs the rollback. Records
+ * keep their archived ids. An existing record is matched by id, and also
+ * by email for users and catalog id for products.
+ */
+export async function importTenantArchive(db: Queryable, archive: TenantArchive, options: ImportOptions): Promise<ImportOutcome> {
+  const { records } = archive;
+  const { strategy } = options;
+  const counts = Object.fromEntries(
+    ENTITIES.map(e => [e, { created: 0, updated: 0, skipped: 0 }])) as Record<ArchiveEntity, ImportCounts>;
+  const warnings: string[] = [];
+
+  // Archive id -> id of the matching record already in the tenant
+  const existingUsers = await db.query(
+    'SELECT id, lower(email) AS email FROM users WHERE id = ANY($1::uuid[]) OR lower(email) = ANY($2::text[])',
+    [records.users.map(u => u.id), records.users.map(u => String(u.email).toLowerCase())]
+  );
+  const userByEmail = new Map(existingUsers.rows.map(r => [r.email as string, r.id as string]));
+  const userById = new Set(existingUsers.rows.map(r => r.id as string));
+  const userMatch = new Map<string, string>();
+  for (const u of records.users) {
+    const match = userByEmail.get(String(u.email).toLowerCase()) ?? (userById.has(u.id) ? u.id : undefined);
+    if (match) userMatch.set(u.id, match);
+  }
+
+  const existingProducts = await db.query(
+    'SELECT id, catalog_id FROM products WHERE id = ANY($1::uuid[]) OR catalog_id = ANY($2::text[])',
+    [records.products.map(p => p.id), records.products.map(p => p.catalog_id)]
+  );
+  const productByCatalog = new Map(existingProducts.rows.map(r => [r.catalog_id as string, r.id as string]));
+  const productById = new Set(existingProducts.rows.map(r => r.id as string));
+  const productMatch = new Map<string, string>();
+  for (const p of records.products) {
+    const match = productByCatalog.get(p.catalog_id) ?? (productById.has(p.id) ? p.id : undefined);
+    if (match) productMatch.set(p.id, match);
+  }
+
+  const existingIds = async (table: 'details' | 'projects') => new Set((await db.query(
+    `SELECT id FROM ${table} WHERE id = ANY($1::uuid[])`, [records[table].map(r => r.id)])).rows.map(r => r.id as string));
+  const existingDetails = await existingIds('details');
+  const existingProjects = await existingIds('projects');
+
+  if (strategy === 'fail') {
+    const conflicts: ImportConflictBody['conflicts'] = {};
+    const listed = (values: string[]) => values.slice(0, MAX_LISTED_CONFLICTS);
+    const users = records.users.filter(u => userMatch.has(u.id)).map(u => u.email);
+    const products = records.products.filter(p => productMatch.has(p.id)).map(p => p.catalog_id);
+    const details = records.details.filter(d => existingDetails.has(d.id)).map(d => d.id);
+    const projects = records.projects.filter(p => existingProjects.has(p.id)).map(p => p.id);
+    if (users.length) conflicts.users = listed(users);
+    if (products.length) conflicts.products = listed(products);
+    if (details.length) conflicts.details = listed(details);
+    if (projects.length) conflicts.projects = listed(projects);
+
+    const total = users.length + products.length + details.length + projects.length;
+    if (total > 0) {
+      return {
+        status: 409,
+        body: {
+          error: `${total} archived record${total === 1 ? '' : 's'} already exist in this organization. Import again with skip or overwrite.`,
+          code: 'import_conflict',
+          conflicts,
+        },
+      };
+    }
+  }
+
+  if (options.tenant) {
+    const adding: [ 'users' | 'details' | 'projects', number][] = [
+      ['users', records.users.filter(u => !userMatch.has(u.id) && u.is_active !== false).length],
+      ['details', records.details.filter(d => !existingDetails.has(d.id)).length],
+      ['projects', records.projects.filter(p => !existingProjects.has(p.id)).length],
+    ];
+    for (const [resource, count] of adding) {
+      if (count === 0) continue;
+      const quotaError = await checkQuota(db, options.tenant, resource, count);
+      if (quotaError) return { status: 402, body: quotaError };
+    }
+  }
+
+  // Users: archived ids are mapped to whichever row they ended up as
+  const userIds = new Map<string, string>();
+  let unusableHash: string | null = null;
+  let usersWithoutPassword = 0;
+  for (const u of records.users) {
+    const match = userMatch.get(u.id);
+    if (!match) {
+      // An archive can name anyone's address, so imported users get an
+      // identity of their own. Nobody knows this secret: they need a new
+      // password first.
+      unusableHash ??= await bcrypt.hash(generateToken(), 10);
+      const identity = await createIdentity(db, String(u.email), unusableHash);
+      usersWithoutPassword++;
+      await insertRecord(db, 'users', u);
+      await addMembership(db, identity.id, options.tenantId, u.id);
+      userIds.set(u.id, u.id);
+      counts.users.created++;
+      continue;
+    }
+    userIds.set(u.id, match);
+    if (strategy === 'overwrite' && match === options.actorId) {
+      warnings.push('Your own account was left unchanged.');
+      counts.users.skipped++;
+    } else if (strategy === 'overwrite') {
+      await overwriteRecord(db, 'users', match, u);
+      counts.users.updated++;
+    } else {
+      counts.users.skipped++;
+    }
+  }
+
+  const productIds = new Map<string, string>();
+  for (const p of records.products) {
+    const match = productMatch.get(p.id);
+    if (!match) {
+      await insertRecord(db, 'products', p);
+      productIds.set(p.id, p.id);
+      counts.products.created++;
+    } else {
+      productIds.set(p.id, match);
+      if (strategy === 'overwrite') {
+        await overwriteRecord(db, 'products', match, p);
+        counts.products.updated++;
+      } else {
+        counts.products.skipped++;
+      }
+    }
+  }
+
+  // Templates are platform data; a link to one this environment lacks is dropped
+  const templateIds = records.details.map(d => d.template_id).filter(isUuid);
+  const knownTemplates = new Set((await db.query(
+    'SELECT id FROM public.detail_templates WHERE id = ANY($1::uuid[])', [templateIds])).rows.map(r => r.id as string));
+  const droppedTemplates = templateIds.filter(id => !knownTemplates.has(id)).length;
+  if (droppedTemplates > 0) warnings.push(`${droppedTemplates} detail(s) link to templates that do not exist here; the links were dropped.`);
+
+  const layersByDetail = new Map<string, Record<string, any>[]>();
+  let unlinkedLayers = 0;
+  for (const l of records.layers) {
+    const productId = l.product_id ? productIds.get(l.product_id) ?? null : null;
+    if (l.product_id && !productId) unlinkedLayers++;
+    const list = layersByDetail.get(l.detail_id) ?? [];
+    list.push({ ...l, product_id: productId });
+    layersByDetail.set(l.detail_id, list);
+  }
+  if (unlinkedLayers > 0) warnings.push(`${unlinkedLayers} layer(s) referenced products missing from the archive and were unlinked.`);
+
+  const mapUser = (id: string | null | undefined) => id ? userIds.get(id) ?? null : null;
+  const summary = `Imported from ${archive.manifest.source.slug}`;
+
+  for (const d of records.details) {
+    const layers = layersByDetail.get(d.id) ?? [];
+    const detail = {
+      ...d,
+      created_by: mapUser(d.created_by),
+      template_id: knownTemplates.has(d.template_id) ? d.template_id : null,
+    };
+
+    if (existingDetails.has(d.id)) {
+      if (strategy !== 'overwrite') {
+        counts.details.skipped++;
+        counts.layers.skipped += layers.length;
+        continue;
+      }
+      await ensureBaselineRevision(db, d.id);
+      await overwriteRecord(db, 'details', d.id, detail);
+      await db.query('DELETE FROM layers WHERE detail_id = $1', [d.id]);
+      counts.details.updated++;
+    } else {
+      await insertRecord(db, 'details', detail);
+      counts.details.created++;
+    }
+
+    for (const layer of layers) await insertRecord(db, 'layers', layer);
+    counts.layers.created += layers.length;
+    await recordRevision(db, d.id, options.actorId, summary);
+  }
+
+  // Every archived detail exists now, either imported or kept
+  const detailIds = new Set(records.details.map(d => d.id));
+  for (const p of records.projects) {
+    const project = {
+      ...p,
+      created_by: mapUser(p.created_by),
+      detail_ids: (p.detail_ids ?? []).filter((id: string) => detailIds.has(id)),
+    };
+    if (!existingProjects.has(p.id)) {
+      await insertRecord(db, 'projects', project);
+      counts.projects.created++;
+    } else if (strategy === 'overwrite') {
+      await overwriteRecord(db, 'projects', p.id, project);
+      counts.projects.updated++;
+    } else {
+      counts.projects.skipped++;
+    }
+  }
+
+  return {
+    status: 200,
+    report: {
+      strategy,
+      source: archive.manifest.source,
+      exportedAt: archive.manifest.exportedAt,
+      counts,
+      brandingApplied: false,
+      usersWithoutPassword,
+      warnings,
+    },
+  };
+}
+
+/**
+ * Copy the archived name, colors, footer and logo onto a tenant. Runs
+ * outside the import transaction because the logo goes to object storage.
+ */
+export async function applyArchiveBranding(tenantId: string, archive: TenantArchive, warnings: string[]) {
+  const { branding, logo } = archive;
+  const checked = validate(updateBrandingSchema, {
+    brandName: branding.name,
+    ...(branding.primaryColor && { primaryColor: branding.primaryColor }),
+    ...(branding.secondaryColor && { secondaryColor: branding.secondaryColor }),
+    footerText: branding.footerText ?? null,
+  });
+  if ('errors' in checked) {
+    warnings.push(`Branding was not applied: ${describeErrors(checked.errors)}`);
+    return false;
+  }
+  const values = brandingColumns(checked.value);
+
+  const store = getObjectStore();
+  const before = await query('SELECT logo_key FROM tenants WHERE id = $1', [tenantId]);
+  let logoUrl: string | null = null;
+  let logoKey: string | null = null;
+  if (logo) {
+    logoKey = `tenants/${tenantId}/logo-${generateToken(8)}.${logo.ext}`;
+    logoUrl = await store.put(logoKey, logo.data, logo.contentType);
+  }
+
+  const columns = Object.keys(values);
+  await query(
+    `UPDATE tenants SET ${columns.map((c, i) => `${c} = $${i + 4}`).join(', ')}, logo_url = $2, logo_key = $3, updated_at = NOW()
+     WHERE id = $1`,
+    [tenantId, logoUrl, logoKey, ...columns.map(c => values[c])]
+  );
+
+  const oldKey = before.rows[0]?.logo_key;
+  if (oldKey && oldKey !== logoKey) {
+    await store.remove(oldKey).catch(err => console.error('[archive] Failed to remove old logo:', err));
+  }
+  return true;
+}
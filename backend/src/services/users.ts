@@ -0,0 +1,49 @@
+import type { Queryable } from '../db/connection.js';
+import type { UserRole } from '../../../shared/types/user.js';
+
+export const USER_ROLES: UserRole[] = ['admin', 'editor', 'viewer'];
+
+export const INVITE_TTL_DAYS = parseInt(process.env.INVITE_TTL_DAYS || '7');
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as string[]).includes(value);
+}
+
+/**
+ * Number of active admins other than `excludeUserId`. Used to stop the last
+ * admin from demoting or deactivating themselves out of the tenant.
+ */
+export async function countOtherActiveAdmins(db: Queryable, excludeUserId: string): Promise<number> {
+  const result = await db.query(
+    `SELECT COUNT(*) AS count FROM users WHERE role = 'admin' AND is_active AND id <> $1`,
+    [excludeUserId]
+  );
+  return parseInt(result.rows[0].count);
+}
+
+export function rowToUser(row: any) {
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    role: row.role,
+    isActive: row.is_active,
+    deactivatedAt: row.deactivated_at,
+    emailVerifiedAt: row.email_verified_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function rowToInvitation(row: any) {
+  return {
+    id: row.id,
+    email: row.email,
+    role: row.role,
+    invitedBy: row.invited_by,
+    inviterName: row.inviter_name,
+    expiresAt: row.expires_at,
+    acceptedAt: row.accepted_at,
+    createdAt: row.created_at,
+  };
+}
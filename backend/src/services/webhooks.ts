@@ -0,0 +1,345 @@
+import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
+import { query, queryWithSchema, type Queryable } from '../db/connection.js';
+import { TENANT_MIGRATIONS } from '../db/migrations.js';
+import { hasFeature } from './plans.js';
+import { isPublicAddress, publicLookup, resolveHost } from '../utils/addresses.js';
+import { openSecret } from '../utils/secrets.js';
+import { generateToken } from '../utils/tokens.js';
+import type { AuthenticatedRequest } from '../types/express.js';
+import type {
+  Webhook, WebhookDelivery, WebhookEvent, WebhookPayload,
+} from '../../../shared/types/webhook.js';
+
+/**
+ * Outbound webhooks. Routes queue an event inside the transaction that makes
+ * the change, so a delivery exists exactly when the change does; a worker
+ * then POSTs due deliveries, retrying failures with exponential backoff.
+ *
+ * Each request carries
+ *   X-Webhook-Id         the delivery id
+ *   X-Webhook-Event      e.g. `detail.updated`
+ *   X-Webhook-Timestamp  unix seconds
+ *   X-Webhook-Signature  `sha256=` + hex HMAC-SHA256 of `<timestamp>.<body>` keyed with the webhook's secret
+ * and counts as delivered on any 2xx response.
+ *
+ * Tenants choose the URLs, so requests only go to https URLs on public
+ * addresses; the check runs when a webhook is saved and again as each
+ * request connects, after DNS resolution.
+ */
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+/** Attempts before a delivery is marked failed; redeliver it from the log after that */
+export const MAX_ATTEMPTS = 8;
+const RETRY_BASE_SECONDS = 30;
+const RETRY_MAX_SECONDS = 6 * 60 * 60;
+const REQUEST_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000');
+// A claimed delivery is retried after this long if the worker dies mid-request
+const CLAIM_LEASE_SECONDS = 60;
+const CLAIM_BATCH = 20;
+const RESPONSE_BODY_LIMIT = 2000;
+const POLL_INTERVAL_MS = parseInt(process.env.WEBHOOK_POLL_MS || '5000');
+
+/**
+ * Where webhooks may POST. Plain http is for development only;
+ * WEBHOOK_ALLOW_PRIVATE_TARGETS=true lets them reach this machine and the
+ * local network, e.g. the dev receiver, and must stay off in production.
+ */
+export const WEBHOOK_TARGET_POLICY = {
+  allowHttp: process.env.NODE_ENV === 'development',
+  allowPrivate: process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS === 'true',
+};
+
+/** Receivers reject signatures older than this, which limits replays */
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const WEBHOOKS_SCHEMA_VERSION = TENANT_MIGRATIONS.find(m => m.name === 'webhooks')!.version;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${generateToken(24)}`;
+}
+
+export function rowToWebhook(row: any): Webhook {
+  return {
+    id: row.id,
+    url: row.url,
+    description: row.description,
+    events: row.events,
+    enabled: row.enabled,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function rowToDelivery(row: any, withPayload = false): WebhookDelivery {
+  return {
+    id: row.id,
+    webhookId: row.webhook_id,
+    eventId: row.event_id,
+    event: row.event,
+    status: row.status,
+    attempts: row.attempts,
+    nextAttemptAt: row.status === 'pending' ? row.next_attempt_at : null,
+    lastAttemptAt: row.last_attempt_at,
+    deliveredAt: row.delivered_at,
+    responseStatus: row.response_status,
+    responseBody: row.response_body,
+    lastError: row.last_error,
+    durationMs: row.duration_ms,
+    redeliveryOf: row.redelivery_of,
+    createdAt: row.created_at,
+    ...(withPayload ? { payload: row.payload_json } : {}),
+  };
+}
+
+// ── Signing ──
+
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/** What a receiver does with the headers and the raw request body. */
+export function verifyWebhookSignature(
+  secret: string,
+  headers: { timestamp: string | undefined; signature: string | undefined },
+  body: string,
+  now = Date.now(),
+): boolean {
+  const timestamp = Number(headers.timestamp);
+  if (!Number.isInteger(timestamp) || !headers.signature) return false;
+  if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = Buffer.from(signPayload(secret, timestamp, body));
+  const given = Buffer.from(headers.signature);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
+
+/** Seconds to wait after the `attempt`-th failed attempt: 30s, 1m, 2m, 4m ... capped at 6h. */
+export function retryDelaySeconds(attempt: number): number {
+  return Math.min(RETRY_BASE_SECONDS * 2 ** (attempt - 1), RETRY_MAX_SECONDS);
+}
+
+// ── Targets ──
+
+/** Why a webhook may not POST to `url` (a field message for `url`), or null if it may. */
+export async function webhookTargetError(url: string): Promise<string | null> {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    return 'must be an http(s) URL';
+  }
+  if (target.protocol !== 'https:' && !(WEBHOOK_TARGET_POLICY.allowHttp && target.protocol === 'http:')) {
+    return 'must be an https URL';
+  }
+  if (WEBHOOK_TARGET_POLICY.allowPrivate) return null;
+
+  let addresses: string[];
+  try {
+    addresses = await resolveHost(target.hostname);
+  } catch {
+    return `has a host that could not be resolved (${target.hostname})`;
+  }
+  return addresses.every(isPublicAddress) ? null : 'must not point at a loopback, link-local or private address';
+}
+
+// ── Queueing ──
+
+function buildPayload(req: AuthenticatedRequest, event: WebhookPayload['event'], data: Record<string, unknown>): WebhookPayload {
+  return {
+    id: crypto.randomUUID(),
+    event,
+    occurredAt: new Date().toISOString(),
+    tenant: { id: req.tenant!.id, slug: req.tenant!.slug },
+    actor: { userId: req.user?.userId ?? null, apiKeyId: req.apiKey?.id ?? null },
+    data,
+  };
+}
+
+/**
+ * Queue `event` for every enabled webhook subscribed to it. Call it next to
+ * recordAudit, inside the transaction that makes the change. Does nothing
+ * when the tenant's plan has no webhooks.
+ */
+export async function queueWebhookEvent(db: Queryable, req: AuthenticatedRequest, event: WebhookEvent, data: Record<string, unknown>) {
+  if (!req.tenant || !hasFeature(req.tenant, 'webhooks')) return;
+  const payload = buildPayload(req, event, data);
+  await db.query(
+    `INSERT INTO webhook_deliveries (webhook_id, event_id, event, payload_json)
+     SELECT id, $1, $2, $3 FROM webhooks WHERE enabled AND $2 = ANY(events)`,
+    [payload.id, event, JSON.stringify(payload)]
+  );
+}
+
+/** Queue a `ping` to one webhook, whatever it subscribes to, so admins can check their endpoint. */
+export async function queuePing(db: Queryable, req: AuthenticatedRequest, webhook: Webhook) {
+  const payload = buildPayload(req, 'ping', { webhook: { id: webhook.id, url: webhook.url, events: webhook.events } });
+  const result = await db.query(
+    `INSERT INTO webhook_deliveries (webhook_id, event_id, event, payload_json)
+     VALUES ($1, $2, 'ping', $3) RETURNING *`,
+    [webhook.id, payload.id, JSON.stringify(payload)]
+  );
+  return rowToDelivery(result.rows[0]);
+}
+
+/**
+ * Send a logged delivery again as a new delivery with a fresh set of
+ * attempts. The payload, and so the event id, is unchanged.
+ */
+export async function queueRedelivery(db: Queryable, webhookId: string, deliveryId: string) {
+  const result = await db.query(
+    `INSERT INTO webhook_deliveries (webhook_id, event_id, event, payload_json, redelivery_of)
+     SELECT webhook_id, event_id, event, payload_json, id FROM webhook_deliveries
+     WHERE id = $1 AND webhook_id = $2
+     RETURNING *`,
+    [deliveryId, webhookId]
+  );
+  return result.rows[0] ? rowToDelivery(result.rows[0]) : null;
+}
+
+// ── Delivery ──
+
+interface AttemptResult {
+  ok: boolean;
+  status: number | null;
+  body: string | null;
+  error: string | null;
+  durationMs: number;
+}
+
+/** POST `body` and read back the start of the response. Redirects are not followed. */
+function post(url: URL, headers: Record<string, string>, body: string, signal: AbortSignal) {
+  const request = url.protocol === 'https:' ? https.request : http.request;
+  return new Promise<{ status: number; body: string }>((resolve, reject) => {
+    const req = request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      // Checks the address each connection is made to, so DNS cannot be switched after the check
+      lookup: WEBHOOK_TARGET_POLICY.allowPrivate ? undefined : publicLookup,
+      signal,
+    }, res => {
+      let text = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => { if (text.length < RESPONSE_BODY_LIMIT) text += chunk; });
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, body: text.slice(0, RESPONSE_BODY_LIMIT) }));
+      res.on('close', () => { if (!res.complete) reject(new Error('Connection closed before the response was complete')); });
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+async function attempt(row: any): Promise<AttemptResult> {
+  const body = JSON.stringify(row.payload_json);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const started = Date.now();
+  const signal = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+
+  // The URL was checked when saved; check it again in case the rules or its DNS have changed since
+  const targetError = await webhookTargetError(row.url);
+  if (targetError) {
+    return { ok: false, status: null, body: null, error: `URL ${targetError}`, durationMs: Date.now() - started };
+  }
+
+  try {
+    const res = await post(new URL(row.url), {
+      'Content-Type': 'application/json',
+      'User-Agent': 'BIM-Detail-Viewer-Webhooks/1.0',
+      'X-Webhook-Id': row.id,
+      'X-Webhook-Event': row.event,
+      [TIMESTAMP_HEADER]: String(timestamp),
+      [SIGNATURE_HEADER]: signPayload(openSecret(row.secret_sealed), timestamp, body),
+    }, body, signal);
+    const ok = res.status >= 200 && res.status < 300;
+    return { ok, status: res.status, body: res.body, error: null, durationMs: Date.now() - started };
+  } catch (err) {
+    const error = signal.aborted ? `Timed out after ${REQUEST_TIMEOUT_MS / 1000}s`
+      : err instanceof Error ? err.message : String(err);
+    return { ok: false, status: null, body: null, error, durationMs: Date.now() - started };
+  }
+}
+
+async function deliver(schemaName: string, row: any) {
+  const result = await attempt(row);
+  const attempts = row.attempts + 1;
+  const status = result.ok ? 'delivered' : attempts >= MAX_ATTEMPTS ? 'failed' : 'pending';
+
+  await queryWithSchema(schemaName,
+    `UPDATE webhook_deliveries
+     SET status = $1, attempts = $2, last_attempt_at = NOW(), response_status = $3, response_body = $4,
+         last_error = $5, duration_ms = $6,
+         delivered_at = CASE WHEN $1 = 'delivered' THEN NOW() END,
+         next_attempt_at = CASE WHEN $1 = 'pending' THEN NOW() + make_interval(secs => $7) END
+     WHERE id = $8`,
+    [status, attempts, result.status, result.body, result.error, result.durationMs, retryDelaySeconds(attempts), row.id]
+  );
+  return status;
+}
+
+/**
+ * Claim and send one batch of due deliveries for a tenant. Deliveries of a
+ * disabled webhook wait until it is enabled again. Returns how many were sent.
+ */
+export async function processDueDeliveries(schemaName: string): Promise<number> {
+  const claimed = await queryWithSchema(schemaName,
+    `UPDATE webhook_deliveries d
+     SET status = 'delivering', next_attempt_at = NOW() + make_interval(secs => $1)
+     FROM webhooks w
+     WHERE w.id = d.webhook_id AND d.id IN (
+       SELECT d2.id FROM webhook_deliveries d2 JOIN webhooks w2 ON w2.id = d2.webhook_id
+       WHERE w2.enabled AND d2.status IN ('pending', 'delivering') AND d2.next_attempt_at <= NOW()
+       ORDER BY d2.next_attempt_at
+       LIMIT $2
+       FOR UPDATE OF d2 SKIP LOCKED
+     )
+     RETURNING d.*, w.url, w.secret_sealed`,
+    [CLAIM_LEASE_SECONDS, CLAIM_BATCH]
+  );
+
+  for (const row of claimed.rows) {
+    try {
+      await deliver(schemaName, row);
+    } catch (err) {
+      // Left as `delivering`; the lease runs out and the next poll retries it
+      console.error(`[webhooks] Failed to record delivery ${row.id}:`, err);
+    }
+  }
+  return claimed.rows.length;
+}
+
+let workerTimer: NodeJS.Timeout | null = null;
+
+/** Poll every tenant for due deliveries until stopWebhookWorker is called. */
+export function startWebhookWorker(intervalMs = POLL_INTERVAL_MS) {
+  if (workerTimer) return;
+
+  const tick = async () => {
+    try {
+      const tenants = await query(
+        'SELECT schema_name FROM tenants WHERE schema_version >= $1 ORDER BY created_at', [WEBHOOKS_SCHEMA_VERSION]);
+      for (const tenant of tenants.rows) {
+        try {
+          // Drain the tenant's backlog before moving on
+          let sent;
+          do sent = await processDueDeliveries(tenant.schema_name); while (sent === CLAIM_BATCH);
+        } catch (err) {
+          console.error(`[webhooks] Delivery run failed for ${tenant.schema_name}:`, err);
+        }
+      }
+    } catch (err) {
+      console.error('[webhooks] Could not list tenants:', err);
+    }
+    if (workerTimer) workerTimer = setTimeout(tick, intervalMs).unref();
+  };
+
+  workerTimer = setTimeout(tick, intervalMs).unref();
+}
+
+export function stopWebhookWorker() {
+  if (workerTimer) clearTimeout(workerTimer);
+  workerTimer = null;
+}
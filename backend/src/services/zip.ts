@@ -0,0 +1,162 @@
+import { deflateRawSync, inflateRawSync } from 'zlib';
+
+/**
+ * Minimal ZIP reader/writer for tenant archives: deflate or stored entries,
+ * no ZIP64, no encryption. Enough for archives we write ourselves and for
+ * the same archives after a round trip through common zip tools.
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIR = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+const STORED = 0;
+const DEFLATE = 8;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date) {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+export function createZip(entries: ZipEntry[], modified = new Date()): Buffer {
+  if (entries.length > 0xffff) throw new Error('Too many entries for a ZIP without ZIP64');
+
+  const { time, date } = dosDateTime(modified);
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const deflated = deflateRawSync(entry.data);
+    // Already-compressed files (images) can grow when deflated
+    const method = deflated.length < entry.data.length ? DEFLATE : STORED;
+    const body = method === DEFLATE ? deflated : entry.data;
+    const crc = crc32(entry.data);
+    if (offset + 30 + name.length + body.length > 0xffffffff) throw new Error('Archive too large for a ZIP without ZIP64');
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(UTF8_FLAG, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_HEADER, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(UTF8_FLAG, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, body);
+    centrals.push(central, name);
+    offset += local.length + name.length + body.length;
+  }
+
+  const centralDir = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIR, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDir.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, centralDir, end]);
+}
+
+export interface ZipLimits {
+  /** Largest size one entry may unpack to */
+  maxEntryBytes: number;
+  /** Largest size all entries together may unpack to */
+  maxTotalBytes: number;
+}
+
+/**
+ * Read every file entry of a ZIP into memory. Throws on a malformed archive,
+ * a CRC mismatch, or an entry that would unpack past `limits`. Sizes are
+ * checked against the central directory before anything is inflated, and
+ * inflating stops at the declared size, so a lying header can't unpack more.
+ */
+export function readZip(zip: Buffer, limits: ZipLimits): Map<string, Buffer> {
+  // The end record sits at the very end, followed only by an optional comment
+  let end = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xffff); i--) {
+    if (zip.readUInt32LE(i) === END_OF_CENTRAL_DIR) { end = i; break; }
+  }
+  if (end < 0) throw new Error('Not a ZIP archive');
+
+  const count = zip.readUInt16LE(end + 10);
+  let pos = zip.readUInt32LE(end + 16);
+  const files = new Map<string, Buffer>();
+  let total = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (pos + 46 > zip.length || zip.readUInt32LE(pos) !== CENTRAL_HEADER) throw new Error('Corrupt ZIP central directory');
+    const method = zip.readUInt16LE(pos + 10);
+    const crc = zip.readUInt32LE(pos + 16);
+    const compressedSize = zip.readUInt32LE(pos + 20);
+    const size = zip.readUInt32LE(pos + 24);
+    const nameLength = zip.readUInt16LE(pos + 28);
+    const extraLength = zip.readUInt16LE(pos + 30);
+    const commentLength = zip.readUInt16LE(pos + 32);
+    const localOffset = zip.readUInt32LE(pos + 42);
+    const name = zip.toString('utf8', pos + 46, pos + 46 + nameLength);
+    pos += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (localOffset + 30 > zip.length || zip.readUInt32LE(localOffset) !== LOCAL_HEADER) throw new Error(`Corrupt ZIP entry: ${name}`);
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const raw = zip.subarray(dataStart, dataStart + compressedSize);
+
+    if (size > limits.maxEntryBytes) throw new Error(`${name} unpacks to more than ${limits.maxEntryBytes} bytes`);
+    total += size;
+    if (total > limits.maxTotalBytes) throw new Error(`Archive unpacks to more than ${limits.maxTotalBytes} bytes`);
+
+    let data: Buffer;
+    if (method === STORED) data = Buffer.from(raw);
+    else if (method === DEFLATE) data = inflateRawSync(raw, { maxOutputLength: Math.max(size, 1) });
+    else throw new Error(`Unsupported compression method ${method} for ${name}`);
+
+    if (data.length !== size || crc32(data) !== crc) throw new Error(`CRC mismatch in ${name}`);
+    files.set(name, data);
+  }
+
+  return files;
+}
@@ -1,13 +1,25 @@
 import type { Request } from 'express';
-import type { JwtPayload } from '../../shared/types/user.js';
+import type { JwtPayload } from '../../../shared/types/user.js';
+import type { TenantPlan } from '../../../shared/types/plan.js';
 
 export interface TenantContext {
   id: string;
   slug: string;
   schemaName: string;
+  plan: TenantPlan;
 }
 
+export interface ApiKeyContext {
+  id: string;
+  name: string;
+  scope: 'read' | 'read-write';
+}
+
+/** Caller identity; API key requests have no session and act as the key's creator. */
+export type RequestUser = Omit<JwtPayload, 'sessionId'> & { sessionId?: string };
+
 export interface AuthenticatedRequest extends Request {
   tenant?: TenantContext;
-  user?: JwtPayload;
+  user?: RequestUser;
+  apiKey?: ApiKeyContext;
 }
@@ -0,0 +1,50 @@
+import dns from 'dns';
+import net from 'net';
+
+// Ranges that never reach the public internet: unspecified, private,
+// carrier-grade NAT, loopback, link-local, benchmarking, multicast and
+// reserved. IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+const NON_PUBLIC = new net.BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) NON_PUBLIC.addSubnet(prefix, bits, 'ipv4');
+for (const [prefix, bits] of [
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) NON_PUBLIC.addSubnet(prefix, bits, 'ipv6');
+
+/** Whether `address` is an IP address on the public internet. Anything that is not an IP address is not. */
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !NON_PUBLIC.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/** Every address `hostname` resolves to, or the literal address it already is. */
+export async function resolveHost(hostname: string): Promise<string[]> {
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  if (net.isIP(host)) return [host];
+  return (await dns.promises.lookup(host, { all: true })).map(a => a.address);
+}
+
+type LookupCallback = (err: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void;
+
+/**
+ * `lookup` for http(s) requests to hosts users chose: fails unless every
+ * address the host resolves to is public. It runs as the socket connects,
+ * so the address checked is the one connected to. Literal IP hosts skip
+ * lookups altogether; check those with isPublicAddress first.
+ */
+export function publicLookup(hostname: string, options: dns.LookupOptions, callback: LookupCallback) {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, '');
+    const blocked = addresses.find(a => !isPublicAddress(a.address));
+    if (blocked) {
+      const error: NodeJS.ErrnoException = new Error(`${hostname} resolves to a non-public address (${blocked.address})`);
+      error.code = 'ENOTPUBLIC';
+      return callback(error, '');
+    }
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+}
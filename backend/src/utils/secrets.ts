@@ -0,0 +1,22 @@
+import crypto from 'crypto';
+import { JWT_SECRET } from '../middleware/auth.js';
+
+// Secrets the server has to read back (SSO client secrets, webhook signing
+// secrets) are stored encrypted so a database dump alone does not leak them.
+// The key keeps its original SSO name so secrets sealed before stay readable.
+const SEAL_KEY = crypto.createHash('sha256').update(process.env.SSO_SECRET_KEY || `${JWT_SECRET}:sso-client-secret`).digest();
+
+export function sealSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', SEAL_KEY, iv);
+  const sealed = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return ['v1', iv, cipher.getAuthTag(), sealed].map(part => typeof part === 'string' ? part : part.toString('base64url')).join('.');
+}
+
+export function openSecret(sealed: string): string {
+  const [version, iv, tag, data] = sealed.split('.');
+  if (version !== 'v1' || !iv || !tag || !data) throw new Error('Unrecognised sealed secret');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', SEAL_KEY, Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  return Buffer.concat([decipher.update(Buffer.from(data, 'base64url')), decipher.final()]).toString('utf8');
+}
@@ -0,0 +1,10 @@
+import crypto from 'crypto';
+
+/** Random URL-safe secret; store only its hash. */
+export function generateToken(bytes = 32): string {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
+
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
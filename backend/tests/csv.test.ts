@@ -0,0 +1,24 @@
+/**
+ * CSV tests
+ * Writing rows that spreadsheets would otherwise misread, and reading them back
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCsv, toCsv } from '../src/services/csv.js';
+
+describe('CSV export', () => {
+  it('quotes commas, quotes and line breaks', () => {
+    const csv = toCsv(['name', 'note'], [['Parapet, Type B', 'Say "hi"\nthen leave'], [null, { a: 1 }]]);
+    assert.equal(csv, 'name,note\r\n"Parapet, Type B","Say ""hi""\nthen leave"\r\n,"{""a"":1}"\r\n');
+  });
+
+  it('keeps text that starts like a formula from running as one', () => {
+    const values = ['=HYPERLINK("http://example.com","x")', '+1', '-2+3', '@SUM(A1)', '\tcmd', '\rcmd'];
+    const csv = toCsv(['value'], values.map(v => [v]));
+
+    assert.deepEqual(parseCsv(csv).slice(1).map(([cell]) => cell), values.map(v => `'${v}`));
+    // Numbers are data, not text someone typed
+    assert.equal(toCsv(['n'], [[-5]]), 'n\r\n-5\r\n');
+  });
+});
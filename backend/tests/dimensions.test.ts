@@ -0,0 +1,42 @@
+/**
+ * Dimension tests
+ * Checks the `metadata.dimensions` the viewer draws and the units its labels use
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { updateDetailSchema, validate } from '../../shared/validation/index.js';
+import { dimensionFigure, dimensionText, formatLength } from '../../shared/geometry/index.js';
+
+describe('Detail dimensions', () => {
+  it('accepts dimensions in metadata and keeps other metadata', () => {
+    const metadata = {
+      source: 'field survey',
+      dimensions: [{ id: 'lap', from: { x: 0, y: 0, z: 0 }, to: { x: 150, y: 0, z: 0 }, label: '150 MIN. LAP' }],
+    };
+    assert.deepEqual(validate(updateDetailSchema, { metadata }), { value: { metadata } });
+  });
+
+  it('reports malformed dimensions by field', () => {
+    const result = validate(updateDetailSchema, {
+      metadata: { dimensions: [{ id: 'slope', from: { x: 0, y: 0 }, to: { x: 100, y: 20, z: 0 }, style: 'diagonal' }] },
+    });
+    assert.ok('errors' in result);
+    assert.deepEqual(result.errors.map(e => e.field), ['metadata.dimensions[0].from.z', 'metadata.dimensions[0].style']);
+  });
+
+  it('formats lengths in millimetres or feet and inches', () => {
+    assert.equal(formatLength(152.4, 'metric'), '152.4 mm');
+    assert.equal(formatLength(3.175, 'imperial'), '1/8"');
+    assert.equal(formatLength(469.9, 'imperial'), `1'-6 1/2"`);
+  });
+
+  it('labels dimensions by value, measured from the points when there is none', () => {
+    const slope = { id: 'slope', from: { x: 0, y: 0, z: 0 }, to: { x: 100, y: 100, z: 0 }, style: 'angular' as const };
+    assert.equal(dimensionText(slope, dimensionFigure(slope), 'metric'), '45°');
+
+    const rise = { id: 'rise', from: { x: 0, y: 0, z: 0 }, to: { x: 0, y: 203.2, z: 0 }, value: 200 };
+    assert.equal(dimensionText(rise, dimensionFigure(rise), 'metric'), '200 mm');
+    assert.equal(dimensionText({ ...rise, value: undefined }, dimensionFigure(rise), 'imperial'), '8"');
+  });
+});
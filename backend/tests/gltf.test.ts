@@ -0,0 +1,83 @@
+/**
+ * glTF export tests
+ * Checks the document, the GLB container and details that have no layers yet
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { DetailSnapshot } from '../../shared/types/revision.js';
+import { buildDetailGltf, embedBuffer, encodeGlb } from '../src/services/gltf.js';
+
+const SNAPSHOT: DetailSnapshot = {
+  detail: { name: 'Low-Slope Roof', category: 'roofing', description: 'Deck to cap sheet' },
+  layers: [
+    { id: 'layer-deck', name: 'Structural Deck', orderIndex: 0, color: '#888888', materialType: 'concrete', thicknessMm: 152.4,
+      visibleDefault: true, geometryParams: { type: 'box', width: 2.4, height: 0.30, depth: 2.0, positionY: 0.15 } },
+    { id: 'layer-coping', name: 'Metal Coping', orderIndex: 1, color: '#b0b0b0', materialType: 'metal', thicknessMm: 1,
+      visibleDefault: true, geometryParams: { type: 'extrude', isCoping: true } },
+  ],
+};
+
+const EMPTY: DetailSnapshot = { detail: { name: 'New Detail', category: 'roofing', description: '' }, layers: [] };
+
+/** The chunks of a GLB file, checking the header on the way */
+function glbChunks(glb: Buffer) {
+  assert.equal(glb.readUInt32LE(0), 0x46546c67);
+  assert.equal(glb.readUInt32LE(4), 2);
+  assert.equal(glb.readUInt32LE(8), glb.length);
+  const chunks: { type: string; data: Buffer }[] = [];
+  for (let offset = 12; offset < glb.length;) {
+    const length = glb.readUInt32LE(offset);
+    assert.equal(length % 4, 0);
+    chunks.push({ type: glb.subarray(offset + 4, offset + 8).toString('latin1'), data: glb.subarray(offset + 8, offset + 8 + length) });
+    offset += 8 + length;
+  }
+  return chunks;
+}
+
+describe('glTF export', () => {
+  it('writes a node per layer and a mesh per part with finite bounds', () => {
+    const { json, bin } = buildDetailGltf(SNAPSHOT, { detailId: 'detail-1', revision: 3 });
+    const doc = json as any;
+
+    assert.deepEqual(doc.nodes[0].children, [1, 3]);
+    assert.deepEqual(doc.nodes.map((n: any) => n.name), ['Low-Slope Roof', 'Structural Deck', 'Structural Deck', 'Metal Coping', 'Metal Coping']);
+    assert.equal(doc.nodes[0].extras.revision, 3);
+    assert.equal(doc.meshes.length, 2);
+    assert.equal(doc.materials.length, 2);
+    assert.deepEqual(doc.buffers, [{ byteLength: bin.length }]);
+
+    const positions = doc.accessors.filter((a: any) => a.min);
+    assert.equal(positions.length, 2);
+    for (const accessor of positions) {
+      assert.ok([...accessor.min, ...accessor.max].every(Number.isFinite));
+    }
+    assert.deepEqual(positions[0].min.map((v: number) => Number(v.toFixed(3))), [-1.2, -0.15, -1]);
+    for (const view of doc.bufferViews) assert.ok(view.byteOffset + view.byteLength <= bin.length);
+  });
+
+  it('packs the JSON and the buffer into a GLB', () => {
+    const { json, bin } = buildDetailGltf(SNAPSHOT, { detailId: 'detail-1' });
+    const chunks = glbChunks(encodeGlb(json, bin));
+
+    assert.deepEqual(chunks.map(c => c.type), ['JSON', 'BIN\0']);
+    assert.deepEqual(JSON.parse(chunks[0].data.toString('utf8')), json);
+    assert.deepEqual(chunks[1].data.subarray(0, bin.length), bin);
+  });
+
+  it('exports a detail without layers as an empty scene with no buffer', () => {
+    const { json, bin } = buildDetailGltf(EMPTY, { detailId: 'detail-2' });
+    const doc = json as any;
+
+    assert.equal(bin.length, 0);
+    assert.deepEqual(doc.nodes, [{ name: 'New Detail', children: [], extras: {
+      detailId: 'detail-2', category: 'roofing', description: '', revision: null,
+    } }]);
+    for (const key of ['meshes', 'materials', 'accessors', 'bufferViews', 'buffers']) assert.equal(key in doc, false, key);
+
+    const chunks = glbChunks(encodeGlb(json, bin));
+    assert.deepEqual(chunks.map(c => c.type), ['JSON']);
+    assert.deepEqual(JSON.parse(chunks[0].data.toString('utf8')), json);
+    assert.equal('buffers' in embedBuffer(doc, bin), false);
+  });
+});
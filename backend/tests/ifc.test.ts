@@ -0,0 +1,200 @@
+/**
+ * IFC export tests
+ * Exports a parapet detail and reads it back through the STEP parser
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { DetailSnapshot } from '../../shared/types/revision.js';
+import { layerGeometry } from '../../shared/geometry/layerGeometry.js';
+import { DETAIL_PSET, LAYER_PSET, buildDetailIfc, ifcGuid } from '../src/services/ifcExport.js';
+import {
+  StepParseError, StepWriter, asNumber, asPlain, asText, deref, derefList, encodeStepString, entitiesOfType, parseStep, step,
+  type StepFile, type StepValue,
+} from '../src/services/step.js';
+
+const DETAIL_ID = '6f1c2b8e-3d4a-4e5f-9a0b-1c2d3e4f5a6b';
+const TIMESTAMP = new Date('2026-01-15T09:30:00Z');
+
+const SNAPSHOT: DetailSnapshot = {
+  detail: { name: 'Parapet at "Roof" Edge', category: 'roofing', description: 'Low-slope roof to CMU parapet' },
+  layers: [
+    { id: 'layer-deck', name: 'Structural Deck', orderIndex: 1, color: '#888888', materialType: 'concrete', thicknessMm: 152.4,
+      productName: 'Concrete or steel deck', csiSection: '03 30 00', visibleDefault: true,
+      geometryParams: { type: 'box', width: 2.4, height: 0.30, depth: 2.0, positionY: 0.15 } },
+    { id: 'layer-insulation', name: 'Insulation (Polyiso)', orderIndex: 2, color: '#FFCC00', materialType: 'insulation', thicknessMm: 76.2,
+      productName: 'Tapered polyiso, 3"', csiSection: '07 22 00', visibleDefault: true,
+      geometryParams: { type: 'box', width: 2.4, height: 0.15, depth: 2.0, positionY: 0.395 } },
+    { id: 'layer-barrier', name: 'Air Barrier', orderIndex: 3, color: '#228B22', materialType: 'air-barrier', thicknessMm: 1.0,
+      productId: 'b1d0c2a4-0000-4000-8000-000000000001', productName: 'Perm-A-Barrier\u00AE', manufacturer: 'GCP / Saint-Gobain',
+      csiSection: '07 27 00', visibleDefault: true,
+      geometryParams: { type: 'box', width: 0.015, height: 1.8, depth: 2.0, positionX: 1.2, positionY: 0.9, isBarrier: true } },
+    { id: 'layer-wall', name: 'Parapet Wall', orderIndex: 4, color: '#D4B896', materialType: 'masonry', thicknessMm: 203.2,
+      productName: 'CMU or steel stud, 36-48"', csiSection: '04 22 00', visibleDefault: true,
+      geometryParams: { type: 'box', width: 0.20, height: 1.8, depth: 2.0, positionX: 1.3, positionY: 0.9, isWall: true } },
+    { id: 'layer-coping', name: 'Metal Coping', orderIndex: 5, color: '#C0C0C0', materialType: 'metal', thicknessMm: 1.2,
+      productName: 'Drip edges both sides', csiSection: '07 71 00', visibleDefault: true,
+      geometryParams: { type: 'extrude', positionY: 1.8, isCoping: true } },
+  ],
+};
+
+function exportAndParse(snapshot: DetailSnapshot = SNAPSHOT): { text: string; file: StepFile } {
+  const text = buildDetailIfc(snapshot, { detailId: DETAIL_ID, revision: 3, fileName: 'parapet.ifc', timestamp: TIMESTAMP });
+  return { text, file: parseStep(text) };
+}
+
+/** Name → plain value of a property set's IfcPropertySingleValues */
+function properties(file: StepFile, list: StepValue | undefined): Record<string, string | number | null> {
+  const values: Record<string, string | number | null> = {};
+  for (const property of derefList(file, list)) values[asText(property.args[0])!] = asPlain(property.args[2]);
+  return values;
+}
+
+function collectRefs(value: StepValue, into: number[]): void {
+  if (Array.isArray(value)) value.forEach(v => collectRefs(v, into));
+  else if (value.kind === 'ref') into.push(value.id);
+  else if (value.kind === 'typed') collectRefs(value.value, into);
+}
+
+describe('STEP encoding', () => {
+  it('round-trips strings with quotes, backslashes and non-ASCII characters', () => {
+    const samples = ["It's", 'C:\\details\\parapet', 'Perm-A-Barrier\u00AE', '\u00BD" gap', 'Façade \u{1F3D7} crane', ''];
+    const w = new StepWriter();
+    for (const sample of samples) w.add('IFCLABELHOLDER', [step.string(sample)]);
+    const text = w.toString({ description: 'test', fileName: 'x.ifc', timestamp: '2026-01-01T00:00:00', application: 'test', schema: 'IFC4' });
+
+    assert.match(encodeStepString('Perm-A-Barrier\u00AE'), /^'[\x20-\x7e]+'$/);
+    const parsed = entitiesOfType(parseStep(text), 'IFCLABELHOLDER').map(e => asText(e.args[0]));
+    assert.deepEqual(parsed, samples);
+  });
+
+  it('writes reals that read back as reals', () => {
+    const w = new StepWriter();
+    w.add('IFCNUMBERS', [[step.real(2), step.real(-0.5), step.real(1e-5), step.real(152.4), step.integer(7)]]);
+    const text = w.toString({ description: 'test', fileName: 'x.ifc', timestamp: '2026-01-01T00:00:00', application: 'test', schema: 'IFC4' });
+
+    const [entity] = entitiesOfType(parseStep(text), 'IFCNUMBERS');
+    const values = entity.args[0] as StepValue[];
+    assert.deepEqual(values.map(v => (v as { kind: string }).kind), ['real', 'real', 'real', 'real', 'integer']);
+    assert.deepEqual(values.map(asNumber), [2, -0.5, 1e-5, 152.4, 7]);
+  });
+
+  it('rejects malformed files', () => {
+    assert.throws(() => parseStep('ISO-10303-21;\nHEADER;\nENDSEC;\nDATA;\n#1=IFCWALL(\'unterminated);\nENDSEC;\nEND-ISO-10303-21;'), StepParseError);
+    assert.throws(() => parseStep('not a step file'), StepParseError);
+  });
+});
+
+describe('IFC export', () => {
+  it('writes an IFC4 file with the requested header', () => {
+    const { file } = exportAndParse();
+    assert.deepEqual(file.schemas, ['IFC4']);
+    assert.equal(file.fileName, 'parapet.ifc');
+  });
+
+  it('writes the detail as a material layer set in layer order', () => {
+    const { file } = exportAndParse();
+    const sets = entitiesOfType(file, 'IFCMATERIALLAYERSET');
+    assert.equal(sets.length, 1);
+    assert.equal(asText(sets[0].args[1]), SNAPSHOT.detail.name);
+
+    const layers = derefList(file, sets[0].args[0]);
+    assert.deepEqual(layers.map(l => asText(l.args[3])), SNAPSHOT.layers.map(l => l.name));
+    assert.deepEqual(layers.map(l => asNumber(l.args[1])), SNAPSHOT.layers.map(l => l.thicknessMm));
+    assert.deepEqual(layers.map(l => asText(deref(file, l.args[0])!.args[0])), SNAPSHOT.layers.map(l => l.productName));
+
+    // The layer set belongs to the assembly that stands for the detail
+    const [assembly] = entitiesOfType(file, 'IFCELEMENTASSEMBLY');
+    const association = entitiesOfType(file, 'IFCRELASSOCIATESMATERIAL').find(r => deref(file, r.args[5])?.id === sets[0].id);
+    assert.ok(association);
+    assert.deepEqual(derefList(file, association.args[4]).map(e => e.id), [assembly.id]);
+  });
+
+  it('writes manufacturer, product and CSI section as property sets', () => {
+    const { file } = exportAndParse();
+    const materialProperties = entitiesOfType(file, 'IFCMATERIALPROPERTIES');
+    assert.equal(materialProperties.length, SNAPSHOT.layers.length);
+    assert.ok(materialProperties.every(p => asText(p.args[0]) === LAYER_PSET));
+
+    const barrier = materialProperties.find(p => asText(deref(file, p.args[3])!.args[3]) === 'Air Barrier')!;
+    assert.deepEqual(properties(file, barrier.args[2]), {
+      LayerName: 'Air Barrier',
+      LayerPosition: 3,
+      MaterialType: 'air-barrier',
+      Thickness: 1,
+      ProductName: 'Perm-A-Barrier\u00AE',
+      Manufacturer: 'GCP / Saint-Gobain',
+      CsiSection: '07 27 00',
+      ProductId: 'b1d0c2a4-0000-4000-8000-000000000001',
+      Color: '#228B22',
+    });
+
+    const psets = entitiesOfType(file, 'IFCPROPERTYSET');
+    const detail = psets.find(p => asText(p.args[2]) === DETAIL_PSET)!;
+    assert.deepEqual(properties(file, detail.args[4]), {
+      DetailId: DETAIL_ID, Category: 'roofing', LayerCount: 5, TotalThickness: 434, Revision: 3,
+    });
+    const manufacturer = psets.filter(p => asText(p.args[2]) === 'Pset_ManufacturerTypeInformation');
+    assert.equal(manufacturer.length, SNAPSHOT.layers.length);
+    assert.ok(manufacturer.some(p => properties(file, p.args[4]).Manufacturer === 'GCP / Saint-Gobain'));
+  });
+
+  it('writes one element per layer with extruded solid geometry', () => {
+    const { file } = exportAndParse();
+    const elements = ['IFCWALL', 'IFCSLAB', 'IFCCOVERING', 'IFCBUILDINGELEMENTPROXY'].flatMap(type => entitiesOfType(file, type));
+    assert.deepEqual(elements.map(e => asText(e.args[7])).sort(), SNAPSHOT.layers.map(l => l.id).sort());
+
+    const byTag = (id: string) => elements.find(e => asText(e.args[7]) === id)!;
+    assert.equal(byTag('layer-wall').type, 'IFCWALL');
+    assert.equal(byTag('layer-deck').type, 'IFCSLAB');
+    assert.equal(byTag('layer-coping').type, 'IFCBUILDINGELEMENTPROXY');
+    assert.equal(byTag('layer-insulation').type, 'IFCCOVERING');
+
+    const expectedParts = SNAPSHOT.layers.reduce((sum, layer, i) => sum + layerGeometry(layer.geometryParams, i).parts.length, 0);
+    const solids = entitiesOfType(file, 'IFCEXTRUDEDAREASOLID');
+    assert.equal(solids.length, expectedParts);
+    assert.ok(solids.every(s => asNumber(s.args[3])! > 0));
+
+    // The wall's box keeps its size: 200 mm thick, 1800 mm tall, 2000 mm long
+    const [wallShape] = derefList(file, deref(file, byTag('layer-wall').args[6])!.args[2]);
+    const [wallSolid] = derefList(file, wallShape.args[3]);
+    const wallProfile = deref(file, wallSolid.args[0])!;
+    assert.equal(wallProfile.type, 'IFCRECTANGLEPROFILEDEF');
+    assert.deepEqual([asNumber(wallProfile.args[3]), asNumber(wallProfile.args[4]), asNumber(wallSolid.args[3])], [200, 1800, 2000]);
+
+    // The coping is an arbitrary profile closed by repeating its first point
+    const [copingShape] = derefList(file, deref(file, byTag('layer-coping').args[6])!.args[2]);
+    const copingProfile = deref(file, derefList(file, copingShape.args[3])[0].args[0])!;
+    assert.equal(copingProfile.type, 'IFCARBITRARYCLOSEDPROFILEDEF');
+    const points = derefList(file, deref(file, copingProfile.args[2])!.args[0]);
+    assert.equal(points[0].id, points[points.length - 1].id);
+  });
+
+  it('writes a well-formed file', () => {
+    const { file } = exportAndParse();
+    const refs: number[] = [];
+    for (const entity of file.entities.values()) collectRefs(entity.args, refs);
+    const dangling = refs.filter(id => !file.entities.has(id));
+    assert.deepEqual(dangling, []);
+
+    // Every rooted entity carries a GlobalId as its first attribute
+    const guids = [...file.entities.values()]
+      .filter(e => /^IFC(REL|PROJECT|SITE|BUILDING|PROPERTYSET|WALL|SLAB|COVERING|ELEMENT)/.test(e.type))
+      .map(e => asText(e.args[0])!);
+    assert.ok(guids.length > 0);
+    assert.ok(guids.every(g => /^[0-9A-Za-z_$]{22}$/.test(g)));
+    assert.equal(new Set(guids).size, guids.length);
+  });
+
+  it('is deterministic for the same detail and timestamp', () => {
+    assert.equal(exportAndParse().text, exportAndParse().text);
+    assert.equal(ifcGuid('a'), ifcGuid('a'));
+    assert.notEqual(ifcGuid('a'), ifcGuid('b'));
+  });
+
+  it('exports a detail with no layers', () => {
+    const { file } = exportAndParse({ ...SNAPSHOT, layers: [] });
+    assert.equal(entitiesOfType(file, 'IFCELEMENTASSEMBLY').length, 1);
+    assert.equal(entitiesOfType(file, 'IFCMATERIALLAYERSET').length, 0);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * IFC import tests
+ * Reads layer sets back from our own export and from a hand-written IFC2x3 file
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { DetailSnapshot } from '../../shared/types/revision.js';
+import { buildDetailIfc } from '../src/services/ifcExport.js';
+import { readIfcLayerSets } from '../src/services/ifcImport.js';
+import { createLayerSchema, validate } from '../../shared/validation/index.js';
+
+const SNAPSHOT: DetailSnapshot = {
+  detail: { name: 'Low-Slope Roof', category: 'roofing', description: 'Deck to cap sheet' },
+  layers: [
+    { id: 'layer-deck', name: 'Structural Deck', orderIndex: 0, color: '#888888', materialType: 'concrete', thicknessMm: 152.4,
+      csiSection: '03 30 00', visibleDefault: true, geometryParams: { type: 'box', width: 2.4, height: 0.30, depth: 2.0, positionY: 0.15 } },
+    { id: 'layer-membrane', name: 'Roofing Membrane', orderIndex: 1, color: '#333333', materialType: 'membrane', thicknessMm: 8,
+      productName: '2-ply base + cap sheet', manufacturer: 'GCP / Saint-Gobain', csiSection: '07 51 13', visibleDefault: true,
+      geometryParams: { type: 'box', width: 2.4, height: 0.04, depth: 2.0, positionY: 0.52 } },
+  ],
+};
+
+// A Revit-style wall type in feet, with a material only the resolver's keywords know and an air gap
+const IFC2X3_WALL = `ISO-10303-21;
+HEADER;
+FILE_DESCRIPTION(('ViewDefinition [CoordinationView]'),'2;1');
+FILE_NAME('wall.ifc','2026-01-15T09:30:00',(''),(''),'','','');
+FILE_SCHEMA(('IFC2X3'));
+ENDSEC;
+DATA;
+#1=IFCSIUNIT(*,.LENGTHUNIT.,$,.METRE.);
+#2=IFCDIMENSIONALEXPONENTS(1,0,0,0,0,0,0);
+#3=IFCMEASUREWITHUNIT(IFCRATIOMEASURE(0.3048),#1);
+#4=IFCCONVERSIONBASEDUNIT(#2,.LENGTHUNIT.,'FOOT',#3);
+#5=IFCUNITASSIGNMENT((#4));
+#10=IFCMATERIAL('Air Barrier');
+#11=IFCMATERIAL('Rigid Insulation - XPS');
+#12=IFCMATERIAL('Brick, Common');
+#20=IFCMATERIALLAYER(#10,0.00328084,$);
+#21=IFCMATERIALLAYER(#11,0.25,$);
+#22=IFCMATERIALLAYER($,0.0833333,.T.);
+#23=IFCMATERIALLAYER(#12,0.3,$);
+#30=IFCMATERIALLAYERSET((#20,#21,#22,#23),'Exterior - Brick on XPS');
+#31=IFCMATERIALLAYERSETUSAGE(#30,.AXIS2.,.POSITIVE.,0.);
+#40=IFCWALLTYPE('1m7Wq$zSjFIAqOkqWnhBvS',$,'Basic Wall:Exterior - Brick on XPS',$,$,$,$,$,$,.STANDARD.);
+#41=IFCRELASSOCIATESMATERIAL('0dgdQ6jMH1zRTm2U8tH3jd',$,$,$,(#40),#31);
+#50=IFCCOLOURRGB($,0.6,0.3,0.2);
+#51=IFCSURFACESTYLESHADING(#50);
+#52=IFCSURFACESTYLE('Brick',.BOTH.,(#51));
+#53=IFCPRESENTATIONSTYLEASSIGNMENT((#52));
+#54=IFCSTYLEDITEM($,(#53),$);
+#55=IFCSTYLEDREPRESENTATION(#1,$,$,(#54));
+#56=IFCMATERIALDEFINITIONREPRESENTATION($,$,(#55),#12);
+ENDSEC;
+END-ISO-10303-21;
+`;
+
+function preview(text: string) {
+  const result = readIfcLayerSets(text);
+  if ('error' in result) throw new Error(result.error);
+  return result.value;
+}
+
+describe('IFC import', () => {
+  it('reads back an exported detail without assumptions', () => {
+    const { schema, candidates, warnings } = preview(buildDetailIfc(SNAPSHOT, { detailId: 'detail-1' }));
+    assert.equal(schema, 'IFC4');
+    assert.deepEqual(warnings, []);
+    assert.equal(candidates.length, 1);
+
+    const [candidate] = candidates;
+    assert.equal(candidate.source, 'layer-set');
+    assert.equal(candidate.name, SNAPSHOT.detail.name);
+    assert.deepEqual(candidate.warnings, []);
+    assert.deepEqual(
+      candidate.layers.map(l => [l.name, l.materialType, l.thicknessMm, l.color, l.productName, l.manufacturer, l.csiSection]),
+      SNAPSHOT.layers.map(l => [l.name, l.materialType, l.thicknessMm, l.color, l.productName, l.manufacturer, l.csiSection]),
+    );
+    assert.equal(candidate.totalThicknessMm, 160.4);
+  });
+
+  it('lists layer sets and the wall types that use them', () => {
+    const { schema, fileName, candidates } = preview(IFC2X3_WALL);
+    assert.equal(schema, 'IFC2X3');
+    assert.equal(fileName, 'wall.ifc');
+    assert.deepEqual(candidates.map(c => c.key), ['layer-set-30', 'wall-type-40']);
+
+    const wall = candidates[1];
+    assert.equal(wall.name, 'Basic Wall:Exterior - Brick on XPS');
+    assert.equal(wall.layerSetKey, 'layer-set-30');
+    assert.equal(wall.category, 'air-barrier');
+  });
+
+  it('converts units and maps materials through the resolver', () => {
+    const [layerSet] = preview(IFC2X3_WALL).candidates;
+    assert.deepEqual(layerSet.layers.map(l => l.thicknessMm), [1, 76.2, 25.4, 91.44]);
+    assert.deepEqual(layerSet.layers.map(l => l.materialType), ['membrane-air-barrier', 'insulation-xps', 'air-space', 'brick-common']);
+    assert.deepEqual(layerSet.layers.map(l => l.orderIndex), [0, 1, 2, 3]);
+    // Styled material colour, then the colour for the mapped type
+    assert.equal(layerSet.layers[3].color, '#994D33');
+    assert.equal(layerSet.layers[1].color, '#FFCC00');
+
+    // Exact matches are silent; keyword matches, gaps and unknown materials are reported
+    assert.equal(layerSet.warnings.length, 3);
+    assert.match(layerSet.warnings[0], /Layer 2 .*matched "insulation-xps" by keyword/);
+    assert.match(layerSet.warnings[1], /Layer 3 "Air space" has no material/);
+    assert.match(layerSet.warnings[2], /Layer 4 .*kept as "brick-common"/);
+  });
+
+  it('stacks imported layers as flat slabs', () => {
+    const [layerSet] = preview(IFC2X3_WALL).candidates;
+    const tops = layerSet.layers.map(l => (l.geometryParams!.positionY as number) + (l.geometryParams!.height as number) / 2);
+    assert.ok(tops.every((top, i) => i === 0 || top > tops[i - 1]));
+  });
+
+  it('fits blank and oversized names to the layer schema', () => {
+    const [layerSet] = preview(IFC2X3_WALL
+      .replace("#20=IFCMATERIALLAYER(#10,0.00328084,$);", "#20=IFCMATERIALLAYER(#10,0.00328084,$,' ',$,$,$);")
+      .replace("#11=IFCMATERIAL('Rigid Insulation - XPS');", "#11=IFCMATERIAL('   ');")
+      .replace("#23=IFCMATERIALLAYER(#12,0.3,$);", `#23=IFCMATERIALLAYER(#12,0.3,$,'${'Brick '.repeat(60)}',$,$,$);`)
+      .replace("'Exterior - Brick on XPS');", "' ');")).candidates;
+
+    assert.equal(layerSet.name, 'Layer set #30');
+    assert.deepEqual(layerSet.layers.slice(0, 3).map(l => l.name), ['Air Barrier', 'Layer 2', 'Air space']);
+    assert.equal(layerSet.layers[1].materialType, 'unknown');
+    assert.equal(layerSet.layers[3].name.length, 255);
+    for (const layer of layerSet.layers) assert.ok('value' in validate(createLayerSchema, layer), layer.name);
+  });
+
+  it('reports files it cannot use', () => {
+    assert.match((readIfcLayerSets('not a step file') as { error: string }).error, /Not a readable IFC file/);
+    assert.match((readIfcLayerSets(IFC2X3_WALL.replace("'IFC2X3'", "'AP214'")) as { error: string }).error, /Expected an IFC schema/);
+
+    const noUnits = preview(IFC2X3_WALL.replace('#5=IFCUNITASSIGNMENT((#4));\n', ''));
+    assert.match(noUnits.warnings[0], /no length unit/);
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Revision tests
+ * Diffs between snapshots, the statements that record and restore them, and
+ * the history API for details that have since been deleted
+ */
+
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express from 'express';
+import pg from 'pg';
+import type { Queryable } from '../src/db/connection.js';
+import revisionRoutes from '../src/routes/revisions.js';
+import { applySnapshot, diffSnapshots, ensureBaselineRevision, recordRevision } from '../src/services/revisions.js';
+import type { DetailRevision, DetailSnapshot, LayerSnapshot } from '../../shared/types/revision.js';
+
+const layer = (id: string, orderIndex: number, overrides: Partial<LayerSnapshot> = {}): LayerSnapshot => ({
+  id, name: id, orderIndex, color: '#888888', materialType: 'membrane', thicknessMm: 2, visibleDefault: true,
+  geometryParams: { type: 'box', width: 2.4, height: 0.04, depth: 2.0 }, ...overrides,
+});
+
+const BEFORE: DetailSnapshot = {
+  detail: { name: 'Parapet', category: 'roofing', description: 'Coping to deck', metadata: { source: 'field', tags: ['a'] } },
+  layers: [layer('deck', 0), layer('insulation', 1), layer('membrane', 2), layer('coping', 3)],
+};
+
+/** A Queryable that records every statement and answers from `respond` */
+function recordingDb(respond: (sql: string, params: unknown[]) => object[] = () => []) {
+  const calls: { sql: string; params: unknown[] }[] = [];
+  const db = {
+    query: async (text: string, params: unknown[] = []) => {
+      const sql = text.replace(/\s+/g, ' ').trim();
+      calls.push({ sql, params });
+      const rows = respond(sql, params);
+      return { rows, rowCount: rows.length };
+    },
+  } as unknown as Queryable;
+  return { db, calls };
+}
+
+describe('Revision diffs', () => {
+  it('finds nothing between equal snapshots, whatever their key order', () => {
+    const reordered: DetailSnapshot = {
+      detail: { ...BEFORE.detail, metadata: { tags: ['a'], source: 'field' } },
+      layers: [...BEFORE.layers].reverse(),
+    };
+    assert.deepEqual(diffSnapshots(BEFORE, reordered, 1, 2), {
+      fromRevision: 1, toRevision: 2, detail: [], layers: { added: [], removed: [], reordered: [], changed: [] },
+    });
+  });
+
+  it('reports detail fields and layer fields that changed', () => {
+    const after: DetailSnapshot = {
+      detail: { ...BEFORE.detail, name: 'Parapet (Type B)', metadata: { source: 'field', tags: ['a', 'b'] } },
+      layers: BEFORE.layers.map(l => l.id === 'membrane' ? { ...l, thicknessMm: 3, productName: 'SBS cap sheet' } : l),
+    };
+    const diff = diffSnapshots(BEFORE, after, 3, 4);
+
+    assert.deepEqual(diff.detail, [
+      { field: 'name', from: 'Parapet', to: 'Parapet (Type B)' },
+      { field: 'metadata', from: BEFORE.detail.metadata, to: after.detail.metadata },
+    ]);
+    assert.deepEqual(diff.layers.changed, [{
+      layerId: 'membrane', name: 'membrane',
+      changes: [{ field: 'thicknessMm', from: 2, to: 3 }, { field: 'productName', from: null, to: 'SBS cap sheet' }],
+    }]);
+  });
+
+  it('does not count layers shifted by an insertion as reordered', () => {
+    const after: DetailSnapshot = {
+      ...BEFORE,
+      layers: [layer('deck', 0), layer('vapour', 1), ...BEFORE.layers.slice(1).map(l => ({ ...l, orderIndex: l.orderIndex + 1 }))],
+    };
+    const diff = diffSnapshots(BEFORE, after, 1, 2);
+
+    assert.deepEqual(diff.layers.added.map(l => l.id), ['vapour']);
+    assert.deepEqual(diff.layers.removed, []);
+    assert.deepEqual(diff.layers.reordered, []);
+    assert.deepEqual(diff.layers.changed, []);
+  });
+
+  it('reports removed and moved layers with their positions among the common ones', () => {
+    const after: DetailSnapshot = {
+      ...BEFORE,
+      layers: [layer('deck', 0), layer('membrane', 1), layer('insulation', 2)],
+    };
+    const diff = diffSnapshots(BEFORE, after, 5, 6);
+
+    assert.deepEqual(diff.layers.removed.map(l => l.id), ['coping']);
+    assert.deepEqual(diff.layers.reordered, [
+      { layerId: 'membrane', name: 'membrane', fromPosition: 2, toPosition: 1 },
+      { layerId: 'insulation', name: 'insulation', fromPosition: 1, toPosition: 2 },
+    ]);
+  });
+});
+
+describe('Revision restore', () => {
+  it('overwrites the detail and puts back every layer with its id', async () => {
+    const snapshot: DetailSnapshot = {
+      detail: { name: 'Parapet', category: 'roofing', description: 'Coping to deck' },
+      layers: [layer('deck', 0), layer('membrane', 1, { productId: 'prod-1', productName: 'SBS cap sheet', csiSection: '07 52 00' })],
+    };
+    const { db, calls } = recordingDb();
+
+    await applySnapshot(db, 'detail-1', snapshot);
+
+    assert.match(calls[0].sql, /^UPDATE details SET name = \$1/);
+    assert.deepEqual(calls[0].params, ['Parapet', 'roofing', 'Coping to deck', '{}', 'detail-1']);
+    assert.equal(calls[1].sql, 'DELETE FROM layers WHERE detail_id = $1');
+    assert.deepEqual(calls[1].params, ['detail-1']);
+
+    const inserts = calls.slice(2);
+    assert.equal(inserts.length, 2);
+    assert.deepEqual(inserts.map(c => c.params.slice(0, 4)), [['deck', 'detail-1', 'deck', 0], ['membrane', 'detail-1', 'membrane', 1]]);
+    // A product deleted since the revision leaves the link empty instead of failing the restore
+    assert.match(inserts[1].sql, /\(SELECT id FROM products WHERE id = \$8\)/);
+    assert.equal(inserts[1].params[7], 'prod-1');
+    assert.equal(inserts[0].params[7], null);
+    assert.equal(inserts[1].params[11], JSON.stringify(snapshot.layers[1].geometryParams));
+  });
+
+  it('records the restored state as the next revision of the detail', async () => {
+    const { db, calls } = recordingDb((sql, params) => {
+      if (sql.startsWith('SELECT * FROM details')) {
+        return [{ name: 'Parapet', category: 'roofing', description: '', metadata_json: {} }];
+      }
+      if (sql.startsWith('INSERT INTO detail_revisions')) {
+        return [{ id: 'rev-7', detail_id: params[0], original_detail_id: params[0], revision_number: 7,
+          snapshot_json: JSON.parse(params[1] as string), change_summary: params[2], created_by: params[3] }];
+      }
+      return [];
+    });
+
+    const revision = await recordRevision(db, 'detail-1', 'user-1', 'Restored revision 3');
+
+    assert.match(calls[0].sql, /FOR UPDATE$/);
+    const insert = calls.find(c => c.sql.startsWith('INSERT INTO detail_revisions'))!;
+    // The original id stays with the revision after the detail is deleted
+    assert.match(insert.sql, /\(detail_id, original_detail_id, revision_number,/);
+    assert.match(insert.sql, /VALUES \(\$1, \$1, \(SELECT COALESCE\(MAX\(revision_number\), 0\) \+ 1 FROM detail_revisions WHERE original_detail_id = \$1\)/);
+    assert.equal(revision?.revisionNumber, 7);
+    assert.equal(revision?.detailId, 'detail-1');
+    assert.equal(revision?.changeSummary, 'Restored revision 3');
+    assert.deepEqual(revision?.snapshot, { detail: { name: 'Parapet', category: 'roofing', description: '', metadata: {} }, layers: [] });
+  });
+
+  it('records no revision for a detail that no longer exists', async () => {
+    const { db, calls } = recordingDb();
+    assert.equal(await recordRevision(db, 'gone', 'user-1', 'Edit'), null);
+    assert.equal(calls.length, 1);
+  });
+
+  it('keeps the state from before revision tracking as a baseline only once', async () => {
+    let hasHistory = false;
+    const { db, calls } = recordingDb(sql => {
+      if (sql.startsWith('SELECT created_by FROM details')) return [{ created_by: 'user-0' }];
+      if (sql.startsWith('SELECT 1 FROM detail_revisions')) return hasHistory ? [{ '?column?': 1 }] : [];
+      if (sql.startsWith('SELECT * FROM details')) return [{ name: 'Parapet', category: 'roofing', description: '', metadata_json: {} }];
+      if (sql.startsWith('INSERT INTO detail_revisions')) return [{ revision_number: 1 }];
+      return [];
+    });
+
+    await ensureBaselineRevision(db, 'detail-1');
+    const baseline = calls.filter(c => c.sql.startsWith('INSERT INTO detail_revisions'));
+    assert.equal(baseline.length, 1);
+    assert.deepEqual(baseline[0].params.slice(2), ['Baseline before revision tracking', 'user-0']);
+
+    hasHistory = true;
+    await ensureBaselineRevision(db, 'detail-1');
+    assert.equal(calls.filter(c => c.sql.startsWith('INSERT INTO detail_revisions')).length, 1);
+  });
+});
+
+describe('Revisions of deleted details', () => {
+  const TENANT = { id: crypto.randomUUID(), slug: 'acme', schemaName: 'tenant_acme', plan: 'pro' as const };
+  const DELETED = crypto.randomUUID();
+  // What ON DELETE SET NULL leaves behind: detail_id is gone, original_detail_id stays
+  const rows = [1, 2].map(n => ({
+    id: crypto.randomUUID(), detail_id: null, original_detail_id: DELETED, revision_number: n,
+    snapshot_json: { ...BEFORE, detail: { ...BEFORE.detail, name: `Parapet v${n}` } },
+    change_summary: n === 1 ? 'Created' : 'Updated detail', created_by: null, created_at: new Date(), creator_name: null,
+  }));
+
+  // Answers from `rows`, filtering on whichever column the query names
+  function fakeQuery(text: string, params: any[] = []) {
+    const sql = text.replace(/\s+/g, ' ').trim();
+    const result = (found: object[] = []) => ({ rows: found, rowCount: found.length });
+    if (/^SET search_path/.test(sql)) return result();
+    if (sql.startsWith('SELECT published_revision FROM details')) return result();
+
+    const column = sql.match(/WHERE (?:r\.)?(\w+) = \$1/)?.[1];
+    if (!sql.includes('FROM detail_revisions') || !column) throw new Error(`Unexpected query: ${sql}`);
+    const found = rows.filter(r => r[column as keyof typeof r] === params[0]);
+    if (sql.includes('MAX(revision_number)')) return result([{ latest: Math.max(...found.map(r => r.revision_number)) }]);
+    if (sql.includes('revision_number = $2')) return result(found.filter(r => r.revision_number === params[1]));
+    if (sql.includes('revision_number = ANY($2::int[])')) return result(found.filter(r => params[1].includes(r.revision_number)));
+    return result([...found].reverse());
+  }
+
+  let server: Server;
+  let api: string;
+
+  before(async () => {
+    mock.method(pg.Pool.prototype, 'connect', async () => ({
+      query: async (text: string, params?: any[]) => fakeQuery(text, params),
+      release: () => {},
+    }));
+    const app = express();
+    app.use((req, _res, next) => {
+      (req as any).tenant = TENANT;
+      next();
+    });
+    app.use('/api/details/:id/revisions', revisionRoutes);
+    server = await new Promise<Server>(resolve => {
+      const s = app.listen(0, '127.0.0.1', () => resolve(s));
+    });
+    api = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/details/${DELETED}/revisions`;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+    mock.restoreAll();
+  });
+
+  it('lists the history of a deleted detail under its old id', async () => {
+    const res = await fetch(api);
+    assert.equal(res.status, 200);
+    const body = await res.json() as { revisions: DetailRevision[]; publishedRevision: number | null };
+
+    assert.deepEqual(body.revisions.map(r => [r.revisionNumber, r.detailId, r.changeSummary]), [
+      [2, DELETED, 'Updated detail'], [1, DELETED, 'Created'],
+    ]);
+    assert.equal(body.publishedRevision, null);
+  });
+
+  it('reads and diffs the revisions of a deleted detail', async () => {
+    const res = await fetch(`${api}/1`);
+    assert.equal(res.status, 200);
+    const { revision } = await res.json() as { revision: DetailRevision };
+    assert.equal(revision.snapshot?.detail.name, 'Parapet v1');
+
+    const diffRes = await fetch(`${api}/diff?from=1`);
+    assert.equal(diffRes.status, 200);
+    const { diff } = await diffRes.json() as { diff: { toRevision: number; detail: unknown[] } };
+    assert.equal(diff.toRevision, 2);
+    assert.deepEqual(diff.detail, [{ field: 'name', from: 'Parapet v1', to: 'Parapet v2' }]);
+  });
+});
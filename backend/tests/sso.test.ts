@@ -0,0 +1,143 @@
+/**
+ * Single sign-on tests
+ * A login can only be finished by the browser that started it. The
+ * provider is the dev mock IdP and the database an in-memory stand-in for
+ * the login rows.
+ */
+
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express from 'express';
+import pg from 'pg';
+import ssoRoutes from '../src/routes/sso.js';
+import { createMockIdp } from '../src/dev/mockIdp.js';
+import { APP_URL } from '../src/services/mail.js';
+
+const TENANT = { id: crypto.randomUUID(), slug: 'acme', schemaName: 'tenant_acme', plan: 'enterprise' as const };
+
+let issuer: string;
+let api: string;
+const logins: { state_hash: string }[] = [];
+const claims: string[] = [];
+
+function fakeQuery(text: string, params: any[] = []) {
+  const sql = text.replace(/\s+/g, ' ').trim();
+  const result = (rows: object[] = []) => ({ rows, rowCount: rows.length });
+  if (/^SET search_path/.test(sql) || sql.startsWith('DELETE FROM sso_logins')) return result();
+
+  if (sql.startsWith('SELECT * FROM sso_settings')) {
+    return result([{ issuer, client_id: 'bim-viewer', enabled: true, allowed_domains: [], default_role: 'viewer' }]);
+  }
+  if (sql.startsWith('INSERT INTO sso_logins')) {
+    logins.push({ state_hash: params[0] });
+    return result();
+  }
+  // The callback claiming a login; answering with no row ends the request there
+  if (sql.startsWith('UPDATE sso_logins SET completed_at = NOW()')) {
+    claims.push(params[0]);
+    return result();
+  }
+  throw new Error(`Unexpected query: ${sql}`);
+}
+
+const servers: Server[] = [];
+
+async function listen(app: express.Express) {
+  const server = await new Promise<Server>(resolve => {
+    const s = app.listen(0, '127.0.0.1', () => resolve(s));
+  });
+  servers.push(server);
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+/** Start a login: the state sent to the provider and the cookie set for the callback */
+async function start() {
+  const res = await fetch(`${api}/start?tenant=${TENANT.slug}`, { redirect: 'manual' });
+  assert.equal(res.status, 302);
+  const state = new URL(res.headers.get('location')!).searchParams.get('state')!;
+  const cookie = res.headers.get('set-cookie')!;
+  return { state, cookie };
+}
+
+/** Follow the provider's redirect back, returning the app URL it sends the browser to */
+async function callback(state: string, cookie?: string) {
+  const res = await fetch(`${api}/callback?tenant=${TENANT.slug}&code=some-code&state=${encodeURIComponent(state)}`, {
+    redirect: 'manual', headers: cookie ? { Cookie: cookie } : {},
+  });
+  assert.equal(res.status, 302);
+  return { location: new URL(res.headers.get('location')!), setCookie: res.headers.get('set-cookie') };
+}
+
+before(async () => {
+  mock.method(pg.Pool.prototype, 'connect', async () => ({
+    query: async (text: string, params?: any[]) => fakeQuery(text, params),
+    release: () => {},
+  }));
+
+  // The issuer is the IdP's own address, which is only known once it listens
+  const idp = express();
+  issuer = await listen(idp);
+  idp.use(createMockIdp({ issuer, clientId: 'bim-viewer', clientSecret: 'mock-secret' }));
+
+  const app = express();
+  app.use((req, _res, next) => {
+    (req as any).tenant = TENANT;
+    next();
+  });
+  app.use('/api/auth/sso', ssoRoutes);
+  api = `${await listen(app)}/api/auth/sso`;
+});
+
+after(() => {
+  for (const server of servers) {
+    server.closeAllConnections();
+    server.close();
+  }
+  mock.restoreAll();
+});
+
+describe('SSO login binding', () => {
+  it('sets an HttpOnly, SameSite=Lax cookie for the callback when a login starts', async () => {
+    const { state, cookie } = await start();
+
+    assert.ok(state);
+    assert.match(cookie, /^sso_state_acme=[0-9a-f]+;/);
+    assert.match(cookie, /Path=\/api\/auth\/sso\/callback/);
+    assert.match(cookie, /HttpOnly/);
+    assert.match(cookie, /SameSite=Lax/);
+  });
+
+  it('refuses a callback from a browser that did not start the login', async () => {
+    const { state } = await start();
+    const claimed = claims.length;
+
+    const { location } = await callback(state);
+    assert.equal(location.origin, new URL(APP_URL).origin);
+    assert.match(location.searchParams.get('sso_error')!, /started in a different browser/);
+    // Refused before the login row is claimed, so the real owner can still finish it
+    assert.equal(claims.length, claimed);
+  });
+
+  it("refuses another login's cookie", async () => {
+    const { cookie } = await start();
+    const { state } = await start();
+    const claimed = claims.length;
+
+    const { location } = await callback(state, cookie.split(';')[0]);
+    assert.match(location.searchParams.get('sso_error')!, /started in a different browser/);
+    assert.equal(claims.length, claimed);
+  });
+
+  it('lets the browser that started the login claim it', async () => {
+    const { state, cookie } = await start();
+
+    const { location, setCookie } = await callback(state, cookie.split(';')[0]);
+    assert.deepEqual(claims.slice(-1), [logins[logins.length - 1].state_hash]);
+    // The fake has no row to claim, so the login ends as expired after the check
+    assert.match(location.searchParams.get('sso_error')!, /This sign-in attempt has expired/);
+    assert.match(setCookie!, /^sso_state_acme=;/);
+  });
+});
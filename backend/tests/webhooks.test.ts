@@ -0,0 +1,408 @@
+/**
+ * Webhook tests
+ * Signs, sends, retries and redelivers against the dev receiver. The
+ * database is an in-memory stand-in that answers the queries the delivery
+ * worker and the delivery log API make.
+ */
+
+import { after, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express from 'express';
+import pg from 'pg';
+import type { WebhookDelivery } from '../../shared/types/webhook.js';
+
+// Read when the module loads, so set it before importing the services. The
+// receivers listen on loopback over plain http.
+process.env.WEBHOOK_TIMEOUT_MS = '200';
+process.env.NODE_ENV = 'development';
+process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS = 'true';
+
+const { signToken } = await import('../src/middleware/auth.js');
+const { default: webhookRoutes } = await import('../src/routes/webhooks.js');
+const { createWebhookReceiver } = await import('../src/dev/webhookReceiver.js');
+const {
+  MAX_ATTEMPTS, SIGNATURE_TOLERANCE_SECONDS, WEBHOOK_TARGET_POLICY, processDueDeliveries, retryDelaySeconds, signPayload,
+  verifyWebhookSignature, webhookTargetError,
+} = await import('../src/services/webhooks.js');
+const { isPublicAddress, publicLookup } = await import('../src/utils/addresses.js');
+const { sealSecret } = await import('../src/utils/secrets.js');
+
+const SECRET = 'whsec_test';
+const TENANT = { id: crypto.randomUUID(), slug: 'acme', schemaName: 'tenant_acme', plan: 'pro' as const };
+const ADMIN_ID = crypto.randomUUID();
+const SESSION_ID = crypto.randomUUID();
+
+// ── In-memory tenant schema ──
+
+interface DeliveryRow {
+  id: string;
+  webhook_id: string;
+  event_id: string;
+  event: string;
+  payload_json: Record<string, unknown>;
+  status: string;
+  attempts: number;
+  next_attempt_at: Date;
+  last_attempt_at: Date | null;
+  delivered_at: Date | null;
+  response_status: number | null;
+  response_body: string | null;
+  last_error: string | null;
+  duration_ms: number | null;
+  redelivery_of: string | null;
+  created_at: Date;
+}
+
+const webhooks = new Map<string, { id: string; url: string; secret_sealed: string; enabled: boolean }>();
+let deliveries: DeliveryRow[] = [];
+
+const result = (rows: object[] = []) => ({ rows, rowCount: rows.length });
+
+function fakeQuery(text: string, params: any[] = []) {
+  const sql = text.replace(/\s+/g, ' ').trim();
+  if (/^(SET search_path|BEGIN|COMMIT|ROLLBACK)/.test(sql)) return result();
+
+  if (sql.includes('FROM users u LEFT JOIN sessions s')) {
+    return result([{ role: 'admin', is_active: true, session_id: SESSION_ID, session_revoked_at: null }]);
+  }
+
+  if (sql.startsWith('SELECT 1 FROM webhooks WHERE id = $1')) {
+    return result(webhooks.has(params[0]) ? [{ '?column?': 1 }] : []);
+  }
+
+  if (sql.startsWith('SELECT * FROM webhook_deliveries WHERE webhook_id = $1')) {
+    const limit = params[params.length - 1];
+    const rows = deliveries.filter(d => d.webhook_id === params[0]).reverse().slice(0, limit);
+    return result(rows);
+  }
+
+  // queueRedelivery
+  if (sql.startsWith('INSERT INTO webhook_deliveries') && sql.includes('redelivery_of')) {
+    const source = deliveries.find(d => d.id === params[0] && d.webhook_id === params[1]);
+    if (!source) return result();
+    return result([addDelivery(source.webhook_id, source.payload_json, source.id)]);
+  }
+
+  // processDueDeliveries claiming a batch
+  if (sql.startsWith("UPDATE webhook_deliveries d SET status = 'delivering'")) {
+    const now = Date.now();
+    const due = deliveries
+      .filter(d => webhooks.get(d.webhook_id)?.enabled && ['pending', 'delivering'].includes(d.status)
+        && d.next_attempt_at.getTime() <= now)
+      .slice(0, params[1]);
+    return result(due.map(d => {
+      d.status = 'delivering';
+      d.next_attempt_at = new Date(now + params[0] * 1000);
+      const { url, secret_sealed } = webhooks.get(d.webhook_id)!;
+      return { ...d, url, secret_sealed };
+    }));
+  }
+
+  // deliver recording an attempt
+  if (sql.startsWith('UPDATE webhook_deliveries SET status = $1')) {
+    const [status, attempts, responseStatus, responseBody, lastError, durationMs, delaySeconds, id] = params;
+    const row = deliveries.find(d => d.id === id)!;
+    Object.assign(row, {
+      status, attempts, response_status: responseStatus, response_body: responseBody, last_error: lastError,
+      duration_ms: durationMs, last_attempt_at: new Date(),
+      delivered_at: status === 'delivered' ? new Date() : null,
+      next_attempt_at: status === 'pending' ? new Date(Date.now() + delaySeconds * 1000) : row.next_attempt_at,
+    });
+    return result([]);
+  }
+
+  throw new Error(`Unexpected query: ${sql}`);
+}
+
+function addDelivery(webhookId: string, payload: Record<string, unknown>, redeliveryOf: string | null = null) {
+  const row: DeliveryRow = {
+    id: crypto.randomUUID(), webhook_id: webhookId, event_id: String(payload.id), event: String(payload.event),
+    payload_json: payload, status: 'pending', attempts: 0, next_attempt_at: new Date(), last_attempt_at: null,
+    delivered_at: null, response_status: null, response_body: null, last_error: null, duration_ms: null,
+    redelivery_of: redeliveryOf, created_at: new Date(),
+  };
+  deliveries.push(row);
+  return row;
+}
+
+function addWebhook(url: string, secret = SECRET) {
+  const webhook = { id: crypto.randomUUID(), url, secret_sealed: sealSecret(secret), enabled: true };
+  webhooks.set(webhook.id, webhook);
+  return webhook;
+}
+
+function payload(event = 'detail.updated') {
+  return {
+    id: crypto.randomUUID(), event, occurredAt: new Date().toISOString(),
+    tenant: { id: TENANT.id, slug: TENANT.slug }, actor: { userId: ADMIN_ID, apiKeyId: null },
+    data: { detail: { id: crypto.randomUUID(), name: 'Parapet' } },
+  };
+}
+
+/** Let a pending delivery's backoff run out without waiting for it */
+function makeDue(row: DeliveryRow) {
+  row.next_attempt_at = new Date(Date.now() - 1000);
+}
+
+// ── Servers ──
+
+async function listen(app: express.Express): Promise<{ server: Server; url: string }> {
+  const server = await new Promise<Server>(resolve => {
+    const s = app.listen(0, '127.0.0.1', () => resolve(s));
+  });
+  return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+}
+
+const servers: Server[] = [];
+
+async function startReceiver(options: Parameters<typeof createWebhookReceiver>[0]) {
+  const receiver = createWebhookReceiver(options);
+  const { server, url } = await listen(receiver.app);
+  servers.push(server);
+  return { ...receiver, url: `${url}/hooks` };
+}
+
+let api: string;
+
+before(async () => {
+  mock.method(console, 'log', () => {});
+  mock.method(pg.Pool.prototype, 'connect', async () => ({
+    query: async (text: string, params?: any[]) => fakeQuery(text, params),
+    release: () => {},
+  }));
+
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    (req as any).tenant = TENANT;
+    next();
+  });
+  app.use('/api/webhooks', webhookRoutes);
+  const started = await listen(app);
+  servers.push(started.server);
+  api = started.url;
+});
+
+after(() => {
+  for (const server of servers) {
+    server.closeAllConnections();
+    server.close();
+  }
+  mock.restoreAll();
+});
+
+beforeEach(() => {
+  webhooks.clear();
+  deliveries = [];
+});
+
+function callApi(path: string, init: RequestInit = {}) {
+  const token = signToken({ userId: ADMIN_ID, tenantId: TENANT.id, tenantSlug: TENANT.slug, role: 'admin', sessionId: SESSION_ID });
+  return fetch(`${api}/api/webhooks${path}`, {
+    ...init,
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json', ...init.headers },
+  });
+}
+
+describe('Webhook signatures', () => {
+  it('signs the timestamp and body as sha256=<hex>', () => {
+    const body = '{"id":"evt_1"}';
+    const expected = crypto.createHmac('sha256', SECRET).update(`1700000000.${body}`).digest('hex');
+    assert.equal(signPayload(SECRET, 1700000000, body), `sha256=${expected}`);
+    assert.match(signPayload(SECRET, 1700000000, body), /^sha256=[0-9a-f]{64}$/);
+  });
+
+  it('rejects a changed body, another secret and stale timestamps', () => {
+    const now = Date.now();
+    const timestamp = Math.floor(now / 1000);
+    const body = '{"id":"evt_1"}';
+    const headers = { timestamp: String(timestamp), signature: signPayload(SECRET, timestamp, body) };
+
+    assert.equal(verifyWebhookSignature(SECRET, headers, body, now), true);
+    assert.equal(verifyWebhookSignature(SECRET, headers, '{"id":"evt_2"}', now), false);
+    assert.equal(verifyWebhookSignature('whsec_other', headers, body, now), false);
+    assert.equal(verifyWebhookSignature(SECRET, headers, body, now + (SIGNATURE_TOLERANCE_SECONDS + 1) * 1000), false);
+    assert.equal(verifyWebhookSignature(SECRET, { ...headers, signature: undefined }, body, now), false);
+  });
+
+  it('sends deliveries the receiver can verify', async () => {
+    const receiver = await startReceiver({ secret: SECRET });
+    const webhook = addWebhook(receiver.url);
+    const sent = payload();
+    const row = addDelivery(webhook.id, sent);
+
+    assert.equal(await processDueDeliveries(TENANT.schemaName), 1);
+
+    assert.equal(row.status, 'delivered');
+    assert.equal(row.response_status, 200);
+    assert.equal(receiver.received.length, 1);
+    assert.equal(receiver.received[0].signatureValid, true);
+    assert.equal(receiver.received[0].deliveryId, row.id);
+    assert.deepEqual(receiver.received[0].payload, sent);
+  });
+
+  it('keeps a delivery the receiver rejects for its signature pending', async () => {
+    const receiver = await startReceiver({ secret: 'whsec_receiver' });
+    const row = addDelivery(addWebhook(receiver.url).id, payload());
+
+    await processDueDeliveries(TENANT.schemaName);
+
+    assert.equal(row.status, 'pending');
+    assert.equal(row.response_status, 401);
+    assert.equal(receiver.received.length, 0);
+  });
+});
+
+describe('Webhook retries', () => {
+  it('backs off exponentially up to six hours', () => {
+    assert.deepEqual([1, 2, 3, 4].map(retryDelaySeconds), [30, 60, 120, 240]);
+    assert.equal(retryDelaySeconds(20), 6 * 60 * 60);
+  });
+
+  it('retries 5xx responses with backoff until one succeeds', async () => {
+    const receiver = await startReceiver({ secret: SECRET, failFirst: 2 });
+    const row = addDelivery(addWebhook(receiver.url).id, payload());
+
+    for (const [attempt, delay] of [[1, 30], [2, 60]]) {
+      const before = Date.now();
+      await processDueDeliveries(TENANT.schemaName);
+      assert.equal(row.status, 'pending');
+      assert.equal(row.attempts, attempt);
+      assert.equal(row.response_status, 500);
+      const wait = (row.next_attempt_at.getTime() - before) / 1000;
+      assert.ok(wait >= delay && wait < delay + 5, `attempt ${attempt} waits ${wait}s`);
+
+      // Not due yet, so nothing goes out
+      assert.equal(await processDueDeliveries(TENANT.schemaName), 0);
+      makeDue(row);
+    }
+
+    await processDueDeliveries(TENANT.schemaName);
+    assert.equal(row.status, 'delivered');
+    assert.equal(row.attempts, 3);
+    assert.ok(row.delivered_at);
+    assert.equal(receiver.received.length, 1);
+  });
+
+  it('gives up after the last attempt', async () => {
+    const receiver = await startReceiver({ failFirst: MAX_ATTEMPTS });
+    const row = addDelivery(addWebhook(receiver.url).id, payload());
+    row.attempts = MAX_ATTEMPTS - 1;
+
+    await processDueDeliveries(TENANT.schemaName);
+
+    assert.equal(row.status, 'failed');
+    assert.equal(row.attempts, MAX_ATTEMPTS);
+  });
+
+  it('counts a receiver that answers too late as a failed attempt', async () => {
+    const receiver = await startReceiver({ secret: SECRET, delayMs: 1000 });
+    const row = addDelivery(addWebhook(receiver.url).id, payload());
+
+    await processDueDeliveries(TENANT.schemaName);
+
+    assert.equal(row.status, 'pending');
+    assert.equal(row.attempts, 1);
+    assert.equal(row.response_status, null);
+    assert.equal(row.last_error, 'Timed out after 0.2s');
+    assert.ok(row.duration_ms! < 1000);
+  });
+});
+
+describe('Webhook redelivery', () => {
+  it('sends a logged delivery again through the delivery log API', async () => {
+    const receiver = await startReceiver({ secret: SECRET });
+    const webhook = addWebhook(receiver.url);
+    const sent = payload('detail.published');
+    const original = addDelivery(webhook.id, sent);
+    await processDueDeliveries(TENANT.schemaName);
+    assert.equal(original.status, 'delivered');
+
+    const res = await callApi(`/${webhook.id}/deliveries/${original.id}/redeliver`, { method: 'POST' });
+    assert.equal(res.status, 202);
+    const { delivery } = await res.json() as { delivery: WebhookDelivery };
+    assert.equal(delivery.redeliveryOf, original.id);
+    assert.equal(delivery.eventId, sent.id);
+    assert.equal(delivery.status, 'pending');
+    assert.equal(delivery.attempts, 0);
+
+    await processDueDeliveries(TENANT.schemaName);
+
+    const log = await (await callApi(`/${webhook.id}/deliveries`)).json() as { deliveries: WebhookDelivery[] };
+    assert.deepEqual(log.deliveries.map(d => [d.id, d.status]), [[delivery.id, 'delivered'], [original.id, 'delivered']]);
+    // Same event, new delivery id, so receivers can tell a redelivery from a duplicate
+    assert.deepEqual(receiver.received.map(r => r.payload.id), [sent.id, sent.id]);
+    assert.deepEqual(receiver.received.map(r => r.deliveryId), [original.id, delivery.id]);
+  });
+
+  it('answers 404 for a delivery of another webhook', async () => {
+    const receiver = await startReceiver({});
+    const first = addWebhook(receiver.url);
+    const second = addWebhook(receiver.url);
+    const row = addDelivery(first.id, payload());
+
+    const res = await callApi(`/${second.id}/deliveries/${row.id}/redeliver`, { method: 'POST' });
+    assert.equal(res.status, 404);
+    assert.equal(deliveries.length, 1);
+  });
+});
+
+describe('Webhook targets', () => {
+  const strict = (t: { after: (fn: () => void) => void }, allowHttp = false) => {
+    const saved = { ...WEBHOOK_TARGET_POLICY };
+    Object.assign(WEBHOOK_TARGET_POLICY, { allowHttp, allowPrivate: false });
+    t.after(() => Object.assign(WEBHOOK_TARGET_POLICY, saved));
+  };
+
+  it('tells public addresses from loopback, link-local and private ones', () => {
+    for (const address of ['8.8.8.8', '93.184.215.14', '2606:4700:4700::1111']) assert.equal(isPublicAddress(address), true, address);
+    for (const address of [
+      '127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.10', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+      '::1', '::', 'fe80::1', 'fd00::5', '::ffff:127.0.0.1', '::ffff:7f00:1', 'localhost',
+    ]) assert.equal(isPublicAddress(address), false, address);
+  });
+
+  it('requires https and a public host', async (t) => {
+    strict(t);
+    assert.equal(await webhookTargetError('http://93.184.215.14/hooks'), 'must be an https URL');
+    assert.equal(await webhookTargetError('https://93.184.215.14/hooks'), null);
+    for (const url of [
+      'https://127.0.0.1/hooks', 'https://2130706433/hooks', 'https://[::1]/hooks', 'https://[::ffff:127.0.0.1]/hooks',
+      'https://169.254.169.254/latest/meta-data', 'https://10.0.0.5/hooks', 'https://localhost/hooks',
+    ]) {
+      assert.equal(await webhookTargetError(url), 'must not point at a loopback, link-local or private address', url);
+    }
+  });
+
+  it('refuses to save a webhook for a private address', async (t) => {
+    strict(t, true);
+    const res = await callApi('', {
+      method: 'POST', body: JSON.stringify({ url: 'http://127.0.0.1:4020/hooks', events: ['detail.updated'] }),
+    });
+    assert.equal(res.status, 400);
+    const body = await res.json() as { code: string; fields: { field: string }[] };
+    assert.equal(body.code, 'validation_failed');
+    assert.deepEqual(body.fields.map(f => f.field), ['url']);
+  });
+
+  it('refuses to deliver to a private address', async (t) => {
+    const receiver = await startReceiver({});
+    const row = addDelivery(addWebhook(receiver.url).id, payload());
+    strict(t, true);
+
+    await processDueDeliveries(TENANT.schemaName);
+
+    assert.equal(row.status, 'pending');
+    assert.equal(row.response_status, null);
+    assert.equal(row.last_error, 'URL must not point at a loopback, link-local or private address');
+    assert.equal(receiver.received.length, 0);
+  });
+
+  it('checks the address a host name resolves to as the request connects', async () => {
+    const error = await new Promise<NodeJS.ErrnoException | null>(resolve => publicLookup('localhost', {}, err => resolve(err)));
+    assert.equal(error?.code, 'ENOTPUBLIC');
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * ZIP tests
+ * Round trips, and archives that would unpack past the limits
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createZip, readZip } from '../src/services/zip.js';
+
+const LIMITS = { maxEntryBytes: 1024 * 1024, maxTotalBytes: 2 * 1024 * 1024 };
+
+// Offset of the central directory record of the first entry
+const centralDirectory = (zip: Buffer) => zip.readUInt32LE(zip.length - 22 + 16);
+
+describe('ZIP archives', () => {
+  it('reads back what it wrote', () => {
+    const entries = [
+      { name: 'manifest.json', data: Buffer.from('{"format":"bim-tenant-archive"}') },
+      { name: 'data/details.json', data: Buffer.from(JSON.stringify(Array(200).fill({ name: 'Parapet' }))) },
+    ];
+    const files = readZip(createZip(entries), LIMITS);
+
+    assert.deepEqual([...files.keys()], ['manifest.json', 'data/details.json']);
+    for (const entry of entries) assert.deepEqual(files.get(entry.name), entry.data);
+  });
+
+  it('refuses an entry larger than the entry limit before inflating it', () => {
+    // 4 MiB of zeros deflates to a few kilobytes
+    const zip = createZip([{ name: 'bomb.json', data: Buffer.alloc(4 * 1024 * 1024) }]);
+    assert.ok(zip.length < 16 * 1024);
+    assert.throws(() => readZip(zip, LIMITS), /bomb\.json unpacks to more than 1048576 bytes/);
+  });
+
+  it('refuses archives whose entries together exceed the total limit', () => {
+    const zip = createZip(['a', 'b', 'c'].map(name => ({ name, data: Buffer.alloc(LIMITS.maxEntryBytes) })));
+    assert.throws(() => readZip(zip, LIMITS), /Archive unpacks to more than 2097152 bytes/);
+  });
+
+  it('does not unpack past the size an entry declares', () => {
+    const zip = createZip([{ name: 'bomb.json', data: Buffer.alloc(4 * 1024 * 1024) }]);
+    // Claim the entry is 1 KiB so it passes the limits
+    zip.writeUInt32LE(1024, centralDirectory(zip) + 24);
+    assert.throws(() => readZip(zip, LIMITS), (err: NodeJS.ErrnoException) => err.code === 'ERR_BUFFER_TOO_LARGE');
+  });
+});
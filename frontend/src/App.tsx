@@ -1,25 +1,90 @@
 import React, { useState } from 'react';
+import type { PlanErrorBody } from '@shared/types';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
-import { TenantProvider } from './contexts/TenantContext';
+import { TenantProvider, useTenant } from './contexts/TenantContext';
 import { Header } from './components/layout/Header';
 import { Footer } from './components/layout/Footer';
+import { UpgradePrompt } from './components/layout/UpgradePrompt';
 import { LoginPage } from './components/auth/LoginPage';
 import { RegisterPage } from './components/auth/RegisterPage';
+import { AcceptInvitePage } from './components/auth/AcceptInvitePage';
+import { ForgotPasswordPage } from './components/auth/ForgotPasswordPage';
+import { ResetPasswordPage } from './components/auth/ResetPasswordPage';
+import { VerifyEmailPage } from './components/auth/VerifyEmailPage';
+import { VerifyEmailBanner } from './components/auth/VerifyEmailBanner';
 import { Dashboard } from './components/details/Dashboard';
 import { DetailViewer } from './components/details/DetailViewer';
+import { UsersAdmin } from './components/admin/UsersAdmin';
+import { TemplateLibrary } from './components/templates/TemplateLibrary';
+import { onPlanError, setTenantSlug } from './services/api';
 
-type Page = 'login' | 'register' | 'dashboard' | 'viewer';
+type Page =
+  | 'login' | 'register' | 'accept-invite' | 'forgot-password' | 'reset-password' | 'verify-email'
+  | 'dashboard' | 'viewer' | 'users' | 'templates';
+
+const PUBLIC_PAGES: Page[] = ['login', 'register', 'accept-invite', 'forgot-password', 'reset-password'];
+// Verification links work whether or not the user is signed in
+const ANY_AUTH_PAGES: Page[] = ['verify-email'];
+
+const LINK_PAGES = { invite: 'accept-invite', reset: 'reset-password', verify: 'verify-email' } as const;
+
+interface EmailLink {
+  page: (typeof LINK_PAGES)[keyof typeof LINK_PAGES];
+  token: string;
+}
+
+// The SSO callback sends the browser back with /?tenant=<slug>&sso=<code> or &sso_error=<message>
+function readSsoFromUrl(): { code?: string; error?: string } | null {
+  const params = new URLSearchParams(window.location.search);
+  const code = params.get('sso');
+  const error = params.get('sso_error');
+  const tenant = params.get('tenant');
+  if (!tenant || (!code && !error)) return null;
+  setTenantSlug(tenant);
+  window.history.replaceState(null, '', window.location.pathname);
+  return { code: code ?? undefined, error: error ?? undefined };
+}
+
+// Emailed links look like /?tenant=<slug>&invite=<token> (or &reset= / &verify=)
+function readLinkFromUrl(): EmailLink | null {
+  const params = new URLSearchParams(window.location.search);
+  const tenant = params.get('tenant');
+  const param = (Object.keys(LINK_PAGES) as (keyof typeof LINK_PAGES)[]).find(key => params.get(key));
+  if (!param || !tenant) return null;
+  setTenantSlug(tenant);
+  window.history.replaceState(null, '', window.location.pathname);
+  return { page: LINK_PAGES[param], token: params.get(param)! };
+}
 
 function AppContent() {
-  const { isAuthenticated } = useAuth();
-  const [page, setPage] = useState<Page>(isAuthenticated ? 'dashboard' : 'login');
+  const { isAuthenticated, loginWithSso, tenantSlug } = useAuth();
+  const { refreshPlan } = useTenant();
+  const [link] = useState(readLinkFromUrl);
+  const [sso] = useState(readSsoFromUrl);
+  const [ssoError, setSsoError] = useState(sso?.error);
+  const [page, setPage] = useState<Page>(link ? link.page : isAuthenticated ? 'dashboard' : 'login');
   const [selectedDetailId, setSelectedDetailId] = useState<string | null>(null);
+  const [planError, setPlanError] = useState<PlanErrorBody | null>(null);
+
+  // Any request refused by the plan opens the upgrade prompt; usage has changed, so reload it
+  React.useEffect(() => {
+    onPlanError(error => {
+      setPlanError(error);
+      refreshPlan();
+    });
+    return () => onPlanError(null);
+  }, [refreshPlan]);
+
+  React.useEffect(() => {
+    if (sso?.code) loginWithSso(sso.code).catch(err => setSsoError(err.message || 'Single sign-on failed'));
+  }, []);
 
   // Redirect to dashboard on auth state change
   React.useEffect(() => {
-    if (isAuthenticated && (page === 'login' || page === 'register')) {
+    if (ANY_AUTH_PAGES.includes(page)) return;
+    if (isAuthenticated && PUBLIC_PAGES.includes(page)) {
       setPage('dashboard');
-    } else if (!isAuthenticated && page !== 'login' && page !== 'register') {
+    } else if (!isAuthenticated && !PUBLIC_PAGES.includes(page)) {
       setPage('login');
     }
   }, [isAuthenticated]);
@@ -36,22 +101,54 @@ function AppContent() {
 
   return (
     <div style={{ display: 'flex', flexDirection: 'column', height: '100vh', fontFamily: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif" }}>
-      <Header />
-      <div style={{ flex: 1, display: 'flex', flexDirection: 'column', overflow: 'hidden' }}>
+      <Header onOpenUsers={() => setPage('users')} onTenantSwitched={goToDashboard} />
+      <VerifyEmailBanner />
+      {/* Keyed by tenant so a switch reloads every page's data for the new organization */}
+      <div key={tenantSlug ?? ''} style={{ flex: 1, display: 'flex', flexDirection: 'column', overflow: 'hidden' }}>
         {page === 'login' && (
-          <LoginPage onSwitchToRegister={() => setPage('register')} />
+          <LoginPage
+            key={ssoError}
+            onSwitchToRegister={() => setPage('register')}
+            onForgotPassword={() => setPage('forgot-password')}
+            initialError={ssoError}
+          />
         )}
         {page === 'register' && (
           <RegisterPage onSwitchToLogin={() => setPage('login')} />
         )}
+        {page === 'accept-invite' && link && (
+          <AcceptInvitePage token={link.token} onSwitchToLogin={() => setPage('login')} />
+        )}
+        {page === 'forgot-password' && (
+          <ForgotPasswordPage onSwitchToLogin={() => setPage('login')} />
+        )}
+        {page === 'reset-password' && link && (
+          <ResetPasswordPage token={link.token} onSwitchToLogin={() => setPage('login')} />
+        )}
+        {page === 'verify-email' && link && (
+          <VerifyEmailPage token={link.token} onContinue={() => setPage(isAuthenticated ? 'dashboard' : 'login')} />
+        )}
         {page === 'dashboard' && (
-          <Dashboard onOpenDetail={openDetail} />
+          <Dashboard onOpenDetail={openDetail} onOpenTemplates={() => setPage('templates')} />
         )}
         {page === 'viewer' && selectedDetailId && (
           <DetailViewer detailId={selectedDetailId} onBack={goToDashboard} />
         )}
+        {page === 'templates' && (
+          <TemplateLibrary onBack={goToDashboard} onOpenDetail={openDetail} />
+        )}
+        {page === 'users' && (
+          <UsersAdmin onBack={goToDashboard} />
+        )}
       </div>
       <Footer />
+      {planError && (
+        <UpgradePrompt
+          error={planError}
+          onClose={() => setPlanError(null)}
+          onOpenPlan={() => { setPlanError(null); setPage('users'); }}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import type { ApiKey, ApiKeyScope } from '@shared/types';
+import { apiKeys as apiKeysApi } from '../../services/api';
+
+export function ApiKeysSection() {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [name, setName] = useState('');
+  const [scope, setScope] = useState<ApiKeyScope>('read');
+  const [revealed, setRevealed] = useState<{ name: string; key: string } | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    apiKeysApi.list()
+      .then(res => setKeys(res.apiKeys))
+      .catch(err => setError(err.message));
+  }, []);
+
+  const replaceKey = (updated: ApiKey) =>
+    setKeys(prev => prev.map(k => k.id === updated.id ? updated : k));
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      const res = await apiKeysApi.create({ name, scope });
+      setKeys(prev => [res.apiKey, ...prev]);
+      setRevealed({ name: res.apiKey.name, key: res.key });
+      setName('');
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const rotate = async (apiKey: ApiKey) => {
+    if (!confirm(`Rotate "${apiKey.name}"? The current key stops working immediately.`)) return;
+    setError('');
+    try {
+      const res = await apiKeysApi.rotate(apiKey.id);
+      replaceKey(res.apiKey);
+      setRevealed({ name: res.apiKey.name, key: res.key });
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const revoke = async (apiKey: ApiKey) => {
+    if (!confirm(`Revoke "${apiKey.name}"? Integrations using it will stop working.`)) return;
+    setError('');
+    try {
+      await apiKeysApi.revoke(apiKey.id);
+      replaceKey({ ...apiKey, revokedAt: new Date().toISOString() });
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <section style={styles.section}>
+      <h3 style={styles.sectionTitle}>API keys</h3>
+      <p style={styles.hint}>
+        For scripts and integrations. Send the key as <code>X-API-Key</code> together with <code>X-Tenant-ID</code>.
+      </p>
+
+      {error && <div style={styles.error}>{error}</div>}
+
+      <form style={styles.form} onSubmit={create}>
+        <input
+          style={styles.input}
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="Key name, e.g. Spec system sync"
+          required
+        />
+        <select style={styles.select} value={scope} onChange={e => setScope(e.target.value as ApiKeyScope)}>
+          <option value="read">read</option>
+          <option value="read-write">read-write</option>
+        </select>
+        <button style={styles.primaryBtn} type="submit">Create Key</button>
+      </form>
+
+      {revealed && (
+        <div style={styles.revealed}>
+          Copy the key for <strong>{revealed.name}</strong> now — it will not be shown again:
+          <input style={{ ...styles.input, marginTop: 6, fontFamily: 'monospace' }} value={revealed.key} readOnly onFocus={e => e.target.select()} />
+        </div>
+      )}
+
+      {keys.length > 0 && (
+        <table style={styles.table}>
+          <thead>
+            <tr>
+              <th style={styles.th}>Name</th>
+              <th style={styles.th}>Key</th>
+              <th style={styles.th}>Scope</th>
+              <th style={styles.th}>Last used</th>
+              <th style={styles.th} />
+            </tr>
+          </thead>
+          <tbody>
+            {keys.map(k => (
+              <tr key={k.id} style={{ opacity: k.revokedAt ? 0.55 : 1 }}>
+                <td style={styles.td}>{k.name}</td>
+                <td style={{ ...styles.td, fontFamily: 'monospace' }}>{k.prefix}…</td>
+                <td style={styles.td}>{k.scope}</td>
+                <td style={styles.td}>{k.lastUsedAt ? new Date(k.lastUsedAt).toLocaleString() : 'Never'}</td>
+                <td style={{ ...styles.td, textAlign: 'right' }}>
+                  {k.revokedAt ? 'Revoked' : (
+                    <>
+                      <button style={{ ...styles.linkBtn, marginRight: 12 }} onClick={() => rotate(k)}>Rotate</button>
+                      <button style={{ ...styles.linkBtn, color: '#dc2626' }} onClick={() => revoke(k)}>Revoke</button>
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  section: { background: '#fff', border: '1px solid #e2e8f0', borderRadius: 10, padding: 20, marginBottom: 20 },
+  sectionTitle: { fontSize: 15, fontWeight: 600, color: '#1a365d', margin: '0 0 4px' },
+  hint: { fontSize: 12, color: '#64748b', margin: '0 0 12px' },
+  error: { background: '#fef2f2', color: '#dc2626', padding: 12, borderRadius: 8, marginBottom: 12 },
+  form: { display: 'flex', gap: 8 },
+  revealed: { fontSize: 12, color: '#64748b', marginTop: 12, background: '#fffbeb', padding: 10, borderRadius: 6 },
+  input: {
+    flex: 1,
+    width: '100%',
+    padding: '8px 12px',
+    border: '1px solid #e2e8f0',
+    borderRadius: 6,
+    fontSize: 13,
+    boxSizing: 'border-box' as const,
+  },
+  select: { padding: '6px 10px', border: '1px solid #e2e8f0', borderRadius: 6, fontSize: 13, background: '#fff' },
+  primaryBtn: {
+    padding: '8px 16px',
+    background: '#2563eb',
+    color: '#fff',
+    border: 'none',
+    borderRadius: 6,
+    fontSize: 13,
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  linkBtn: { background: 'none', border: 'none', color: '#2563eb', fontSize: 13, cursor: 'pointer', padding: 0 },
+  table: { width: '100%', borderCollapse: 'collapse', marginTop: 12, fontSize: 13 },
+  th: { textAlign: 'left' as const, padding: '8px 6px', borderBottom: '1px solid #e2e8f0', color: '#64748b', fontWeight: 600, fontSize: 12 },
+  td: { padding: '8px 6px', borderBottom: '1px solid #f1f5f9', color: '#1e293b' },
+};
@@ -0,0 +1,169 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { AuditLogEntry } from '@shared/types';
+import { audit as auditApi, type AuditFilters } from '../../services/api';
+import { useTenant } from '../../contexts/TenantContext';
+
+const ENTITY_TYPES = ['detail', 'project', 'product', 'user', 'invitation', 'api_key', 'webhook', 'tenant'];
+
+export function AuditLogSection() {
+  const { hasFeature } = useTenant();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [filters, setFilters] = useState<AuditFilters>({});
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const load = useCallback((before?: string) => {
+    setError('');
+    auditApi.list(filters, before)
+      .then(res => {
+        setEntries(prev => before ? [...prev, ...res.entries] : res.entries);
+        setNextCursor(res.nextCursor);
+      })
+      .catch(err => setError(err.message));
+  }, [filters]);
+
+  useEffect(() => load(), [load]);
+
+  const setFilter = (key: keyof AuditFilters, value: string) =>
+    setFilters(prev => ({ ...prev, [key]: value || undefined }));
+
+  const exportCsv = async () => {
+    setError('');
+    try {
+      const blob = await auditApi.exportCsv(filters);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `audit-${new Date().toISOString().slice(0, 10)}.csv`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <section style={styles.section}>
+      <div style={styles.titleRow}>
+        <h3 style={styles.sectionTitle}>Audit log</h3>
+        <button style={styles.secondaryBtn} onClick={exportCsv}>
+          Export CSV{!hasFeature('exports') && <span style={styles.muted}> · upgrade</span>}
+        </button>
+      </div>
+
+      <div style={styles.filters}>
+        <select style={styles.select} value={filters.entityType || ''} onChange={e => setFilter('entityType', e.target.value)}>
+          <option value="">All entities</option>
+          {ENTITY_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+        </select>
+        <input
+          style={styles.input}
+          placeholder="Action, e.g. detail.updated or product."
+          value={filters.action || ''}
+          onChange={e => setFilter('action', e.target.value)}
+        />
+        <input style={styles.input} type="date" value={filters.from || ''} onChange={e => setFilter('from', e.target.value)} title="From" />
+        <input style={styles.input} type="date" value={filters.to || ''} onChange={e => setFilter('to', e.target.value)} title="Until" />
+      </div>
+
+      {error && <div style={styles.error}>{error}</div>}
+
+      <table style={styles.table}>
+        <thead>
+          <tr>
+            <th style={styles.th}>When</th>
+            <th style={styles.th}>Who</th>
+            <th style={styles.th}>Action</th>
+            <th style={styles.th}>Entity</th>
+            <th style={styles.th}>IP</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map(entry => (
+            <React.Fragment key={entry.id}>
+              <tr style={{ cursor: 'pointer' }} onClick={() => setExpanded(expanded === entry.id ? null : entry.id)}>
+                <td style={styles.td}>{new Date(entry.occurredAt).toLocaleString()}</td>
+                <td style={styles.td}>
+                  {entry.actorName || entry.actorEmail || '—'}
+                  {entry.apiKeyName && <span style={styles.muted}> via {entry.apiKeyName}</span>}
+                </td>
+                <td style={{ ...styles.td, fontFamily: 'monospace' }}>{entry.action}</td>
+                <td style={styles.td}>{entry.entityType}{entry.entityId && <span style={styles.muted}> {entry.entityId.slice(0, 8)}</span>}</td>
+                <td style={styles.td}>{entry.ipAddress || ''}</td>
+              </tr>
+              {expanded === entry.id && (
+                <tr>
+                  <td colSpan={5} style={styles.td}>
+                    <div style={styles.snapshots}>
+                      <Snapshot label="Before" value={entry.before} />
+                      <Snapshot label="After" value={entry.after} />
+                    </div>
+                  </td>
+                </tr>
+              )}
+            </React.Fragment>
+          ))}
+          {entries.length === 0 && (
+            <tr><td colSpan={5} style={{ ...styles.td, color: '#94a3b8', textAlign: 'center' }}>No entries.</td></tr>
+          )}
+        </tbody>
+      </table>
+
+      {nextCursor && (
+        <button style={{ ...styles.secondaryBtn, marginTop: 12 }} onClick={() => load(nextCursor)}>Load more</button>
+      )}
+    </section>
+  );
+}
+
+function Snapshot({ label, value }: { label: string; value: unknown }) {
+  return (
+    <div style={{ flex: 1, minWidth: 0 }}>
+      <div style={styles.snapshotLabel}>{label}</div>
+      <pre style={styles.pre}>{value === null || value === undefined ? '—' : JSON.stringify(value, null, 2)}</pre>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  section: { background: '#fff', border: '1px solid #e2e8f0', borderRadius: 10, padding: 20, marginBottom: 20 },
+  titleRow: { display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 },
+  sectionTitle: { fontSize: 15, fontWeight: 600, color: '#1a365d', margin: 0 },
+  filters: { display: 'flex', gap: 8 },
+  input: {
+    flex: 1,
+    padding: '6px 10px',
+    border: '1px solid #e2e8f0',
+    borderRadius: 6,
+    fontSize: 13,
+    boxSizing: 'border-box' as const,
+  },
+  select: { padding: '6px 10px', border: '1px solid #e2e8f0', borderRadius: 6, fontSize: 13, background: '#fff' },
+  secondaryBtn: {
+    padding: '6px 14px',
+    background: '#fff',
+    color: '#2563eb',
+    border: '1px solid #2563eb',
+    borderRadius: 6,
+    fontSize: 13,
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  error: { background: '#fef2f2', color: '#dc2626', padding: 12, borderRadius: 8, marginTop: 12 },
+  table: { width: '100%', borderCollapse: 'collapse', marginTop: 12, fontSize: 13 },
+  th: { textAlign: 'left' as const, padding: '8px 6px', borderBottom: '1px solid #e2e8f0', color: '#64748b', fontWeight: 600, fontSize: 12 },
+  td: { padding: '8px 6px', borderBottom: '1px solid #f1f5f9', color: '#1e293b', verticalAlign: 'top' as const },
+  muted: { color: '#94a3b8', fontSize: 12 },
+  snapshots: { display: 'flex', gap: 12 },
+  snapshotLabel: { fontSize: 11, fontWeight: 600, color: '#64748b', marginBottom: 4 },
+  pre: {
+    margin: 0,
+    padding: 10,
+    background: '#f8fafc',
+    borderRadius: 6,
+    fontSize: 11,
+    maxHeight: 240,
+    overflow: 'auto',
+  },
+};
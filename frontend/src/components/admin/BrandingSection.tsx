@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import { tenants as tenantsApi } from '../../services/api';
+import { useTenant } from '../../contexts/TenantContext';
+
+const LOGO_ACCEPT = 'image/png,image/jpeg,image/webp';
+const LOGO_MAX_BYTES = 1024 * 1024;
+
+export function BrandingSection() {
+  const { settings, setSettings } = useTenant();
+  const [brandName, setBrandName] = useState('');
+  const [primaryColor, setPrimaryColor] = useState('#1a365d');
+  const [secondaryColor, setSecondaryColor] = useState('#2563eb');
+  const [footerText, setFooterText] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!settings) return;
+    setBrandName(settings.brandName);
+    setPrimaryColor(settings.primaryColor);
+    setSecondaryColor(settings.secondaryColor);
+    setFooterText(settings.footerText || '');
+  }, [settings]);
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setMessage('');
+    setSaving(true);
+    try {
+      const updated = await tenantsApi.updateSettings({ brandName, primaryColor, secondaryColor, footerText: footerText || null });
+      setSettings(updated);
+      setMessage('Branding saved.');
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const uploadLogo = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError('');
+    setMessage('');
+    if (file.size > LOGO_MAX_BYTES) {
+      setError('Logo must be 1 MB or smaller.');
+      return;
+    }
+    try {
+      setSettings(await tenantsApi.uploadLogo(file));
+      setMessage('Logo updated.');
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const removeLogo = async () => {
+    if (!confirm('Remove the logo?')) return;
+    setError('');
+    setMessage('');
+    try {
+      setSettings(await tenantsApi.removeLogo());
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <section style={styles.section}>
+      <h3 style={styles.sectionTitle}>Branding</h3>
+      <p style={styles.hint}>Shown to everyone in your organization in the header and footer.</p>
+
+      {error && <div style={styles.error}>{error}</div>}
+      {message && <div style={styles.success}>{message}</div>}
+
+      <div style={styles.logoRow}>
+        <div style={{ ...styles.logoPreview, background: primaryColor }}>
+          {settings?.logoUrl
+            ? <img src={settings.logoUrl} alt="Logo" style={styles.logoImg} />
+            : <span style={styles.muted}>No logo</span>}
+        </div>
+        <label style={styles.secondaryBtn}>
+          Upload logo
+          <input type="file" accept={LOGO_ACCEPT} onChange={uploadLogo} style={{ display: 'none' }} />
+        </label>
+        {settings?.logoUrl && (
+          <button style={{ ...styles.linkBtn, color: '#dc2626' }} onClick={removeLogo}>Remove</button>
+        )}
+        <span style={styles.muted}>PNG, JPEG or WebP, up to 1 MB</span>
+      </div>
+
+      <form onSubmit={save}>
+        <label style={styles.label}>
+          Organization name
+          <input style={styles.input} value={brandName} onChange={e => setBrandName(e.target.value)} required />
+        </label>
+        <div style={styles.colors}>
+          {([
+            ['Primary color', primaryColor, setPrimaryColor],
+            ['Secondary color', secondaryColor, setSecondaryColor],
+          ] as const).map(([label, value, set]) => (
+            <label key={label} style={{ ...styles.label, flex: 1 }}>
+              {label}
+              <div style={styles.colorInput}>
+                <input type="color" value={value} onChange={e => set(e.target.value)} style={styles.swatch} />
+                <input
+                  style={{ ...styles.input, fontFamily: 'monospace' }}
+                  value={value}
+                  onChange={e => set(e.target.value)}
+                  pattern="#[0-9a-fA-F]{6}"
+                />
+              </div>
+            </label>
+          ))}
+        </div>
+        <label style={styles.label}>
+          Footer text
+          <input
+            style={styles.input}
+            value={footerText}
+            onChange={e => setFooterText(e.target.value)}
+            placeholder={`© ${new Date().getFullYear()} ${brandName}`}
+            maxLength={500}
+          />
+        </label>
+        <button style={styles.primaryBtn} type="submit" disabled={saving}>
+          {saving ? 'Saving...' : 'Save branding'}
+        </button>
+      </form>
+    </section>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  section: { background: '#fff', border: '1px solid #e2e8f0', borderRadius: 10, padding: 20, marginBottom: 20 },
+  sectionTitle: { fontSize: 15, fontWeight: 600, color: '#1a365d', margin: '0 0 4px' },
+  hint: { fontSize: 12, color: '#64748b', margin: '0 0 12px' },
+  error: { background: '#fef2f2', color: '#dc2626', padding: 12, borderRadius: 8, marginBottom: 12 },
+  success: { background: '#f0fdf4', color: '#059669', padding: 12, borderRadius: 8, marginBottom: 12 },
+  muted: { color: '#94a3b8', fontSize: 12 },
+  logoRow: { display: 'flex', alignItems: 'center', gap: 12, marginBottom: 16 },
+  logoPreview: {
+    width: 160,
+    height: 56,
+    borderRadius: 8,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    overflow: 'hidden',
+  },
+  logoImg: { maxHeight: 40, maxWidth: 140, objectFit: 'contain' as const },
+  label: { display: 'block', fontSize: 12, fontWeight: 600, color: '#64748b', marginBottom: 12 },
+  colors: { display: 'flex', gap: 12 },
+  colorInput: { display: 'flex', gap: 6, alignItems: 'center', marginTop: 4 },
+  swatch: { width: 36, height: 32, padding: 0, border: '1px solid #e2e8f0', borderRadius: 6, background: '#fff', cursor: 'pointer' },
+  input: {
+    display: 'block',
+    width: '100%',
+    marginTop: 4,
+    padding: '8px 12px',
+    border: '1px solid #e2e8f0',
+    borderRadius: 6,
+    fontSize: 13,
+    fontWeight: 400,
+    color: '#1e293b',
+    boxSizing: 'border-box' as const,
+  },
+  primaryBtn: {
+    padding: '8px 16px',
+    background: '#2563eb',
+    color: '#fff',
+    border: 'none',
+    borderRadius: 6,
+    fontSize: 13,
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  secondaryBtn: {
+    padding: '6px 14px',
+    background: '#fff',
+    color: '#2563eb',
+    border: '1px solid #2563eb',
+    borderRadius: 6,
+    fontSize: 13,
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  linkBtn: { background: 'none', border: 'none', color: '#2563eb', fontSize: 13, cursor: 'pointer', padding: 0 },
+};
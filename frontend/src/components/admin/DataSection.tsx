@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import type { ImportConflictBody, ImportReport, ImportStrategy } from '@shared/types';
+import { ApiError, tenants as tenantsApi } from '../../services/api';
+import { useTenant } from '../../contexts/TenantContext';
+
+const STRATEGIES: { value: ImportStrategy; label: string }[] = [
+  { value: 'fail', label: 'Stop if anything already exists' },
+  { value: 'skip', label: 'Keep existing records' },
+  { value: 'overwrite', label: 'Replace existing records and branding' },
+];
+
+export function DataSection() {
+  const { slug, refreshPlan } = useTenant();
+  const [file, setFile] = useState<File | null>(null);
+  const [strategy, setStrategy] = useState<ImportStrategy>('fail');
+  const [busy, setBusy] = useState<'export' | 'import' | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [conflicts, setConflicts] = useState<ImportConflictBody['conflicts'] | null>(null);
+  const [error, setError] = useState('');
+
+  const exportArchive = async () => {
+    setError('');
+    setBusy('export');
+    try {
+      const blob = await tenantsApi.exportArchive();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `tenant-${slug}-${new Date().toISOString().slice(0, 10)}.zip`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const importArchive = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    if (strategy === 'overwrite' && !confirm('Overwrite existing records and branding with the archive contents?')) return;
+    setError('');
+    setReport(null);
+    setConflicts(null);
+    setBusy('import');
+    try {
+      const res = await tenantsApi.importArchive(file, strategy);
+      setReport(res.report);
+      setFile(null);
+      refreshPlan();
+    } catch (err: any) {
+      if (err instanceof ApiError && err.body?.code === 'import_conflict') setConflicts(err.body.conflicts);
+      setError(err.message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <section style={styles.section}>
+      <div style={styles.titleRow}>
+        <h3 style={styles.sectionTitle}>Data export &amp; import</h3>
+        <button style={styles.secondaryBtn} onClick={exportArchive} disabled={busy !== null}>
+          {busy === 'export' ? 'Exporting...' : 'Export archive'}
+        </button>
+      </div>
+      <p style={styles.hint}>
+        The archive holds details, layers, products, projects, users (without passwords) and branding.
+        Imported users need a new password before they can sign in.
+      </p>
+
+      {error && <div style={styles.error}>{error}</div>}
+      {conflicts && (
+        <div style={styles.conflicts}>
+          {Object.entries(conflicts).map(([entity, ids]) => (
+            <div key={entity}><strong>{entity}:</strong> {ids!.join(', ')}</div>
+          ))}
+        </div>
+      )}
+
+      <form style={styles.form} onSubmit={importArchive}>
+        <input
+          type="file"
+          accept=".zip,application/zip"
+          onChange={e => setFile(e.target.files?.[0] ?? null)}
+          style={styles.file}
+        />
+        <select style={styles.select} value={strategy} onChange={e => setStrategy(e.target.value as ImportStrategy)}>
+          {STRATEGIES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+        </select>
+        <button style={styles.primaryBtn} type="submit" disabled={!file || busy !== null}>
+          {busy === 'import' ? 'Importing...' : 'Import'}
+        </button>
+      </form>
+
+      {report && (
+        <div style={styles.report}>
+          <div style={styles.reportTitle}>
+            Imported from <strong>{report.source.name}</strong> ({report.source.slug}), exported {new Date(report.exportedAt).toLocaleString()}
+          </div>
+          <table style={styles.table}>
+            <thead>
+              <tr>
+                <th style={styles.th} />
+                <th style={styles.th}>Created</th>
+                <th style={styles.th}>Updated</th>
+                <th style={styles.th}>Skipped</th>
+              </tr>
+            </thead>
+            <tbody>
+              {Object.entries(report.counts).map(([entity, c]) => (
+                <tr key={entity}>
+                  <td style={{ ...styles.td, textTransform: 'capitalize' }}>{entity}</td>
+                  <td style={styles.td}>{c.created}</td>
+                  <td style={styles.td}>{c.updated}</td>
+                  <td style={styles.td}>{c.skipped}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {report.brandingApplied && <div style={styles.note}>Branding was replaced; reload to see it.</div>}
+          {report.usersWithoutPassword > 0 && (
+            <div style={styles.note}>{report.usersWithoutPassword} imported user(s) have no password yet.</div>
+          )}
+          {report.warnings.map((w, i) => <div key={i} style={styles.warning}>{w}</div>)}
+        </div>
+      )}
+    </section>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  section: { background: '#fff', border: '1px solid #e2e8f0', borderRadius: 10, padding: 20, marginBottom: 20 },
+  titleRow: { display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 4 },
+  sectionTitle: { fontSize: 15, fontWeight: 600, color: '#1a365d', margin: 0 },
+  hint: { fontSize: 12, color: '#64748b', margin: '0 0 12px' },
+  error: { background: '#fef2f2', color: '#dc2626', padding: 12, borderRadius: 8, marginBottom: 12 },
+  conflicts: {
+    fontSize: 12,
+    fontFamily: 'monospace',
+    color: '#7f1d1d',
+    background: '#fff7ed',
+    padding: 10,
+    borderRadius: 6,
+    marginBottom: 12,
+    maxHeight: 160,
+    overflow: 'auto',
+  },
+  form: { display: 'flex', gap: 8, alignItems: 'center' },
+  file: { flex: 1, fontSize: 13 },
+  select: { padding: '6px 10px', border: '1px solid #e2e8f0', borderRadius: 6, fontSize: 13, background: '#fff' },
+  primaryBtn: {
+    padding: '8px 16px',
+    background: '#2563eb',
+    color: '#fff',
+    border: 'none',
+    borderRadius: 6,
+    fontSize: 13,
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  secondaryBtn: {
+    padding: '6px 14px',
+    background: '#fff',
+    color: '#2563eb',
+    border: '1px solid #2563eb',
+    borderRadius: 6,
+    fontSize: 13,
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  report: { marginTop: 16, background: '#f8fafc', borderRadius: 8, padding: 12 },
+  reportTitle: { fontSize: 13, color: '#1e293b', marginBottom: 8 },
+  table: { width: '100%', borderCollapse: 'collapse', fontSize: 13 },
+  th: { textAlign: 'left' as const, padding: '6px', borderBottom: '1px solid #e2e8f0', color: '#64748b', fontWeight: 600, fontSize: 12 },
+  td: { padding: '6px', borderBottom: '1px solid #f1f5f9', color: '#1e293b' },
+  note: { fontSize: 12, color: '#64748b', marginTop: 8 },
+  warning: { fontSize: 12, color: '#b45309', marginTop: 6 },
+};
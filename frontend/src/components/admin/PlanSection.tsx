@@ -0,0 +1,88 @@
+import React from 'react';
+import type { PlanFeature, QuotaResource } from '@shared/types';
+import { useTenant } from '../../contexts/TenantContext';
+
+const RESOURCES: { key: QuotaResource; label: string }[] = [
+  { key: 'details', label: 'Details' },
+  { key: 'users', label: 'Users & pending invitations' },
+  { key: 'projects', label: 'Projects' },
+  { key: 'apiKeys', label: 'Active API keys' },
+];
+
+const FEATURES: { key: PlanFeature; label: string }[] = [
+  { key: 'exports', label: 'Exports' },
+  { key: 'sso', label: 'Single sign-on' },
+  { key: 'webhooks', label: 'Webhooks' },
+];
+
+export function PlanSection() {
+  const { plan } = useTenant();
+  if (!plan) return null;
+
+  return (
+    <section style={styles.section}>
+      <div style={styles.titleRow}>
+        <h3 style={styles.sectionTitle}>Plan &amp; usage</h3>
+        <span style={styles.badge}>{plan.plan}</span>
+      </div>
+
+      {RESOURCES.map(({ key, label }) => {
+        const limit = plan.limits[key];
+        const used = plan.usage[key];
+        const full = limit !== null && used >= limit;
+        return (
+          <div key={key} style={styles.row}>
+            <div style={styles.rowLabel}>
+              <span>{label}</span>
+              <span style={{ color: full ? '#dc2626' : '#64748b' }}>
+                {used} / {limit === null ? 'unlimited' : limit}
+              </span>
+            </div>
+            {limit !== null && (
+              <div style={styles.meter}>
+                <div style={{
+                  ...styles.meterFill,
+                  width: `${Math.min(100, (used / Math.max(limit, 1)) * 100)}%`,
+                  background: full ? '#dc2626' : '#2563eb',
+                }} />
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div style={styles.features}>
+        {FEATURES.map(({ key, label }) => {
+          const included = plan.features.includes(key);
+          return (
+            <span key={key} style={{ ...styles.feature, color: included ? '#059669' : '#94a3b8' }}>
+              {included ? '✓' : '✕'} {label}
+            </span>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  section: { background: '#fff', border: '1px solid #e2e8f0', borderRadius: 10, padding: 20, marginBottom: 20 },
+  titleRow: { display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 },
+  sectionTitle: { fontSize: 15, fontWeight: 600, color: '#1a365d', margin: 0 },
+  badge: {
+    fontSize: 11,
+    fontWeight: 700,
+    color: '#2563eb',
+    background: '#eff6ff',
+    padding: '2px 8px',
+    borderRadius: 10,
+    textTransform: 'uppercase' as const,
+    letterSpacing: 0.5,
+  },
+  row: { marginBottom: 10 },
+  rowLabel: { display: 'flex', justifyContent: 'space-between', fontSize: 13, color: '#1e293b', marginBottom: 4 },
+  meter: { height: 6, background: '#e2e8f0', borderRadius: 3, overflow: 'hidden' },
+  meterFill: { height: '100%' },
+  features: { display: 'flex', gap: 16, marginTop: 14, fontSize: 13 },
+  feature: { fontWeight: 500 },
+};
@@ -0,0 +1,202 @@
+import React, { useEffect, useState } from 'react';
+import type { SsoSettings, UserRole } from '@shared/types';
+import { errorsByField, updateSsoSettingsSchema, validate } from '@shared/validation';
+import { fieldErrorsOf, tenants as tenantsApi } from '../../services/api';
+import { useTenant } from '../../contexts/TenantContext';
+
+const ROLES: UserRole[] = ['viewer', 'editor', 'admin'];
+
+const splitDomains = (value: string) => value.split(/[\s,]+/).map(d => d.trim()).filter(Boolean);
+
+export function SsoSection() {
+  const { hasFeature } = useTenant();
+  const [sso, setSso] = useState<SsoSettings | null>(null);
+  const [enabled, setEnabled] = useState(true);
+  const [issuer, setIssuer] = useState('');
+  const [clientId, setClientId] = useState('');
+  const [clientSecret, setClientSecret] = useState('');
+  const [domains, setDomains] = useState('');
+  const [defaultRole, setDefaultRole] = useState<UserRole>('viewer');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  const show = (settings: SsoSettings | null) => {
+    setSso(settings);
+    setEnabled(settings?.enabled ?? true);
+    setIssuer(settings?.issuer ?? '');
+    setClientId(settings?.clientId ?? '');
+    setClientSecret('');
+    setDomains(settings?.allowedDomains.join(', ') ?? '');
+    setDefaultRole(settings?.defaultRole ?? 'viewer');
+  };
+
+  useEffect(() => {
+    tenantsApi.sso().then(res => show(res.sso)).catch(err => setError(err.message));
+  }, []);
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setMessage('');
+    // A blank secret field keeps the stored secret
+    const checked = validate(updateSsoSettingsSchema, {
+      enabled, issuer, clientId, allowedDomains: splitDomains(domains), defaultRole,
+      clientSecret: clientSecret || undefined,
+    });
+    if ('errors' in checked) {
+      setFieldErrors(errorsByField(checked.errors));
+      return;
+    }
+    setFieldErrors({});
+    setSaving(true);
+    try {
+      const res = await tenantsApi.updateSso(checked.value);
+      show(res.sso);
+      setMessage('Single sign-on settings saved.');
+    } catch (err: any) {
+      setFieldErrors(fieldErrorsOf(err));
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const clearSecret = async () => {
+    if (!sso || !confirm('Remove the client secret? Only public clients (PKCE alone) work without one.')) return;
+    setError('');
+    try {
+      const res = await tenantsApi.updateSso({
+        enabled: sso.enabled, issuer: sso.issuer, clientId: sso.clientId,
+        allowedDomains: sso.allowedDomains, defaultRole: sso.defaultRole, clientSecret: null,
+      });
+      show(res.sso);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const remove = async () => {
+    if (!confirm('Remove single sign-on? Users created through it will need "Forgot password?" to sign in.')) return;
+    setError('');
+    setMessage('');
+    try {
+      await tenantsApi.removeSso();
+      show(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const firstDomainError = Object.entries(fieldErrors).find(([field]) => field.startsWith('allowedDomains'))?.[1];
+
+  return (
+    <section style={styles.section}>
+      <h3 style={styles.sectionTitle}>Single sign-on</h3>
+      <p style={styles.hint}>
+        Let people sign in through your OpenID Connect provider. Accounts are created on first sign-in.
+        {!hasFeature('sso') && <strong> Available on the Enterprise plan.</strong>}
+      </p>
+
+      {error && <div style={styles.error}>{error}</div>}
+      {message && <div style={styles.success}>{message}</div>}
+
+      {sso && (
+        <div style={styles.redirect}>
+          Redirect URI to register with your provider: <code style={styles.code}>{sso.redirectUri}</code>
+        </div>
+      )}
+
+      <form onSubmit={save}>
+        <label style={styles.label}>
+          Issuer URL
+          <input style={styles.input} value={issuer} onChange={e => setIssuer(e.target.value)} placeholder="https://login.example.com" required />
+          {fieldErrors.issuer && <div style={styles.fieldError}>{fieldErrors.issuer}</div>}
+        </label>
+        <div style={styles.row}>
+          <label style={{ ...styles.label, flex: 1 }}>
+            Client ID
+            <input style={styles.input} value={clientId} onChange={e => setClientId(e.target.value)} required />
+            {fieldErrors.clientId && <div style={styles.fieldError}>{fieldErrors.clientId}</div>}
+          </label>
+          <label style={{ ...styles.label, flex: 1 }}>
+            Client secret
+            <input
+              style={styles.input}
+              type="password"
+              value={clientSecret}
+              onChange={e => setClientSecret(e.target.value)}
+              placeholder={sso?.hasClientSecret ? 'Saved — leave blank to keep' : 'None (public client)'}
+              autoComplete="new-password"
+            />
+            {sso?.hasClientSecret && (
+              <button type="button" style={{ ...styles.linkBtn, fontSize: 12, marginTop: 4 }} onClick={clearSecret}>Remove secret</button>
+            )}
+          </label>
+        </div>
+        <div style={styles.row}>
+          <label style={{ ...styles.label, flex: 2 }}>
+            Allowed email domains
+            <input style={styles.input} value={domains} onChange={e => setDomains(e.target.value)} placeholder="example.com, example.co.uk (blank allows any)" />
+            {firstDomainError && <div style={styles.fieldError}>{firstDomainError}</div>}
+          </label>
+          <label style={{ ...styles.label, flex: 1 }}>
+            Role for new users
+            <select style={styles.input} value={defaultRole} onChange={e => setDefaultRole(e.target.value as UserRole)}>
+              {ROLES.map(r => <option key={r} value={r}>{r}</option>)}
+            </select>
+          </label>
+        </div>
+        <label style={styles.checkbox}>
+          <input type="checkbox" checked={enabled} onChange={e => setEnabled(e.target.checked)} />
+          Offer "Sign in with SSO" on the login page
+        </label>
+        <div style={styles.actions}>
+          <button style={styles.primaryBtn} type="submit" disabled={saving}>
+            {saving ? 'Saving...' : 'Save single sign-on'}
+          </button>
+          {sso && <button type="button" style={{ ...styles.linkBtn, color: '#dc2626' }} onClick={remove}>Remove</button>}
+        </div>
+      </form>
+    </section>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  section: { background: '#fff', border: '1px solid #e2e8f0', borderRadius: 10, padding: 20, marginBottom: 20 },
+  sectionTitle: { fontSize: 15, fontWeight: 600, color: '#1a365d', margin: '0 0 4px' },
+  hint: { fontSize: 12, color: '#64748b', margin: '0 0 12px' },
+  error: { background: '#fef2f2', color: '#dc2626', padding: 12, borderRadius: 8, marginBottom: 12 },
+  success: { background: '#f0fdf4', color: '#059669', padding: 12, borderRadius: 8, marginBottom: 12 },
+  fieldError: { fontSize: 12, fontWeight: 400, color: '#dc2626', marginTop: 4 },
+  redirect: { fontSize: 12, color: '#64748b', marginBottom: 12 },
+  code: { background: '#f1f5f9', padding: '2px 6px', borderRadius: 4, color: '#1e293b', wordBreak: 'break-all' as const },
+  label: { display: 'block', fontSize: 12, fontWeight: 600, color: '#64748b', marginBottom: 12 },
+  row: { display: 'flex', gap: 12 },
+  checkbox: { display: 'flex', alignItems: 'center', gap: 6, fontSize: 13, color: '#1e293b', marginBottom: 12 },
+  actions: { display: 'flex', alignItems: 'center', gap: 16 },
+  input: {
+    display: 'block',
+    width: '100%',
+    marginTop: 4,
+    padding: '8px 12px',
+    border: '1px solid #e2e8f0',
+    borderRadius: 6,
+    fontSize: 13,
+    fontWeight: 400,
+    color: '#1e293b',
+    boxSizing: 'border-box' as const,
+  },
+  primaryBtn: {
+    padding: '8px 16px',
+    background: '#2563eb',
+    color: '#fff',
+    border: 'none',
+    borderRadius: 6,
+    fontSize: 13,
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  linkBtn: { background: 'none', border: 'none', color: '#2563eb', fontSize: 13, cursor: 'pointer', padding: 0 },
+};
@@ -0,0 +1,272 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { Invitation, User, UserRole } from '@shared/types';
+import { users as usersApi } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+import { ApiKeysSection } from './ApiKeysSection';
+import { AuditLogSection } from './AuditLogSection';
+import { BrandingSection } from './BrandingSection';
+import { DataSection } from './DataSection';
+import { PlanSection } from './PlanSection';
+import { SsoSection } from './SsoSection';
+import { WebhooksSection } from './WebhooksSection';
+
+const ROLES: UserRole[] = ['admin', 'editor', 'viewer'];
+
+export function UsersAdmin({ onBack }: { onBack: () => void }) {
+  const { user: currentUser } = useAuth();
+  const [userList, setUserList] = useState<User[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<UserRole>('viewer');
+  const [lastInviteUrl, setLastInviteUrl] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const load = useCallback(() => {
+    Promise.all([usersApi.list(), usersApi.invitations()])
+      .then(([u, i]) => {
+        setUserList(u.users);
+        setInvitations(i.invitations);
+      })
+      .catch(err => setError(err.message))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(load, [load]);
+
+  // Run an action that returns the updated user and swap it into the list
+  const updateUser = async (action: () => Promise<{ user: User }>) => {
+    setError('');
+    try {
+      const res = await action();
+      setUserList(prev => prev.map(u => u.id === res.user.id ? res.user : u));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const invite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      const res = await usersApi.invite(inviteEmail, inviteRole);
+      setInvitations(prev => [res.invitation, ...prev.filter(i => i.email !== res.invitation.email)]);
+      setLastInviteUrl(res.inviteUrl);
+      setInviteEmail('');
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const revoke = async (id: string) => {
+    setError('');
+    try {
+      await usersApi.revokeInvitation(id);
+      setInvitations(prev => prev.filter(i => i.id !== id));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const revokeSessions = async (u: User) => {
+    setError('');
+    try {
+      const res = await usersApi.revokeSessions(u.id);
+      alert(`Signed ${u.name} out of ${res.revokedSessions} session(s).`);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const sendPasswordReset = async (u: User) => {
+    setError('');
+    try {
+      await usersApi.sendPasswordReset(u.id);
+      alert(`Sent a password reset link to ${u.email}.`);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <div>
+          <h2 style={styles.title}>Organization Settings</h2>
+          <p style={styles.subtitle}>Members, plan, branding, single sign-on, API keys, webhooks, data and audit log for your organization</p>
+        </div>
+        <button style={styles.secondaryBtn} onClick={onBack}>Back to Details</button>
+      </div>
+
+      {loading && <div style={styles.loading}>Loading users...</div>}
+      {error && <div style={styles.error}>{error}</div>}
+
+      <section style={styles.section}>
+        <h3 style={styles.sectionTitle}>Invite a user</h3>
+        <form style={styles.inviteForm} onSubmit={invite}>
+          <input
+            style={styles.input}
+            type="email"
+            value={inviteEmail}
+            onChange={e => setInviteEmail(e.target.value)}
+            placeholder="colleague@company.com"
+            required
+          />
+          <select style={styles.select} value={inviteRole} onChange={e => setInviteRole(e.target.value as UserRole)}>
+            {ROLES.map(r => <option key={r} value={r}>{r}</option>)}
+          </select>
+          <button style={styles.primaryBtn} type="submit">Send Invite</button>
+        </form>
+        {lastInviteUrl && (
+          <div style={styles.inviteLink}>
+            Share this link with the invitee (shown once):
+            <input style={{ ...styles.input, marginTop: 6 }} value={lastInviteUrl} readOnly onFocus={e => e.target.select()} />
+          </div>
+        )}
+
+        {invitations.length > 0 && (
+          <table style={styles.table}>
+            <thead>
+              <tr>
+                <th style={styles.th}>Email</th>
+                <th style={styles.th}>Role</th>
+                <th style={styles.th}>Invited by</th>
+                <th style={styles.th}>Expires</th>
+                <th style={styles.th} />
+              </tr>
+            </thead>
+            <tbody>
+              {invitations.map(inv => (
+                <tr key={inv.id}>
+                  <td style={styles.td}>{inv.email}</td>
+                  <td style={styles.td}>{inv.role}</td>
+                  <td style={styles.td}>{inv.inviterName || '—'}</td>
+                  <td style={styles.td}>{new Date(inv.expiresAt).toLocaleDateString()}</td>
+                  <td style={{ ...styles.td, textAlign: 'right' }}>
+                    <button style={styles.linkBtn} onClick={() => revoke(inv.id)}>Revoke</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section style={styles.section}>
+        <h3 style={styles.sectionTitle}>Members</h3>
+        <table style={styles.table}>
+          <thead>
+            <tr>
+              <th style={styles.th}>Name</th>
+              <th style={styles.th}>Email</th>
+              <th style={styles.th}>Role</th>
+              <th style={styles.th}>Status</th>
+              <th style={styles.th} />
+            </tr>
+          </thead>
+          <tbody>
+            {userList.map(u => {
+              const isSelf = u.id === currentUser?.id;
+              return (
+                <tr key={u.id} style={{ opacity: u.isActive === false ? 0.55 : 1 }}>
+                  <td style={styles.td}>{u.name}{isSelf && <span style={styles.you}> (you)</span>}</td>
+                  <td style={styles.td}>
+                    {u.email}
+                    {!u.emailVerifiedAt && <span style={styles.unverified} title="Email address not confirmed yet"> unverified</span>}
+                  </td>
+                  <td style={styles.td}>
+                    <select
+                      style={styles.select}
+                      value={u.role}
+                      disabled={isSelf}
+                      onChange={e => updateUser(() => usersApi.setRole(u.id, e.target.value))}
+                    >
+                      {ROLES.map(r => <option key={r} value={r}>{r}</option>)}
+                    </select>
+                  </td>
+                  <td style={styles.td}>{u.isActive === false ? 'Deactivated' : 'Active'}</td>
+                  <td style={{ ...styles.td, textAlign: 'right' }}>
+                    {!isSelf && u.isActive !== false && (
+                      <>
+                        <button style={{ ...styles.linkBtn, marginRight: 12 }} onClick={() => sendPasswordReset(u)}>Send reset link</button>
+                        <button style={{ ...styles.linkBtn, marginRight: 12 }} onClick={() => revokeSessions(u)}>Sign out</button>
+                      </>
+                    )}
+                    {!isSelf && (u.isActive === false ? (
+                      <button style={styles.linkBtn} onClick={() => updateUser(() => usersApi.reactivate(u.id))}>Reactivate</button>
+                    ) : (
+                      <button
+                        style={{ ...styles.linkBtn, color: '#dc2626' }}
+                        onClick={() => confirm(`Deactivate ${u.name}? They will be signed out immediately.`)
+                          && updateUser(() => usersApi.deactivate(u.id))}
+                      >
+                        Deactivate
+                      </button>
+                    ))}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </section>
+
+      <PlanSection />
+      <BrandingSection />
+      <SsoSection />
+      <ApiKeysSection />
+      <WebhooksSection />
+      <DataSection />
+      <AuditLogSection />
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  container: { padding: 24, maxWidth: 1000, margin: '0 auto', width: '100%', boxSizing: 'border-box', overflowY: 'auto' },
+  header: { display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: 24 },
+  title: { fontSize: 22, fontWeight: 700, color: '#1a365d', margin: '0 0 4px' },
+  subtitle: { fontSize: 14, color: '#64748b', margin: 0 },
+  loading: { textAlign: 'center' as const, padding: 40, color: '#64748b' },
+  error: { background: '#fef2f2', color: '#dc2626', padding: 12, borderRadius: 8, marginBottom: 16 },
+  section: { background: '#fff', border: '1px solid #e2e8f0', borderRadius: 10, padding: 20, marginBottom: 20 },
+  sectionTitle: { fontSize: 15, fontWeight: 600, color: '#1a365d', margin: '0 0 12px' },
+  inviteForm: { display: 'flex', gap: 8 },
+  inviteLink: { fontSize: 12, color: '#64748b', marginTop: 12 },
+  input: {
+    flex: 1,
+    width: '100%',
+    padding: '8px 12px',
+    border: '1px solid #e2e8f0',
+    borderRadius: 6,
+    fontSize: 13,
+    boxSizing: 'border-box' as const,
+  },
+  select: { padding: '6px 10px', border: '1px solid #e2e8f0', borderRadius: 6, fontSize: 13, background: '#fff' },
+  primaryBtn: {
+    padding: '8px 16px',
+    background: '#2563eb',
+    color: '#fff',
+    border: 'none',
+    borderRadius: 6,
+    fontSize: 13,
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  secondaryBtn: {
+    padding: '10px 16px',
+    background: '#fff',
+    color: '#2563eb',
+    border: '1px solid #2563eb',
+    borderRadius: 8,
+    fontSize: 14,
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  linkBtn: { background: 'none', border: 'none', color: '#2563eb', fontSize: 13, cursor: 'pointer', padding: 0 },
+  table: { width: '100%', borderCollapse: 'collapse', marginTop: 12, fontSize: 13 },
+  th: { textAlign: 'left' as const, padding: '8px 6px', borderBottom: '1px solid #e2e8f0', color: '#64748b', fontWeight: 600, fontSize: 12 },
+  td: { padding: '8px 6px', borderBottom: '1px solid #f1f5f9', color: '#1e293b' },
+  you: { color: '#94a3b8', fontSize: 12 },
+  unverified: { color: '#d97706', fontSize: 11, marginLeft: 4 },
+};
@@ -0,0 +1,343 @@
+import React, { useEffect, useState } from 'react';
+import type { Webhook, WebhookDelivery, WebhookDeliveryStatus, WebhookEvent } from '@shared/types';
+import { createWebhookSchema, errorsByField, validate } from '@shared/validation';
+import { fieldErrorsOf, webhooks as webhooksApi } from '../../services/api';
+import { useTenant } from '../../contexts/TenantContext';
+
+const EVENTS: { key: WebhookEvent; label: string }[] = [
+  { key: 'detail.created', label: 'Detail created' },
+  { key: 'detail.updated', label: 'Detail updated' },
+  { key: 'detail.published', label: 'Detail published' },
+  { key: 'detail.deleted', label: 'Detail deleted' },
+  { key: 'project.created', label: 'Project created' },
+  { key: 'project.updated', label: 'Project updated' },
+  { key: 'project.deleted', label: 'Project deleted' },
+];
+
+const STATUS_COLORS: Record<WebhookDeliveryStatus, string> = {
+  pending: '#d97706',
+  delivering: '#2563eb',
+  delivered: '#059669',
+  failed: '#dc2626',
+};
+
+export function WebhooksSection() {
+  const { hasFeature } = useTenant();
+  const [hooks, setHooks] = useState<Webhook[]>([]);
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>(EVENTS.map(e => e.key));
+  const [revealed, setRevealed] = useState<{ url: string; secret: string } | null>(null);
+  const [selected, setSelected] = useState<Webhook | null>(null);
+  const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    webhooksApi.list()
+      .then(res => setHooks(res.webhooks))
+      .catch(err => setError(err.message));
+  }, []);
+
+  const replaceHook = (updated: Webhook) => {
+    setHooks(prev => prev.map(h => h.id === updated.id ? updated : h));
+    if (selected?.id === updated.id) setSelected(updated);
+  };
+
+  const toggleEvent = (event: WebhookEvent) =>
+    setEvents(prev => prev.includes(event) ? prev.filter(e => e !== event) : [...prev, event]);
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    const checked = validate(createWebhookSchema, { url, description: description || null, events });
+    if ('errors' in checked) {
+      setFieldErrors(errorsByField(checked.errors));
+      return;
+    }
+    setFieldErrors({});
+    try {
+      const res = await webhooksApi.create(checked.value);
+      setHooks(prev => [res.webhook, ...prev]);
+      setRevealed({ url: res.webhook.url, secret: res.secret });
+      setUrl('');
+      setDescription('');
+    } catch (err: any) {
+      setFieldErrors(fieldErrorsOf(err));
+      setError(err.message);
+    }
+  };
+
+  const toggleEnabled = async (hook: Webhook) => {
+    setError('');
+    try {
+      const res = await webhooksApi.update(hook.id, { enabled: !hook.enabled });
+      replaceHook(res.webhook);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const rotate = async (hook: Webhook) => {
+    if (!confirm(`Rotate the signing secret for ${hook.url}? Deliveries are signed with the new one immediately.`)) return;
+    setError('');
+    try {
+      const res = await webhooksApi.rotateSecret(hook.id);
+      replaceHook(res.webhook);
+      setRevealed({ url: res.webhook.url, secret: res.secret });
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const remove = async (hook: Webhook) => {
+    if (!confirm(`Delete the webhook for ${hook.url}? Its delivery log is deleted too.`)) return;
+    setError('');
+    try {
+      await webhooksApi.remove(hook.id);
+      setHooks(prev => prev.filter(h => h.id !== hook.id));
+      if (selected?.id === hook.id) setSelected(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const eventError = Object.entries(fieldErrors).find(([field]) => field.startsWith('events'))?.[1];
+
+  return (
+    <section style={styles.section}>
+      <h3 style={styles.sectionTitle}>Webhooks</h3>
+      <p style={styles.hint}>
+        POST detail and project changes to your own systems. Each request is signed with the webhook's secret
+        in <code>X-Webhook-Signature</code>; failed deliveries are retried with backoff.
+        {!hasFeature('webhooks') && <strong> Available on the Pro and Enterprise plans.</strong>}
+      </p>
+
+      {error && <div style={styles.error}>{error}</div>}
+
+      <form onSubmit={create}>
+        <div style={styles.row}>
+          <label style={{ ...styles.label, flex: 2 }}>
+            Endpoint URL
+            <input style={styles.input} value={url} onChange={e => setUrl(e.target.value)} placeholder="https://dms.example.com/hooks/bim" required />
+            {fieldErrors.url && <div style={styles.fieldError}>{fieldErrors.url}</div>}
+          </label>
+          <label style={{ ...styles.label, flex: 1 }}>
+            Description
+            <input style={styles.input} value={description} onChange={e => setDescription(e.target.value)} placeholder="Optional" />
+          </label>
+        </div>
+        <div style={styles.events}>
+          {EVENTS.map(({ key, label }) => (
+            <label key={key} style={styles.checkbox}>
+              <input type="checkbox" checked={events.includes(key)} onChange={() => toggleEvent(key)} />
+              {label}
+            </label>
+          ))}
+        </div>
+        {eventError && <div style={{ ...styles.fieldError, marginBottom: 8 }}>{eventError}</div>}
+        <button style={styles.primaryBtn} type="submit">Add Webhook</button>
+      </form>
+
+      {revealed && (
+        <div style={styles.revealed}>
+          Copy the signing secret for <strong>{revealed.url}</strong> now — it will not be shown again:
+          <input style={{ ...styles.input, marginTop: 6, fontFamily: 'monospace' }} value={revealed.secret} readOnly onFocus={e => e.target.select()} />
+        </div>
+      )}
+
+      {hooks.length > 0 && (
+        <table style={styles.table}>
+          <thead>
+            <tr>
+              <th style={styles.th}>Endpoint</th>
+              <th style={styles.th}>Events</th>
+              <th style={styles.th}>Enabled</th>
+              <th style={styles.th} />
+            </tr>
+          </thead>
+          <tbody>
+            {hooks.map(h => (
+              <tr key={h.id} style={{ background: selected?.id === h.id ? '#eff6ff' : undefined }}>
+                <td style={styles.td}>
+                  <div style={styles.url}>{h.url}</div>
+                  {h.description && <div style={styles.muted}>{h.description}</div>}
+                </td>
+                <td style={styles.td}>{h.events.length === EVENTS.length ? 'All' : h.events.join(', ')}</td>
+                <td style={styles.td}>
+                  <input type="checkbox" checked={h.enabled} onChange={() => toggleEnabled(h)} />
+                </td>
+                <td style={{ ...styles.td, textAlign: 'right', whiteSpace: 'nowrap' }}>
+                  <button style={{ ...styles.linkBtn, marginRight: 12 }} onClick={() => setSelected(selected?.id === h.id ? null : h)}>
+                    Deliveries
+                  </button>
+                  <button style={{ ...styles.linkBtn, marginRight: 12 }} onClick={() => rotate(h)}>Rotate secret</button>
+                  <button style={{ ...styles.linkBtn, color: '#dc2626' }} onClick={() => remove(h)}>Delete</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {selected && <DeliveryLog webhook={selected} />}
+    </section>
+  );
+}
+
+function DeliveryLog({ webhook }: { webhook: Webhook }) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [status, setStatus] = useState<WebhookDeliveryStatus | ''>('');
+  const [open, setOpen] = useState<WebhookDelivery | null>(null);
+  const [error, setError] = useState('');
+
+  const load = () => {
+    webhooksApi.deliveries(webhook.id, { status: status || undefined })
+      .then(res => setDeliveries(res.deliveries))
+      .catch(err => setError(err.message));
+  };
+
+  useEffect(load, [webhook.id, status]);
+
+  const act = async (action: () => Promise<unknown>) => {
+    setError('');
+    try {
+      await action();
+      load();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const show = async (delivery: WebhookDelivery) => {
+    if (open?.id === delivery.id) {
+      setOpen(null);
+      return;
+    }
+    try {
+      const res = await webhooksApi.delivery(webhook.id, delivery.id);
+      setOpen(res.delivery);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div style={styles.log}>
+      <div style={styles.logHeader}>
+        <strong style={{ fontSize: 13 }}>Deliveries to {webhook.url}</strong>
+        <div style={{ display: 'flex', gap: 12, alignItems: 'center' }}>
+          <select style={styles.select} value={status} onChange={e => setStatus(e.target.value as WebhookDeliveryStatus | '')}>
+            <option value="">All statuses</option>
+            {(Object.keys(STATUS_COLORS) as WebhookDeliveryStatus[]).map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+          <button style={styles.linkBtn} onClick={() => act(() => webhooksApi.ping(webhook.id))}>Send ping</button>
+          <button style={styles.linkBtn} onClick={load}>Refresh</button>
+        </div>
+      </div>
+
+      {error && <div style={styles.error}>{error}</div>}
+      {deliveries.length === 0 && !error && <div style={styles.muted}>No deliveries yet.</div>}
+
+      {deliveries.length > 0 && (
+        <table style={styles.table}>
+          <thead>
+            <tr>
+              <th style={styles.th}>Event</th>
+              <th style={styles.th}>Status</th>
+              <th style={styles.th}>Attempts</th>
+              <th style={styles.th}>Response</th>
+              <th style={styles.th}>Queued</th>
+              <th style={styles.th} />
+            </tr>
+          </thead>
+          <tbody>
+            {deliveries.map(d => (
+              <React.Fragment key={d.id}>
+                <tr>
+                  <td style={styles.td}>
+                    <button style={styles.linkBtn} onClick={() => show(d)}>{d.event}</button>
+                    {d.redeliveryOf && <span style={styles.muted}> redelivery</span>}
+                  </td>
+                  <td style={{ ...styles.td, color: STATUS_COLORS[d.status], fontWeight: 600 }}>
+                    {d.status}
+                    {d.nextAttemptAt && <div style={styles.muted}>retry {new Date(d.nextAttemptAt).toLocaleTimeString()}</div>}
+                  </td>
+                  <td style={styles.td}>{d.attempts}</td>
+                  <td style={styles.td}>{d.responseStatus ?? d.lastError ?? '—'}</td>
+                  <td style={styles.td}>{new Date(d.createdAt).toLocaleString()}</td>
+                  <td style={{ ...styles.td, textAlign: 'right' }}>
+                    {(d.status === 'delivered' || d.status === 'failed') && (
+                      <button style={styles.linkBtn} onClick={() => act(() => webhooksApi.redeliver(webhook.id, d.id))}>Redeliver</button>
+                    )}
+                  </td>
+                </tr>
+                {open?.id === d.id && (
+                  <tr>
+                    <td colSpan={6} style={styles.td}>
+                      <pre style={styles.pre}>{JSON.stringify(open.payload, null, 2)}</pre>
+                      {open.responseBody && <pre style={styles.pre}>{open.responseBody}</pre>}
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  section: { background: '#fff', border: '1px solid #e2e8f0', borderRadius: 10, padding: 20, marginBottom: 20 },
+  sectionTitle: { fontSize: 15, fontWeight: 600, color: '#1a365d', margin: '0 0 4px' },
+  hint: { fontSize: 12, color: '#64748b', margin: '0 0 12px' },
+  error: { background: '#fef2f2', color: '#dc2626', padding: 12, borderRadius: 8, marginBottom: 12 },
+  fieldError: { fontSize: 12, fontWeight: 400, color: '#dc2626', marginTop: 4 },
+  label: { display: 'block', fontSize: 12, fontWeight: 600, color: '#64748b', marginBottom: 12 },
+  row: { display: 'flex', gap: 12 },
+  events: { display: 'flex', flexWrap: 'wrap' as const, gap: '6px 16px', marginBottom: 12 },
+  checkbox: { display: 'flex', alignItems: 'center', gap: 6, fontSize: 13, color: '#1e293b' },
+  revealed: { fontSize: 12, color: '#64748b', marginTop: 12, background: '#fffbeb', padding: 10, borderRadius: 6 },
+  input: {
+    display: 'block',
+    width: '100%',
+    marginTop: 4,
+    padding: '8px 12px',
+    border: '1px solid #e2e8f0',
+    borderRadius: 6,
+    fontSize: 13,
+    fontWeight: 400,
+    color: '#1e293b',
+    boxSizing: 'border-box' as const,
+  },
+  select: { padding: '6px 10px', border: '1px solid #e2e8f0', borderRadius: 6, fontSize: 13, background: '#fff' },
+  primaryBtn: {
+    padding: '8px 16px',
+    background: '#2563eb',
+    color: '#fff',
+    border: 'none',
+    borderRadius: 6,
+    fontSize: 13,
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  linkBtn: { background: 'none', border: 'none', color: '#2563eb', fontSize: 13, cursor: 'pointer', padding: 0 },
+  table: { width: '100%', borderCollapse: 'collapse', marginTop: 12, fontSize: 13 },
+  th: { textAlign: 'left' as const, padding: '8px 6px', borderBottom: '1px solid #e2e8f0', color: '#64748b', fontWeight: 600, fontSize: 12 },
+  td: { padding: '8px 6px', borderBottom: '1px solid #f1f5f9', color: '#1e293b', verticalAlign: 'top' as const },
+  url: { fontFamily: 'monospace', wordBreak: 'break-all' as const },
+  muted: { fontSize: 12, color: '#94a3b8' },
+  log: { marginTop: 16, padding: 12, background: '#f8fafc', borderRadius: 8 },
+  logHeader: { display: 'flex', justifyContent: 'space-between', alignItems: 'center' },
+  pre: {
+    background: '#0f172a',
+    color: '#e2e8f0',
+    fontSize: 11,
+    padding: 10,
+    borderRadius: 6,
+    maxHeight: 240,
+    overflow: 'auto',
+    margin: '0 0 8px',
+  },
+};
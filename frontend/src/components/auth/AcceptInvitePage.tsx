@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import type { InvitationLookup } from '@shared/types';
+import { useAuth } from '../../contexts/AuthContext';
+import { acceptInviteSchema, errorsByField, validate } from '@shared/validation';
+import { auth as authApi, fieldErrorsOf } from '../../services/api';
+
+interface AcceptInvitePageProps {
+  token: string;
+  onSwitchToLogin: () => void;
+}
+
+export function AcceptInvitePage({ token, onSwitchToLogin }: AcceptInvitePageProps) {
+  const { acceptInvite, isLoading } = useAuth();
+  const [invite, setInvite] = useState<InvitationLookup | null>(null);
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    authApi.getInvitation(token)
+      .then(setInvite)
+      .catch(err => setError(err.message));
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    const checked = validate(acceptInviteSchema, { token, name, password });
+    if ('errors' in checked) {
+      setFieldErrors(errorsByField(checked.errors));
+      return;
+    }
+    setFieldErrors({});
+    try {
+      await acceptInvite(checked.value);
+    } catch (err: any) {
+      setFieldErrors(fieldErrorsOf(err));
+      setError(err.message || 'Failed to accept invitation');
+    }
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.card}>
+        <h1 style={styles.title}>Join Your Team</h1>
+        <p style={styles.subtitle}>
+          {invite ? <>You were invited as <strong>{invite.role}</strong></> : 'Checking invitation...'}
+        </p>
+
+        {error && <div style={styles.error}>{error}</div>}
+
+        {invite && (
+          <form onSubmit={handleSubmit}>
+            <div style={styles.field}>
+              <label style={styles.label}>Email</label>
+              <input style={{ ...styles.input, background: '#f8fafc' }} value={invite.email} readOnly />
+            </div>
+            <div style={styles.field}>
+              <label style={styles.label}>Full Name</label>
+              <input
+                style={styles.input}
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder="Your name"
+                required
+              />
+              {fieldErrors.name && <div style={styles.fieldError}>{fieldErrors.name}</div>}
+            </div>
+            <div style={styles.field}>
+              <label style={styles.label}>{invite.hasAccount ? 'Your existing password' : 'Password'}</label>
+              <input
+                style={styles.input}
+                type="password"
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+                placeholder={invite.hasAccount ? 'The password you already sign in with' : 'Min 6 characters'}
+                minLength={6}
+                required
+              />
+              {fieldErrors.password && <div style={styles.fieldError}>{fieldErrors.password}</div>}
+              {invite.hasAccount && (
+                <div style={styles.hint}>
+                  This email already belongs to another organization. You will use one sign-in for both.
+                </div>
+              )}
+            </div>
+            <button style={styles.button} type="submit" disabled={isLoading}>
+              {isLoading ? 'Joining...' : 'Accept Invitation'}
+            </button>
+          </form>
+        )}
+
+        <p style={styles.switchText}>
+          Already have an account?{' '}
+          <a href="#" onClick={(e) => { e.preventDefault(); onSwitchToLogin(); }} style={styles.link}>
+            Sign In
+          </a>
+        </p>
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 'calc(100vh - 92px)',
+    background: '#f8fafc',
+  },
+  card: {
+    background: '#fff',
+    borderRadius: 12,
+    padding: '40px 36px',
+    width: 380,
+    boxShadow: '0 4px 20px rgba(0,0,0,0.08)',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 700,
+    color: '#1a365d',
+    margin: '0 0 4px',
+    textAlign: 'center' as const,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#64748b',
+    margin: '0 0 24px',
+    textAlign: 'center' as const,
+  },
+  field: { marginBottom: 16 },
+  hint: { fontSize: 12, color: '#64748b', marginTop: 4 },
+  label: {
+    display: 'block',
+    fontSize: 12,
+    fontWeight: 600,
+    color: '#374151',
+    marginBottom: 4,
+  },
+  input: {
+    width: '100%',
+    padding: '10px 12px',
+    border: '1px solid #e2e8f0',
+    borderRadius: 6,
+    fontSize: 14,
+    outline: 'none',
+    boxSizing: 'border-box' as const,
+  },
+  button: {
+    width: '100%',
+    padding: '11px',
+    background: '#2563eb',
+    color: '#fff',
+    border: 'none',
+    borderRadius: 6,
+    fontSize: 14,
+    fontWeight: 600,
+    cursor: 'pointer',
+    marginTop: 8,
+  },
+  error: {
+    background: '#fef2f2',
+    color: '#dc2626',
+    padding: '8px 12px',
+    borderRadius: 6,
+    fontSize: 13,
+    marginBottom: 16,
+  },
+  fieldError: {
+    fontSize: 12,
+    color: '#dc2626',
+    marginTop: 4,
+  },
+  switchText: {
+    fontSize: 13,
+    color: '#64748b',
+    textAlign: 'center' as const,
+    marginTop: 20,
+  },
+  link: {
+    color: '#2563eb',
+    textDecoration: 'none',
+    fontWeight: 600,
+  },
+};
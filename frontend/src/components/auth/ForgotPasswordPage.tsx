@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { errorsByField, forgotPasswordSchema, validate } from '@shared/validation';
+import { auth as authApi, fieldErrorsOf, getTenantSlug, setTenantSlug } from '../../services/api';
+
+export function ForgotPasswordPage({ onSwitchToLogin }: { onSwitchToLogin: () => void }) {
+  const [email, setEmail] = useState('');
+  const [tenant, setTenant] = useState(getTenantSlug() || 'demo');
+  const [sent, setSent] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    const checked = validate(forgotPasswordSchema, { email });
+    if ('errors' in checked) {
+      setFieldErrors(errorsByField(checked.errors));
+      return;
+    }
+    setFieldErrors({});
+    setIsSending(true);
+    try {
+      setTenantSlug(tenant);
+      await authApi.forgotPassword(checked.value.email);
+      setSent(true);
+    } catch (err: any) {
+      setFieldErrors(fieldErrorsOf(err));
+      setError(err.message || 'Failed to send reset email');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.card}>
+        <h1 style={styles.title}>Forgot Password</h1>
+        <p style={styles.subtitle}>We'll email you a link to choose a new one</p>
+
+        {error && <div style={styles.error}>{error}</div>}
+
+        {sent ? (
+          <div style={styles.success}>
+            If <strong>{email}</strong> has an account in <strong>{tenant}</strong>, a reset link is on its way.
+            The link expires in an hour.
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <div style={styles.field}>
+              <label style={styles.label}>Tenant</label>
+              <input
+                style={styles.input}
+                value={tenant}
+                onChange={e => setTenant(e.target.value)}
+                placeholder="Organization slug"
+                required
+              />
+            </div>
+            <div style={styles.field}>
+              <label style={styles.label}>Email</label>
+              <input
+                style={styles.input}
+                type="email"
+                value={email}
+                onChange={e => setEmail(e.target.value)}
+                placeholder="you@company.com"
+                required
+              />
+              {fieldErrors.email && <div style={styles.fieldError}>{fieldErrors.email}</div>}
+            </div>
+            <button style={styles.button} type="submit" disabled={isSending}>
+              {isSending ? 'Sending...' : 'Send Reset Link'}
+            </button>
+          </form>
+        )}
+
+        <p style={styles.switchText}>
+          Remembered it?{' '}
+          <a href="#" onClick={(e) => { e.preventDefault(); onSwitchToLogin(); }} style={styles.link}>
+            Sign In
+          </a>
+        </p>
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 'calc(100vh - 92px)',
+    background: '#f8fafc',
+  },
+  card: {
+    background: '#fff',
+    borderRadius: 12,
+    padding: '40px 36px',
+    width: 380,
+    boxShadow: '0 4px 20px rgba(0,0,0,0.08)',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 700,
+    color: '#1a365d',
+    margin: '0 0 4px',
+    textAlign: 'center' as const,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#64748b',
+    margin: '0 0 24px',
+    textAlign: 'center' as const,
+  },
+  field: { marginBottom: 16 },
+  label: {
+    display: 'block',
+    fontSize: 12,
+    fontWeight: 600,
+    color: '#374151',
+    marginBottom: 4,
+  },
+  input: {
+    width: '100%',
+    padding: '10px 12px',
+    border: '1px solid #e2e8f0',
+    borderRadius: 6,
+    fontSize: 14,
+    outline: 'none',
+    boxSizing: 'border-box' as const,
+  },
+  button: {
+    width: '100%',
+    padding: '11px',
+    background: '#2563eb',
+    color: '#fff',
+    border: 'none',
+    borderRadius: 6,
+    fontSize: 14,
+    fontWeight: 600,
+    cursor: 'pointer',
+    marginTop: 8,
+  },
+  error: {
+    background: '#fef2f2',
+    color: '#dc2626',
+    padding: '8px 12px',
+    borderRadius: 6,
+    fontSize: 13,
+    marginBottom: 16,
+  },
+  success: {
+    background: '#f0fdf4',
+    color: '#15803d',
+    padding: '8px 12px',
+    borderRadius: 6,
+    fontSize: 13,
+    marginBottom: 16,
+  },
+  fieldError: {
+    fontSize: 12,
+    color: '#dc2626',
+    marginTop: 4,
+  },
+  switchText: {
+    fontSize: 13,
+    color: '#64748b',
+    textAlign: 'center' as const,
+    marginTop: 20,
+  },
+  link: {
+    color: '#2563eb',
+    textDecoration: 'none',
+    fontWeight: 600,
+  },
+};
@@ -1,25 +1,56 @@
 import React, { useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
-import { setTenantSlug } from '../../services/api';
+import { errorsByField, loginSchema, validate } from '@shared/validation';
+import { auth as authApi, fieldErrorsOf, setTenantSlug } from '../../services/api';
 
-export function LoginPage({ onSwitchToRegister }: { onSwitchToRegister: () => void }) {
+interface LoginPageProps {
+  onSwitchToRegister: () => void;
+  onForgotPassword: () => void;
+  /** Why a single sign-on attempt failed, when the provider sent the user back here */
+  initialError?: string;
+}
+
+export function LoginPage({ onSwitchToRegister, onForgotPassword, initialError }: LoginPageProps) {
   const { login, isLoading } = useAuth();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [tenant, setTenant] = useState('demo');
-  const [error, setError] = useState('');
+  const [error, setError] = useState(initialError || '');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    const checked = validate(loginSchema, { email, password });
+    if ('errors' in checked) {
+      setFieldErrors(errorsByField(checked.errors));
+      return;
+    }
+    setFieldErrors({});
     try {
       setTenantSlug(tenant);
-      await login(email, password);
+      await login(checked.value.email, checked.value.password);
     } catch (err: any) {
+      setFieldErrors(fieldErrorsOf(err));
       setError(err.message || 'Login failed');
     }
   };
 
+  const signInWithSso = async () => {
+    setError('');
+    setTenantSlug(tenant);
+    try {
+      const status = await authApi.ssoStatus();
+      if (!status.enabled) {
+        setError('Single sign-on is not set up for this organization.');
+        return;
+      }
+      window.location.assign(authApi.ssoStartUrl(tenant));
+    } catch (err: any) {
+      setError(err.message || 'Single sign-on is unavailable');
+    }
+  };
+
   return (
     <div style={styles.container}>
       <div style={styles.card}>
@@ -49,6 +80,7 @@ export function LoginPage({ onSwitchToRegister }: { onSwitchToRegister: () => vo
               placeholder="you@company.com"
               required
             />
+            {fieldErrors.email && <div style={styles.fieldError}>{fieldErrors.email}</div>}
           </div>
           <div style={styles.field}>
             <label style={styles.label}>Password</label>
@@ -60,12 +92,24 @@ export function LoginPage({ onSwitchToRegister }: { onSwitchToRegister: () => vo
               placeholder="Password"
               required
             />
+            {fieldErrors.password && <div style={styles.fieldError}>{fieldErrors.password}</div>}
+            <a
+              href="#"
+              onClick={(e) => { e.preventDefault(); setTenantSlug(tenant); onForgotPassword(); }}
+              style={styles.forgotLink}
+            >
+              Forgot password?
+            </a>
           </div>
           <button style={styles.button} type="submit" disabled={isLoading}>
             {isLoading ? 'Signing in...' : 'Sign In'}
           </button>
         </form>
 
+        <button style={styles.ssoButton} type="button" onClick={signInWithSso} disabled={isLoading || !tenant}>
+          Sign in with SSO
+        </button>
+
         <p style={styles.switchText}>
           Don't have an account?{' '}
           <a href="#" onClick={(e) => { e.preventDefault(); onSwitchToRegister(); }} style={styles.link}>
@@ -134,6 +178,18 @@ const styles: Record<string, React.CSSProperties> = {
     cursor: 'pointer',
     marginTop: 8,
   },
+  ssoButton: {
+    width: '100%',
+    padding: '10px',
+    background: '#fff',
+    color: '#1a365d',
+    border: '1px solid #cbd5e1',
+    borderRadius: 6,
+    fontSize: 14,
+    fontWeight: 600,
+    cursor: 'pointer',
+    marginTop: 10,
+  },
   error: {
     background: '#fef2f2',
     color: '#dc2626',
@@ -142,6 +198,11 @@ const styles: Record<string, React.CSSProperties> = {
     fontSize: 13,
     marginBottom: 16,
   },
+  fieldError: {
+    fontSize: 12,
+    color: '#dc2626',
+    marginTop: 4,
+  },
   switchText: {
     fontSize: 13,
     color: '#64748b',
@@ -153,4 +214,11 @@ const styles: Record<string, React.CSSProperties> = {
     textDecoration: 'none',
     fontWeight: 600,
   },
+  forgotLink: {
+    display: 'inline-block',
+    marginTop: 6,
+    fontSize: 12,
+    color: '#2563eb',
+    textDecoration: 'none',
+  },
 };
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
-import { setTenantSlug } from '../../services/api';
+import { errorsByField, registerSchema, validate } from '@shared/validation';
+import { fieldErrorsOf, setTenantSlug } from '../../services/api';
 
 export function RegisterPage({ onSwitchToLogin }: { onSwitchToLogin: () => void }) {
   const { register, isLoading } = useAuth();
@@ -9,14 +10,23 @@ export function RegisterPage({ onSwitchToLogin }: { onSwitchToLogin: () => void
   const [password, setPassword] = useState('');
   const [tenant, setTenant] = useState('');
   const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    // Same checks the API runs, so most mistakes show up without a round trip
+    const checked = validate(registerSchema, { email, password, name, tenantSlug: tenant || undefined });
+    if ('errors' in checked) {
+      setFieldErrors(errorsByField(checked.errors));
+      return;
+    }
+    setFieldErrors({});
     try {
       if (tenant) setTenantSlug(tenant);
-      await register({ email, password, name, tenantSlug: tenant || undefined });
+      await register(checked.value);
     } catch (err: any) {
+      setFieldErrors(fieldErrorsOf(err));
       setError(err.message || 'Registration failed');
     }
   };
@@ -39,6 +49,7 @@ export function RegisterPage({ onSwitchToLogin }: { onSwitchToLogin: () => void
               placeholder="my-company (new org) or existing slug"
               required
             />
+            {fieldErrors.tenantSlug && <div style={styles.fieldError}>{fieldErrors.tenantSlug}</div>}
           </div>
           <div style={styles.field}>
             <label style={styles.label}>Full Name</label>
@@ -49,6 +60,7 @@ export function RegisterPage({ onSwitchToLogin }: { onSwitchToLogin: () => void
               placeholder="Your name"
               required
             />
+            {fieldErrors.name && <div style={styles.fieldError}>{fieldErrors.name}</div>}
           </div>
           <div style={styles.field}>
             <label style={styles.label}>Email</label>
@@ -60,6 +72,7 @@ export function RegisterPage({ onSwitchToLogin }: { onSwitchToLogin: () => void
               placeholder="you@company.com"
               required
             />
+            {fieldErrors.email && <div style={styles.fieldError}>{fieldErrors.email}</div>}
           </div>
           <div style={styles.field}>
             <label style={styles.label}>Password</label>
@@ -72,6 +85,7 @@ export function RegisterPage({ onSwitchToLogin }: { onSwitchToLogin: () => void
               minLength={6}
               required
             />
+            {fieldErrors.password && <div style={styles.fieldError}>{fieldErrors.password}</div>}
           </div>
           <button style={styles.button} type="submit" disabled={isLoading}>
             {isLoading ? 'Creating...' : 'Create Account'}
@@ -154,6 +168,11 @@ const styles: Record<string, React.CSSProperties> = {
     fontSize: 13,
     marginBottom: 16,
   },
+  fieldError: {
+    fontSize: 12,
+    color: '#dc2626',
+    marginTop: 4,
+  },
   switchText: {
     fontSize: 13,
     color: '#64748b',
@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { errorsByField, resetPasswordSchema, validate } from '@shared/validation';
+import { auth as authApi, fieldErrorsOf } from '../../services/api';
+
+interface ResetPasswordPageProps {
+  token: string;
+  onSwitchToLogin: () => void;
+}
+
+export function ResetPasswordPage({ token, onSwitchToLogin }: ResetPasswordPageProps) {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [done, setDone] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    const checked = validate(resetPasswordSchema, { token, password });
+    if ('errors' in checked) {
+      setFieldErrors(errorsByField(checked.errors));
+      return;
+    }
+    if (password !== confirmPassword) {
+      setFieldErrors({ confirmPassword: 'does not match the new password' });
+      return;
+    }
+    setFieldErrors({});
+    setIsSaving(true);
+    try {
+      await authApi.resetPassword(checked.value);
+      setDone(true);
+    } catch (err: any) {
+      setFieldErrors(fieldErrorsOf(err));
+      setError(err.message || 'Failed to reset password');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.card}>
+        <h1 style={styles.title}>Choose a New Password</h1>
+        <p style={styles.subtitle}>You'll be signed out on every device</p>
+
+        {error && <div style={styles.error}>{error}</div>}
+
+        {done ? (
+          <div style={styles.success}>Your password has been changed. Sign in with the new one.</div>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <div style={styles.field}>
+              <label style={styles.label}>New Password</label>
+              <input
+                style={styles.input}
+                type="password"
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+                placeholder="Min 6 characters"
+                minLength={6}
+                required
+              />
+              {fieldErrors.password && <div style={styles.fieldError}>{fieldErrors.password}</div>}
+            </div>
+            <div style={styles.field}>
+              <label style={styles.label}>Confirm Password</label>
+              <input
+                style={styles.input}
+                type="password"
+                value={confirmPassword}
+                onChange={e => setConfirmPassword(e.target.value)}
+                placeholder="Repeat the new password"
+                required
+              />
+              {fieldErrors.confirmPassword && <div style={styles.fieldError}>{fieldErrors.confirmPassword}</div>}
+            </div>
+            <button style={styles.button} type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Set Password'}
+            </button>
+          </form>
+        )}
+
+        <p style={styles.switchText}>
+          <a href="#" onClick={(e) => { e.preventDefault(); onSwitchToLogin(); }} style={styles.link}>
+            Back to Sign In
+          </a>
+        </p>
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 'calc(100vh - 92px)',
+    background: '#f8fafc',
+  },
+  card: {
+    background: '#fff',
+    borderRadius: 12,
+    padding: '40px 36px',
+    width: 380,
+    boxShadow: '0 4px 20px rgba(0,0,0,0.08)',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 700,
+    color: '#1a365d',
+    margin: '0 0 4px',
+    textAlign: 'center' as const,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#64748b',
+    margin: '0 0 24px',
+    textAlign: 'center' as const,
+  },
+  field: { marginBottom: 16 },
+  label: {
+    display: 'block',
+    fontSize: 12,
+    fontWeight: 600,
+    color: '#374151',
+    marginBottom: 4,
+  },
+  input: {
+    width: '100%',
+    padding: '10px 12px',
+    border: '1px solid #e2e8f0',
+    borderRadius: 6,
+    fontSize: 14,
+    outline: 'none',
+    boxSizing: 'border-box' as const,
+  },
+  button: {
+    width: '100%',
+    padding: '11px',
+    background: '#2563eb',
+    color: '#fff',
+    border: 'none',
+    borderRadius: 6,
+    fontSize: 14,
+    fontWeight: 600,
+    cursor: 'pointer',
+    marginTop: 8,
+  },
+  error: {
+    background: '#fef2f2',
+    color: '#dc2626',
+    padding: '8px 12px',
+    borderRadius: 6,
+    fontSize: 13,
+    marginBottom: 16,
+  },
+  success: {
+    background: '#f0fdf4',
+    color: '#15803d',
+    padding: '8px 12px',
+    borderRadius: 6,
+    fontSize: 13,
+    marginBottom: 16,
+  },
+  fieldError: {
+    fontSize: 12,
+    color: '#dc2626',
+    marginTop: 4,
+  },
+  switchText: {
+    fontSize: 13,
+    color: '#64748b',
+    textAlign: 'center' as const,
+    marginTop: 20,
+  },
+  link: {
+    color: '#2563eb',
+    textDecoration: 'none',
+    fontWeight: 600,
+  },
+};
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { auth as authApi } from '../../services/api';
+
+/** Reminder shown to signed-in users whose email address is not confirmed yet. */
+export function VerifyEmailBanner() {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<'idle' | 'sending' | 'sent'>('idle');
+  const [error, setError] = useState('');
+
+  // undefined means the profile has not loaded yet; only an explicit null is unverified
+  if (!user || user.emailVerifiedAt !== null) return null;
+
+  const resend = async () => {
+    setStatus('sending');
+    setError('');
+    try {
+      await authApi.resendVerification();
+      setStatus('sent');
+    } catch (err: any) {
+      setStatus('idle');
+      setError(err.message || 'Failed to send verification email');
+    }
+  };
+
+  return (
+    <div style={{
+      background: '#fffbeb',
+      borderBottom: '1px solid #fde68a',
+      color: '#92400e',
+      fontSize: 13,
+      padding: '8px 20px',
+      display: 'flex',
+      alignItems: 'center',
+      gap: 12,
+    }}>
+      <span>
+        Please confirm your email address{user.email ? <> (<strong>{user.email}</strong>)</> : null} using the link we sent you.
+      </span>
+      {status === 'sent' ? (
+        <span style={{ fontWeight: 600 }}>New link sent.</span>
+      ) : (
+        <button
+          onClick={resend}
+          disabled={status === 'sending'}
+          style={{
+            padding: '3px 10px',
+            background: 'transparent',
+            border: '1px solid #d97706',
+            borderRadius: 4,
+            color: '#92400e',
+            fontSize: 12,
+            cursor: 'pointer',
+          }}
+        >
+          {status === 'sending' ? 'Sending...' : 'Resend link'}
+        </button>
+      )}
+      {error && <span style={{ color: '#dc2626' }}>{error}</span>}
+    </div>
+  );
+}
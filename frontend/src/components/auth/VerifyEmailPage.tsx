@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { auth as authApi } from '../../services/api';
+
+interface VerifyEmailPageProps {
+  token: string;
+  onContinue: () => void;
+}
+
+export function VerifyEmailPage({ token, onContinue }: VerifyEmailPageProps) {
+  const { isAuthenticated, refreshUser } = useAuth();
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    authApi.verifyEmail(token)
+      .then(() => {
+        setStatus('verified');
+        // Clears the "confirm your email" banner for a signed-in user
+        if (isAuthenticated) refreshUser().catch(() => {});
+      })
+      .catch(err => {
+        setStatus('failed');
+        setError(err.message || 'Verification failed');
+      });
+  }, [token]);
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.card}>
+        <h1 style={styles.title}>Email Verification</h1>
+        <p style={styles.subtitle}>
+          {status === 'verifying' ? 'Confirming your email address...' : 'BIM Detail Viewer account'}
+        </p>
+
+        {status === 'verified' && <div style={styles.success}>Your email address is confirmed.</div>}
+        {status === 'failed' && (
+          <div style={styles.error}>
+            {error} {isAuthenticated && 'Use the banner at the top of the page to send a new link.'}
+          </div>
+        )}
+
+        {status !== 'verifying' && (
+          <button style={styles.button} onClick={onContinue}>
+            {isAuthenticated ? 'Go to Dashboard' : 'Sign In'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 'calc(100vh - 92px)',
+    background: '#f8fafc',
+  },
+  card: {
+    background: '#fff',
+    borderRadius: 12,
+    padding: '40px 36px',
+    width: 380,
+    boxShadow: '0 4px 20px rgba(0,0,0,0.08)',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 700,
+    color: '#1a365d',
+    margin: '0 0 4px',
+    textAlign: 'center' as const,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#64748b',
+    margin: '0 0 24px',
+    textAlign: 'center' as const,
+  },
+  button: {
+    width: '100%',
+    padding: '11px',
+    background: '#2563eb',
+    color: '#fff',
+    border: 'none',
+    borderRadius: 6,
+    fontSize: 14,
+    fontWeight: 600,
+    cursor: 'pointer',
+    marginTop: 8,
+  },
+  error: {
+    background: '#fef2f2',
+    color: '#dc2626',
+    padding: '8px 12px',
+    borderRadius: 6,
+    fontSize: 13,
+    marginBottom: 16,
+  },
+  success: {
+    background: '#f0fdf4',
+    color: '#15803d',
+    padding: '8px 12px',
+    borderRadius: 6,
+    fontSize: 13,
+    marginBottom: 16,
+  },
+};
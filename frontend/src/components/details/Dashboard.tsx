@@ -1,44 +1,159 @@
-import React, { useEffect, useState } from 'react';
-import { details as detailsApi } from '../../services/api';
+import React, { useEffect, useState, useCallback } from 'react';
+import type { DetailFacets, DetailListQuery, DetailSortField, DetailSummary, Project } from '@shared/types';
+import { details as detailsApi, projects as projectsApi } from '../../services/api';
 import { useAuth } from '../../contexts/AuthContext';
-
-interface DetailSummary {
-  id: string;
-  name: string;
-  category: string;
-  description: string;
-  layerCount: number;
-  creatorName: string;
-  updatedAt: string;
-}
+import { IfcImportDialog } from './IfcImportDialog';
 
 interface DashboardProps {
   onOpenDetail: (id: string) => void;
+  onOpenTemplates: () => void;
 }
 
-export function Dashboard({ onOpenDetail }: DashboardProps) {
+type ViewMode = 'all' | 'projects';
+
+type DetailFilters = Omit<DetailListQuery, 'cursor' | 'limit'>;
+
+const categoryColors: Record<string, string> = {
+  roofing: '#2563eb',
+  waterproofing: '#059669',
+  'air-barrier': '#7c3aed',
+  foundation: '#dc2626',
+  'expansion-joint': '#ea580c',
+  penetration: '#0891b2',
+  flashing: '#6b7280',
+};
+
+const sortOptions: { value: DetailSortField; label: string }[] = [
+  { value: 'relevance', label: 'Best match' },
+  { value: 'updatedAt', label: 'Recently updated' },
+  { value: 'createdAt', label: 'Newest' },
+  { value: 'name', label: 'Name' },
+  { value: 'category', label: 'Category' },
+];
+
+export function Dashboard({ onOpenDetail, onOpenTemplates }: DashboardProps) {
   const { user } = useAuth();
   const [detailList, setDetailList] = useState<DetailSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [projectList, setProjectList] = useState<Project[]>([]);
+  const [facets, setFacets] = useState<DetailFacets | null>(null);
+  const [filters, setFilters] = useState<DetailFilters>({});
+  const [searchText, setSearchText] = useState('');
+  const [view, setView] = useState<ViewMode>('all');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  const [importing, setImporting] = useState(false);
 
-  useEffect(() => {
-    detailsApi.list()
-      .then(res => setDetailList(res.details))
+  const canEdit = user?.role !== 'viewer';
+
+  const loadProjects = useCallback(() => {
+    projectsApi.list()
+      .then(p => setProjectList(p.projects))
+      .catch(err => setError(err.message));
+  }, []);
+
+  // The card grid pages through results; the project view needs every match to place details in sections
+  const loadDetails = useCallback((cursor?: string) => {
+    setLoading(true);
+    const request = view === 'projects'
+      ? detailsApi.listAll(filters).then(all => ({ details: all, total: all.length, nextCursor: null }))
+      : detailsApi.list({ ...filters, cursor });
+    request
+      .then(page => {
+        setDetailList(prev => cursor ? [...prev, ...page.details] : page.details);
+        setTotal(page.total);
+        setNextCursor(page.nextCursor);
+      })
       .catch(err => setError(err.message))
       .finally(() => setLoading(false));
+  }, [filters, view]);
+
+  useEffect(loadProjects, [loadProjects]);
+  useEffect(() => loadDetails(), [loadDetails]);
+
+  useEffect(() => {
+    detailsApi.facets()
+      .then(res => setFacets(res.facets))
+      .catch(() => { /* filters still work by typing; the dropdowns just stay empty */ });
   }, []);
 
-  const categoryColors: Record<string, string> = {
-    roofing: '#2563eb',
-    waterproofing: '#059669',
-    'air-barrier': '#7c3aed',
-    foundation: '#dc2626',
-    'expansion-joint': '#ea580c',
-    penetration: '#0891b2',
-    flashing: '#6b7280',
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters(prev => {
+        const q = searchText.trim() || undefined;
+        if (q === prev.q) return prev;
+        // Relevance only makes sense with a query, and is the better default once there is one
+        const sort = !q && prev.sort === 'relevance' ? undefined : prev.sort;
+        return { ...prev, q, sort };
+      });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchText]);
+
+  const setFilter = (key: keyof DetailFilters, value: string | undefined) =>
+    setFilters(prev => ({ ...prev, [key]: value || undefined }));
+
+  const selectedCategories = filters.category ? filters.category.split(',') : [];
+  const toggleCategory = (category: string) => {
+    const next = selectedCategories.includes(category)
+      ? selectedCategories.filter(c => c !== category)
+      : [...selectedCategories, category];
+    setFilter('category', next.join(','));
+  };
+
+  const clearFilters = () => {
+    setSearchText('');
+    setFilters({});
+  };
+
+  const creatorName = (id: string) => facets?.creators.find(c => c.id === id)?.name ?? 'Unknown';
+  const activeChips: { label: string; onRemove: () => void }[] = [
+    ...(filters.q ? [{ label: `“${filters.q}”`, onRemove: () => setSearchText('') }] : []),
+    ...(filters.manufacturer ? [{ label: filters.manufacturer, onRemove: () => setFilter('manufacturer', undefined) }] : []),
+    ...(filters.csiSection ? [{ label: `CSI ${filters.csiSection}`, onRemove: () => setFilter('csiSection', undefined) }] : []),
+    ...(filters.createdBy ? [{ label: `By ${creatorName(filters.createdBy)}`, onRemove: () => setFilter('createdBy', undefined) }] : []),
+  ];
+  const hasFilters = activeChips.length > 0 || selectedCategories.length > 0;
+
+  // Apply a membership change optimistically, then persist it
+  const saveProjectDetails = async (project: Project, detailIds: string[]) => {
+    setProjectList(prev => prev.map(p => p.id === project.id ? { ...p, detailIds } : p));
+    try {
+      const res = await projectsApi.setDetails(project.id, detailIds);
+      setProjectList(prev => prev.map(p => p.id === project.id ? res.project : p));
+    } catch (err: any) {
+      setError(err.message);
+      loadProjects();
+    }
+  };
+
+  const moveDetail = (project: Project, index: number, delta: number) => {
+    const ids = [...project.detailIds];
+    const target = index + delta;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    saveProjectDetails(project, ids);
+  };
+
+  const createProject = async () => {
+    const name = prompt('Project name');
+    if (!name) return;
+    const clientName = prompt('Client name (optional)') || undefined;
+    try {
+      const res = await projectsApi.create({ name, clientName });
+      setProjectList(prev => [res.project, ...prev]);
+      setView('projects');
+    } catch (err: any) {
+      setError(err.message);
+    }
   };
 
+  const detailsById = new Map(detailList.map(d => [d.id, d]));
+  const assigned = new Set(projectList.flatMap(p => p.detailIds));
+  const unassigned = detailList.filter(d => !assigned.has(d.id));
+
   return (
     <div style={styles.container}>
       <div style={styles.header}>
@@ -46,56 +161,272 @@ export function Dashboard({ onOpenDetail }: DashboardProps) {
           <h2 style={styles.title}>Construction Details</h2>
           <p style={styles.subtitle}>Manage your 3D BIM construction details</p>
         </div>
-        {user?.role !== 'viewer' && (
-          <button style={styles.createBtn}>+ New Detail</button>
+        <div style={styles.headerActions}>
+          <div style={styles.viewToggle}>
+            <ToggleBtn label="All Details" active={view === 'all'} onClick={() => setView('all')} />
+            <ToggleBtn label="By Project" active={view === 'projects'} onClick={() => setView('projects')} />
+          </div>
+          <button style={styles.secondaryBtn} onClick={onOpenTemplates}>Template Library</button>
+          {canEdit && (
+            <button style={styles.secondaryBtn} onClick={createProject}>+ New Project</button>
+          )}
+          {canEdit && (
+            <button style={styles.secondaryBtn} onClick={() => setImporting(true)}>Import IFC</button>
+          )}
+          {canEdit && (
+            <button style={styles.createBtn}>+ New Detail</button>
+          )}
+        </div>
+      </div>
+
+      <div style={styles.searchBar}>
+        <input
+          style={styles.searchInput}
+          type="search"
+          value={searchText}
+          onChange={e => setSearchText(e.target.value)}
+          placeholder="Search details, descriptions and products..."
+        />
+        <select
+          style={styles.filterSelect}
+          value={filters.manufacturer || ''}
+          onChange={e => setFilter('manufacturer', e.target.value)}
+        >
+          <option value="">Any manufacturer</option>
+          {facets?.manufacturers.map(m => <option key={m} value={m}>{m}</option>)}
+        </select>
+        <select
+          style={styles.filterSelect}
+          value={filters.csiSection || ''}
+          onChange={e => setFilter('csiSection', e.target.value)}
+        >
+          <option value="">Any CSI section</option>
+          {facets?.csiSections.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+        <select
+          style={styles.filterSelect}
+          value={filters.createdBy || ''}
+          onChange={e => setFilter('createdBy', e.target.value)}
+        >
+          <option value="">Anyone</option>
+          {facets?.creators.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+        </select>
+        <select
+          style={styles.filterSelect}
+          value={filters.sort || (filters.q ? 'relevance' : 'updatedAt')}
+          onChange={e => setFilter('sort', e.target.value)}
+        >
+          {sortOptions
+            .filter(o => o.value !== 'relevance' || filters.q)
+            .map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+      </div>
+
+      <div style={styles.chipRow}>
+        {Object.keys(categoryColors).map(category => {
+          const active = selectedCategories.includes(category);
+          const count = facets?.categories.find(c => c.category === category)?.count;
+          return (
+            <button
+              key={category}
+              onClick={() => toggleCategory(category)}
+              style={{
+                ...styles.chip,
+                background: active ? categoryColors[category] : '#fff',
+                borderColor: categoryColors[category],
+                color: active ? '#fff' : categoryColors[category],
+              }}
+            >
+              {category}{count !== undefined && ` (${count})`}
+            </button>
+          );
+        })}
+        {activeChips.map(chip => (
+          <span key={chip.label} style={styles.activeChip}>
+            {chip.label}
+            <button style={styles.chipRemove} title="Remove filter" onClick={chip.onRemove}>×</button>
+          </span>
+        ))}
+        {hasFilters && (
+          <button style={styles.clearBtn} onClick={clearFilters}>Clear all</button>
         )}
       </div>
 
       {loading && <div style={styles.loading}>Loading details...</div>}
       {error && <div style={styles.error}>{error}</div>}
 
-      <div style={styles.grid}>
-        {detailList.map(detail => (
-          <div
-            key={detail.id}
-            style={styles.card}
-            onClick={() => onOpenDetail(detail.id)}
-          >
-            <div style={styles.cardHeader}>
-              <span style={{
-                ...styles.categoryBadge,
-                background: categoryColors[detail.category] || '#6b7280',
-              }}>
-                {detail.category}
-              </span>
-              <span style={styles.layerCount}>{detail.layerCount} layers</span>
+      {view === 'all' && (
+        <div style={styles.grid}>
+          {detailList.map(detail => (
+            <DetailCard key={detail.id} detail={detail} onOpen={() => onOpenDetail(detail.id)} />
+          ))}
+
+          {!loading && detailList.length === 0 && (
+            <div style={styles.empty}>
+              <p>{hasFilters
+                ? 'No details match these filters.'
+                : 'No details yet. Create your first construction detail or start from the template library.'}</p>
+              {!hasFilters && (
+                <button style={styles.secondaryBtn} onClick={onOpenTemplates}>Browse templates</button>
+              )}
             </div>
-            <h3 style={styles.cardTitle}>{detail.name}</h3>
-            <p style={styles.cardDesc}>{detail.description}</p>
-            <div style={styles.cardFooter}>
-              <span style={styles.creator}>{detail.creatorName}</span>
-              <span style={styles.date}>
-                {detail.updatedAt ? new Date(detail.updatedAt).toLocaleDateString() : ''}
-              </span>
+          )}
+        </div>
+      )}
+
+      {view === 'all' && detailList.length > 0 && (
+        <div style={styles.pager}>
+          <span>Showing {detailList.length} of {total}</span>
+          {nextCursor && (
+            <button style={styles.secondaryBtn} disabled={loading} onClick={() => loadDetails(nextCursor)}>Load more</button>
+          )}
+        </div>
+      )}
+
+      {view === 'projects' && (
+        <>
+          {projectList.map(project => {
+            const members = project.detailIds
+              .map(id => detailsById.get(id))
+              .filter((d): d is DetailSummary => !!d);
+            const addable = detailList.filter(d => !project.detailIds.includes(d.id));
+
+            return (
+              <section key={project.id} style={styles.projectSection}>
+                <div style={styles.projectHeader}>
+                  <div>
+                    <h3 style={styles.projectTitle}>{project.name}</h3>
+                    {project.clientName && <span style={styles.projectClient}>{project.clientName}</span>}
+                  </div>
+                  {canEdit && addable.length > 0 && (
+                    <select
+                      style={styles.addSelect}
+                      value=""
+                      onChange={e => e.target.value && saveProjectDetails(project, [...project.detailIds, e.target.value])}
+                    >
+                      <option value="">+ Add detail...</option>
+                      {addable.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                    </select>
+                  )}
+                </div>
+                <div style={styles.grid}>
+                  {members.map((detail, index) => (
+                    <DetailCard
+                      key={detail.id}
+                      detail={detail}
+                      onOpen={() => onOpenDetail(detail.id)}
+                      actions={canEdit ? (
+                        <>
+                          <CardAction label="↑" title="Move up" disabled={index === 0} onClick={() => moveDetail(project, index, -1)} />
+                          <CardAction label="↓" title="Move down" disabled={index === members.length - 1} onClick={() => moveDetail(project, index, 1)} />
+                          <CardAction
+                            label="×"
+                            title="Remove from project"
+                            onClick={() => saveProjectDetails(project, project.detailIds.filter(id => id !== detail.id))}
+                          />
+                        </>
+                      ) : undefined}
+                    />
+                  ))}
+                  {members.length === 0 && (
+                    <div style={styles.emptyProject}>No details in this project yet.</div>
+                  )}
+                </div>
+              </section>
+            );
+          })}
+
+          {unassigned.length > 0 && (
+            <section style={styles.projectSection}>
+              <div style={styles.projectHeader}>
+                <h3 style={styles.projectTitle}>Not in a project</h3>
+              </div>
+              <div style={styles.grid}>
+                {unassigned.map(detail => (
+                  <DetailCard key={detail.id} detail={detail} onOpen={() => onOpenDetail(detail.id)} />
+                ))}
+              </div>
+            </section>
+          )}
+
+          {!loading && projectList.length === 0 && (
+            <div style={styles.empty}>
+              <p>No projects yet. Create a project to organise details by job.</p>
             </div>
-          </div>
-        ))}
+          )}
+        </>
+      )}
 
-        {!loading && detailList.length === 0 && (
-          <div style={styles.empty}>
-            <p>No details yet. Create your first construction detail to get started.</p>
-          </div>
-        )}
+      {importing && (
+        <IfcImportDialog onClose={() => setImporting(false)} onImported={() => loadDetails()} />
+      )}
+    </div>
+  );
+}
+
+function DetailCard({ detail, onOpen, actions }: { detail: DetailSummary; onOpen: () => void; actions?: React.ReactNode }) {
+  return (
+    <div style={styles.card} onClick={onOpen}>
+      <div style={styles.cardHeader}>
+        <span style={{
+          ...styles.categoryBadge,
+          background: categoryColors[detail.category] || '#6b7280',
+        }}>
+          {detail.category}
+        </span>
+        <span style={styles.layerCount}>{detail.layerCount} layers</span>
+      </div>
+      <h3 style={styles.cardTitle}>{detail.name}</h3>
+      <p style={styles.cardDesc}>{detail.description}</p>
+      <div style={styles.cardFooter}>
+        <span style={styles.creator}>{detail.creatorName}</span>
+        {actions && <span style={styles.cardActions} onClick={e => e.stopPropagation()}>{actions}</span>}
+        <span style={styles.date}>
+          {detail.updatedAt ? new Date(detail.updatedAt).toLocaleDateString() : ''}
+        </span>
       </div>
     </div>
   );
 }
 
+function CardAction({ label, title, disabled, onClick }: { label: string; title: string; disabled?: boolean; onClick: () => void }) {
+  return (
+    <button
+      title={title}
+      disabled={disabled}
+      onClick={onClick}
+      style={{ ...styles.cardActionBtn, opacity: disabled ? 0.4 : 1 }}
+    >
+      {label}
+    </button>
+  );
+}
+
+function ToggleBtn({ label, active, onClick }: { label: string; active: boolean; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      style={{
+        padding: '7px 14px',
+        border: 'none',
+        background: active ? '#2563eb' : 'transparent',
+        color: active ? '#fff' : '#1e293b',
+        fontSize: 13,
+        cursor: 'pointer',
+      }}
+    >
+      {label}
+    </button>
+  );
+}
+
 const styles: Record<string, React.CSSProperties> = {
   container: { padding: 24, maxWidth: 1200, margin: '0 auto' },
   header: { display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: 24 },
+  headerActions: { display: 'flex', alignItems: 'center', gap: 10 },
   title: { fontSize: 22, fontWeight: 700, color: '#1a365d', margin: '0 0 4px' },
   subtitle: { fontSize: 14, color: '#64748b', margin: 0 },
+  viewToggle: { display: 'flex', border: '1px solid #e2e8f0', borderRadius: 8, overflow: 'hidden', background: '#fff' },
   createBtn: {
     padding: '10px 20px',
     background: '#2563eb',
@@ -106,6 +437,49 @@ const styles: Record<string, React.CSSProperties> = {
     fontWeight: 600,
     cursor: 'pointer',
   },
+  secondaryBtn: {
+    padding: '10px 16px',
+    background: '#fff',
+    color: '#2563eb',
+    border: '1px solid #2563eb',
+    borderRadius: 8,
+    fontSize: 14,
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  searchBar: { display: 'flex', gap: 8, marginBottom: 10 },
+  searchInput: {
+    flex: 1,
+    padding: '9px 12px',
+    border: '1px solid #e2e8f0',
+    borderRadius: 8,
+    fontSize: 14,
+    boxSizing: 'border-box' as const,
+  },
+  filterSelect: { padding: '8px 10px', border: '1px solid #e2e8f0', borderRadius: 8, fontSize: 13, background: '#fff', maxWidth: 180 },
+  chipRow: { display: 'flex', flexWrap: 'wrap' as const, alignItems: 'center', gap: 6, marginBottom: 20 },
+  chip: {
+    padding: '3px 12px',
+    border: '1px solid',
+    borderRadius: 14,
+    fontSize: 12,
+    fontWeight: 600,
+    cursor: 'pointer',
+    textTransform: 'capitalize' as const,
+  },
+  activeChip: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: 4,
+    padding: '3px 6px 3px 12px',
+    background: '#e0e7ff',
+    color: '#1e3a8a',
+    borderRadius: 14,
+    fontSize: 12,
+  },
+  chipRemove: { background: 'none', border: 'none', color: '#1e3a8a', fontSize: 14, cursor: 'pointer', padding: '0 4px' },
+  clearBtn: { background: 'none', border: 'none', color: '#2563eb', fontSize: 12, cursor: 'pointer' },
+  pager: { display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: 20, fontSize: 13, color: '#64748b' },
   loading: { textAlign: 'center' as const, padding: 40, color: '#64748b' },
   error: { background: '#fef2f2', color: '#dc2626', padding: 12, borderRadius: 8, marginBottom: 16 },
   grid: { display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(300px, 1fr))', gap: 16 },
@@ -129,8 +503,25 @@ const styles: Record<string, React.CSSProperties> = {
   layerCount: { fontSize: 12, color: '#64748b' },
   cardTitle: { fontSize: 16, fontWeight: 600, color: '#1e293b', margin: '0 0 6px' },
   cardDesc: { fontSize: 13, color: '#64748b', lineHeight: 1.5, margin: '0 0 12px' },
-  cardFooter: { display: 'flex', justifyContent: 'space-between', fontSize: 12, color: '#94a3b8' },
+  cardFooter: { display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: 12, color: '#94a3b8' },
+  cardActions: { display: 'flex', gap: 4 },
+  cardActionBtn: {
+    width: 24,
+    height: 24,
+    border: '1px solid #e2e8f0',
+    borderRadius: 6,
+    background: '#fff',
+    color: '#475569',
+    fontSize: 12,
+    cursor: 'pointer',
+  },
   creator: {},
   date: {},
   empty: { gridColumn: '1 / -1', textAlign: 'center' as const, padding: 60, color: '#94a3b8' },
+  projectSection: { marginBottom: 32 },
+  projectHeader: { display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 },
+  projectTitle: { fontSize: 16, fontWeight: 600, color: '#1a365d', margin: 0 },
+  projectClient: { fontSize: 12, color: '#64748b' },
+  addSelect: { padding: '6px 10px', border: '1px solid #e2e8f0', borderRadius: 6, fontSize: 13, background: '#fff' },
+  emptyProject: { gridColumn: '1 / -1', padding: 20, fontSize: 13, color: '#94a3b8', border: '1px dashed #e2e8f0', borderRadius: 10, textAlign: 'center' as const },
 };
@@ -1,7 +1,21 @@
-import React, { useEffect, useState, useCallback } from 'react';
-import { ThreeViewer, ViewerLayer } from '../viewer/ThreeViewer';
+import React, { useEffect, useState, useCallback, useRef, useMemo } from 'react';
+import { ThreeViewer, ViewerLayer, type ThreeViewerHandle } from '../viewer/ThreeViewer';
+import type { MeasureMode, Measurement } from '../viewer/measure';
 import { LayerPanel } from '../layers/LayerPanel';
+import { RevisionHistory } from './RevisionHistory';
 import { details as detailsApi } from '../../services/api';
+import { useTenant } from '../../contexts/TenantContext';
+import type { DetailExportFormat, LengthUnits } from '@shared/types';
+import { detailDimensions } from '@shared/geometry';
+
+const UNITS_KEY = 'bim_units';
+
+const EXPORT_OPTIONS: { format: DetailExportFormat; label: string }[] = [
+  { format: 'glb', label: '3D model (GLB)' },
+  { format: 'ifc', label: 'BIM model (IFC)' },
+  { format: 'svg', label: 'Section drawing (SVG)' },
+  { format: 'dxf', label: 'Section drawing (DXF)' },
+];
 
 interface DetailViewerProps {
   detailId: string;
@@ -15,8 +29,18 @@ export function DetailViewer({ detailId, onBack }: DetailViewerProps) {
   const [error, setError] = useState('');
   const [exploded, setExploded] = useState(false);
   const [sectionCut, setSectionCut] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+  const [hoveredLayerId, setHoveredLayerId] = useState<string | null>(null);
+  const viewerRef = useRef<ThreeViewerHandle>(null);
+  const [measureMode, setMeasureMode] = useState<MeasureMode | null>(null);
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  const [units, setUnits] = useState<LengthUnits>(() => localStorage.getItem(UNITS_KEY) === 'imperial' ? 'imperial' : 'metric');
+  const [showDimensions, setShowDimensions] = useState(true);
+  const { hasFeature } = useTenant();
 
-  useEffect(() => {
+  const loadDetail = useCallback(() => {
     setLoading(true);
     detailsApi.get(detailId)
       .then(res => {
@@ -30,6 +54,8 @@ export function DetailViewer({ detailId, onBack }: DetailViewerProps) {
       .finally(() => setLoading(false));
   }, [detailId]);
 
+  useEffect(loadDetail, [loadDetail]);
+
   const handleToggle = useCallback((id: string, visible: boolean) => {
     setLayers(prev => prev.map(l => l.id === id ? { ...l, visible } : l));
   }, []);
@@ -49,6 +75,43 @@ export function DetailViewer({ detailId, onBack }: DetailViewerProps) {
     })));
   }, []);
 
+  const dimensions = useMemo(() => detailDimensions(detail?.metadata), [detail]);
+
+  const handleUnits = useCallback((next: LengthUnits) => {
+    localStorage.setItem(UNITS_KEY, next);
+    setUnits(next);
+  }, []);
+
+  // Measurements are points in the scene, so they go stale once the layers move
+  const toggleExploded = useCallback(() => {
+    setExploded(e => !e);
+    setMeasurements([]);
+  }, []);
+
+  // Picking a row frames its layer; picking in 3D only selects, the camera stays put
+  const handleSelectLayer = useCallback((id: string) => {
+    setSelectedLayerId(id);
+    viewerRef.current?.frameLayer(id);
+  }, []);
+
+  // 3D models export what is on screen, exploded view included
+  const download = async (format: DetailExportFormat) => {
+    setDownloading(true);
+    try {
+      const blob = await detailsApi.exportFile(detailId, format, { exploded });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${(detail?.name || 'detail').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'detail'}.${format}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      alert(err.message || 'Could not export the detail');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
   if (loading) return <div style={{ padding: 40, textAlign: 'center', color: '#64748b' }}>Loading detail...</div>;
   if (error) return <div style={{ padding: 40, color: '#dc2626' }}>{error}</div>;
 
@@ -62,9 +125,23 @@ export function DetailViewer({ detailId, onBack }: DetailViewerProps) {
         onFilterGCP={handleFilterGCP}
         exploded={exploded}
         sectionCut={sectionCut}
-        onToggleExplode={() => setExploded(e => !e)}
+        onToggleExplode={toggleExploded}
         onToggleSection={() => setSectionCut(s => !s)}
-        onResetView={() => {}}
+        onResetView={() => viewerRef.current?.resetView()}
+        selectedLayerId={selectedLayerId}
+        hoveredLayerId={hoveredLayerId}
+        onSelectLayer={handleSelectLayer}
+        onHoverLayer={setHoveredLayerId}
+        measureMode={measureMode}
+        onMeasureMode={setMeasureMode}
+        units={units}
+        onUnits={handleUnits}
+        measurements={measurements}
+        onRemoveMeasurement={id => setMeasurements(prev => prev.filter(m => m.id !== id))}
+        onClearMeasurements={() => setMeasurements([])}
+        dimensionCount={dimensions.length}
+        showDimensions={showDimensions}
+        onToggleDimensions={() => setShowDimensions(s => !s)}
       />
       <div style={{ flex: 1, display: 'flex', flexDirection: 'column' }}>
         <div style={{
@@ -96,13 +173,64 @@ export function DetailViewer({ detailId, onBack }: DetailViewerProps) {
               {detail?.category} &bull; {layers.length} layers
             </span>
           </div>
+          <select
+            value=""
+            disabled={downloading}
+            onChange={e => { if (e.target.value) download(e.target.value as DetailExportFormat); }}
+            title="3D model for Blender and BIM tools, or a 2D section for drawing sets"
+            style={{
+              marginLeft: 'auto',
+              background: '#fff',
+              border: '1px solid #e2e8f0',
+              borderRadius: 6,
+              padding: '5px 8px',
+              cursor: downloading ? 'default' : 'pointer',
+              fontSize: 13,
+            }}
+          >
+            <option value="">
+              {downloading ? 'Exporting...' : `Export${hasFeature('exports') ? '' : ' · upgrade'}`}
+            </option>
+            {EXPORT_OPTIONS.map(o => <option key={o.format} value={o.format}>{o.label}</option>)}
+          </select>
+          <button
+            onClick={() => setShowHistory(h => !h)}
+            style={{
+              background: showHistory ? '#2563eb' : 'none',
+              color: showHistory ? '#fff' : '#1e293b',
+              border: `1px solid ${showHistory ? '#2563eb' : '#e2e8f0'}`,
+              borderRadius: 6,
+              padding: '5px 12px',
+              cursor: 'pointer',
+              fontSize: 13,
+            }}
+          >
+            History
+          </button>
         </div>
         <ThreeViewer
+          ref={viewerRef}
           layers={layers}
           exploded={exploded}
           sectionCut={sectionCut}
+          selectedLayerId={selectedLayerId}
+          hoveredLayerId={hoveredLayerId}
+          onLayerHover={setHoveredLayerId}
+          onLayerSelect={setSelectedLayerId}
+          dimensions={showDimensions ? dimensions : undefined}
+          units={units}
+          measureMode={measureMode}
+          measurements={measurements}
+          onMeasure={m => setMeasurements(prev => [...prev, m])}
         />
       </div>
+      {showHistory && (
+        <RevisionHistory
+          detailId={detailId}
+          onRestored={loadDetail}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,252 @@
+import React, { useState } from 'react';
+import type { DetailCategory, IfcImportCandidate, IfcImportPreview, IfcImportResult, IfcImportSource } from '@shared/types';
+import { details as detailsApi } from '../../services/api';
+
+const SOURCE_LABELS: Record<IfcImportSource, string> = {
+  'layer-set': 'Layer set',
+  'wall-type': 'Wall type',
+  'slab-type': 'Slab type',
+};
+
+const CATEGORIES: DetailCategory[] = [
+  'roofing', 'waterproofing', 'air-barrier', 'foundation', 'expansion-joint', 'penetration', 'flashing',
+];
+
+interface IfcImportDialogProps {
+  onClose: () => void;
+  onImported: (result: IfcImportResult) => void;
+}
+
+/** Modal that reads an IFC file, lists its layer sets and wall/slab types, and creates details from the chosen ones. */
+export function IfcImportDialog({ onClose, onImported }: IfcImportDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<IfcImportPreview | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [category, setCategory] = useState<DetailCategory | ''>('');
+  const [result, setResult] = useState<IfcImportResult | null>(null);
+  const [busy, setBusy] = useState<'reading' | 'importing' | null>(null);
+  const [error, setError] = useState('');
+
+  const readFile = async (chosen: File | null) => {
+    setFile(chosen);
+    setPreview(null);
+    setSelected([]);
+    setResult(null);
+    setError('');
+    if (!chosen) return;
+    setBusy('reading');
+    try {
+      setPreview(await detailsApi.previewIfcImport(chosen));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const toggle = (key: string) =>
+    setSelected(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+
+  const runImport = async () => {
+    if (!file || selected.length === 0) return;
+    setBusy('importing');
+    setError('');
+    try {
+      const res = await detailsApi.importIfc(file, selected, category || undefined);
+      setResult(res);
+      onImported(res);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div style={styles.backdrop} onClick={onClose}>
+      <div style={styles.dialog} onClick={e => e.stopPropagation()} role="dialog" aria-modal="true">
+        <h3 style={styles.title}>Import from IFC</h3>
+        <p style={styles.hint}>
+          Pick an IFC file exported from your BIM model. Each material layer set, wall type or slab type becomes a detail
+          with one layer per material layer.
+        </p>
+
+        {error && <div style={styles.error}>{error}</div>}
+
+        {!result && (
+          <input
+            type="file"
+            accept=".ifc,application/x-step"
+            onChange={e => readFile(e.target.files?.[0] ?? null)}
+            style={styles.file}
+          />
+        )}
+        {busy === 'reading' && <div style={styles.note}>Reading {file?.name}...</div>}
+
+        {preview && !result && (
+          <>
+            <div style={styles.summary}>
+              {preview.schema} · {preview.candidates.length} layer stack{preview.candidates.length === 1 ? '' : 's'} found
+            </div>
+            {preview.warnings.map((w, i) => <div key={i} style={styles.warning}>{w}</div>)}
+
+            <div style={styles.list}>
+              {preview.candidates.map(candidate => (
+                <CandidateRow
+                  key={candidate.key}
+                  candidate={candidate}
+                  checked={selected.includes(candidate.key)}
+                  expanded={expanded === candidate.key}
+                  onToggle={() => toggle(candidate.key)}
+                  onExpand={() => setExpanded(expanded === candidate.key ? null : candidate.key)}
+                />
+              ))}
+              {preview.candidates.length === 0 && (
+                <div style={styles.note}>No material layer sets or wall/slab types in this file.</div>
+              )}
+            </div>
+          </>
+        )}
+
+        {result && (
+          <div style={styles.report}>
+            <div style={styles.summary}>
+              Created {result.details.length} detail{result.details.length === 1 ? '' : 's'}: {result.details.map(d => d.name).join(', ')}
+            </div>
+            {result.warnings.map((w, i) => <div key={i} style={styles.warning}>{w}</div>)}
+          </div>
+        )}
+
+        <div style={styles.actions}>
+          {preview && !result && (
+            <select style={styles.select} value={category} onChange={e => setCategory(e.target.value as DetailCategory | '')}>
+              <option value="">Category from file</option>
+              {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          )}
+          <span style={{ flex: 1 }} />
+          <button style={styles.secondaryBtn} onClick={onClose}>{result ? 'Done' : 'Cancel'}</button>
+          {!result && (
+            <button style={styles.primaryBtn} onClick={runImport} disabled={selected.length === 0 || busy !== null}>
+              {busy === 'importing' ? 'Importing...' : `Import ${selected.length || ''}`.trim()}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function CandidateRow({ candidate, checked, expanded, onToggle, onExpand }: {
+  candidate: IfcImportCandidate;
+  checked: boolean;
+  expanded: boolean;
+  onToggle: () => void;
+  onExpand: () => void;
+}) {
+  return (
+    <div style={styles.candidate}>
+      <div style={styles.candidateHeader}>
+        <input type="checkbox" checked={checked} onChange={onToggle} />
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <div style={styles.candidateName}>{candidate.name}</div>
+          <div style={styles.candidateMeta}>
+            <span style={styles.badge}>{SOURCE_LABELS[candidate.source]}</span>
+            {candidate.layers.length} layers · {candidate.totalThicknessMm} mm · {candidate.category}
+            {candidate.warnings.length > 0 && <span style={styles.warningCount}> · {candidate.warnings.length} warning(s)</span>}
+          </div>
+        </div>
+        <button style={styles.linkBtn} onClick={onExpand}>{expanded ? 'Hide' : 'Layers'}</button>
+      </div>
+      {expanded && (
+        <div style={styles.layers}>
+          {candidate.layers.map((layer, i) => (
+            <div key={i} style={styles.layerRow}>
+              <span style={{ ...styles.swatch, background: layer.color }} />
+              <span style={{ flex: 1 }}>{layer.name}</span>
+              <span style={styles.layerType}>{layer.materialType}</span>
+              <span style={styles.layerThickness}>{layer.thicknessMm} mm</span>
+            </div>
+          ))}
+          {candidate.warnings.map((w, i) => <div key={i} style={styles.warning}>{w}</div>)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  backdrop: {
+    position: 'fixed',
+    inset: 0,
+    background: 'rgba(15, 23, 42, 0.45)',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 1000,
+  },
+  dialog: {
+    background: '#fff',
+    borderRadius: 12,
+    padding: 24,
+    width: 640,
+    maxHeight: '85vh',
+    display: 'flex',
+    flexDirection: 'column',
+    boxShadow: '0 20px 40px rgba(0,0,0,0.2)',
+  },
+  title: { fontSize: 18, fontWeight: 700, color: '#1a365d', margin: '0 0 6px' },
+  hint: { fontSize: 13, color: '#64748b', margin: '0 0 12px', lineHeight: 1.5 },
+  error: { background: '#fef2f2', color: '#dc2626', padding: 12, borderRadius: 8, marginBottom: 12 },
+  file: { fontSize: 13, marginBottom: 12 },
+  note: { fontSize: 13, color: '#64748b', margin: '6px 0' },
+  summary: { fontSize: 13, color: '#1e293b', fontWeight: 600, marginBottom: 6 },
+  warning: { fontSize: 12, color: '#b45309', marginTop: 4 },
+  list: { overflow: 'auto', flex: 1, marginTop: 8, border: '1px solid #e2e8f0', borderRadius: 8 },
+  candidate: { padding: '10px 12px', borderBottom: '1px solid #f1f5f9' },
+  candidateHeader: { display: 'flex', alignItems: 'center', gap: 10 },
+  candidateName: { fontSize: 14, fontWeight: 600, color: '#1e293b', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' },
+  candidateMeta: { fontSize: 12, color: '#64748b', marginTop: 2 },
+  badge: {
+    display: 'inline-block',
+    fontSize: 10,
+    fontWeight: 700,
+    color: '#2563eb',
+    background: '#eff6ff',
+    padding: '1px 6px',
+    borderRadius: 8,
+    marginRight: 6,
+    textTransform: 'uppercase' as const,
+  },
+  warningCount: { color: '#b45309' },
+  linkBtn: { background: 'none', border: 'none', color: '#2563eb', fontSize: 12, fontWeight: 600, cursor: 'pointer' },
+  layers: { margin: '8px 0 0 26px' },
+  layerRow: { display: 'flex', alignItems: 'center', gap: 8, fontSize: 12, color: '#334155', padding: '2px 0' },
+  swatch: { width: 10, height: 10, borderRadius: 2, border: '1px solid rgba(0,0,0,0.15)' },
+  layerType: { color: '#64748b', fontFamily: 'monospace' },
+  layerThickness: { width: 70, textAlign: 'right' as const },
+  report: { background: '#f8fafc', borderRadius: 8, padding: 12 },
+  actions: { display: 'flex', alignItems: 'center', gap: 8, marginTop: 16 },
+  select: { padding: '6px 10px', border: '1px solid #e2e8f0', borderRadius: 6, fontSize: 13, background: '#fff' },
+  primaryBtn: {
+    padding: '8px 16px',
+    background: '#2563eb',
+    color: '#fff',
+    border: 'none',
+    borderRadius: 8,
+    fontSize: 14,
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  secondaryBtn: {
+    padding: '8px 16px',
+    background: '#fff',
+    color: '#2563eb',
+    border: '1px solid #2563eb',
+    borderRadius: 8,
+    fontSize: 14,
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+};
@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import type { DetailRevision, RevisionDiff } from '@shared/types';
+import { details as detailsApi } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+
+interface RevisionHistoryProps {
+  detailId: string;
+  onRestored: () => void;
+  onClose: () => void;
+}
+
+export function RevisionHistory({ detailId, onRestored, onClose }: RevisionHistoryProps) {
+  const { user } = useAuth();
+  const [revisions, setRevisions] = useState<DetailRevision[]>([]);
+  const [publishedRevision, setPublishedRevision] = useState<number | null>(null);
+  const [compareFrom, setCompareFrom] = useState<number | null>(null);
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const loadRevisions = () => {
+    detailsApi.listRevisions(detailId)
+      .then(res => {
+        setRevisions(res.revisions);
+        setPublishedRevision(res.publishedRevision);
+      })
+      .catch(err => setError(err.message));
+  };
+
+  useEffect(loadRevisions, [detailId]);
+
+  const latest = revisions[0]?.revisionNumber;
+  const canEdit = user?.role !== 'viewer';
+
+  const showDiff = async (from: number) => {
+    setError('');
+    setCompareFrom(from);
+    try {
+      const res = await detailsApi.diffRevisions(detailId, from, latest);
+      setDiff(res.diff);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const restore = async (revision: number) => {
+    if (!confirm(`Restore revision ${revision}? The current state stays in history.`)) return;
+    setBusy(true);
+    setError('');
+    try {
+      await detailsApi.restoreRevision(detailId, revision);
+      setDiff(null);
+      setCompareFrom(null);
+      loadRevisions();
+      onRestored();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const publish = async (revision: number) => {
+    if (!confirm(`Publish revision ${revision} as the issued version of this detail?`)) return;
+    setBusy(true);
+    setError('');
+    try {
+      const res = await detailsApi.publishRevision(detailId, revision);
+      setPublishedRevision(res.publishedRevision);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div style={styles.panel}>
+      <div style={styles.header}>
+        <h3 style={styles.title}>Revision History</h3>
+        <button onClick={onClose} style={styles.closeBtn}>&times;</button>
+      </div>
+
+      {error && <div style={styles.error}>{error}</div>}
+
+      <div style={styles.list}>
+        {revisions.map(rev => (
+          <div
+            key={rev.id}
+            style={{ ...styles.item, background: compareFrom === rev.revisionNumber ? '#eff6ff' : '#fff' }}
+          >
+            <div style={styles.itemHeader}>
+              <span style={styles.revNumber}>
+                r{rev.revisionNumber}
+                {rev.revisionNumber === publishedRevision && <span style={styles.published}>Published</span>}
+              </span>
+              <span style={styles.date}>{new Date(rev.createdAt).toLocaleString()}</span>
+            </div>
+            <div style={styles.summary}>{rev.changeSummary}</div>
+            <div style={styles.author}>{rev.createdByName || 'Unknown user'}</div>
+            {(rev.revisionNumber !== latest || (canEdit && rev.revisionNumber !== publishedRevision)) && (
+              <div style={styles.actions}>
+                {rev.revisionNumber !== latest && (
+                  <button style={styles.actionBtn} onClick={() => showDiff(rev.revisionNumber)}>
+                    Compare to latest
+                  </button>
+                )}
+                {canEdit && rev.revisionNumber !== latest && (
+                  <button style={styles.actionBtn} disabled={busy} onClick={() => restore(rev.revisionNumber)}>
+                    Restore
+                  </button>
+                )}
+                {canEdit && rev.revisionNumber !== publishedRevision && (
+                  <button style={styles.actionBtn} disabled={busy} onClick={() => publish(rev.revisionNumber)}>
+                    Publish
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+        {revisions.length === 0 && !error && (
+          <div style={styles.empty}>No revisions recorded yet.</div>
+        )}
+      </div>
+
+      {diff && <DiffSummary diff={diff} />}
+    </div>
+  );
+}
+
+function DiffSummary({ diff }: { diff: RevisionDiff }) {
+  const { added, removed, reordered, changed } = diff.layers;
+  const empty = diff.detail.length + added.length + removed.length + reordered.length + changed.length === 0;
+
+  return (
+    <div style={styles.diff}>
+      <h4 style={styles.diffTitle}>r{diff.fromRevision} &rarr; r{diff.toRevision}</h4>
+      {empty && <div style={styles.diffLine}>No differences.</div>}
+      {diff.detail.map(c => (
+        <div key={c.field} style={styles.diffLine}>Detail {c.field} changed</div>
+      ))}
+      {added.map(l => (
+        <div key={l.id} style={{ ...styles.diffLine, color: '#059669' }}>+ {l.name}</div>
+      ))}
+      {removed.map(l => (
+        <div key={l.id} style={{ ...styles.diffLine, color: '#dc2626' }}>&minus; {l.name}</div>
+      ))}
+      {reordered.map(l => (
+        <div key={l.layerId} style={styles.diffLine}>
+          &#8597; {l.name}: position {l.fromPosition + 1} &rarr; {l.toPosition + 1}
+        </div>
+      ))}
+      {changed.map(l => (
+        <div key={l.layerId} style={styles.diffLine}>
+          ~ {l.name}: {l.changes.map(c => c.field).join(', ')}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  panel: {
+    width: 300,
+    minWidth: 300,
+    background: '#fff',
+    borderLeft: '1px solid #e2e8f0',
+    display: 'flex',
+    flexDirection: 'column',
+    overflow: 'hidden',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottom: '1px solid #e2e8f0',
+  },
+  title: {
+    fontSize: 11,
+    textTransform: 'uppercase' as const,
+    letterSpacing: 1,
+    color: '#64748b',
+    margin: 0,
+  },
+  closeBtn: { background: 'none', border: 'none', fontSize: 18, cursor: 'pointer', color: '#64748b' },
+  error: { background: '#fef2f2', color: '#dc2626', padding: '8px 12px', fontSize: 12 },
+  list: { flex: 1, overflowY: 'auto' },
+  item: { padding: '10px 16px', borderBottom: '1px solid #f1f5f9' },
+  itemHeader: { display: 'flex', justifyContent: 'space-between', alignItems: 'center' },
+  revNumber: { fontSize: 12, fontWeight: 600, color: '#1e293b' },
+  published: {
+    marginLeft: 6,
+    padding: '1px 6px',
+    borderRadius: 8,
+    background: '#dcfce7',
+    color: '#15803d',
+    fontSize: 10,
+    fontWeight: 600,
+  },
+  date: { fontSize: 11, color: '#94a3b8' },
+  summary: { fontSize: 13, color: '#1e293b', marginTop: 4 },
+  author: { fontSize: 11, color: '#64748b', marginTop: 2 },
+  actions: { display: 'flex', gap: 6, marginTop: 6 },
+  actionBtn: {
+    padding: '3px 10px',
+    border: '1px solid #e2e8f0',
+    borderRadius: 12,
+    background: '#fff',
+    fontSize: 11,
+    cursor: 'pointer',
+  },
+  empty: { padding: 24, textAlign: 'center' as const, fontSize: 13, color: '#94a3b8' },
+  diff: { borderTop: '1px solid #e2e8f0', padding: 16, maxHeight: '40%', overflowY: 'auto' },
+  diffTitle: { fontSize: 12, fontWeight: 600, color: '#1e293b', margin: '0 0 8px' },
+  diffLine: { fontSize: 12, color: '#334155', padding: '2px 0' },
+};
@@ -1,5 +1,14 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
+import type { LengthUnits } from '@shared/types';
+import { formatLength } from '@shared/geometry';
 import type { ViewerLayer } from '../viewer/ThreeViewer';
+import { measurementText, type MeasureMode, type Measurement } from '../viewer/measure';
+
+const MEASURE_MODES: { mode: MeasureMode; label: string }[] = [
+  { mode: 'distance', label: 'Distance' },
+  { mode: 'thickness', label: 'Thickness' },
+  { mode: 'angle', label: 'Angle' },
+];
 
 interface LayerPanelProps {
   layers: ViewerLayer[];
@@ -12,12 +21,37 @@ interface LayerPanelProps {
   onToggleExplode: () => void;
   onToggleSection: () => void;
   onResetView: () => void;
+  selectedLayerId?: string | null;
+  hoveredLayerId?: string | null;
+  onSelectLayer?: (id: string) => void;
+  onHoverLayer?: (id: string | null) => void;
+  measureMode: MeasureMode | null;
+  onMeasureMode: (mode: MeasureMode | null) => void;
+  units: LengthUnits;
+  onUnits: (units: LengthUnits) => void;
+  measurements: Measurement[];
+  onRemoveMeasurement: (id: string) => void;
+  onClearMeasurements: () => void;
+  /** Authored dimensions on the detail; the toggle only shows when there are some */
+  dimensionCount: number;
+  showDimensions: boolean;
+  onToggleDimensions: () => void;
 }
 
 export function LayerPanel({
   layers, onToggle, onFilterAll, onFilterNone, onFilterGCP,
   exploded, sectionCut, onToggleExplode, onToggleSection, onResetView,
+  selectedLayerId = null, hoveredLayerId = null, onSelectLayer, onHoverLayer,
+  measureMode, onMeasureMode, units, onUnits, measurements, onRemoveMeasurement, onClearMeasurements,
+  dimensionCount, showDimensions, onToggleDimensions,
 }: LayerPanelProps) {
+  const rowRefs = useRef(new Map<string, HTMLDivElement>());
+
+  // Bring the row of a layer picked in the 3D view into sight
+  useEffect(() => {
+    if (selectedLayerId) rowRefs.current.get(selectedLayerId)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [selectedLayerId]);
+
   const allOn = layers.every(l => l.visible);
   const noneOn = layers.every(l => !l.visible);
   const gcpOn = layers.every(l => l.visible === !!l.manufacturer?.includes('GCP'));
@@ -44,10 +78,63 @@ export function LayerPanel({
         </div>
       </div>
 
+      <div style={styles.section}>
+        <h3 style={styles.sectionTitle}>Measure</h3>
+        <div style={styles.filterRow}>
+          {MEASURE_MODES.map(({ mode, label }) => (
+            <ControlBtn
+              key={mode}
+              label={label}
+              active={measureMode === mode}
+              onClick={() => onMeasureMode(measureMode === mode ? null : mode)}
+            />
+          ))}
+        </div>
+        <div style={{ ...styles.filterRow, marginTop: 8, alignItems: 'center' }}>
+          <FilterBtn label="mm" active={units === 'metric'} onClick={() => onUnits('metric')} />
+          <FilterBtn label="ft-in" active={units === 'imperial'} onClick={() => onUnits('imperial')} />
+          {dimensionCount > 0 && (
+            <FilterBtn label={`Dimensions (${dimensionCount})`} active={showDimensions} onClick={onToggleDimensions} />
+          )}
+        </div>
+        {measurements.length > 0 && (
+          <div style={{ marginTop: 10 }}>
+            {measurements.map(m => {
+              const layer = m.layerId ? layers.find(l => l.id === m.layerId) : undefined;
+              return (
+                <div key={m.id} style={styles.measurement}>
+                  <span style={styles.measurementMode}>{m.mode}</span>
+                  <span style={{ flex: 1, minWidth: 0 }}>
+                    <span style={styles.measurementValue}>{measurementText(m, units)}</span>
+                    {layer && (
+                      <span style={styles.layerDetail}> {layer.name}, spec {formatLength(layer.thicknessMm, units)}</span>
+                    )}
+                  </span>
+                  <button style={styles.measurementRemove} onClick={() => onRemoveMeasurement(m.id)} title="Remove">
+                    &times;
+                  </button>
+                </div>
+              );
+            })}
+            <button style={styles.linkBtn} onClick={onClearMeasurements}>Clear measurements</button>
+          </div>
+        )}
+      </div>
+
       <div style={{ ...styles.section, flex: 1, overflowY: 'auto' }}>
         <h3 style={styles.sectionTitle}>Layers</h3>
         {layers.map(layer => (
-          <div key={layer.id} style={styles.layerItem}>
+          <div
+            key={layer.id}
+            ref={el => { if (el) rowRefs.current.set(layer.id, el); else rowRefs.current.delete(layer.id); }}
+            onClick={() => onSelectLayer?.(layer.id)}
+            onMouseEnter={() => onHoverLayer?.(layer.id)}
+            onMouseLeave={() => onHoverLayer?.(null)}
+            style={{
+              ...styles.layerItem,
+              ...(layer.id === selectedLayerId ? styles.layerSelected : layer.id === hoveredLayerId ? styles.layerHovered : null),
+            }}
+          >
             <div style={{ ...styles.layerColor, background: layer.color }} />
             <div style={{ flex: 1, minWidth: 0 }}>
               <div style={styles.layerName}>
@@ -61,7 +148,7 @@ export function LayerPanel({
                 {layer.csiSection && ` — ${layer.csiSection}`}
               </div>
             </div>
-            <label style={styles.toggle}>
+            <label style={styles.toggle} onClick={e => e.stopPropagation()}>
               <input
                 type="checkbox"
                 checked={layer.visible}
@@ -157,8 +244,17 @@ const styles: Record<string, React.CSSProperties> = {
     display: 'flex',
     alignItems: 'center',
     gap: 10,
-    padding: '8px 4px',
+    padding: '8px 4px 8px 6px',
     borderBottom: '1px solid #f1f5f9',
+    borderLeft: '3px solid transparent',
+    cursor: 'pointer',
+  },
+  layerSelected: {
+    background: '#eff6ff',
+    borderLeftColor: '#2563eb',
+  },
+  layerHovered: {
+    background: '#f8fafc',
   },
   layerColor: {
     width: 16,
@@ -178,6 +274,44 @@ const styles: Record<string, React.CSSProperties> = {
     fontSize: 11,
     color: '#64748b',
   },
+  measurement: {
+    display: 'flex',
+    alignItems: 'baseline',
+    gap: 8,
+    padding: '4px 0',
+    fontSize: 12,
+    borderBottom: '1px solid #f1f5f9',
+  },
+  measurementMode: {
+    width: 62,
+    flexShrink: 0,
+    fontSize: 10,
+    textTransform: 'uppercase' as const,
+    color: '#ea580c',
+    fontWeight: 600,
+  },
+  measurementValue: {
+    fontWeight: 600,
+    color: '#1e293b',
+  },
+  measurementRemove: {
+    background: 'none',
+    border: 'none',
+    color: '#94a3b8',
+    fontSize: 14,
+    cursor: 'pointer',
+    padding: 0,
+  },
+  linkBtn: {
+    background: 'none',
+    border: 'none',
+    color: '#2563eb',
+    fontSize: 12,
+    fontWeight: 500,
+    cursor: 'pointer',
+    padding: 0,
+    marginTop: 8,
+  },
   gcpBadge: {
     fontSize: 9,
     background: '#dbeafe',
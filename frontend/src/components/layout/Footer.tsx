@@ -1,10 +1,13 @@
 import React from 'react';
+import { useTenant } from '../../contexts/TenantContext';
 
 export function Footer() {
+  const { settings } = useTenant();
+
   return (
     <footer style={{
       height: 36,
-      background: '#1a365d',
+      background: 'var(--brand-primary, #1a365d)',
       color: '#94a3b8',
       display: 'flex',
       alignItems: 'center',
@@ -12,7 +15,7 @@ export function Footer() {
       fontSize: 10,
       letterSpacing: 0.5,
     }}>
-      3D BIM Detail Viewer&trade; &mdash; &copy; 2026 Lefebvre Design Solutions LLC / ValidKernel
+      3D BIM Detail Viewer&trade; &mdash; {settings?.footerText || <>&copy; 2026 Lefebvre Design Solutions LLC / ValidKernel</>}
     </footer>
   );
 }
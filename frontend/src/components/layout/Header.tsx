@@ -1,15 +1,36 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useTenant } from '../../contexts/TenantContext';
 
-export function Header() {
-  const { user, isAuthenticated, logout } = useAuth();
+interface HeaderProps {
+  onOpenUsers?: () => void;
+  /** Called after the tenant switcher has signed in to another organization */
+  onTenantSwitched?: () => void;
+}
+
+export function Header({ onOpenUsers, onTenantSwitched }: HeaderProps) {
+  const { user, tenantSlug, memberships, isAuthenticated, logout, logoutEverywhere, switchTenant } = useAuth();
   const { settings } = useTenant();
+  const [switching, setSwitching] = useState(false);
+
+  const chooseTenant = async (slug: string) => {
+    if (slug === tenantSlug) return;
+    setSwitching(true);
+    try {
+      await switchTenant(slug);
+      onTenantSwitched?.();
+    } catch (err: any) {
+      alert(err.message || 'Could not switch organization');
+    } finally {
+      setSwitching(false);
+    }
+  };
 
   return (
     <header style={{
       height: 56,
-      background: settings?.primaryColor || '#1a365d',
+      background: 'var(--brand-primary, #1a365d)',
+      borderBottom: '3px solid var(--brand-secondary, #2563eb)',
       color: '#fff',
       display: 'flex',
       alignItems: 'center',
@@ -18,33 +39,70 @@ export function Header() {
       boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
       zIndex: 10,
     }}>
-      <div>
-        <h1 style={{ fontSize: 16, fontWeight: 600, letterSpacing: 1.5, margin: 0 }}>
-          3D BIM DETAIL VIEWER — ROOFING &amp; WATERPROOFING
-        </h1>
-        <div style={{ fontSize: 11, color: '#94a3b8', letterSpacing: 0.5 }}>
-          {settings?.brandName || 'SaaS Platform'}
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
+        {settings?.logoUrl && (
+          <img src={settings.logoUrl} alt={settings.brandName} style={{ height: 36, maxWidth: 160, objectFit: 'contain' }} />
+        )}
+        <div>
+          <h1 style={{ fontSize: 16, fontWeight: 600, letterSpacing: 1.5, margin: 0 }}>
+            3D BIM DETAIL VIEWER — ROOFING &amp; WATERPROOFING
+          </h1>
+          <div style={{ fontSize: 11, color: '#94a3b8', letterSpacing: 0.5 }}>
+            {settings?.brandName || 'SaaS Platform'}
+          </div>
         </div>
       </div>
       {isAuthenticated && (
         <div style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
+          {memberships.length > 1 && (
+            <select
+              value={tenantSlug ?? ''}
+              onChange={e => chooseTenant(e.target.value)}
+              disabled={switching}
+              style={{ ...pillButton, color: '#e2e8f0', background: 'rgba(15, 23, 42, 0.35)' }}
+              title="Switch organization"
+            >
+              {memberships.map(m => (
+                <option key={m.tenantId} value={m.slug} style={{ color: '#1e293b' }}>
+                  {m.name} ({m.role})
+                </option>
+              ))}
+            </select>
+          )}
+          {user?.role === 'admin' && onOpenUsers && (
+            <button
+              onClick={onOpenUsers}
+              style={pillButton}
+            >
+              Settings
+            </button>
+          )}
           <span style={{ fontSize: 13, color: '#94a3b8' }}>{user?.name || user?.email}</span>
           <button
             onClick={logout}
-            style={{
-              padding: '5px 14px',
-              background: 'transparent',
-              border: '1px solid #475569',
-              borderRadius: 16,
-              color: '#94a3b8',
-              fontSize: 12,
-              cursor: 'pointer',
-            }}
+            style={pillButton}
           >
             Logout
           </button>
+          <button
+            onClick={() => confirm('Sign out on every device, including this one?') && logoutEverywhere()}
+            style={{ ...pillButton, border: 'none', padding: '5px 4px' }}
+            title="Revoke all sessions"
+          >
+            All devices
+          </button>
         </div>
       )}
     </header>
   );
 }
+
+const pillButton: React.CSSProperties = {
+  padding: '5px 14px',
+  background: 'transparent',
+  border: '1px solid #475569',
+  borderRadius: 16,
+  color: '#94a3b8',
+  fontSize: 12,
+  cursor: 'pointer',
+};
@@ -0,0 +1,99 @@
+import React from 'react';
+import type { PlanErrorBody, TenantPlan } from '@shared/types';
+import { useAuth } from '../../contexts/AuthContext';
+
+const PLAN_NAMES: Record<TenantPlan, string> = { free: 'Free', pro: 'Pro', enterprise: 'Enterprise' };
+
+interface UpgradePromptProps {
+  error: PlanErrorBody;
+  onClose: () => void;
+  onOpenPlan: () => void;
+}
+
+/** Modal shown when the server refuses a request because of the organization's plan. */
+export function UpgradePrompt({ error, onClose, onOpenPlan }: UpgradePromptProps) {
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin';
+  const title = error.code === 'plan_limit_reached' ? 'Plan limit reached' : 'Not included in your plan';
+
+  return (
+    <div style={styles.backdrop} onClick={onClose}>
+      <div style={styles.dialog} onClick={e => e.stopPropagation()} role="dialog" aria-modal="true">
+        <div style={styles.badge}>{PLAN_NAMES[error.plan] ?? error.plan} plan</div>
+        <h3 style={styles.title}>{title}</h3>
+        <p style={styles.message}>{error.error}</p>
+
+        {error.code === 'plan_limit_reached' && (
+          <div style={styles.meter}>
+            <div style={{ ...styles.meterFill, width: `${Math.min(100, (error.usage / Math.max(error.limit, 1)) * 100)}%` }} />
+          </div>
+        )}
+
+        <p style={styles.hint}>
+          {error.upgradeTo
+            ? isAdmin
+              ? `Upgrading to ${PLAN_NAMES[error.upgradeTo]} removes this restriction.`
+              : `Ask an administrator of your organization about upgrading to ${PLAN_NAMES[error.upgradeTo]}.`
+            : 'Contact support to raise this limit.'}
+        </p>
+
+        <div style={styles.actions}>
+          <button style={styles.secondaryBtn} onClick={onClose}>Close</button>
+          {isAdmin && (
+            <button style={styles.primaryBtn} onClick={onOpenPlan}>View plan &amp; usage</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  backdrop: {
+    position: 'fixed',
+    inset: 0,
+    background: 'rgba(15, 23, 42, 0.45)',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 1000,
+  },
+  dialog: { background: '#fff', borderRadius: 12, padding: 24, width: 420, boxShadow: '0 20px 40px rgba(0,0,0,0.2)' },
+  badge: {
+    display: 'inline-block',
+    fontSize: 11,
+    fontWeight: 700,
+    color: '#2563eb',
+    background: '#eff6ff',
+    padding: '2px 8px',
+    borderRadius: 10,
+    textTransform: 'uppercase' as const,
+    letterSpacing: 0.5,
+  },
+  title: { fontSize: 18, fontWeight: 700, color: '#1a365d', margin: '10px 0 6px' },
+  message: { fontSize: 14, color: '#334155', lineHeight: 1.5, margin: '0 0 12px' },
+  meter: { height: 6, background: '#e2e8f0', borderRadius: 3, overflow: 'hidden', marginBottom: 12 },
+  meterFill: { height: '100%', background: '#dc2626' },
+  hint: { fontSize: 13, color: '#64748b', margin: '0 0 16px' },
+  actions: { display: 'flex', justifyContent: 'flex-end', gap: 8 },
+  primaryBtn: {
+    padding: '8px 16px',
+    background: '#2563eb',
+    color: '#fff',
+    border: 'none',
+    borderRadius: 8,
+    fontSize: 14,
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  secondaryBtn: {
+    padding: '8px 16px',
+    background: '#fff',
+    color: '#2563eb',
+    border: '1px solid #2563eb',
+    borderRadius: 8,
+    fontSize: 14,
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+};
@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import type { DetailTemplate } from '@shared/types';
+import { templates as templatesApi } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+
+interface TemplateLibraryProps {
+  onBack: () => void;
+  onOpenDetail: (id: string) => void;
+}
+
+export function TemplateLibrary({ onBack, onOpenDetail }: TemplateLibraryProps) {
+  const { user } = useAuth();
+  const [templateList, setTemplateList] = useState<DetailTemplate[]>([]);
+  const [selected, setSelected] = useState<DetailTemplate | null>(null);
+  const [forking, setForking] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const canEdit = user?.role !== 'viewer';
+
+  useEffect(() => {
+    templatesApi.list()
+      .then(res => setTemplateList(res.templates))
+      .catch(err => setError(err.message))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const preview = async (template: DetailTemplate) => {
+    setError('');
+    try {
+      const res = await templatesApi.get(template.id);
+      setSelected(res.template);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const fork = async (template: DetailTemplate) => {
+    setError('');
+    setForking(true);
+    try {
+      const res = await templatesApi.fork(template.id);
+      onOpenDetail(res.detail.id);
+    } catch (err: any) {
+      setError(err.message);
+      setForking(false);
+    }
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <div>
+          <h2 style={styles.title}>Template Library</h2>
+          <p style={styles.subtitle}>Reference details to copy into your organization and adapt</p>
+        </div>
+        <button style={styles.secondaryBtn} onClick={onBack}>Back to Details</button>
+      </div>
+
+      {loading && <div style={styles.loading}>Loading templates...</div>}
+      {error && <div style={styles.error}>{error}</div>}
+
+      <div style={styles.body}>
+        <div style={styles.grid}>
+          {templateList.map(t => (
+            <div
+              key={t.id}
+              style={{ ...styles.card, borderColor: selected?.id === t.id ? '#2563eb' : '#e2e8f0' }}
+              onClick={() => preview(t)}
+            >
+              <div style={styles.cardHeader}>
+                <span style={styles.slug}>{t.slug}</span>
+                <span style={styles.meta}>{t.layerCount} layers</span>
+              </div>
+              <h3 style={styles.cardTitle}>{t.name}</h3>
+              <p style={styles.cardDesc}>{t.description}</p>
+              <div style={styles.cardFooter}>
+                <span style={styles.category}>{t.category}</span>
+                {t.forkedDetailId && <span style={styles.inLibrary}>In your library</span>}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {selected && (
+          <aside style={styles.preview}>
+            <h3 style={styles.previewTitle}>{selected.name}</h3>
+            <p style={styles.cardDesc}>{selected.description}</p>
+            <table style={styles.table}>
+              <thead>
+                <tr>
+                  <th style={styles.th} />
+                  <th style={styles.th}>Layer</th>
+                  <th style={styles.th}>Thickness</th>
+                  <th style={styles.th}>Product</th>
+                </tr>
+              </thead>
+              <tbody>
+                {selected.layers?.map((layer, i) => (
+                  <tr key={i}>
+                    <td style={styles.td}><span style={{ ...styles.swatch, background: layer.color }} /></td>
+                    <td style={styles.td}>{layer.name}</td>
+                    <td style={styles.td}>{layer.thicknessMm} mm</td>
+                    <td style={styles.td}>
+                      {layer.productName || '—'}
+                      {layer.manufacturer && <span style={styles.meta}> · {layer.manufacturer}</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div style={styles.previewActions}>
+              {selected.forkedDetailId && (
+                <button style={styles.secondaryBtn} onClick={() => onOpenDetail(selected.forkedDetailId!)}>Open my copy</button>
+              )}
+              {canEdit && (
+                <button style={styles.primaryBtn} disabled={forking} onClick={() => fork(selected)}>
+                  {forking ? 'Copying...' : selected.forkedDetailId ? 'Copy again' : 'Copy to my library'}
+                </button>
+              )}
+            </div>
+          </aside>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  container: { padding: 24, maxWidth: 1200, margin: '0 auto', width: '100%', boxSizing: 'border-box', overflowY: 'auto' },
+  header: { display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: 24 },
+  title: { fontSize: 22, fontWeight: 700, color: '#1a365d', margin: '0 0 4px' },
+  subtitle: { fontSize: 14, color: '#64748b', margin: 0 },
+  loading: { textAlign: 'center' as const, padding: 40, color: '#64748b' },
+  error: { background: '#fef2f2', color: '#dc2626', padding: 12, borderRadius: 8, marginBottom: 16 },
+  body: { display: 'flex', gap: 20, alignItems: 'flex-start' },
+  grid: { flex: 1, display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(260px, 1fr))', gap: 16 },
+  card: {
+    background: '#fff',
+    borderRadius: 10,
+    padding: 20,
+    border: '1px solid #e2e8f0',
+    cursor: 'pointer',
+  },
+  cardHeader: { display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 },
+  slug: { fontSize: 11, fontWeight: 700, color: '#2563eb', fontFamily: 'monospace' },
+  meta: { fontSize: 12, color: '#64748b' },
+  cardTitle: { fontSize: 16, fontWeight: 600, color: '#1e293b', margin: '0 0 6px' },
+  cardDesc: { fontSize: 13, color: '#64748b', lineHeight: 1.5, margin: '0 0 12px' },
+  cardFooter: { display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: 12 },
+  category: { color: '#94a3b8', textTransform: 'capitalize' as const },
+  inLibrary: { color: '#059669', fontWeight: 600 },
+  preview: { width: 420, background: '#fff', border: '1px solid #e2e8f0', borderRadius: 10, padding: 20, flexShrink: 0 },
+  previewTitle: { fontSize: 17, fontWeight: 700, color: '#1a365d', margin: '0 0 6px' },
+  previewActions: { display: 'flex', justifyContent: 'flex-end', gap: 8, marginTop: 16 },
+  table: { width: '100%', borderCollapse: 'collapse', fontSize: 13 },
+  th: { textAlign: 'left' as const, padding: '6px', borderBottom: '1px solid #e2e8f0', color: '#64748b', fontWeight: 600, fontSize: 12 },
+  td: { padding: '6px', borderBottom: '1px solid #f1f5f9', color: '#1e293b', verticalAlign: 'top' as const },
+  swatch: { display: 'inline-block', width: 12, height: 12, borderRadius: 3, border: '1px solid rgba(0,0,0,0.15)' },
+  primaryBtn: {
+    padding: '10px 16px',
+    background: '#2563eb',
+    color: '#fff',
+    border: 'none',
+    borderRadius: 8,
+    fontSize: 14,
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  secondaryBtn: {
+    padding: '10px 16px',
+    background: '#fff',
+    color: '#2563eb',
+    border: '1px solid #2563eb',
+    borderRadius: 8,
+    fontSize: 14,
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+};
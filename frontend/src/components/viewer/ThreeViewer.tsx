@@ -1,5 +1,14 @@
-import React, { useRef, useEffect, useCallback, useState } from 'react';
+import React, { useRef, useEffect, useCallback, useState, forwardRef, useImperativeHandle } from 'react';
 import * as THREE from 'three';
+import {
+  detailDimensions, dimensionFigure, dimensionText, explodeOffset, layerGeometry, type LayerPart, type Vec3,
+} from '@shared/geometry';
+import type { DetailDimension, LengthUnits } from '@shared/types';
+import {
+  MEASURE_CLICKS, disposeObject, figureObject, measurementFigure, measurementText, nextMeasurementId, snapPoint,
+  throughThickness,
+  type MeasureMode, type Measurement, type SnapPoint,
+} from './measure';
 
 export interface ViewerLayer {
   id: string;
@@ -19,21 +28,103 @@ interface ThreeViewerProps {
   layers: ViewerLayer[];
   exploded: boolean;
   sectionCut: boolean;
+  /** Layer picked in the 3D view or the layer panel; outlined and described in a popover */
+  selectedLayerId?: string | null;
+  /** Layer under the pointer in either view; outlined faintly */
+  hoveredLayerId?: string | null;
   onLayerHover?: (layerId: string | null) => void;
+  /** Called with the clicked layer, or null when the click hits empty space */
+  onLayerSelect?: (layerId: string | null) => void;
+  /** Authored dimensions; hidden in the exploded view, where the layers have moved off them */
+  dimensions?: DetailDimension[];
+  units?: LengthUnits;
+  /** While set, clicks pick measurement points instead of layers */
+  measureMode?: MeasureMode | null;
+  measurements?: Measurement[];
+  onMeasure?: (measurement: Measurement) => void;
 }
 
-export function ThreeViewer({ layers, exploded, sectionCut, onLayerHover }: ThreeViewerProps) {
+/** Camera commands for the parent, e.g. framing the layer picked in the panel */
+export interface ThreeViewerHandle {
+  frameLayer: (layerId: string) => void;
+  resetView: () => void;
+}
+
+const HOME_TARGET = new THREE.Vector3(0, 0.7, 0);
+const HOME_SPHERICAL = { theta: Math.PI / 4, phi: Math.PI / 3.5, radius: 5 };
+const FLY_MS = 450;
+// Pointer travel in px below which a press counts as a click rather than an orbit
+const CLICK_SLOP = 4;
+
+const DIMENSION_COLOR = '#1e293b';
+const MEASURE_COLOR = '#ea580c';
+const SNAP_COLORS: Record<SnapPoint['kind'], number> = { vertex: 0x16a34a, edge: 0x0891b2, face: 0xea580c };
+const MEASURE_HINTS: Record<MeasureMode, string> = {
+  distance: 'Click two points to measure between them',
+  thickness: 'Click a layer face to measure straight through it',
+  angle: 'Click a point on each arm, with the corner second',
+};
+// Stable defaults, so leaving the props out does not redraw the annotations every render
+const NO_DIMENSIONS: DetailDimension[] = [];
+const NO_MEASUREMENTS: Measurement[] = [];
+
+function partGeometry(part: LayerPart): THREE.BufferGeometry {
+  if (part.kind === 'box') return new THREE.BoxGeometry(...part.size);
+  const shape = new THREE.Shape(part.profile.map(([x, y]) => new THREE.Vector2(x, y)));
+  return new THREE.ExtrudeGeometry(shape, { depth: part.depth, bevelEnabled: false });
+}
+
+/** Free a layer group's part and outline geometry and its material. The outline materials are shared and stay. */
+function disposeLayerGroup(group: THREE.Group) {
+  group.traverse(child => {
+    if (child instanceof THREE.Mesh || child instanceof THREE.LineSegments) child.geometry.dispose();
+  });
+  (group.userData.material as THREE.Material).dispose();
+}
+
+function layerIdOf(object: THREE.Object3D | null): string | null {
+  for (let o = object; o; o = o.parent) {
+    if (o.userData.layerId) return o.userData.layerId;
+  }
+  return null;
+}
+
+export const ThreeViewer = forwardRef<ThreeViewerHandle, ThreeViewerProps>(function ThreeViewer({
+  layers, exploded, sectionCut, selectedLayerId = null, hoveredLayerId = null, onLayerHover, onLayerSelect,
+  dimensions = NO_DIMENSIONS, units = 'metric', measureMode = null, measurements = NO_MEASUREMENTS, onMeasure,
+}, ref) {
   const containerRef = useRef<HTMLDivElement>(null);
+  const popoverRef = useRef<HTMLDivElement>(null);
   const sceneRef = useRef<{
     scene: THREE.Scene;
     camera: THREE.PerspectiveCamera;
     renderer: THREE.WebGLRenderer;
     groups: Map<string, THREE.Group>;
     clippingPlane: THREE.Plane;
-    controls: { spherical: any; target: THREE.Vector3; updateCamera: () => void };
+    outlines: { hover: THREE.LineBasicMaterial; selected: THREE.LineBasicMaterial };
+    /** Authored dimensions and finished measurements */
+    annotations: THREE.Group;
+    /** The measurement being picked: snap marker and preview */
+    draft: THREE.Group;
+    controls: {
+      spherical: any;
+      target: THREE.Vector3;
+      updateCamera: () => void;
+      flyTo: (target: THREE.Vector3, spherical: { theta: number; phi: number; radius: number }) => void;
+    };
     animFrameId: number;
   } | null>(null);
 
+  // The canvas listeners are bound once, so they read the latest props through refs
+  const callbacksRef = useRef({ onLayerHover, onLayerSelect, onMeasure });
+  callbacksRef.current = { onLayerHover, onLayerSelect, onMeasure };
+  const selectedRef = useRef(selectedLayerId);
+  selectedRef.current = selectedLayerId;
+  const measureRef = useRef({ mode: measureMode, units });
+  measureRef.current = { mode: measureMode, units };
+  // Points picked so far for the measurement in progress
+  const draftPointsRef = useRef<Vec3[]>([]);
+
   // Initialize Three.js
   useEffect(() => {
     const container = containerRef.current;
@@ -47,7 +138,7 @@ export function ThreeViewer({ layers, exploded, sectionCut, onLayerHover }: Thre
 
     const camera = new THREE.PerspectiveCamera(45, w / h, 0.1, 100);
     camera.position.set(3.5, 2.5, 3.5);
-    camera.lookAt(0, 0.7, 0);
+    camera.lookAt(HOME_TARGET);
 
     const renderer = new THREE.WebGLRenderer({ antialias: true });
     renderer.setSize(w, h);
@@ -74,13 +165,19 @@ export function ThreeViewer({ layers, exploded, sectionCut, onLayerHover }: Thre
 
     const clippingPlane = new THREE.Plane(new THREE.Vector3(-1, 0, 0), 0.8);
 
-    // Orbit controls
-    const spherical = {
-      theta: Math.PI / 4,
-      phi: Math.PI / 3.5,
-      radius: 5,
+    // Selection outlines draw over the layers in front of them so buried layers stay visible
+    const outlines = {
+      hover: new THREE.LineBasicMaterial({ color: 0x60a5fa }),
+      selected: new THREE.LineBasicMaterial({ color: 0x2563eb, depthTest: false, transparent: true }),
     };
-    const target = new THREE.Vector3(0, 0.7, 0);
+
+    const annotations = new THREE.Group();
+    const draft = new THREE.Group();
+    scene.add(annotations, draft);
+
+    // Orbit controls
+    const spherical = { ...HOME_SPHERICAL };
+    const target = HOME_TARGET.clone();
 
     function updateCamera() {
       const sp = Math.sin(spherical.phi);
@@ -93,10 +190,145 @@ export function ThreeViewer({ layers, exploded, sectionCut, onLayerHover }: Thre
     }
     updateCamera();
 
-    let isDown = false, isRight = false, prevX = 0, prevY = 0;
+    // Eased camera moves for framing a layer and resetting the view
+    let flight: {
+      start: number;
+      fromTarget: THREE.Vector3; toTarget: THREE.Vector3;
+      from: typeof spherical; to: typeof spherical;
+    } | null = null;
+
+    function flyTo(toTarget: THREE.Vector3, to: typeof spherical) {
+      // Take the short way round instead of unwinding every orbit the user made
+      const turns = Math.round((spherical.theta - to.theta) / (2 * Math.PI));
+      flight = {
+        start: performance.now(),
+        fromTarget: target.clone(), toTarget: toTarget.clone(),
+        from: { ...spherical }, to: { ...to, theta: to.theta + turns * 2 * Math.PI },
+      };
+    }
+
+    function stepFlight(now: number) {
+      if (!flight) return;
+      const t = Math.min(1, (now - flight.start) / FLY_MS);
+      const k = 1 - Math.pow(1 - t, 3);
+      target.lerpVectors(flight.fromTarget, flight.toTarget, k);
+      spherical.theta = flight.from.theta + (flight.to.theta - flight.from.theta) * k;
+      spherical.phi = flight.from.phi + (flight.to.phi - flight.from.phi) * k;
+      spherical.radius = flight.from.radius + (flight.to.radius - flight.from.radius) * k;
+      updateCamera();
+      if (t === 1) flight = null;
+    }
+
+    // Picking: the nearest visible layer under the pointer, ignoring faces removed by the section cut
+    const raycaster = new THREE.Raycaster();
+    const pointer = new THREE.Vector2();
+
+    const visibleGroups = () => [...(sceneRef.current?.groups.values() ?? [])].filter(g => g.visible);
 
-    const onDown = (e: MouseEvent) => { isDown = true; isRight = e.button === 2; prevX = e.clientX; prevY = e.clientY; };
-    const onUp = () => { isDown = false; };
+    function hitTest(e: MouseEvent): THREE.Intersection | null {
+      const rect = renderer.domElement.getBoundingClientRect();
+      pointer.set(
+        ((e.clientX - rect.left) / rect.width) * 2 - 1,
+        -((e.clientY - rect.top) / rect.height) * 2 + 1
+      );
+      raycaster.setFromCamera(pointer, camera);
+      for (const hit of raycaster.intersectObjects(visibleGroups(), true)) {
+        if (!(hit.object instanceof THREE.Mesh)) continue;
+        const planes = (hit.object.material as THREE.Material).clippingPlanes;
+        if (planes?.some(p => p.distanceToPoint(hit.point) < 0)) continue;
+        return hit;
+      }
+      return null;
+    }
+
+    const pick = (e: MouseEvent) => layerIdOf(hitTest(e)?.object ?? null);
+
+    // Measuring: thickness probes the face under the pointer, the other modes
+    // collect snapped points until they have enough
+    const clippingPlanes = () => sceneRef.current?.outlines.hover.clippingPlanes ?? [];
+    const toVec3 = (v: THREE.Vector3): Vec3 => [v.x, v.y, v.z];
+
+    function aim(e: MouseEvent, mode: MeasureMode): { snap: SnapPoint | null; thickness: Measurement | null } {
+      const hit = hitTest(e);
+      if (mode === 'thickness') {
+        const through = hit && throughThickness(hit, raycaster.ray.direction);
+        const thickness = through
+          ? { id: nextMeasurementId(), mode, points: through.map(toVec3), layerId: layerIdOf(hit.object) ?? undefined }
+          : null;
+        return { snap: hit ? { point: hit.point.clone(), kind: 'face' } : null, thickness };
+      }
+      const edges = visibleGroups().flatMap(g => g.userData.outlines as THREE.LineSegments[]);
+      const snap = snapPoint(raycaster, hit, edges, camera, renderer.domElement.clientHeight, clippingPlanes());
+      return { snap, thickness: null };
+    }
+
+    function showDraft(snap: SnapPoint | null, preview: Pick<Measurement, 'mode' | 'points'> | null) {
+      disposeObject(draft);
+      draft.clear();
+      if (snap) {
+        const marker = new THREE.Points(
+          new THREE.BufferGeometry().setFromPoints([snap.point]),
+          new THREE.PointsMaterial({ color: SNAP_COLORS[snap.kind], size: 9, sizeAttenuation: false, depthTest: false }),
+        );
+        marker.renderOrder = 12;
+        draft.add(marker);
+      }
+      if (preview) {
+        draft.add(figureObject(measurementFigure(preview), measurementText(preview, measureRef.current.units), MEASURE_COLOR));
+      }
+    }
+
+    function previewMeasure(e: MouseEvent, mode: MeasureMode) {
+      const { snap, thickness } = aim(e, mode);
+      const points = draftPointsRef.current;
+      if (thickness) return showDraft(snap, thickness);
+      if (!snap || points.length === 0) return showDraft(snap, null);
+      // Until the vertex is picked, an angle previews its first arm as a distance
+      const next = [...points, toVec3(snap.point)];
+      showDraft(snap, { mode: mode === 'angle' && next.length < 3 ? 'distance' : mode, points: next });
+    }
+
+    function pickMeasure(e: MouseEvent, mode: MeasureMode) {
+      const { snap, thickness } = aim(e, mode);
+      if (thickness) {
+        callbacksRef.current.onMeasure?.(thickness);
+        return showDraft(null, null);
+      }
+      if (!snap || mode === 'thickness') return;
+      const points = [...draftPointsRef.current, toVec3(snap.point)];
+      if (points.length < MEASURE_CLICKS[mode]) {
+        draftPointsRef.current = points;
+        return previewMeasure(e, mode);
+      }
+      draftPointsRef.current = [];
+      showDraft(null, null);
+      callbacksRef.current.onMeasure?.({ id: nextMeasurementId(), mode, points });
+    }
+
+    let hoverId: string | null = null;
+    const setHover = (id: string | null) => {
+      if (id === hoverId) return;
+      hoverId = id;
+      renderer.domElement.style.cursor = id ? 'pointer' : '';
+      callbacksRef.current.onLayerHover?.(id);
+    };
+
+    let isDown = false, isRight = false, prevX = 0, prevY = 0, downX = 0, downY = 0;
+
+    const onDown = (e: MouseEvent) => {
+      isDown = true; isRight = e.button === 2;
+      prevX = downX = e.clientX; prevY = downY = e.clientY;
+      flight = null;
+    };
+    const onUp = (e: MouseEvent) => {
+      const wasClick = isDown && !isRight && e.target === renderer.domElement
+        && Math.hypot(e.clientX - downX, e.clientY - downY) < CLICK_SLOP;
+      isDown = false;
+      if (!wasClick) return;
+      const { mode } = measureRef.current;
+      if (mode) pickMeasure(e, mode);
+      else callbacksRef.current.onLayerSelect?.(pick(e));
+    };
     const onCtx = (e: Event) => e.preventDefault();
     const onMove = (e: MouseEvent) => {
       if (!isDown) return;
@@ -114,8 +346,25 @@ export function ThreeViewer({ layers, exploded, sectionCut, onLayerHover }: Thre
       }
       updateCamera();
     };
+    const onHover = (e: MouseEvent) => {
+      if (isDown) return;
+      const { mode } = measureRef.current;
+      if (mode) previewMeasure(e, mode);
+      else setHover(pick(e));
+    };
+    const onLeave = () => {
+      setHover(null);
+      if (measureRef.current.mode) showDraft(null, null);
+    };
+    // Escape drops the points picked so far
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape' || draftPointsRef.current.length === 0) return;
+      draftPointsRef.current = [];
+      showDraft(null, null);
+    };
     const onWheel = (e: WheelEvent) => {
       e.preventDefault();
+      flight = null;
       spherical.radius *= e.deltaY > 0 ? 1.08 : 0.92;
       spherical.radius = Math.max(1, Math.min(20, spherical.radius));
       updateCamera();
@@ -125,15 +374,40 @@ export function ThreeViewer({ layers, exploded, sectionCut, onLayerHover }: Thre
     window.addEventListener('mouseup', onUp);
     renderer.domElement.addEventListener('contextmenu', onCtx);
     window.addEventListener('mousemove', onMove);
+    renderer.domElement.addEventListener('mousemove', onHover);
+    renderer.domElement.addEventListener('mouseleave', onLeave);
     renderer.domElement.addEventListener('wheel', onWheel, { passive: false });
+    window.addEventListener('keydown', onKey);
+
+    // Keeps the property popover pinned above the selected layer as the camera moves
+    const anchorBox = new THREE.Box3();
+    const anchor = new THREE.Vector3();
+    function placePopover() {
+      const el = popoverRef.current;
+      const group = selectedRef.current ? sceneRef.current?.groups.get(selectedRef.current) : undefined;
+      if (!el) return;
+      if (!group) { el.style.visibility = 'hidden'; return; }
+      anchorBox.setFromObject(group);
+      anchorBox.getCenter(anchor);
+      anchor.y = anchorBox.max.y;
+      anchor.project(camera);
+      const cw = renderer.domElement.clientWidth, ch = renderer.domElement.clientHeight;
+      const x = (anchor.x + 1) / 2 * cw, y = (1 - anchor.y) / 2 * ch;
+      const left = Math.max(8, Math.min(cw - el.offsetWidth - 8, x - el.offsetWidth / 2));
+      const top = Math.max(8, Math.min(ch - el.offsetHeight - 8, y - el.offsetHeight - 14));
+      el.style.transform = `translate(${left}px, ${top}px)`;
+      el.style.visibility = anchor.z < 1 ? 'visible' : 'hidden';
+    }
 
     // Animate
     let animFrameId = 0;
-    function animate() {
+    function animate(now: number) {
       animFrameId = requestAnimationFrame(animate);
+      stepFlight(now);
+      placePopover();
       renderer.render(scene, camera);
     }
-    animate();
+    animFrameId = requestAnimationFrame(animate);
 
     // Resize
     const onResize = () => {
@@ -148,7 +422,10 @@ export function ThreeViewer({ layers, exploded, sectionCut, onLayerHover }: Thre
       scene, camera, renderer,
       groups: new Map(),
       clippingPlane,
-      controls: { spherical, target, updateCamera },
+      outlines,
+      annotations,
+      draft,
+      controls: { spherical, target, updateCamera, flyTo },
       animFrameId,
     };
 
@@ -158,8 +435,16 @@ export function ThreeViewer({ layers, exploded, sectionCut, onLayerHover }: Thre
       window.removeEventListener('mouseup', onUp);
       renderer.domElement.removeEventListener('contextmenu', onCtx);
       window.removeEventListener('mousemove', onMove);
+      renderer.domElement.removeEventListener('mousemove', onHover);
+      renderer.domElement.removeEventListener('mouseleave', onLeave);
       renderer.domElement.removeEventListener('wheel', onWheel);
+      window.removeEventListener('keydown', onKey);
       window.removeEventListener('resize', onResize);
+      sceneRef.current?.groups.forEach(disposeLayerGroup);
+      disposeObject(annotations);
+      disposeObject(draft);
+      outlines.hover.dispose();
+      outlines.selected.dispose();
       renderer.dispose();
       container.removeChild(renderer.domElement);
       sceneRef.current = null;
@@ -172,91 +457,53 @@ export function ThreeViewer({ layers, exploded, sectionCut, onLayerHover }: Thre
     if (!ctx) return;
 
     // Remove old groups
-    ctx.groups.forEach(g => ctx.scene.remove(g));
+    ctx.groups.forEach(g => {
+      ctx.scene.remove(g);
+      disposeLayerGroup(g);
+    });
     ctx.groups.clear();
 
+    const clipping = sectionCut ? [ctx.clippingPlane] : [];
+    ctx.outlines.hover.clippingPlanes = clipping;
+    ctx.outlines.selected.clippingPlanes = clipping;
+    ctx.outlines.hover.needsUpdate = true;
+    ctx.outlines.selected.needsUpdate = true;
+
     layers.forEach((layer, i) => {
       const group = new THREE.Group();
-      group.userData = { layerId: layer.id };
 
-      const gp = layer.geometryParams || {};
-      const clipping = sectionCut ? [ctx.clippingPlane] : [];
+      const gp = layer.geometryParams;
 
+      const { parts, roughness, metalness } = layerGeometry(gp, i);
       const mat = new THREE.MeshStandardMaterial({
         color: new THREE.Color(layer.color),
-        roughness: gp.isCoping || gp.isFlashing ? 0.3 : 0.7,
-        metalness: gp.isCoping || gp.isFlashing ? 0.5 : 0,
+        roughness,
+        metalness,
         side: THREE.DoubleSide,
         clippingPlanes: clipping,
       });
+      const outlines: THREE.LineSegments[] = [];
 
-      if (gp.isWall) {
-        const geo = new THREE.BoxGeometry(gp.width || 0.2, gp.height || 1.8, gp.depth || 2.0);
-        const mesh = new THREE.Mesh(geo, mat);
-        mesh.position.set(gp.positionX || 1.3, gp.positionY || 0.9, gp.positionZ || 0);
-        mesh.castShadow = true;
-        mesh.receiveShadow = true;
-        group.add(mesh);
-      } else if (gp.isBarrier) {
-        const geo = new THREE.BoxGeometry(gp.width || 0.015, gp.height || 1.8, gp.depth || 2.0);
-        const mesh = new THREE.Mesh(geo, mat);
-        mesh.position.set(gp.positionX || 1.2, gp.positionY || 0.9, gp.positionZ || 0);
-        mesh.castShadow = true;
-        group.add(mesh);
-      } else if (gp.isCoping) {
-        const shape = new THREE.Shape();
-        shape.moveTo(-0.18, 0); shape.lineTo(0.38, 0); shape.lineTo(0.40, -0.06);
-        shape.lineTo(0.38, -0.10); shape.lineTo(-0.16, -0.10); shape.lineTo(-0.20, -0.06);
-        shape.closePath();
-        const geo = new THREE.ExtrudeGeometry(shape, { depth: 2.0, bevelEnabled: false });
-        const mesh = new THREE.Mesh(geo, mat);
-        mesh.position.set(1.1, gp.positionY || 1.8, -1.0);
-        mesh.castShadow = true;
-        group.add(mesh);
-      } else if (gp.isFlashing) {
-        const geo = new THREE.BoxGeometry(gp.width || 0.01, gp.height || 0.30, gp.depth || 2.0);
-        const mesh = new THREE.Mesh(geo, mat);
-        mesh.position.set(gp.positionX || 1.19, gp.positionY || 1.35, gp.positionZ || 0);
-        mesh.castShadow = true;
-        group.add(mesh);
-        const lipGeo = new THREE.BoxGeometry(0.08, 0.008, gp.depth || 2.0);
-        const lip = new THREE.Mesh(lipGeo, mat.clone());
-        lip.position.set((gp.positionX || 1.19) - 0.04, (gp.positionY || 1.35) - 0.15, 0);
-        group.add(lip);
-      } else if (gp.isSealant) {
-        const geo = new THREE.BoxGeometry(gp.width || 0.04, gp.height || 0.02, gp.depth || 2.0);
-        const m1 = new THREE.Mesh(geo, mat);
-        m1.position.set(gp.positionX || 1.3, gp.positionY || 1.8, 0);
-        group.add(m1);
-        const geo2 = new THREE.BoxGeometry(0.02, 0.04, gp.depth || 2.0);
-        const m2 = new THREE.Mesh(geo2, mat.clone());
-        m2.position.set(1.19, 1.22, 0);
-        group.add(m2);
-      } else {
-        // Standard flat roof layer
-        const geo = new THREE.BoxGeometry(gp.width || 2.4, gp.height || 0.04, gp.depth || 2.0);
-        const mesh = new THREE.Mesh(geo, mat);
-        mesh.position.set(gp.positionX || 0, gp.positionY || (i * 0.05), gp.positionZ || 0);
+      for (const part of parts) {
+        const geometry = partGeometry(part);
+        const mesh = new THREE.Mesh(geometry, mat);
+        mesh.position.set(...part.position);
         mesh.castShadow = true;
         mesh.receiveShadow = true;
         group.add(mesh);
+
+        const outline = new THREE.LineSegments(new THREE.EdgesGeometry(geometry, 30), ctx.outlines.hover);
+        outline.position.copy(mesh.position);
+        outline.renderOrder = 1;
+        outline.visible = false;
+        group.add(outline);
+        outlines.push(outline);
       }
 
+      group.userData = { layerId: layer.id, material: mat, outlines };
       group.visible = layer.visible;
 
-      // Exploded offset
-      if (exploded) {
-        if (gp.isWall || gp.isBarrier) {
-          group.position.x = (i + 1) * 0.08;
-        } else if (gp.isCoping || gp.isSealant) {
-          group.position.y = (i + 1) * 0.15 + 0.5;
-        } else if (gp.isFlashing) {
-          group.position.y = (i + 1) * 0.15 + 0.3;
-          group.position.x = 0.15;
-        } else {
-          group.position.y = (i + 1) * 0.15;
-        }
-      }
+      if (exploded) group.position.set(...explodeOffset(gp, i));
 
       ctx.scene.add(group);
       ctx.groups.set(layer.id, group);
@@ -273,29 +520,160 @@ export function ThreeViewer({ layers, exploded, sectionCut, onLayerHover }: Thre
     });
   }, [layers]);
 
+  // Outline and tint the selected and hovered layers
+  useEffect(() => {
+    const ctx = sceneRef.current;
+    if (!ctx) return;
+    ctx.groups.forEach((group, id) => {
+      const state = id === selectedLayerId ? 'selected' : id === hoveredLayerId ? 'hover' : null;
+      const mat = group.userData.material as THREE.MeshStandardMaterial;
+      mat.emissive.setHex(state === 'selected' ? 0x1d4ed8 : state === 'hover' ? 0x334155 : 0x000000);
+      mat.emissiveIntensity = state === 'selected' ? 0.35 : 0.2;
+      for (const outline of group.userData.outlines as THREE.LineSegments[]) {
+        outline.visible = state !== null;
+        if (state) outline.material = ctx.outlines[state];
+      }
+    });
+  }, [layers, exploded, sectionCut, selectedLayerId, hoveredLayerId]);
+
+  // Entering, leaving or switching measure mode starts over
+  useEffect(() => {
+    const ctx = sceneRef.current;
+    if (!ctx) return;
+    draftPointsRef.current = [];
+    disposeObject(ctx.draft);
+    ctx.draft.clear();
+    ctx.renderer.domElement.style.cursor = measureMode ? 'crosshair' : '';
+    if (measureMode) onLayerHover?.(null);
+  }, [measureMode]);
+
+  // Authored dimensions and finished measurements
+  useEffect(() => {
+    const ctx = sceneRef.current;
+    if (!ctx) return;
+    disposeObject(ctx.annotations);
+    ctx.annotations.clear();
+    if (!exploded) {
+      for (const dimension of dimensions) {
+        const figure = dimensionFigure(dimension);
+        ctx.annotations.add(figureObject(figure, dimensionText(dimension, figure, units), DIMENSION_COLOR));
+      }
+    }
+    for (const measurement of measurements) {
+      ctx.annotations.add(figureObject(measurementFigure(measurement), measurementText(measurement, units), MEASURE_COLOR));
+    }
+  }, [dimensions, measurements, units, exploded]);
+
+  useImperativeHandle(ref, () => ({
+    frameLayer(layerId: string) {
+      const ctx = sceneRef.current;
+      const group = ctx?.groups.get(layerId);
+      if (!ctx || !group) return;
+      const sphere = new THREE.Box3().setFromObject(group).getBoundingSphere(new THREE.Sphere());
+      if (sphere.isEmpty()) return;
+      const fit = sphere.radius / Math.sin(THREE.MathUtils.degToRad(ctx.camera.fov) / 2);
+      ctx.controls.flyTo(sphere.center, {
+        theta: ctx.controls.spherical.theta,
+        phi: ctx.controls.spherical.phi,
+        radius: Math.max(1, Math.min(20, fit * 1.15)),
+      });
+    },
+    resetView() {
+      sceneRef.current?.controls.flyTo(HOME_TARGET, HOME_SPHERICAL);
+    },
+  }), []);
+
+  const selected = layers.find(l => l.id === selectedLayerId);
+
   return (
     <div
       ref={containerRef}
       style={{
         flex: 1,
         position: 'relative',
+        overflow: 'hidden',
         background: 'linear-gradient(180deg, #f0f4f8 0%, #e2e8f0 100%)',
       }}
     >
-      <div style={{
-        position: 'absolute',
-        bottom: 12,
-        left: '50%',
-        transform: 'translateX(-50%)',
-        fontSize: 11,
-        color: '#64748b',
-        background: 'rgba(255,255,255,0.85)',
-        padding: '4px 14px',
-        borderRadius: 12,
-        pointerEvents: 'none',
-      }}>
-        Click + drag to orbit &bull; Scroll to zoom &bull; Right-click to pan
+      {selected && (
+        <div ref={popoverRef} style={styles.popover}>
+          <div style={styles.popoverHeader}>
+            <span style={{ ...styles.popoverSwatch, background: selected.color }} />
+            <span style={styles.popoverTitle}>{selected.name}</span>
+            <button style={styles.popoverClose} onClick={() => onLayerSelect?.(null)} title="Close">&times;</button>
+          </div>
+          <PopoverRow label="Product" value={selected.productName} />
+          <PopoverRow label="Manufacturer" value={selected.manufacturer} />
+          <PopoverRow label="Thickness" value={`${selected.thicknessMm} mm`} />
+          <PopoverRow label="CSI section" value={selected.csiSection} />
+        </div>
+      )}
+      <div style={styles.hint}>
+        {measureMode
+          ? <>{MEASURE_HINTS[measureMode]} &bull; Snaps to corners and edges &bull; Esc to start over</>
+          : <>Click a layer for details &bull; Drag to orbit &bull; Scroll to zoom &bull; Right-click to pan</>}
       </div>
     </div>
   );
+});
+
+function PopoverRow({ label, value }: { label: string; value?: string }) {
+  return (
+    <div style={styles.popoverRow}>
+      <span style={styles.popoverLabel}>{label}</span>
+      <span style={{ ...styles.popoverValue, color: value ? '#1e293b' : '#94a3b8' }}>{value || 'Not specified'}</span>
+    </div>
+  );
 }
+
+const styles: Record<string, React.CSSProperties> = {
+  hint: {
+    position: 'absolute',
+    bottom: 12,
+    left: '50%',
+    transform: 'translateX(-50%)',
+    fontSize: 11,
+    color: '#64748b',
+    background: 'rgba(255,255,255,0.85)',
+    padding: '4px 14px',
+    borderRadius: 12,
+    pointerEvents: 'none',
+  },
+  popover: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    width: 240,
+    visibility: 'hidden',
+    background: '#fff',
+    border: '1px solid #e2e8f0',
+    borderRadius: 8,
+    boxShadow: '0 8px 24px rgba(15, 23, 42, 0.15)',
+    padding: '10px 12px',
+    fontSize: 12,
+    zIndex: 1,
+  },
+  popoverHeader: { display: 'flex', alignItems: 'center', gap: 8, marginBottom: 6 },
+  popoverSwatch: { width: 12, height: 12, borderRadius: 3, flexShrink: 0, border: '1px solid rgba(0,0,0,0.1)' },
+  popoverTitle: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: 600,
+    color: '#1e293b',
+    whiteSpace: 'nowrap' as const,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+  },
+  popoverClose: {
+    background: 'none',
+    border: 'none',
+    color: '#64748b',
+    fontSize: 16,
+    lineHeight: 1,
+    cursor: 'pointer',
+    padding: 0,
+  },
+  popoverRow: { display: 'flex', gap: 8, padding: '2px 0' },
+  popoverLabel: { width: 84, flexShrink: 0, color: '#64748b' },
+  popoverValue: { flex: 1, minWidth: 0, overflowWrap: 'anywhere' as const },
+};
@@ -0,0 +1,161 @@
+import * as THREE from 'three';
+import { angleFigure, formatFigure, linearFigure, type DimensionFigure, type Vec3 } from '@shared/geometry';
+import type { LengthUnits } from '@shared/types';
+
+export type MeasureMode = 'distance' | 'thickness' | 'angle';
+
+/** A finished measurement. Points are scene coordinates (metres) in the order they were picked. */
+export interface Measurement {
+  id: string;
+  mode: MeasureMode;
+  /** Distance: both ends. Thickness: where the probe entered and left the layer. Angle: arm, vertex, arm. */
+  points: Vec3[];
+  /** The layer a thickness was measured through */
+  layerId?: string;
+}
+
+// Measurements live for the session only, so a counter is id enough
+let measurementSeq = 0;
+export const nextMeasurementId = () => `measurement-${++measurementSeq}`;
+
+/** Clicks each mode takes to finish */
+export const MEASURE_CLICKS: Record<MeasureMode, number> = { distance: 2, thickness: 1, angle: 3 };
+
+export function measurementFigure({ mode, points }: Pick<Measurement, 'mode' | 'points'>): DimensionFigure {
+  return mode === 'angle' ? angleFigure(points[1], points[0], points[2]) : linearFigure(points[0], points[1]);
+}
+
+export function measurementText(measurement: Pick<Measurement, 'mode' | 'points'>, units: LengthUnits): string {
+  return formatFigure(measurementFigure(measurement), units);
+}
+
+// ── Scene objects ──
+
+// Label height as a fraction of the viewport (sprites keep their screen size at any zoom)
+const LABEL_HEIGHT = 0.055;
+
+function labelSprite(text: string, color: string): THREE.Sprite {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d')!;
+  const font = '600 30px system-ui, sans-serif';
+  ctx.font = font;
+  canvas.width = Math.ceil(ctx.measureText(text).width) + 28;
+  canvas.height = 48;
+  // Resizing the canvas resets its state
+  ctx.font = font;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.92)';
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 3;
+  ctx.beginPath();
+  ctx.roundRect(2, 2, canvas.width - 4, canvas.height - 4, 10);
+  ctx.fill();
+  ctx.stroke();
+  ctx.fillStyle = color;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, canvas.width / 2, canvas.height / 2 + 1);
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  const sprite = new THREE.Sprite(new THREE.SpriteMaterial({
+    map: texture, depthTest: false, sizeAttenuation: false, transparent: true,
+  }));
+  sprite.scale.set(LABEL_HEIGHT * canvas.width / canvas.height, LABEL_HEIGHT, 1);
+  sprite.renderOrder = 11;
+  return sprite;
+}
+
+/** Lines and a label for a figure, drawn over the layers so nothing hides them. */
+export function figureObject(figure: DimensionFigure, text: string, color: string): THREE.Group {
+  const group = new THREE.Group();
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(figure.segments.flat(2), 3));
+  const lines = new THREE.LineSegments(geometry, new THREE.LineBasicMaterial({ color, depthTest: false, transparent: true }));
+  lines.renderOrder = 10;
+  group.add(lines);
+
+  const label = labelSprite(text, color);
+  label.position.set(...figure.labelAt);
+  group.add(label);
+  return group;
+}
+
+/** Free the geometry, materials and label textures under `object`. */
+export function disposeObject(object: THREE.Object3D) {
+  object.traverse(child => {
+    if (child instanceof THREE.LineSegments || child instanceof THREE.Points) child.geometry.dispose();
+    if (child instanceof THREE.LineSegments || child instanceof THREE.Points || child instanceof THREE.Sprite) {
+      const material = child.material as THREE.Material & { map?: THREE.Texture | null };
+      material.map?.dispose();
+      material.dispose();
+    }
+  });
+}
+
+// ── Picking points ──
+
+export interface SnapPoint {
+  point: THREE.Vector3;
+  kind: 'vertex' | 'edge' | 'face';
+}
+
+// How close to a corner or edge, in screen pixels, the pointer snaps to it
+const SNAP_PX = 10;
+
+/**
+ * The point to measure from under the pointer: a layer corner or edge within
+ * a few pixels, else the face under the pointer. `edges` are the layers'
+ * feature edges; corners and edges behind the face under the pointer, or
+ * removed by the section cut, are skipped.
+ */
+export function snapPoint(
+  raycaster: THREE.Raycaster,
+  hit: THREE.Intersection | null,
+  edges: THREE.LineSegments[],
+  camera: THREE.PerspectiveCamera,
+  viewportHeight: number,
+  clipping: THREE.Plane[],
+): SnapPoint | null {
+  const { ray } = raycaster;
+  const pxAt = (p: THREE.Vector3) =>
+    2 * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2) * camera.position.distanceTo(p) / viewportHeight;
+  const usable = (p: THREE.Vector3) =>
+    clipping.every(plane => plane.distanceToPoint(p) >= -1e-6)
+    && (!hit || camera.position.distanceTo(p) <= hit.distance + pxAt(p) * SNAP_PX * 2);
+
+  let vertex: { point: THREE.Vector3; off: number } | null = null;
+  let edge: { point: THREE.Vector3; off: number } | null = null;
+  const v0 = new THREE.Vector3(), v1 = new THREE.Vector3(), onSegment = new THREE.Vector3();
+
+  for (const lines of edges) {
+    const position = lines.geometry.getAttribute('position');
+    for (let i = 0; i + 1 < position.count; i += 2) {
+      v0.fromBufferAttribute(position, i).applyMatrix4(lines.matrixWorld);
+      v1.fromBufferAttribute(position, i + 1).applyMatrix4(lines.matrixWorld);
+      for (const end of [v0, v1]) {
+        const off = ray.distanceToPoint(end) / pxAt(end);
+        if (off < SNAP_PX && (!vertex || off < vertex.off) && usable(end)) vertex = { point: end.clone(), off };
+      }
+      const off = Math.sqrt(ray.distanceSqToSegment(v0, v1, undefined, onSegment)) / pxAt(onSegment);
+      if (off < SNAP_PX && (!edge || off < edge.off) && usable(onSegment)) edge = { point: onSegment.clone(), off };
+    }
+  }
+
+  if (vertex) return { point: vertex.point, kind: 'vertex' };
+  if (edge) return { point: edge.point, kind: 'edge' };
+  return hit ? { point: hit.point.clone(), kind: 'face' } : null;
+}
+
+/**
+ * Where a probe fired into the face under the pointer, square to that face,
+ * comes out of the same part: the layer's thickness at that spot.
+ */
+export function throughThickness(hit: THREE.Intersection, rayDirection: THREE.Vector3): [THREE.Vector3, THREE.Vector3] | null {
+  if (!hit.face || !(hit.object instanceof THREE.Mesh)) return null;
+  const inward = hit.face.normal.clone().transformDirection(hit.object.matrixWorld);
+  // Faces are double-sided, so the normal may point either way
+  if (inward.dot(rayDirection) < 0) inward.negate();
+  const probe = new THREE.Raycaster(hit.point.clone().addScaledVector(inward, 1e-6), inward);
+  const exit = probe.intersectObject(hit.object, false).find(h => h.distance > 1e-5);
+  return exit ? [hit.point.clone(), exit.point] : null;
+}
@@ -1,5 +1,8 @@
 import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
-import { auth as authApi, setAuthToken, setTenantSlug, getAuthToken, getTenantSlug } from '../services/api';
+import {
+  auth as authApi, setAuthToken, setRefreshToken, setTenantSlug, getAuthToken, getRefreshToken, getTenantSlug, onSessionExpired,
+} from '../services/api';
+import type { AcceptInviteRequest, LoginResponse, RegisterRequest, TenantMembership } from '@shared/types';
 
 interface User {
   id: string;
@@ -7,16 +10,28 @@ interface User {
   name: string;
   role: string;
   tenantId: string;
+  /** Null until the address is confirmed; undefined while not yet loaded */
+  emailVerifiedAt?: string | null;
 }
 
 interface AuthState {
   user: User | null;
   tenantSlug: string | null;
+  /** Organizations the same person can switch to, including the current one */
+  memberships: TenantMembership[];
   isAuthenticated: boolean;
   isLoading: boolean;
   login: (email: string, password: string) => Promise<void>;
-  register: (data: { email: string; password: string; name: string; tenantSlug?: string }) => Promise<void>;
+  register: (data: RegisterRequest) => Promise<void>;
+  acceptInvite: (data: AcceptInviteRequest) => Promise<void>;
+  /** Finish a single sign-on login with the one-time code from the callback redirect */
+  loginWithSso: (code: string) => Promise<void>;
   logout: () => void;
+  logoutEverywhere: () => Promise<void>;
+  /** Reload the signed-in user, e.g. after their email was verified */
+  refreshUser: () => Promise<void>;
+  /** Trade the current token for one scoped to another membership */
+  switchTenant: (slug: string) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthState | null>(null);
@@ -24,6 +39,7 @@ const AuthContext = createContext<AuthState | null>(null);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [tenant, setTenant] = useState<string | null>(getTenantSlug());
+  const [memberships, setMemberships] = useState<TenantMembership[]>([]);
   const [isLoading, setIsLoading] = useState(false);
 
   // Restore session from localStorage
@@ -42,56 +58,99 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           tenantId: payload.tenantId,
         });
         setTenant(slug);
+        // The token only carries ids; fetch the full profile in the background
+        authApi.me().then(result => {
+          setUser(result.user);
+          setMemberships(result.memberships);
+        }).catch(() => {});
       } catch {
         // Invalid token, clear
         setAuthToken(null);
+        setRefreshToken(null);
         setTenantSlug(null);
       }
     }
   }, []);
 
-  const login = useCallback(async (email: string, password: string) => {
-    setIsLoading(true);
-    try {
-      const result = await authApi.login(email, password);
-      setAuthToken(result.token);
-      setTenantSlug(result.tenant.slug);
-      setUser(result.user);
-      setTenant(result.tenant.slug);
-    } finally {
-      setIsLoading(false);
-    }
+  // The API client gives up once a refresh fails; drop back to the login page
+  useEffect(() => {
+    onSessionExpired(() => setUser(null));
+    return () => onSessionExpired(null);
   }, []);
 
-  const register = useCallback(async (data: { email: string; password: string; name: string; tenantSlug?: string }) => {
+  /** Store the tokens from any sign-in response and make its tenant current. */
+  const signIn = useCallback(async (request: Promise<LoginResponse>) => {
     setIsLoading(true);
     try {
-      const result = await authApi.register(data);
+      const result = await request;
       setAuthToken(result.token);
+      setRefreshToken(result.refreshToken);
       setTenantSlug(result.tenant.slug);
       setUser(result.user);
       setTenant(result.tenant.slug);
+      setMemberships(result.memberships);
     } finally {
       setIsLoading(false);
     }
   }, []);
 
-  const logout = useCallback(() => {
+  const login = useCallback((email: string, password: string) =>
+    signIn(authApi.login(email, password)), [signIn]);
+
+  const register = useCallback((data: RegisterRequest) => signIn(authApi.register(data)), [signIn]);
+
+  const acceptInvite = useCallback((data: AcceptInviteRequest) => signIn(authApi.acceptInvite(data)), [signIn]);
+
+  const loginWithSso = useCallback((code: string) => signIn(authApi.ssoExchange(code)), [signIn]);
+
+  // The request goes out with the current tenant's token; the answer replaces it
+  const switchTenant = useCallback((slug: string) => signIn(authApi.switchTenant(slug)), [signIn]);
+
+  const clearSession = useCallback(() => {
     setAuthToken(null);
+    setRefreshToken(null);
     setTenantSlug(null);
     setUser(null);
     setTenant(null);
+    setMemberships([]);
+  }, []);
+
+  const logout = useCallback(() => {
+    const refreshToken = getRefreshToken();
+    // Best effort: the local session is cleared even if the server is unreachable
+    if (refreshToken) authApi.logout(refreshToken).catch(() => {});
+    clearSession();
+  }, [clearSession]);
+
+  const logoutEverywhere = useCallback(async () => {
+    try {
+      await authApi.logoutAll();
+    } finally {
+      clearSession();
+    }
+  }, [clearSession]);
+
+  const refreshUser = useCallback(async () => {
+    const result = await authApi.me();
+    setUser(result.user);
+    setMemberships(result.memberships);
   }, []);
 
   return (
     <AuthContext.Provider value={{
       user,
       tenantSlug: tenant,
+      memberships,
       isAuthenticated: !!user,
       isLoading,
       login,
       register,
+      acceptInvite,
+      loginWithSso,
       logout,
+      logoutEverywhere,
+      refreshUser,
+      switchTenant,
     }}>
       {children}
     </AuthContext.Provider>
@@ -1,20 +1,21 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import type { PlanFeature, PlanStatus, TenantSettings as SharedTenantSettings } from '@shared/types';
 import { tenants as tenantsApi, setTenantSlug } from '../services/api';
 import { useAuth } from './AuthContext';
 
-interface TenantSettings {
-  brandName: string;
-  logoUrl?: string;
-  primaryColor: string;
-  secondaryColor: string;
-  footerText?: string;
-}
+type TenantSettings = Omit<SharedTenantSettings, 'tenantId'>;
 
 interface TenantState {
   slug: string | null;
   settings: TenantSettings | null;
+  /** Current plan with limits and usage; null until loaded */
+  plan: PlanStatus | null;
   isLoading: boolean;
   selectTenant: (slug: string) => void;
+  /** Apply settings saved elsewhere (the branding form) without a reload */
+  setSettings: (settings: TenantSettings) => void;
+  hasFeature: (feature: PlanFeature) => boolean;
+  refreshPlan: () => void;
 }
 
 const DEFAULT_SETTINGS: TenantSettings = {
@@ -29,8 +30,15 @@ const TenantContext = createContext<TenantState | null>(null);
 export function TenantProvider({ children }: { children: React.ReactNode }) {
   const { tenantSlug, isAuthenticated } = useAuth();
   const [settings, setSettings] = useState<TenantSettings | null>(DEFAULT_SETTINGS);
+  const [plan, setPlan] = useState<PlanStatus | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
+  const refreshPlan = useCallback(() => {
+    tenantsApi.plan()
+      .then(p => setPlan(p))
+      .catch(() => setPlan(null));
+  }, []);
+
   useEffect(() => {
     if (tenantSlug && isAuthenticated) {
       setIsLoading(true);
@@ -38,15 +46,30 @@ export function TenantProvider({ children }: { children: React.ReactNode }) {
         .then(s => setSettings(s))
         .catch(() => setSettings(DEFAULT_SETTINGS))
         .finally(() => setIsLoading(false));
+      refreshPlan();
+    } else {
+      setSettings(DEFAULT_SETTINGS);
+      setPlan(null);
     }
-  }, [tenantSlug, isAuthenticated]);
+  }, [tenantSlug, isAuthenticated, refreshPlan]);
+
+  // Components read the brand through CSS variables, so a change repaints everything at once
+  useEffect(() => {
+    const root = document.documentElement.style;
+    const active = settings || DEFAULT_SETTINGS;
+    root.setProperty('--brand-primary', active.primaryColor);
+    root.setProperty('--brand-secondary', active.secondaryColor);
+  }, [settings]);
+
+  // Until the plan loads, let the server be the judge
+  const hasFeature = (feature: PlanFeature) => !plan || plan.features.includes(feature);
 
   const selectTenant = (slug: string) => {
     setTenantSlug(slug);
   };
 
   return (
-    <TenantContext.Provider value={{ slug: tenantSlug, settings, isLoading, selectTenant }}>
+    <TenantContext.Provider value={{ slug: tenantSlug, settings, plan, isLoading, selectTenant, setSettings, hasFeature, refreshPlan }}>
       {children}
     </TenantContext.Provider>
   );
@@ -1,7 +1,18 @@
+import type {
+  AcceptInviteRequest, CreateWebhookRequest, DetailCategory, DetailExportFormat, DetailListQuery, IfcImportPreview, IfcImportResult,
+  ImportReport, ImportStrategy, InvitationLookup, LoginResponse, PlanErrorBody, PlanStatus, RegisterRequest, ResetPasswordRequest,
+  SsoSettings, SsoStatus, TenantMembership, TenantSettings, UpdateSsoSettingsRequest, UpdateWebhookRequest, User, ValidationErrorBody,
+  Webhook, WebhookDelivery, WebhookDeliveryStatus, WebhookSecretResponse,
+} from '@shared/types';
+import { errorsByField } from '@shared/validation';
+
 const API_BASE = '/api';
 
 let authToken: string | null = localStorage.getItem('bim_token');
 let tenantSlug: string | null = localStorage.getItem('bim_tenant');
+let sessionExpiredHandler: (() => void) | null = null;
+let planErrorHandler: ((error: PlanErrorBody) => void) | null = null;
+let refreshInFlight: Promise<boolean> | null = null;
 
 export function setAuthToken(token: string | null) {
   authToken = token;
@@ -9,6 +20,12 @@ export function setAuthToken(token: string | null) {
   else localStorage.removeItem('bim_token');
 }
 
+// Read through localStorage so tabs pick up each other's rotations
+export function setRefreshToken(token: string | null) {
+  if (token) localStorage.setItem('bim_refresh', token);
+  else localStorage.removeItem('bim_refresh');
+}
+
 export function setTenantSlug(slug: string | null) {
   tenantSlug = slug;
   if (slug) localStorage.setItem('bim_tenant', slug);
@@ -16,9 +33,84 @@ export function setTenantSlug(slug: string | null) {
 }
 
 export function getAuthToken() { return authToken; }
+export function getRefreshToken() { return localStorage.getItem('bim_refresh'); }
 export function getTenantSlug() { return tenantSlug; }
 
-async function request<T>(path: string, options: RequestInit = {}): Promise<T> {
+/** Called when the session can no longer be refreshed (revoked, expired or deactivated). */
+export function onSessionExpired(handler: (() => void) | null) {
+  sessionExpiredHandler = handler;
+}
+
+/** Called when a request is refused by the tenant's plan (402 limit reached, 403 feature not included). */
+export function onPlanError(handler: ((error: PlanErrorBody) => void) | null) {
+  planErrorHandler = handler;
+}
+
+/** A non-2xx response. `body` is the parsed JSON error body, e.g. a plan error with its `code`. */
+export class ApiError extends Error {
+  constructor(public status: number, public body: any) {
+    super(body?.error || `Request failed: ${status}`);
+  }
+}
+
+export function isPlanError(body: any): body is PlanErrorBody {
+  return body?.code === 'plan_limit_reached' || body?.code === 'feature_not_in_plan';
+}
+
+export function isValidationError(body: any): body is ValidationErrorBody {
+  return body?.code === 'validation_failed' && Array.isArray(body.fields);
+}
+
+/** Per-field messages from a 400 validation error, keyed like the shared schemas' field paths. */
+export function fieldErrorsOf(err: unknown): Record<string, string> {
+  return err instanceof ApiError && isValidationError(err.body) ? errorsByField(err.body.fields) : {};
+}
+
+async function refreshOnce(): Promise<boolean> {
+  const sent = getRefreshToken();
+  if (!sent) return false;
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (tenantSlug) headers['X-Tenant-ID'] = tenantSlug;
+
+  const res = await fetch(`${API_BASE}/auth/refresh`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ refreshToken: sent }),
+  }).catch(() => null);
+
+  if (res?.ok) {
+    const body = await res.json();
+    setAuthToken(body.token);
+    setRefreshToken(body.refreshToken);
+    return true;
+  }
+
+  // Another tab may have rotated the token while we were waiting
+  const current = getRefreshToken();
+  if (current && current !== sent) {
+    authToken = localStorage.getItem('bim_token');
+    return true;
+  }
+  return false;
+}
+
+/** Renew the access token, sharing one request between concurrent callers. */
+export function refreshSession(): Promise<boolean> {
+  if (!refreshInFlight) {
+    refreshInFlight = refreshOnce().finally(() => { refreshInFlight = null; });
+  }
+  return refreshInFlight;
+}
+
+// Credential-exchange endpoints answer 401 for bad credentials, not stale tokens
+const SESSIONLESS_PATHS = [
+  '/auth/login', '/auth/register', '/auth/refresh', '/auth/logout', '/auth/accept-invite',
+  '/auth/forgot', '/auth/reset', '/auth/verify', '/auth/sso/exchange',
+];
+
+/** Fetch with auth headers and transparent refresh; throws on non-2xx responses. */
+async function send(path: string, options: RequestInit = {}, retried = false): Promise<Response> {
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
     ...(options.headers as Record<string, string> || {}),
@@ -29,33 +121,131 @@ async function request<T>(path: string, options: RequestInit = {}): Promise<T> {
 
   const res = await fetch(`${API_BASE}${path}`, { ...options, headers });
 
+  // Access tokens are short-lived: refresh once and replay the request
+  if (res.status === 401 && authToken && !retried && !SESSIONLESS_PATHS.includes(path)) {
+    if (await refreshSession()) return send(path, options, true);
+    setAuthToken(null);
+    setRefreshToken(null);
+    sessionExpiredHandler?.();
+  }
+
   if (!res.ok) {
     const body = await res.json().catch(() => ({ error: res.statusText }));
-    throw new Error(body.error || `Request failed: ${res.status}`);
+    if (isPlanError(body)) planErrorHandler?.(body);
+    throw new ApiError(res.status, body);
   }
 
+  return res;
+}
+
+async function request<T>(path: string, options: RequestInit = {}): Promise<T> {
+  const res = await send(path, options);
   return res.json();
 }
 
+function toQuery(params: Record<string, string | number | undefined>) {
+  const qs = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) if (value !== undefined && value !== '') qs.set(key, String(value));
+  const str = qs.toString();
+  return str ? `?${str}` : '';
+}
+
 // Auth
 export const auth = {
   login: (email: string, password: string) =>
-    request<{ token: string; user: any; tenant: any }>('/auth/login', {
+    request<LoginResponse>('/auth/login', {
       method: 'POST',
       body: JSON.stringify({ email, password }),
     }),
 
-  register: (data: { email: string; password: string; name: string; tenantSlug?: string }) =>
-    request<{ token: string; user: any; tenant: any }>('/auth/register', {
+  register: (data: RegisterRequest) =>
+    request<LoginResponse>('/auth/register', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  logout: (refreshToken: string) =>
+    request<{ loggedOut: boolean }>('/auth/logout', {
+      method: 'POST',
+      body: JSON.stringify({ refreshToken }),
+    }),
+
+  logoutAll: () =>
+    request<{ loggedOut: boolean; revokedSessions: number }>('/auth/logout-all', { method: 'POST' }),
+
+  getInvitation: (token: string) =>
+    request<InvitationLookup>(`/auth/invitations/${encodeURIComponent(token)}`),
+
+  acceptInvite: (data: AcceptInviteRequest) =>
+    request<LoginResponse>('/auth/accept-invite', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  me: () =>
+    request<{ user: User; memberships: TenantMembership[] }>('/auth/me'),
+
+  /** Sent with the current tenant's token; the answer is scoped to `tenantSlug` */
+  switchTenant: (tenantSlug: string) =>
+    request<LoginResponse>('/auth/switch', {
+      method: 'POST',
+      body: JSON.stringify({ tenantSlug }),
+    }),
+
+  forgotPassword: (email: string) =>
+    request<{ sent: boolean }>('/auth/forgot', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    }),
+
+  resetPassword: (data: ResetPasswordRequest) =>
+    request<{ reset: boolean }>('/auth/reset', {
       method: 'POST',
       body: JSON.stringify(data),
     }),
+
+  verifyEmail: (token: string) =>
+    request<{ verified: boolean; emailVerifiedAt: string }>('/auth/verify', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    }),
+
+  resendVerification: () =>
+    request<{ sent: boolean }>('/auth/verify/resend', { method: 'POST' }),
+
+  ssoStatus: () =>
+    request<SsoStatus>('/auth/sso'),
+
+  /** A full-page navigation, not a fetch: the server redirects to the identity provider */
+  ssoStartUrl: (tenant: string) =>
+    `${API_BASE}/auth/sso/start?tenant=${encodeURIComponent(tenant)}`,
+
+  ssoExchange: (code: string) =>
+    request<LoginResponse>('/auth/sso/exchange', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    }),
 };
 
 // Details
 export const details = {
-  list: () =>
-    request<{ details: any[] }>('/details'),
+  list: (query: DetailListQuery = {}) =>
+    request<{ details: any[]; total: number; nextCursor: string | null }>(`/details${toQuery({ ...query })}`),
+
+  // Follow the cursor to the end; for views that need every match at once
+  listAll: async (query: Omit<DetailListQuery, 'cursor' | 'limit'> = {}) => {
+    const all: any[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await details.list({ ...query, cursor, limit: 200 });
+      all.push(...page.details);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    return all;
+  },
+
+  facets: () =>
+    request<{ facets: any }>('/details/facets'),
 
   get: (id: string) =>
     request<{ detail: any }>(`/details/${id}`),
@@ -83,17 +273,305 @@ export const details = {
       method: 'PUT',
       body: JSON.stringify({ layers }),
     }),
+
+  addLayer: (id: string, layer: any) =>
+    request<{ layer: any }>(`/details/${id}/layers`, {
+      method: 'POST',
+      body: JSON.stringify(layer),
+    }),
+
+  replaceLayer: (id: string, layerId: string, layer: any) =>
+    request<{ layer: any }>(`/details/${id}/layers/${layerId}`, {
+      method: 'PUT',
+      body: JSON.stringify(layer),
+    }),
+
+  updateLayer: (id: string, layerId: string, changes: any) =>
+    request<{ layer: any }>(`/details/${id}/layers/${layerId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes),
+    }),
+
+  deleteLayer: (id: string, layerId: string) =>
+    request<{ deleted: boolean }>(`/details/${id}/layers/${layerId}`, { method: 'DELETE' }),
+
+  exportFile: async (id: string, format: DetailExportFormat, options: { revision?: number; exploded?: boolean; scale?: number } = {}) => {
+    const res = await send(`/details/${id}/export${toQuery({
+      format, revision: options.revision, exploded: options.exploded ? 'true' : undefined, scale: options.scale,
+    })}`);
+    return res.blob();
+  },
+
+  previewIfcImport: (file: File) =>
+    request<IfcImportPreview>('/details/import/ifc/preview', {
+      method: 'POST',
+      body: file,
+      headers: { 'Content-Type': 'application/x-step' },
+    }),
+
+  importIfc: (file: File, keys: string[], category?: DetailCategory) =>
+    request<IfcImportResult>(`/details/import/ifc${toQuery({ select: keys.join(','), category })}`, {
+      method: 'POST',
+      body: file,
+      headers: { 'Content-Type': 'application/x-step' },
+    }),
+
+  listRevisions: (id: string) =>
+    request<{ revisions: any[]; publishedRevision: number | null }>(`/details/${id}/revisions`),
+
+  getRevision: (id: string, revision: number) =>
+    request<{ revision: any }>(`/details/${id}/revisions/${revision}`),
+
+  diffRevisions: (id: string, from: number, to?: number) =>
+    request<{ diff: any }>(`/details/${id}/revisions/diff?from=${from}${to !== undefined ? `&to=${to}` : ''}`),
+
+  restoreRevision: (id: string, revision: number) =>
+    request<{ revision: any }>(`/details/${id}/revisions/${revision}/restore`, { method: 'POST' }),
+
+  publishRevision: (id: string, revision: number) =>
+    request<{ publishedRevision: number; publishedAt: string }>(`/details/${id}/revisions/${revision}/publish`, { method: 'POST' }),
+};
+
+// Projects
+export const projects = {
+  list: () =>
+    request<{ projects: any[] }>('/projects'),
+
+  get: (id: string) =>
+    request<{ project: any }>(`/projects/${id}`),
+
+  create: (data: { name: string; clientName?: string; detailIds?: string[] }) =>
+    request<{ project: any }>('/projects', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  update: (id: string, data: { name?: string; clientName?: string }) =>
+    request<{ project: any }>(`/projects/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    }),
+
+  delete: (id: string) =>
+    request<{ deleted: boolean }>(`/projects/${id}`, { method: 'DELETE' }),
+
+  setDetails: (id: string, detailIds: string[]) =>
+    request<{ project: any }>(`/projects/${id}/details`, {
+      method: 'PUT',
+      body: JSON.stringify({ detailIds }),
+    }),
+
+  addDetail: (id: string, detailId: string, position?: number) =>
+    request<{ project: any }>(`/projects/${id}/details`, {
+      method: 'POST',
+      body: JSON.stringify({ detailId, position }),
+    }),
+
+  removeDetail: (id: string, detailId: string) =>
+    request<{ project: any }>(`/projects/${id}/details/${detailId}`, { method: 'DELETE' }),
+};
+
+// Users (admin only)
+export const users = {
+  list: () =>
+    request<{ users: any[] }>('/users'),
+
+  invitations: () =>
+    request<{ invitations: any[] }>('/users/invitations'),
+
+  invite: (email: string, role: string) =>
+    request<{ invitation: any; token: string; inviteUrl: string }>('/users/invitations', {
+      method: 'POST',
+      body: JSON.stringify({ email, role }),
+    }),
+
+  revokeInvitation: (id: string) =>
+    request<{ revoked: boolean }>(`/users/invitations/${id}`, { method: 'DELETE' }),
+
+  setRole: (id: string, role: string) =>
+    request<{ user: any }>(`/users/${id}/role`, {
+      method: 'PUT',
+      body: JSON.stringify({ role }),
+    }),
+
+  deactivate: (id: string) =>
+    request<{ user: any }>(`/users/${id}/deactivate`, { method: 'POST' }),
+
+  reactivate: (id: string) =>
+    request<{ user: any }>(`/users/${id}/reactivate`, { method: 'POST' }),
+
+  revokeSessions: (id: string) =>
+    request<{ revokedSessions: number }>(`/users/${id}/sessions`, { method: 'DELETE' }),
+
+  sendPasswordReset: (id: string) =>
+    request<{ sent: boolean }>(`/users/${id}/password-reset`, { method: 'POST' }),
+};
+
+// API keys (admin only)
+export const apiKeys = {
+  list: () =>
+    request<{ apiKeys: any[] }>('/api-keys'),
+
+  create: (data: { name: string; scope: string; expiresInDays?: number }) =>
+    request<{ apiKey: any; key: string }>('/api-keys', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  rotate: (id: string) =>
+    request<{ apiKey: any; key: string }>(`/api-keys/${id}/rotate`, { method: 'POST' }),
+
+  revoke: (id: string) =>
+    request<{ revoked: boolean }>(`/api-keys/${id}`, { method: 'DELETE' }),
+};
+
+// Webhooks (admin only)
+export const webhooks = {
+  list: () =>
+    request<{ webhooks: Webhook[] }>('/webhooks'),
+
+  create: (data: CreateWebhookRequest) =>
+    request<WebhookSecretResponse>('/webhooks', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  update: (id: string, data: UpdateWebhookRequest) =>
+    request<{ webhook: Webhook }>(`/webhooks/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    }),
+
+  remove: (id: string) =>
+    request<{ deleted: boolean }>(`/webhooks/${id}`, { method: 'DELETE' }),
+
+  rotateSecret: (id: string) =>
+    request<WebhookSecretResponse>(`/webhooks/${id}/rotate-secret`, { method: 'POST' }),
+
+  ping: (id: string) =>
+    request<{ delivery: WebhookDelivery }>(`/webhooks/${id}/ping`, { method: 'POST' }),
+
+  deliveries: (id: string, filters: { status?: WebhookDeliveryStatus; event?: string; limit?: number } = {}) =>
+    request<{ deliveries: WebhookDelivery[] }>(`/webhooks/${id}/deliveries${toQuery(filters)}`),
+
+  delivery: (id: string, deliveryId: string) =>
+    request<{ delivery: WebhookDelivery }>(`/webhooks/${id}/deliveries/${deliveryId}`),
+
+  redeliver: (id: string, deliveryId: string) =>
+    request<{ delivery: WebhookDelivery }>(`/webhooks/${id}/deliveries/${deliveryId}/redeliver`, { method: 'POST' }),
+};
+
+// Template library
+export const templates = {
+  list: (filters: { category?: string; q?: string } = {}) =>
+    request<{ templates: any[] }>(`/templates${toQuery(filters)}`),
+
+  get: (id: string) =>
+    request<{ template: any }>(`/templates/${id}`),
+
+  fork: (id: string, name?: string) =>
+    request<{ detail: any }>(`/templates/${id}/fork`, {
+      method: 'POST',
+      body: JSON.stringify({ name }),
+    }),
+};
+
+// Audit log (admin only)
+export interface AuditFilters {
+  actorId?: string;
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  from?: string;
+  to?: string;
+}
+
+export const audit = {
+  list: (filters: AuditFilters = {}, before?: string, limit?: number) =>
+    request<{ entries: any[]; nextCursor: string | null }>(`/audit${toQuery({ ...filters, before, limit })}`),
+
+  exportCsv: async (filters: AuditFilters = {}) => {
+    const res = await send(`/audit/export${toQuery({ ...filters })}`);
+    return res.blob();
+  },
 };
 
 // Tenants
 export const tenants = {
   list: () => request<{ tenants: any[] }>('/tenants'),
-  settings: () => request<any>('/tenant/settings'),
+  settings: () => request<TenantSettings>('/tenant/settings'),
+
+  updateSettings: (data: { brandName?: string; primaryColor?: string; secondaryColor?: string; footerText?: string | null }) =>
+    request<TenantSettings>('/tenant/settings', {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    }),
+
+  uploadLogo: (file: File) =>
+    request<TenantSettings>('/tenant/settings/logo', {
+      method: 'PUT',
+      body: file,
+      headers: { 'Content-Type': file.type },
+    }),
+
+  removeLogo: () =>
+    request<TenantSettings>('/tenant/settings/logo', { method: 'DELETE' }),
+
+  exportArchive: async () => {
+    const res = await send('/tenant/export');
+    return res.blob();
+  },
+
+  importArchive: (file: File, strategy: ImportStrategy) =>
+    request<{ report: ImportReport }>(`/tenant/import${toQuery({ strategy })}`, {
+      method: 'POST',
+      body: file,
+      headers: { 'Content-Type': 'application/zip' },
+    }),
+
+  plan: () => request<PlanStatus>('/tenant/plan'),
+
+  sso: () => request<{ sso: SsoSettings | null }>('/tenant/sso'),
+
+  updateSso: (data: UpdateSsoSettingsRequest) =>
+    request<{ sso: SsoSettings }>('/tenant/sso', {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    }),
+
+  removeSso: () =>
+    request<{ deleted: boolean }>('/tenant/sso', { method: 'DELETE' }),
 };
 
 // Products
 export const products = {
-  list: () => request<{ products: any[] }>('/products'),
+  list: (filters: { q?: string; manufacturer?: string; type?: string } = {}) =>
+    request<{ products: any[] }>(`/products${toQuery(filters)}`),
+
+  get: (id: string) =>
+    request<{ product: any }>(`/products/${id}`),
+
+  create: (data: { name: string; manufacturer?: string; productType?: string; csiSection?: string; description?: string }) =>
+    request<{ product: any }>('/products', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  update: (id: string, data: { name?: string; manufacturer?: string; productType?: string; csiSection?: string; description?: string }) =>
+    request<{ product: any; affectedDetails: number }>(`/products/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    }),
+
+  delete: (id: string) =>
+    request<{ deleted: boolean }>(`/products/${id}`, { method: 'DELETE' }),
+
+  importCsv: (csv: string) =>
+    request<{ created: number; updated: number; skipped: number; errors: { row: number; message: string }[] }>('/products/import', {
+      method: 'POST',
+      body: csv,
+      headers: { 'Content-Type': 'text/csv' },
+    }),
 };
 
 // Health
@@ -209,7 +209,7 @@ export function getAvailableManufacturers(materialType: string): string[] {
     const { PRODUCT_EQUIVALENCIES } = require('../features/or-equal-comparison');
     const data = PRODUCT_EQUIVALENCIES[materialType];
     if (!data) return [];
-    return [...new Set(data.products.map((p: { manufacturer: string }) => p.manufacturer))];
+    return [...new Set<string>(data.products.map((p: { manufacturer: string }) => p.manufacturer))];
   } catch {
     return [];
   }
@@ -1,5 +1,5 @@
 import * as THREE from 'three';
-import { SemanticDetail } from '../schemas/semantic-detail';
+import { DimensionAnnotation, SemanticDetail } from '../schemas/semantic-detail';
 import { BASE_MATERIALS } from '../materials/base-materials';
 import { materialFactory } from '../materials/material-factory';
 
@@ -9,6 +9,7 @@ import { materialFactory } from '../materials/material-factory';
  */
 export class SemanticToMeshConverter {
   private materialCache: Map<string, THREE.Material> = new Map();
+  private dimensionResources: { dispose(): void }[] = [];
   
   /**
    * Main conversion function
@@ -53,6 +54,9 @@ export class SemanticToMeshConverter {
     // Add product labels
     this.addProductLabels(group, detail);
 
+    // Draw authored dimensions
+    this.addDimensions(group, detail, viewport);
+
     console.log('[SemanticToMesh] Created group with', group.children.length, 'children');
     group.children.forEach((child, i) => {
       console.log(`  [${i}] ${child.name}:`, child.type);
@@ -671,11 +675,133 @@ export class SemanticToMeshConverter {
     // This is a placeholder for 3D text sprites if needed
   }
   
+  /**
+   * Draw authored dimensions, each as lines plus a label:
+   * linear gets ticks at both ends, radius a leader from the centre with an
+   * arrowhead, angular both arms and an arc up from the horizontal
+   */
+  private addDimensions(
+    group: THREE.Group,
+    detail: SemanticDetail,
+    viewport: { width: number; height: number; depth: number }
+  ): void {
+    if (!detail.dimensions?.length) return;
+
+    const dimensions = new THREE.Group();
+    dimensions.name = 'dimensions';
+    const lineMaterial = new THREE.LineBasicMaterial({ color: '#00ffff', depthTest: false, transparent: true });
+    this.dimensionResources.push(lineMaterial);
+    const labelHeight = Math.max(viewport.height, viewport.width) * 0.05;
+
+    for (const dimension of detail.dimensions) {
+      const { points, labelAt } = this.dimensionSegments(dimension);
+      const geometry = new THREE.BufferGeometry().setFromPoints(points);
+      const lines = new THREE.LineSegments(geometry, lineMaterial);
+      lines.renderOrder = 10;
+      this.dimensionResources.push(geometry);
+
+      const label = this.createDimensionLabel(dimension, labelHeight);
+      label.position.copy(labelAt);
+
+      const item = new THREE.Group();
+      item.name = `dimension-${dimension.id}`;
+      item.add(lines, label);
+      dimensions.add(item);
+    }
+
+    group.add(dimensions);
+  }
+
+  /**
+   * Line segments (as point pairs) and label position for one dimension, in mm
+   */
+  private dimensionSegments(dimension: DimensionAnnotation): { points: THREE.Vector3[]; labelAt: THREE.Vector3 } {
+    const from = new THREE.Vector3(dimension.from.x, dimension.from.y, dimension.from.z);
+    const to = new THREE.Vector3(dimension.to.x, dimension.to.y, dimension.to.z);
+    const span = from.distanceTo(to);
+    const dir = to.clone().sub(from).normalize();
+    // Square to the line, in the front (XY) plane where possible
+    const side = dir.clone().cross(Math.abs(dir.z) > 0.9 ? new THREE.Vector3(1, 0, 0) : new THREE.Vector3(0, 0, 1)).normalize();
+    const middle = from.clone().lerp(to, 0.5);
+
+    if (dimension.style === 'radius') {
+      const head = THREE.MathUtils.clamp(span * 0.15, 5, 25);
+      const back = to.clone().addScaledVector(dir, -head);
+      return {
+        points: [
+          from, to,
+          to, back.clone().addScaledVector(side, head * 0.4),
+          to, back.clone().addScaledVector(side, -head * 0.4),
+        ],
+        labelAt: middle,
+      };
+    }
+
+    if (dimension.style === 'angular') {
+      // Measured up from the horizontal through `from`
+      const run = new THREE.Vector3(dir.x, 0, dir.z);
+      const base = run.lengthSq() > 1e-12 ? run.normalize() : new THREE.Vector3(1, 0, 0);
+      const angle = base.angleTo(dir);
+      const normal = base.clone().cross(dir);
+      if (normal.lengthSq() < 1e-12) normal.set(0, 0, 1);
+      normal.normalize();
+      const radius = span * 0.35;
+      const onArc = (t: number, r: number) => from.clone().addScaledVector(base.clone().applyAxisAngle(normal, t), r);
+
+      const points = [from, from.clone().addScaledVector(base, span), from, to];
+      const steps = Math.max(6, Math.ceil(angle / (Math.PI / 24)));
+      for (let i = 0; i < steps; i++) {
+        points.push(onArc(angle * i / steps, radius), onArc(angle * (i + 1) / steps, radius));
+      }
+      return { points, labelAt: onArc(angle / 2, radius * 1.5) };
+    }
+
+    const tick = THREE.MathUtils.clamp(span * 0.06, 6, 30);
+    const slash = dir.clone().add(side).normalize().multiplyScalar(tick / 2);
+    return {
+      points: [
+        from, to,
+        from.clone().sub(slash), from.clone().add(slash),
+        to.clone().sub(slash), to.clone().add(slash),
+      ],
+      labelAt: middle,
+    };
+  }
+
+  /**
+   * Text sprite for a dimension: its label, else its value in mm (degrees for angular)
+   */
+  private createDimensionLabel(dimension: DimensionAnnotation, height: number): THREE.Sprite {
+    const text = dimension.label
+      ?? (dimension.style === 'angular' ? `${dimension.value}°` : `${dimension.style === 'radius' ? 'R ' : ''}${dimension.value} mm`);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = 512; canvas.height = 128;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = 'rgba(0,0,0,0.75)';
+    ctx.fillRect(0, 0, 512, 128);
+    ctx.fillStyle = '#00ffff';
+    ctx.font = 'bold 56px Arial';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, 256, 64, 490);
+
+    const texture = new THREE.CanvasTexture(canvas);
+    const material = new THREE.SpriteMaterial({ map: texture, depthTest: false, transparent: true });
+    this.dimensionResources.push(texture, material);
+    const sprite = new THREE.Sprite(material);
+    sprite.scale.set(height * 4, height, 1);
+    sprite.renderOrder = 11;
+    return sprite;
+  }
+
   /**
    * Dispose of all cached materials
    */
   dispose(): void {
     this.materialCache.forEach(material => material.dispose());
     this.materialCache.clear();
+    this.dimensionResources.forEach(resource => resource.dispose());
+    this.dimensionResources = [];
   }
 }
@@ -103,9 +103,9 @@ export interface DimensionAnnotation {
   id: string;
   from: { x: number; y: number; z: number };
   to: { x: number; y: number; z: number };
-  value: number;           // dimension value in mm
+  value: number;           // dimension value in mm (degrees for angular)
   label?: string;          // optional label override
-  style?: 'linear' | 'angular' | 'radius';
+  style?: 'linear' | 'angular' | 'radius';  // radius: from = centre; angular: from → to above horizontal
 }
 
 export interface SemanticDetail {
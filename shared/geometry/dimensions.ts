@@ -0,0 +1,141 @@
+import type { DetailDimension, DimensionPoint, LengthUnits } from '../types/dimension.js';
+import type { Vec3 } from './layerGeometry.js';
+
+// Dimension lines for the 3D viewer. Authored dimensions and the measure tool
+// both come down to a few line segments and a spot for the label. Points are
+// metres, like the rest of the scene; values come out in millimetres, or in
+// degrees for angles.
+
+export interface DimensionFigure {
+  kind: 'length' | 'radius' | 'angle';
+  segments: [Vec3, Vec3][];
+  labelAt: Vec3;
+  /** Millimetres, or degrees for `angle` */
+  value: number;
+}
+
+const MM_PER_INCH = 25.4;
+
+const add = (a: Vec3, b: Vec3): Vec3 => [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const scale = (a: Vec3, s: number): Vec3 => [a[0] * s, a[1] * s, a[2] * s];
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const length = (a: Vec3) => Math.sqrt(dot(a, a));
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+function normalize(a: Vec3): Vec3 {
+  const l = length(a);
+  return l > 1e-12 ? scale(a, 1 / l) : [1, 0, 0];
+}
+
+// A direction square to `u`, in the front (XY) plane where it can be
+function sideOf(u: Vec3): Vec3 {
+  return normalize(cross(u, Math.abs(u[2]) > 0.9 ? [1, 0, 0] : [0, 0, 1]));
+}
+
+/** Millimetres to one decimal, or feet and inches to the nearest 1/16". */
+export function formatLength(mm: number, units: LengthUnits): string {
+  if (units === 'metric') return `${Number(mm.toFixed(1))} mm`;
+  const sixteenths = Math.round(mm / MM_PER_INCH * 16);
+  const feet = Math.floor(sixteenths / 192);
+  const inches = Math.floor((sixteenths % 192) / 16);
+  let numerator = sixteenths % 16, denominator = 16;
+  while (numerator && numerator % 2 === 0) { numerator /= 2; denominator /= 2; }
+  const fraction = numerator ? `${numerator}/${denominator}` : '';
+  const inchText = inches && fraction ? `${inches} ${fraction}` : fraction || `${inches}`;
+  return feet ? `${feet}'-${inchText}"` : `${inchText}"`;
+}
+
+export function formatAngle(degrees: number): string {
+  return `${Number(degrees.toFixed(1))}°`;
+}
+
+/** The value of a figure as its label shows it, e.g. `152.4 mm`, `R 1 1/4"` or `45°`. */
+export function formatFigure(figure: Pick<DimensionFigure, 'kind' | 'value'>, units: LengthUnits): string {
+  if (figure.kind === 'angle') return formatAngle(figure.value);
+  return `${figure.kind === 'radius' ? 'R ' : ''}${formatLength(figure.value, units)}`;
+}
+
+/** A dimension line from `a` to `b` with architectural ticks at both ends. */
+export function linearFigure(a: Vec3, b: Vec3): DimensionFigure {
+  const span = length(sub(b, a));
+  const tick = clamp(span * 0.06, 0.006, 0.03);
+  const u = normalize(sub(b, a));
+  const slash = scale(normalize(add(u, sideOf(u))), tick / 2);
+  return {
+    kind: 'length',
+    segments: [[a, b], [sub(a, slash), add(a, slash)], [sub(b, slash), add(b, slash)]],
+    labelAt: scale(add(a, b), 0.5),
+    value: span * 1000,
+  };
+}
+
+/** A leader from `centre` to `point` on the arc, with an arrowhead at the arc. */
+export function radiusFigure(centre: Vec3, point: Vec3): DimensionFigure {
+  const span = length(sub(point, centre));
+  const head = clamp(span * 0.15, 0.005, 0.025);
+  const u = normalize(sub(point, centre));
+  const side = scale(sideOf(u), head * 0.4);
+  const back = sub(point, scale(u, head));
+  return {
+    kind: 'radius',
+    segments: [[centre, point], [point, add(back, side)], [point, sub(back, side)]],
+    labelAt: scale(add(centre, point), 0.5),
+    value: span * 1000,
+  };
+}
+
+/** Both arms of the angle at `vertex` between `a` and `b`, joined by an arc. */
+export function angleFigure(vertex: Vec3, a: Vec3, b: Vec3): DimensionFigure {
+  const ua = normalize(sub(a, vertex));
+  const ub = normalize(sub(b, vertex));
+  const angle = Math.acos(clamp(dot(ua, ub), -1, 1));
+  const radius = 0.35 * Math.min(length(sub(a, vertex)), length(sub(b, vertex)));
+  // In the plane of the two arms, square to the first one and towards the second
+  const normal = length(cross(ua, ub)) > 1e-9 ? normalize(cross(ua, ub)) : sideOf(ua);
+  const w = cross(normal, ua);
+  const onArc = (t: number, r: number) => add(vertex, scale(add(scale(ua, Math.cos(t)), scale(w, Math.sin(t))), r));
+
+  const steps = Math.max(6, Math.ceil(angle / (Math.PI / 24)));
+  const segments: [Vec3, Vec3][] = [[vertex, a], [vertex, b]];
+  for (let i = 0; i < steps; i++) {
+    segments.push([onArc(angle * i / steps, radius), onArc(angle * (i + 1) / steps, radius)]);
+  }
+  return { kind: 'angle', segments, labelAt: onArc(angle / 2, radius * 1.5), value: angle * 180 / Math.PI };
+}
+
+const toScene = (p: DimensionPoint): Vec3 => [p.x / 1000, p.y / 1000, p.z / 1000];
+
+/** The figure for an authored dimension, whose points are in millimetres. */
+export function dimensionFigure(dimension: DetailDimension): DimensionFigure {
+  const from = toScene(dimension.from);
+  const to = toScene(dimension.to);
+  switch (dimension.style) {
+    case 'radius':
+      return radiusFigure(from, to);
+    case 'angular': {
+      // Measured up from the horizontal through `from`
+      const rise = sub(to, from);
+      const run: Vec3 = [rise[0], 0, rise[2]];
+      const base = length(run) > 1e-9 ? scale(normalize(run), length(rise)) : [length(rise), 0, 0] as Vec3;
+      return angleFigure(from, add(from, base), to);
+    }
+    default:
+      return linearFigure(from, to);
+  }
+}
+
+/** The label of an authored dimension: its own label, else its nominal value, else what its points measure. */
+export function dimensionText(dimension: DetailDimension, figure: DimensionFigure, units: LengthUnits): string {
+  if (dimension.label) return dimension.label;
+  return formatFigure({ kind: figure.kind, value: dimension.value ?? figure.value }, units);
+}
+
+/** The dimensions stored in a detail's metadata, skipping anything malformed. */
+export function detailDimensions(metadata: Record<string, unknown> | undefined): DetailDimension[] {
+  const list = metadata?.dimensions;
+  if (!Array.isArray(list)) return [];
+  const isPoint = (p: any) => p && [p.x, p.y, p.z].every(Number.isFinite);
+  return list.filter((d: any): d is DetailDimension => d && typeof d.id === 'string' && isPoint(d.from) && isPoint(d.to));
+}
@@ -0,0 +1,3 @@
+export * from './polygon.js';
+export * from './layerGeometry.js';
+export * from './dimensions.js';
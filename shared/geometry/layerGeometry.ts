@@ -0,0 +1,130 @@
+import type { GeometryParams } from '../types/layer.js';
+import { counterClockwise, type Vec2 } from './polygon.js';
+
+// Where each layer sits in the assembled detail. The 3D viewer and the
+// server-side exports both build from this, so a detail looks the same in
+// the browser and in an exported file. Units are metres, Y up.
+
+export type Vec3 = [number, number, number];
+
+/** Axis-aligned box centred on `position` */
+export interface BoxPart {
+  kind: 'box';
+  size: Vec3;
+  position: Vec3;
+}
+
+/**
+ * A closed profile in the XY plane swept `depth` along +Z, placed so the
+ * profile's origin lands on `position` (the same convention as three.js
+ * ExtrudeGeometry).
+ */
+export interface ExtrusionPart {
+  kind: 'extrusion';
+  profile: Vec2[];
+  depth: number;
+  position: Vec3;
+}
+
+export type LayerPart = BoxPart | ExtrusionPart;
+
+export interface LayerGeometry {
+  parts: LayerPart[];
+  /** PBR finish: metal coping and flashing are shinier than membranes and board */
+  roughness: number;
+  metalness: number;
+}
+
+const COPING_PROFILE: Vec2[] = [
+  [-0.18, 0], [0.38, 0], [0.40, -0.06], [0.38, -0.10], [-0.16, -0.10], [-0.20, -0.06],
+];
+
+/** The parts that make up the layer at position `index` in the detail's layer order. */
+export function layerGeometry(params: GeometryParams | undefined, index: number): LayerGeometry {
+  const gp = params || ({} as GeometryParams);
+  const metal = !!(gp.isCoping || gp.isFlashing);
+  const finish = { roughness: metal ? 0.3 : 0.7, metalness: metal ? 0.5 : 0 };
+  const n = (value: unknown) => typeof value === 'number' ? value : 0;
+
+  if (gp.isWall) {
+    return {
+      ...finish,
+      parts: [box([n(gp.width) || 0.2, n(gp.height) || 1.8, n(gp.depth) || 2.0], [n(gp.positionX) || 1.3, n(gp.positionY) || 0.9, n(gp.positionZ) || 0])],
+    };
+  }
+  if (gp.isBarrier) {
+    return {
+      ...finish,
+      parts: [box([n(gp.width) || 0.015, n(gp.height) || 1.8, n(gp.depth) || 2.0], [n(gp.positionX) || 1.2, n(gp.positionY) || 0.9, n(gp.positionZ) || 0])],
+    };
+  }
+  if (gp.isCoping) {
+    return {
+      ...finish,
+      parts: [{ kind: 'extrusion', profile: COPING_PROFILE, depth: 2.0, position: [1.1, n(gp.positionY) || 1.8, -1.0] }],
+    };
+  }
+  if (gp.isFlashing) {
+    const x = n(gp.positionX) || 1.19;
+    const y = n(gp.positionY) || 1.35;
+    const depth = n(gp.depth) || 2.0;
+    return {
+      ...finish,
+      parts: [
+        box([n(gp.width) || 0.01, n(gp.height) || 0.30, depth], [x, y, n(gp.positionZ) || 0]),
+        // Drip lip at the bottom of the flashing
+        box([0.08, 0.008, depth], [x - 0.04, y - 0.15, 0]),
+      ],
+    };
+  }
+  if (gp.isSealant) {
+    const depth = n(gp.depth) || 2.0;
+    return {
+      ...finish,
+      parts: [
+        box([n(gp.width) || 0.04, n(gp.height) || 0.02, depth], [n(gp.positionX) || 1.3, n(gp.positionY) || 1.8, 0]),
+        // Bead where the flashing meets the wall
+        box([0.02, 0.04, depth], [1.19, 1.22, 0]),
+      ],
+    };
+  }
+
+  // Standard flat roof layer, stacked by position in the assembly
+  return {
+    ...finish,
+    parts: [box([n(gp.width) || 2.4, n(gp.height) || 0.04, n(gp.depth) || 2.0], [n(gp.positionX) || 0, n(gp.positionY) || (index * 0.05), n(gp.positionZ) || 0])],
+  };
+}
+
+/** How far the exploded view moves the layer at `index` away from the assembly. */
+export function explodeOffset(params: GeometryParams | undefined, index: number): Vec3 {
+  const gp = params || ({} as GeometryParams);
+  if (gp.isWall || gp.isBarrier) return [(index + 1) * 0.08, 0, 0];
+  if (gp.isCoping || gp.isSealant) return [0, (index + 1) * 0.15 + 0.5, 0];
+  if (gp.isFlashing) return [0.15, (index + 1) * 0.15 + 0.3, 0];
+  return [0, (index + 1) * 0.15, 0];
+}
+
+/**
+ * Where a plane of constant Z (the drawings use the middle of the detail,
+ * z = 0) cuts the layer: one counter-clockwise XY outline per part it meets.
+ */
+export function layerSection(params: GeometryParams | undefined, index: number, z = 0): Vec2[][] {
+  const outlines: Vec2[][] = [];
+  for (const part of layerGeometry(params, index).parts) {
+    const [px, py, pz] = part.position;
+    if (part.kind === 'box') {
+      const [w, h, d] = part.size;
+      if (z < pz - d / 2 || z > pz + d / 2) continue;
+      outlines.push([[px - w / 2, py - h / 2], [px + w / 2, py - h / 2], [px + w / 2, py + h / 2], [px - w / 2, py + h / 2]]);
+    } else {
+      if (z < pz || z > pz + part.depth) continue;
+      outlines.push(counterClockwise(part.profile.map(([x, y]): Vec2 => [px + x, py + y])));
+    }
+  }
+  return outlines;
+}
+
+function box(size: Vec3, position: Vec3): BoxPart {
+  return { kind: 'box', size, position };
+}
@@ -0,0 +1,87 @@
+// Small 2D polygon helpers for the exporters. Polygons are closed implicitly
+// (the last point joins the first) and must not self-intersect.
+
+export type Vec2 = [number, number];
+
+/** Positive when the points run counter-clockwise */
+export function signedArea(points: Vec2[]): number {
+  let area = 0;
+  points.forEach(([x1, y1], i) => {
+    const [x2, y2] = points[(i + 1) % points.length];
+    area += x1 * y2 - x2 * y1;
+  });
+  return area / 2;
+}
+
+export function counterClockwise(points: Vec2[]): Vec2[] {
+  return signedArea(points) >= 0 ? points : [...points].reverse();
+}
+
+/** Even-odd test; points exactly on an edge may land either way */
+export function pointInPolygon([px, py]: Vec2, points: Vec2[]): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [xi, yi] = points[i];
+    const [xj, yj] = points[j];
+    if ((yi > py) !== (yj > py) && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+/** Ear clipping for a counter-clockwise polygon; returns vertex indices, three per triangle. */
+export function triangulate(points: Vec2[]): number[] {
+  const remaining = points.map((_, i) => i);
+  const triangles: number[] = [];
+  const cross = (o: number, a: number, b: number) =>
+    (points[a][0] - points[o][0]) * (points[b][1] - points[o][1]) - (points[a][1] - points[o][1]) * (points[b][0] - points[o][0]);
+  const inside = (p: number, a: number, b: number, c: number) =>
+    cross(a, b, p) >= 0 && cross(b, c, p) >= 0 && cross(c, a, p) >= 0;
+
+  while (remaining.length > 3) {
+    let clipped = false;
+    for (let i = 0; i < remaining.length; i++) {
+      const a = remaining[(i + remaining.length - 1) % remaining.length];
+      const b = remaining[i];
+      const c = remaining[(i + 1) % remaining.length];
+      if (cross(a, b, c) <= 0) continue;
+      if (remaining.some(p => p !== a && p !== b && p !== c && inside(p, a, b, c))) continue;
+      triangles.push(a, b, c);
+      remaining.splice(i, 1);
+      clipped = true;
+      break;
+    }
+    // Degenerate (collinear or self-touching) input: fan the rest rather than loop forever
+    if (!clipped) {
+      for (let i = 1; i < remaining.length - 1; i++) triangles.push(remaining[0], remaining[i], remaining[i + 1]);
+      return triangles;
+    }
+  }
+  triangles.push(...remaining);
+  return triangles;
+}
+
+/**
+ * A point well inside the polygon, for labels and leader arrows: the
+ * centroid when that is inside, otherwise the centre of the largest triangle.
+ */
+export function interiorPoint(points: Vec2[]): Vec2 {
+  const centroid: Vec2 = [
+    points.reduce((sum, [x]) => sum + x, 0) / points.length,
+    points.reduce((sum, [, y]) => sum + y, 0) / points.length,
+  ];
+  if (pointInPolygon(centroid, points)) return centroid;
+
+  const ccw = counterClockwise(points);
+  const indices = triangulate(ccw);
+  let best: Vec2 = ccw[0];
+  let bestArea = -1;
+  for (let t = 0; t < indices.length; t += 3) {
+    const triangle = [ccw[indices[t]], ccw[indices[t + 1]], ccw[indices[t + 2]]];
+    const area = Math.abs(signedArea(triangle));
+    if (area > bestArea) {
+      bestArea = area;
+      best = [(triangle[0][0] + triangle[1][0] + triangle[2][0]) / 3, (triangle[0][1] + triangle[1][1] + triangle[2][1]) / 3];
+    }
+  }
+  return best;
+}
@@ -0,0 +1,29 @@
+/** `read` keys act as a viewer, `read-write` keys as an editor */
+export type ApiKeyScope = 'read' | 'read-write';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  /** Public start of the key, e.g. `bim_AbC123xy`, for telling keys apart */
+  prefix: string;
+  scope: ApiKeyScope;
+  createdBy?: string;
+  creatorName?: string;
+  createdAt: string;
+  rotatedAt?: string;
+  lastUsedAt?: string;
+  expiresAt?: string;
+  revokedAt?: string;
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scope?: ApiKeyScope;
+  expiresInDays?: number;
+}
+
+/** Returned by create and rotate; `key` is never shown again */
+export interface ApiKeySecretResponse {
+  apiKey: ApiKey;
+  key: string;
+}
@@ -0,0 +1,45 @@
+/** What to do when an archived record already exists in the target tenant */
+export type ImportStrategy = 'fail' | 'skip' | 'overwrite';
+
+export type ArchiveEntity = 'users' | 'products' | 'details' | 'layers' | 'projects';
+
+/** `manifest.json` at the root of a tenant archive */
+export interface ArchiveManifest {
+  format: 'bim-tenant-archive';
+  /** Bumped when the archive layout changes; importers refuse newer versions */
+  version: number;
+  exportedAt: string;
+  source: {
+    tenantId: string;
+    slug: string;
+    name: string;
+    plan: string;
+    schemaVersion: number;
+  };
+  /** Every other file in the archive with its SHA-256 and size; `records` for JSON arrays */
+  files: Record<string, { sha256: string; bytes: number; records?: number }>;
+}
+
+export interface ImportCounts {
+  created: number;
+  updated: number;
+  skipped: number;
+}
+
+export interface ImportReport {
+  strategy: ImportStrategy;
+  source: ArchiveManifest['source'];
+  exportedAt: string;
+  counts: Record<ArchiveEntity, ImportCounts>;
+  brandingApplied: boolean;
+  /** Imported users have no password; they sign in after an admin sets one or via a reset */
+  usersWithoutPassword: number;
+  warnings: string[];
+}
+
+/** 409 body when `strategy=fail` and records already exist; values are ids (emails for users, catalog ids for products) */
+export interface ImportConflictBody {
+  error: string;
+  code: 'import_conflict';
+  conflicts: Partial<Record<ArchiveEntity, string[]>>;
+}
@@ -0,0 +1,20 @@
+export type AuditEntityType = 'detail' | 'project' | 'product' | 'user' | 'invitation' | 'api_key' | 'webhook' | 'tenant';
+
+export interface AuditLogEntry {
+  id: string;
+  occurredAt: string;
+  actorId?: string;
+  actorName?: string;
+  actorEmail?: string;
+  /** Set when the change was made with an API key rather than a user session */
+  apiKeyId?: string;
+  apiKeyName?: string;
+  /** `<entity>.<verb>`, e.g. `detail.updated` or `product.deleted` */
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: string;
+  before?: unknown;
+  after?: unknown;
+  ipAddress?: string;
+  userAgent?: string;
+}
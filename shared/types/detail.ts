@@ -1,4 +1,4 @@
-import type { Layer } from './layer.js';
+import type { CreateLayerRequest, Layer } from './layer.js';
 
 export type DetailCategory = 'roofing' | 'waterproofing' | 'air-barrier' | 'foundation' | 'expansion-joint' | 'penetration' | 'flashing';
 
@@ -8,6 +8,11 @@ export interface Detail {
   category: DetailCategory;
   description: string;
   metadata?: Record<string, unknown>;
+  /** Template this detail was forked from, if any */
+  templateId?: string | null;
+  /** Revision last marked as the issued version, if any */
+  publishedRevision?: number | null;
+  publishedAt?: string | null;
   createdBy: string;
   createdAt: string;
   updatedAt: string;
@@ -19,7 +24,8 @@ export interface CreateDetailRequest {
   category: DetailCategory;
   description: string;
   metadata?: Record<string, unknown>;
-  layers?: Omit<Layer, 'id' | 'detailId' | 'createdAt'>[];
+  /** Stored in orderIndex order and renumbered from 0 */
+  layers?: CreateLayerRequest[];
 }
 
 export interface UpdateDetailRequest {
@@ -28,3 +34,40 @@ export interface UpdateDetailRequest {
   description?: string;
   metadata?: Record<string, unknown>;
 }
+
+export type DetailSortField = 'updatedAt' | 'createdAt' | 'name' | 'category' | 'relevance';
+
+/** Query parameters accepted by `GET /api/details` */
+export interface DetailListQuery {
+  /** Full-text search over names, descriptions and layer product names */
+  q?: string;
+  /** Comma-separated categories */
+  category?: string;
+  manufacturer?: string;
+  /** Prefix match, so `07` selects the whole division */
+  csiSection?: string;
+  createdBy?: string;
+  /** Defaults to `relevance` when `q` is set, otherwise `updatedAt` */
+  sort?: DetailSortField;
+  order?: 'asc' | 'desc';
+  cursor?: string;
+  limit?: number;
+}
+
+export interface DetailSummary extends Omit<Detail, 'layers' | 'metadata'> {
+  layerCount: number;
+  creatorName?: string;
+}
+
+export interface DetailListResponse {
+  details: DetailSummary[];
+  total: number;
+  nextCursor: string | null;
+}
+
+export interface DetailFacets {
+  categories: { category: string; count: number }[];
+  manufacturers: string[];
+  csiSections: string[];
+  creators: { id: string; name: string }[];
+}
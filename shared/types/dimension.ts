@@ -0,0 +1,32 @@
+/** How a dimension is drawn, as in `DimensionAnnotation` of the viewer library's semantic details */
+export type DimensionStyle = 'linear' | 'angular' | 'radius';
+
+/** Units the viewer shows lengths in */
+export type LengthUnits = 'metric' | 'imperial';
+
+export interface DimensionPoint {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * A dimension authored on a detail, kept in `metadata.dimensions`. Points are
+ * millimetres in the viewer's scene (Y up, the bottom of the first layer at
+ * Y = 0), the same frame as a semantic detail's `dimensions`.
+ *
+ * - `linear`: the distance from `from` to `to`
+ * - `radius`: `from` is the centre and `to` a point on the arc
+ * - `angular`: the slope of `from` → `to` above the horizontal, in degrees
+ */
+export interface DetailDimension {
+  id: string;
+  from: DimensionPoint;
+  to: DimensionPoint;
+  /** Nominal value (mm, or degrees for `angular`); measured from the points when left out */
+  value?: number;
+  /** Replaces the formatted value, e.g. `150 MIN. LAP` */
+  label?: string;
+  /** Defaults to `linear` */
+  style?: DimensionStyle;
+}
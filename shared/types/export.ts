@@ -0,0 +1,9 @@
+/** `format` of `GET /api/details/:id/export`: 3D models (glTF, IFC) or 2D section drawings */
+export type DetailExportFormat = 'glb' | 'gltf' | 'ifc' | 'svg' | 'dxf';
+
+/**
+ * How a material is drawn where the section cuts it; the same set as the
+ * prototype's SemanticDetail layer properties. A layer can pick one with
+ * `geometryParams.pattern`, otherwise it follows from the material type.
+ */
+export type PatternType = 'solid' | 'hatch' | 'dots' | 'crosshatch' | 'diagonal' | 'stipple';
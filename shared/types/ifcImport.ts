@@ -0,0 +1,39 @@
+import type { Detail, DetailCategory } from './detail.js';
+import type { LayerFields } from './layer.js';
+
+/** Where an importable layer stack was found in the IFC file */
+export type IfcImportSource = 'layer-set' | 'wall-type' | 'slab-type';
+
+/** One layer stack found in an uploaded IFC file, as the detail it would become */
+export interface IfcImportCandidate {
+  /** Stable for the same file, e.g. `layer-set-118`; pass it back in `?select=` */
+  key: string;
+  source: IfcImportSource;
+  name: string;
+  description: string;
+  /** Guessed from the source; `?category=` on the import overrides it */
+  category: DetailCategory;
+  /** For wall and slab types, the key of the layer set they use */
+  layerSetKey?: string;
+  layers: LayerFields[];
+  totalThicknessMm: number;
+  /** Mapping assumptions made for this candidate, e.g. a material matched only by keyword */
+  warnings: string[];
+}
+
+/** Response of `POST /api/details/import/ifc/preview` */
+export interface IfcImportPreview {
+  /** FILE_SCHEMA of the upload, e.g. `IFC4` or `IFC2X3` */
+  schema: string;
+  fileName: string | null;
+  candidates: IfcImportCandidate[];
+  /** Assumptions that apply to the whole file, e.g. the length unit */
+  warnings: string[];
+}
+
+/** Response of `POST /api/details/import/ifc?select=` */
+export interface IfcImportResult {
+  details: Detail[];
+  /** File and candidate warnings for what was imported, prefixed with the candidate name */
+  warnings: string[];
+}
@@ -1,4 +1,36 @@
-export type { Tenant, TenantSettings, CreateTenantRequest } from './tenant.js';
-export type { User, UserRole, LoginRequest, LoginResponse, RegisterRequest, JwtPayload } from './user.js';
-export type { Detail, DetailCategory, CreateDetailRequest, UpdateDetailRequest } from './detail.js';
-export type { Layer, GeometryParams, UpdateLayersRequest } from './layer.js';
+export type { Tenant, TenantSettings, UpdateBrandingRequest, CreateTenantRequest } from './tenant.js';
+export type {
+  TenantPlan, QuotaResource, PlanFeature, PlanPolicy, PlanStatus, PlanErrorBody,
+} from './plan.js';
+export type {
+  User, UserRole, LoginRequest, LoginResponse, RegisterRequest, RefreshRequest, RefreshResponse, JwtPayload,
+  Invitation, InviteUserRequest, UpdateUserRoleRequest, AcceptInviteRequest, InvitationLookup,
+  ForgotPasswordRequest, ResetPasswordRequest, VerifyEmailRequest, TenantMembership, SwitchTenantRequest,
+} from './user.js';
+export type { SsoSettings, UpdateSsoSettingsRequest, SsoStatus, SsoExchangeRequest } from './sso.js';
+export type {
+  Detail, DetailCategory, CreateDetailRequest, UpdateDetailRequest,
+  DetailSortField, DetailListQuery, DetailSummary, DetailListResponse, DetailFacets,
+} from './detail.js';
+export type {
+  Layer, GeometryParams, LayerFields, CreateLayerRequest, UpdateLayerRequest, UpdateLayersRequest,
+} from './layer.js';
+export type { DetailRevision, DetailSnapshot, LayerSnapshot, FieldChange, RevisionDiff } from './revision.js';
+export type {
+  Project, CreateProjectRequest, UpdateProjectRequest, SetProjectDetailsRequest, AddProjectDetailRequest,
+} from './project.js';
+export type { Product, CreateProductRequest, UpdateProductRequest, ProductImportResult } from './product.js';
+export type { ApiKey, ApiKeyScope, CreateApiKeyRequest, ApiKeySecretResponse } from './apiKey.js';
+export type { DetailTemplate, ForkTemplateRequest } from './template.js';
+export type { DetailExportFormat, PatternType } from './export.js';
+export type { DetailDimension, DimensionPoint, DimensionStyle, LengthUnits } from './dimension.js';
+export type { IfcImportSource, IfcImportCandidate, IfcImportPreview, IfcImportResult } from './ifcImport.js';
+export type { AuditLogEntry, AuditEntityType } from './audit.js';
+export type {
+  Webhook, WebhookEvent, CreateWebhookRequest, UpdateWebhookRequest, WebhookSecretResponse, WebhookPayload,
+  WebhookDelivery, WebhookDeliveryStatus,
+} from './webhook.js';
+export type {
+  ImportStrategy, ArchiveEntity, ArchiveManifest, ImportCounts, ImportReport, ImportConflictBody,
+} from './archive.js';
+export type { FieldError, ValidationErrorBody } from './validation.js';
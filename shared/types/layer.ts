@@ -6,6 +6,8 @@ export interface Layer {
   color: string;
   materialType: string;
   thicknessMm: number;
+  /** Catalog product this layer uses; productName/manufacturer mirror it */
+  productId?: string;
   productName?: string;
   manufacturer?: string;
   csiSection?: string;
@@ -30,11 +32,24 @@ export interface GeometryParams {
   [key: string]: unknown;
 }
 
+/**
+ * Writable layer fields. `productId` links a catalog product, whose name and manufacturer then replace the free-text ones.
+ * Null clears an optional field.
+ */
+export type LayerFields = Omit<Layer, 'id' | 'detailId' | 'createdAt' | 'productId' | 'productName' | 'manufacturer' | 'csiSection'> & {
+  productId?: string | null;
+  productName?: string | null;
+  manufacturer?: string | null;
+  csiSection?: string | null;
+};
+
+/** Body of `POST /api/details/:id/layers` and `PUT /api/details/:id/layers/:layerId` */
+export type CreateLayerRequest =
+  Pick<LayerFields, 'name' | 'materialType' | 'thicknessMm'> & Partial<Omit<LayerFields, 'name' | 'materialType' | 'thicknessMm'>>;
+
+/** Body of `PATCH /api/details/:id/layers/:layerId` */
+export type UpdateLayerRequest = Partial<LayerFields>;
+
 export interface UpdateLayersRequest {
-  layers: {
-    id: string;
-    orderIndex?: number;
-    visibleDefault?: boolean;
-    color?: string;
-  }[];
+  layers: (UpdateLayerRequest & { id: string })[];
 }
@@ -0,0 +1,42 @@
+export type TenantPlan = 'free' | 'pro' | 'enterprise';
+
+/** Countable resources each plan caps */
+export type QuotaResource = 'details' | 'users' | 'projects' | 'apiKeys';
+
+/** Capabilities that are on or off per plan, each checked by the API (requireFeature or hasFeature) */
+export type PlanFeature = 'exports' | 'sso' | 'webhooks';
+
+export interface PlanPolicy {
+  /** null means unlimited */
+  limits: Record<QuotaResource, number | null>;
+  features: PlanFeature[];
+}
+
+/** `GET /api/tenant/plan` */
+export interface PlanStatus extends PlanPolicy {
+  plan: TenantPlan;
+  usage: Record<QuotaResource, number>;
+}
+
+/**
+ * Body of every plan refusal: 402 when a quota is full, 403 when the
+ * feature is not part of the plan. `upgradeTo` is the cheapest plan that
+ * would allow the request, or null if none would.
+ */
+export type PlanErrorBody =
+  | {
+    error: string;
+    code: 'plan_limit_reached';
+    plan: TenantPlan;
+    upgradeTo: TenantPlan | null;
+    resource: QuotaResource;
+    limit: number;
+    usage: number;
+  }
+  | {
+    error: string;
+    code: 'feature_not_in_plan';
+    plan: TenantPlan;
+    upgradeTo: TenantPlan | null;
+    feature: PlanFeature;
+  };
@@ -0,0 +1,38 @@
+export interface Product {
+  id: string;
+  /** Stable slug from manufacturer + name, used to match rows on CSV import */
+  catalogId: string;
+  name: string;
+  manufacturer?: string;
+  /** Catalog product type id, e.g. 'membrane-tpo' or 'insulation-polyiso' */
+  productType: string;
+  csiSection?: string;
+  description: string;
+  thicknessRange?: string;
+  applicationNotes: string;
+  sourceUrl?: string;
+  /** Number of layers linked to this product (single-product fetch only) */
+  layerCount?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateProductRequest {
+  name: string;
+  manufacturer?: string;
+  productType?: string;
+  csiSection?: string;
+  description?: string;
+  thicknessRange?: string;
+  applicationNotes?: string;
+  sourceUrl?: string;
+}
+
+export type UpdateProductRequest = Partial<CreateProductRequest>;
+
+export interface ProductImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: { row: number; message: string }[];
+}
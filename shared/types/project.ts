@@ -0,0 +1,32 @@
+export interface Project {
+  id: string;
+  name: string;
+  clientName?: string;
+  /** Member detail ids, in display order */
+  detailIds: string[];
+  createdBy: string;
+  creatorName?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateProjectRequest {
+  name: string;
+  clientName?: string;
+  detailIds?: string[];
+}
+
+export interface UpdateProjectRequest {
+  name?: string;
+  clientName?: string;
+}
+
+export interface SetProjectDetailsRequest {
+  detailIds: string[];
+}
+
+export interface AddProjectDetailRequest {
+  detailId: string;
+  /** Index to insert at; defaults to the end */
+  position?: number;
+}
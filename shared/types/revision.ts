@@ -0,0 +1,43 @@
+import type { DetailCategory } from './detail.js';
+import type { Layer } from './layer.js';
+
+export type LayerSnapshot = Omit<Layer, 'detailId' | 'createdAt'>;
+
+export interface DetailSnapshot {
+  detail: {
+    name: string;
+    category: DetailCategory;
+    description: string;
+    metadata?: Record<string, unknown>;
+  };
+  layers: LayerSnapshot[];
+}
+
+export interface DetailRevision {
+  id: string;
+  detailId: string;
+  revisionNumber: number;
+  changeSummary: string;
+  createdBy: string | null;
+  createdByName?: string;
+  createdAt: string;
+  snapshot?: DetailSnapshot;
+}
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface RevisionDiff {
+  fromRevision: number;
+  toRevision: number;
+  detail: FieldChange[];
+  layers: {
+    added: LayerSnapshot[];
+    removed: LayerSnapshot[];
+    reordered: { layerId: string; name: string; fromPosition: number; toPosition: number }[];
+    changed: { layerId: string; name: string; changes: FieldChange[] }[];
+  };
+}
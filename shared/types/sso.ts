@@ -0,0 +1,38 @@
+import type { UserRole } from './user.js';
+
+/** A tenant's OpenID Connect provider, as shown to admins. The client secret is never returned. */
+export interface SsoSettings {
+  enabled: boolean;
+  /** e.g. `https://login.example.com`; endpoints come from its `/.well-known/openid-configuration` */
+  issuer: string;
+  clientId: string;
+  hasClientSecret: boolean;
+  /** Email domains allowed to sign in; empty allows any address the provider vouches for */
+  allowedDomains: string[];
+  /** Role given to users created on their first SSO login */
+  defaultRole: UserRole;
+  /** Register this as the redirect URI with the provider */
+  redirectUri: string;
+  updatedAt: string;
+}
+
+/** Body of `PUT /api/tenant/sso`. Leaving out `clientSecret` keeps the stored one. */
+export interface UpdateSsoSettingsRequest {
+  enabled: boolean;
+  issuer: string;
+  clientId: string;
+  /** Null clears it (public clients rely on PKCE alone) */
+  clientSecret?: string | null;
+  allowedDomains: string[];
+  defaultRole: UserRole;
+}
+
+/** `GET /api/auth/sso` — whether the login page offers SSO for this tenant */
+export interface SsoStatus {
+  enabled: boolean;
+}
+
+/** Body of `POST /api/auth/sso/exchange`: the one-time code the callback put in the app URL */
+export interface SsoExchangeRequest {
+  code: string;
+}
@@ -0,0 +1,23 @@
+import type { DetailCategory } from './detail.js';
+import type { LayerFields } from './layer.js';
+
+/** A platform-wide starting point that tenants copy into their own library. */
+export interface DetailTemplate {
+  id: string;
+  /** Stable key from the source library, e.g. `WP-003` */
+  slug: string;
+  name: string;
+  category: DetailCategory;
+  description: string;
+  metadata?: Record<string, unknown>;
+  layerCount: number;
+  layers?: LayerFields[];
+  /** Set when the current tenant already has a detail forked from this template */
+  forkedDetailId?: string | null;
+  updatedAt: string;
+}
+
+export interface ForkTemplateRequest {
+  /** Defaults to the template name */
+  name?: string;
+}
@@ -1,3 +1,5 @@
+import type { TenantPlan } from './plan.js';
+
 export interface Tenant {
   id: string;
   slug: string;
@@ -5,7 +7,7 @@ export interface Tenant {
   schemaName: string;
   logoUrl?: string;
   primaryColor?: string;
-  plan: 'free' | 'pro' | 'enterprise';
+  plan: TenantPlan;
   createdAt: string;
   updatedAt: string;
 }
@@ -19,6 +21,14 @@ export interface TenantSettings {
   footerText?: string;
 }
 
+/** Body of `PUT /api/tenant/settings`; `footerText: null` (or empty) restores the default footer */
+export interface UpdateBrandingRequest {
+  brandName?: string;
+  primaryColor?: string;
+  secondaryColor?: string;
+  footerText?: string | null;
+}
+
 export interface CreateTenantRequest {
   name: string;
   slug: string;
@@ -6,6 +6,11 @@ export interface User {
   name: string;
   role: UserRole;
   tenantId: string;
+  /** Deactivated users cannot sign in and their tokens are rejected */
+  isActive?: boolean;
+  deactivatedAt?: string;
+  /** Null until the user follows a verification link (or resets their password) */
+  emailVerifiedAt?: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -15,21 +20,40 @@ export interface LoginRequest {
   password: string;
 }
 
+/** An organization the signed-in person belongs to, with their role there */
+export interface TenantMembership {
+  tenantId: string;
+  slug: string;
+  name: string;
+  role: UserRole;
+}
+
 export interface LoginResponse {
+  /** Short-lived access token */
   token: string;
+  /** Single-use token for POST /api/auth/refresh */
+  refreshToken: string;
   user: User;
   tenant: {
     id: string;
     slug: string;
     name: string;
   };
+  /** Every active membership of the same person, including this tenant */
+  memberships: TenantMembership[];
+}
+
+/** Body of `POST /api/auth/switch`; answers with a LoginResponse scoped to that tenant */
+export interface SwitchTenantRequest {
+  tenantSlug: string;
 }
 
 export interface RegisterRequest {
   email: string;
   password: string;
   name: string;
-  tenantSlug: string;
+  /** Creates a new organization with this slug when the request carries no tenant */
+  tenantSlug?: string;
 }
 
 export interface JwtPayload {
@@ -37,4 +61,66 @@ export interface JwtPayload {
   tenantId: string;
   tenantSlug: string;
   role: UserRole;
+  /** Session the token was issued for; revoking the session rejects the token */
+  sessionId: string;
+}
+
+export interface Invitation {
+  id: string;
+  email: string;
+  role: UserRole;
+  invitedBy?: string;
+  inviterName?: string;
+  expiresAt: string;
+  acceptedAt?: string;
+  createdAt: string;
+}
+
+export interface InviteUserRequest {
+  email: string;
+  role?: UserRole;
+}
+
+export interface UpdateUserRoleRequest {
+  role: UserRole;
+}
+
+/** `GET /api/auth/invitations/:token` */
+export interface InvitationLookup {
+  email: string;
+  role: UserRole;
+  expiresAt: string;
+  /** The address already signs in to another organization; accepting takes that password */
+  hasAccount: boolean;
+}
+
+export interface AcceptInviteRequest {
+  token: string;
+  name: string;
+  /** For an existing account, its current password */
+  password: string;
+}
+
+/** Body of `POST /api/auth/refresh` and `POST /api/auth/logout` */
+export interface RefreshRequest {
+  refreshToken: string;
+}
+
+/** Body of `POST /api/auth/forgot`; the response is the same whether or not the address is known */
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+export interface ResetPasswordRequest {
+  token: string;
+  password: string;
+}
+
+export interface VerifyEmailRequest {
+  token: string;
+}
+
+export interface RefreshResponse {
+  token: string;
+  refreshToken: string;
 }
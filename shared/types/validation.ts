@@ -0,0 +1,12 @@
+/** One problem with a request field; `field` is a path like `layers[2].thicknessMm` */
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+/** 400 body when a request does not match its schema */
+export interface ValidationErrorBody {
+  error: string;
+  code: 'validation_failed';
+  fields: FieldError[];
+}
@@ -0,0 +1,81 @@
+/** Events a webhook can subscribe to. Layer edits and restores count as `detail.updated`. */
+export type WebhookEvent =
+  | 'detail.created'
+  | 'detail.updated'
+  | 'detail.published'
+  | 'detail.deleted'
+  | 'project.created'
+  | 'project.updated'
+  | 'project.deleted';
+
+export interface Webhook {
+  id: string;
+  /** http(s) endpoint that receives a POST per event */
+  url: string;
+  description: string | null;
+  events: WebhookEvent[];
+  enabled: boolean;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateWebhookRequest {
+  url: string;
+  description?: string | null;
+  events: WebhookEvent[];
+  enabled?: boolean;
+}
+
+export interface UpdateWebhookRequest {
+  url?: string;
+  description?: string | null;
+  events?: WebhookEvent[];
+  enabled?: boolean;
+}
+
+/** Returned by create and rotate; `secret` is never shown again */
+export interface WebhookSecretResponse {
+  webhook: Webhook;
+  secret: string;
+}
+
+/**
+ * What is POSTed to the endpoint. `id` is shared by every delivery of the
+ * event (including redeliveries), so receivers can use it to drop duplicates.
+ * `ping` is only sent by `POST /api/webhooks/:id/ping`.
+ */
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEvent | 'ping';
+  occurredAt: string;
+  tenant: { id: string; slug: string };
+  actor: { userId: string | null; apiKeyId: string | null };
+  data: Record<string, unknown>;
+}
+
+/** `pending` waits for its next attempt; `failed` has used up its retries */
+export type WebhookDeliveryStatus = 'pending' | 'delivering' | 'delivered' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  eventId: string;
+  event: WebhookPayload['event'];
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  deliveredAt: string | null;
+  responseStatus: number | null;
+  /** Start of the receiver's response body */
+  responseBody: string | null;
+  /** Network error or timeout from the last attempt */
+  lastError: string | null;
+  durationMs: number | null;
+  /** Set on deliveries created by a redelivery */
+  redeliveryOf: string | null;
+  createdAt: string;
+  /** Only included when fetching a single delivery */
+  payload?: WebhookPayload;
+}
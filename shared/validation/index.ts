@@ -0,0 +1,2 @@
+export * from './schema.js';
+export * from './requests.js';
@@ -0,0 +1,276 @@
+import type { AddProjectDetailRequest, CreateProjectRequest, SetProjectDetailsRequest, UpdateProjectRequest } from '../types/project.js';
+import type {
+  AcceptInviteRequest, ForgotPasswordRequest, InviteUserRequest, LoginRequest, RefreshRequest, RegisterRequest,
+  ResetPasswordRequest, SwitchTenantRequest, UpdateUserRoleRequest, UserRole, VerifyEmailRequest,
+} from '../types/user.js';
+import type { ApiKeyScope, CreateApiKeyRequest } from '../types/apiKey.js';
+import type { CreateDetailRequest, DetailCategory, UpdateDetailRequest } from '../types/detail.js';
+import type { DetailDimension, DimensionPoint, DimensionStyle } from '../types/dimension.js';
+import type { CreateLayerRequest, GeometryParams, UpdateLayerRequest, UpdateLayersRequest } from '../types/layer.js';
+import type { CreateProductRequest, UpdateProductRequest } from '../types/product.js';
+import type { CreateTenantRequest, UpdateBrandingRequest } from '../types/tenant.js';
+import type { ForkTemplateRequest } from '../types/template.js';
+import type { SsoExchangeRequest, UpdateSsoSettingsRequest } from '../types/sso.js';
+import type { CreateWebhookRequest, UpdateWebhookRequest, WebhookEvent } from '../types/webhook.js';
+import {
+  array, boolean, defaulted, email, nullable, number, object, oneOf, optional, refine, string, uuid,
+  type Schema,
+} from './schema.js';
+
+// Each schema is annotated with the request type from shared/types, so a
+// field added to or retyped in a type fails to compile until it is handled here.
+
+const COLOR_RE = /^#[0-9a-f]{6}$/i;
+const DOMAIN_RE = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,}$/i;
+const color = () => string({ pattern: COLOR_RE, patternMessage: 'must be a hex color like #1a2b3c' });
+const name = () => string({ max: 255 });
+/** Optional free text where an empty string is allowed */
+const text = (max?: number) => string({ min: 0, max });
+const password = () => string({ min: 6, max: 128, trim: false });
+const slug = () => string({ min: 2, max: 50, pattern: /^[a-z0-9-]+$/i, patternMessage: 'may only contain letters, numbers and -' });
+
+const category = oneOf<DetailCategory>({
+  roofing: true, waterproofing: true, 'air-barrier': true, foundation: true,
+  'expansion-joint': true, penetration: true, flashing: true,
+});
+
+const httpUrl = () => string({ max: 2048, pattern: /^https?:\/\/[^\s]+$/, patternMessage: 'must be an http(s) URL' });
+
+const role = oneOf<UserRole>({ admin: true, editor: true, viewer: true });
+const scope = oneOf<ApiKeyScope>({ read: true, 'read-write': true });
+
+// ── Auth ──
+
+export const loginSchema: Schema<LoginRequest> = object({
+  email: email(),
+  password: string({ trim: false, max: 128 }),
+});
+
+export const registerSchema: Schema<RegisterRequest> = object({
+  email: email(),
+  password: password(),
+  name: name(),
+  tenantSlug: optional(slug()),
+});
+
+export const acceptInviteSchema: Schema<AcceptInviteRequest> = object({
+  token: string(),
+  name: name(),
+  password: password(),
+});
+
+export const refreshSchema: Schema<RefreshRequest> = object({
+  refreshToken: string(),
+});
+
+export const forgotPasswordSchema: Schema<ForgotPasswordRequest> = object({
+  email: email(),
+});
+
+export const resetPasswordSchema: Schema<ResetPasswordRequest> = object({
+  token: string(),
+  password: password(),
+});
+
+export const verifyEmailSchema: Schema<VerifyEmailRequest> = object({
+  token: string(),
+});
+
+export const ssoExchangeSchema: Schema<SsoExchangeRequest> = object({
+  code: string(),
+});
+
+export const switchTenantSchema: Schema<SwitchTenantRequest> = object({
+  tenantSlug: slug(),
+});
+
+// ── Details and layers ──
+
+const positive = () => optional(number({ min: 0, exclusiveMin: true }));
+const flag = () => optional(boolean());
+
+// Other keys are kept: custom geometries carry their own parameters
+export const geometryParamsSchema: Schema<GeometryParams> = object({
+  type: oneOf<GeometryParams['type']>({ box: true, extrude: true, custom: true }),
+  width: positive(),
+  height: positive(),
+  depth: positive(),
+  positionX: optional(number()),
+  positionY: optional(number()),
+  positionZ: optional(number()),
+  isWall: flag(),
+  isBarrier: flag(),
+  isCoping: flag(),
+  isFlashing: flag(),
+  isSealant: flag(),
+}, { passthrough: true });
+
+const optionalLayerFields = {
+  orderIndex: optional(number({ integer: true, min: 0 })),
+  color: optional(color()),
+  productId: optional(nullable(uuid())),
+  productName: optional(nullable(text(255))),
+  manufacturer: optional(nullable(text(255))),
+  csiSection: optional(nullable(text(20))),
+  geometryParams: optional(geometryParamsSchema),
+  visibleDefault: flag(),
+};
+
+/** `POST /api/details/:id/layers`, `PUT /api/details/:id/layers/:layerId` and each layer of a new detail */
+export const createLayerSchema: Schema<CreateLayerRequest> = object({
+  name: name(),
+  materialType: string({ max: 100 }),
+  thicknessMm: number({ min: 0 }),
+  ...optionalLayerFields,
+});
+
+const layerPatchFields = {
+  name: optional(name()),
+  materialType: optional(string({ max: 100 })),
+  thicknessMm: optional(number({ min: 0 })),
+  ...optionalLayerFields,
+};
+
+export const updateLayerSchema: Schema<UpdateLayerRequest> = object(layerPatchFields);
+
+export const updateLayersSchema: Schema<UpdateLayersRequest> = object({
+  layers: array(object({ id: uuid(), ...layerPatchFields }), { max: 500 }),
+});
+
+const dimensionPoint: Schema<DimensionPoint> = object({ x: number(), y: number(), z: number() });
+
+/** One entry of a detail's `metadata.dimensions` */
+export const detailDimensionSchema: Schema<DetailDimension> = object({
+  id: string({ max: 100 }),
+  from: dimensionPoint,
+  to: dimensionPoint,
+  value: optional(number({ min: 0 })),
+  label: optional(string({ max: 100 })),
+  style: optional(oneOf<DimensionStyle>({ linear: true, angular: true, radius: true })),
+});
+
+const METADATA_MAX_BYTES = 64 * 1024;
+
+// Metadata is free-form, except for the dimensions the viewer draws
+const detailMetadata = () => refine(
+  object({ dimensions: optional(array(detailDimensionSchema, { max: 200 })) }, { passthrough: true }),
+  value => JSON.stringify(value).length > METADATA_MAX_BYTES ? `must be at most ${METADATA_MAX_BYTES} bytes of JSON` : null,
+);
+
+export const createDetailSchema: Schema<CreateDetailRequest> = object({
+  name: name(),
+  category,
+  description: defaulted(text(10_000), ''),
+  metadata: optional(detailMetadata()),
+  layers: defaulted(array(createLayerSchema, { max: 500 }), []),
+});
+
+export const updateDetailSchema: Schema<UpdateDetailRequest> = object({
+  name: optional(name()),
+  category: optional(category),
+  description: optional(text(10_000)),
+  metadata: optional(detailMetadata()),
+});
+
+export const forkTemplateSchema: Schema<ForkTemplateRequest> = object({
+  name: optional(name()),
+});
+
+// ── Projects ──
+
+const detailIds = () => array(uuid(), { max: 1000 });
+
+export const createProjectSchema: Schema<CreateProjectRequest> = object({
+  name: name(),
+  clientName: optional(text(255)),
+  detailIds: optional(detailIds()),
+});
+
+export const updateProjectSchema: Schema<UpdateProjectRequest> = object({
+  name: optional(name()),
+  clientName: optional(text(255)),
+});
+
+export const setProjectDetailsSchema: Schema<SetProjectDetailsRequest> = object({
+  detailIds: detailIds(),
+});
+
+export const addProjectDetailSchema: Schema<AddProjectDetailRequest> = object({
+  detailId: uuid(),
+  position: optional(number({ integer: true, min: 0 })),
+});
+
+// ── Products ──
+
+const productFields = {
+  manufacturer: optional(text(255)),
+  productType: optional(text(50)),
+  csiSection: optional(text(20)),
+  description: optional(text(10_000)),
+  thicknessRange: optional(text(50)),
+  applicationNotes: optional(text(10_000)),
+  sourceUrl: optional(text(2048)),
+};
+
+export const createProductSchema: Schema<CreateProductRequest> = object({ name: name(), ...productFields });
+
+export const updateProductSchema: Schema<UpdateProductRequest> = object({ name: optional(name()), ...productFields });
+
+// ── Organization ──
+
+export const createTenantSchema: Schema<Pick<CreateTenantRequest, 'name' | 'slug'>> = object({
+  name: name(),
+  slug: slug(),
+});
+
+export const updateBrandingSchema: Schema<UpdateBrandingRequest> = refine(object({
+  brandName: optional(name()),
+  primaryColor: optional(color()),
+  secondaryColor: optional(color()),
+  footerText: optional(nullable(text(500))),
+}), value => Object.keys(value).length === 0 ? 'must change at least one setting' : null);
+
+export const inviteUserSchema: Schema<InviteUserRequest> = object({
+  email: email(),
+  role: defaulted(role, 'viewer'),
+});
+
+export const updateUserRoleSchema: Schema<UpdateUserRoleRequest> = object({ role });
+
+export const createApiKeySchema: Schema<CreateApiKeyRequest> = object({
+  name: name(),
+  scope: defaulted(scope, 'read'),
+  expiresInDays: optional(number({ integer: true, min: 1 })),
+});
+
+export const updateSsoSettingsSchema: Schema<UpdateSsoSettingsRequest> = object({
+  enabled: boolean(),
+  issuer: httpUrl(),
+  clientId: string({ max: 255 }),
+  clientSecret: optional(nullable(string({ max: 1024, trim: false }))),
+  allowedDomains: array(string({ max: 253, pattern: DOMAIN_RE, patternMessage: 'must be a domain like example.com' }), { max: 50 }),
+  defaultRole: role,
+});
+
+// ── Webhooks ──
+
+const webhookEvent = oneOf<WebhookEvent>({
+  'detail.created': true, 'detail.updated': true, 'detail.published': true, 'detail.deleted': true,
+  'project.created': true, 'project.updated': true, 'project.deleted': true,
+});
+const webhookEvents = () => refine(array(webhookEvent, { min: 1 }),
+  value => new Set(value).size !== value.length ? 'must not contain duplicates' : null);
+
+export const createWebhookSchema: Schema<CreateWebhookRequest> = object({
+  url: httpUrl(),
+  description: optional(nullable(text(255))),
+  events: webhookEvents(),
+  enabled: defaulted(boolean(), true),
+});
+
+export const updateWebhookSchema: Schema<UpdateWebhookRequest> = refine(object({
+  url: optional(httpUrl()),
+  description: optional(nullable(text(255))),
+  events: optional(webhookEvents()),
+  enabled: optional(boolean()),
+}), value => Object.keys(value).length === 0 ? 'must change at least one setting' : null);
@@ -0,0 +1,249 @@
+import type { FieldError } from '../types/validation.js';
+
+/**
+ * A runtime check for values of type `T`. `check` reports problems into
+ * `errors` under `path` and returns the cleaned value (trimmed strings,
+ * defaults filled in, unknown object keys dropped); the value is only
+ * meaningful when no errors were added.
+ */
+export interface Schema<T> {
+  check(input: unknown, path: string, errors: FieldError[]): T;
+  /** Set by `optional()`: the key may be missing from an object, and from the checked value */
+  readonly optional?: boolean;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends { optional: true } ? K : never }[keyof S];
+type Flatten<T> = { [K in keyof T]: T[K] };
+export type InferObject<S extends Shape> = Flatten<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Exclude<Infer<S[K]>, undefined> }
+>;
+
+/** Join an object key or array index onto a field path, e.g. `layers[2].name`. */
+export function joinPath(path: string, key: string | number) {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+// Problems with the value as a whole (not one of its fields) are reported under `body`
+function fail<T>(errors: FieldError[], field: string, message: string): T {
+  errors.push({ field: field || 'body', message });
+  return undefined as T;
+}
+
+// A missing value gets "is required" rather than a type complaint
+const missing = (input: unknown) => input === undefined || input === null;
+
+export interface StringOptions {
+  /** Defaults to 1: an empty (or whitespace-only) string is treated as missing */
+  min?: number;
+  max?: number;
+  /** Defaults to true */
+  trim?: boolean;
+  pattern?: RegExp;
+  /** Shown when `pattern` does not match */
+  patternMessage?: string;
+}
+
+export function string(options: StringOptions = {}): Schema<string> {
+  const { min = 1, max, trim = true, pattern, patternMessage = 'has an invalid format' } = options;
+  return {
+    check(input, path, errors) {
+      if (missing(input)) return fail(errors, path, 'is required');
+      if (typeof input !== 'string') return fail(errors, path, 'must be a string');
+      const value = trim ? input.trim() : input;
+      if (value.length < min) return fail(errors, path, min === 1 ? 'must not be empty' : `must be at least ${min} characters`);
+      if (max !== undefined && value.length > max) return fail(errors, path, `must be at most ${max} characters`);
+      if (pattern && !pattern.test(value)) return fail(errors, path, patternMessage);
+      return value;
+    },
+  };
+}
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** A trimmed, lower-cased email address. */
+export function email(): Schema<string> {
+  const base = string({ max: 255, pattern: EMAIL_RE, patternMessage: 'must be an email address' });
+  return {
+    check(input, path, errors) {
+      const value = base.check(input, path, errors);
+      return typeof value === 'string' ? value.toLowerCase() : value;
+    },
+  };
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function uuid(): Schema<string> {
+  return string({ pattern: UUID_RE, patternMessage: 'must be a UUID' });
+}
+
+export interface NumberOptions {
+  integer?: boolean;
+  min?: number;
+  max?: number;
+  /** `min` itself is not allowed, e.g. for sizes that must be greater than 0 */
+  exclusiveMin?: boolean;
+}
+
+export function number(options: NumberOptions = {}): Schema<number> {
+  const { integer = false, min, max, exclusiveMin = false } = options;
+  const kind = integer ? 'an integer' : 'a number';
+  return {
+    check(input, path, errors) {
+      if (missing(input)) return fail(errors, path, 'is required');
+      if (typeof input !== 'number' || !Number.isFinite(input)) return fail(errors, path, `must be ${kind}`);
+      if (integer && !Number.isInteger(input)) return fail(errors, path, `must be ${kind}`);
+      if (min !== undefined && (exclusiveMin ? input <= min : input < min)) {
+        return fail(errors, path, `must be ${exclusiveMin ? 'greater than' : 'at least'} ${min}`);
+      }
+      if (max !== undefined && input > max) return fail(errors, path, `must be at most ${max}`);
+      return input;
+    },
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    check(input, path, errors) {
+      if (missing(input)) return fail(errors, path, 'is required');
+      if (typeof input !== 'boolean') return fail(errors, path, 'must be true or false');
+      return input;
+    },
+  };
+}
+
+/**
+ * One of a fixed set of strings. Taking a record keyed by every member
+ * makes the compiler flag a value added to the union but not here.
+ */
+export function oneOf<T extends string>(members: Record<T, true>): Schema<T> {
+  const values = Object.keys(members) as T[];
+  return {
+    check(input, path, errors) {
+      if (missing(input)) return fail(errors, path, 'is required');
+      if (typeof input !== 'string' || !values.includes(input as T)) {
+        return fail(errors, path, `must be one of ${values.join(', ')}`);
+      }
+      return input as T;
+    },
+  };
+}
+
+export interface ArrayOptions {
+  min?: number;
+  max?: number;
+}
+
+export function array<T>(item: Schema<T>, options: ArrayOptions = {}): Schema<T[]> {
+  const { min, max } = options;
+  return {
+    check(input, path, errors) {
+      if (missing(input)) return fail(errors, path, 'is required');
+      if (!Array.isArray(input)) return fail(errors, path, 'must be an array');
+      if (min !== undefined && input.length < min) return fail(errors, path, `must have at least ${min} item${min === 1 ? '' : 's'}`);
+      if (max !== undefined && input.length > max) return fail(errors, path, `must have at most ${max} items`);
+      return input.map((value, i) => item.check(value, joinPath(path, i), errors));
+    },
+  };
+}
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+export interface ObjectOptions {
+  /** Keep keys not in the shape instead of dropping them */
+  passthrough?: boolean;
+}
+
+/** An object with the given fields. Unknown keys are dropped and absent optional keys stay absent. */
+export function object<S extends Shape>(shape: S, options: ObjectOptions = {}): Schema<InferObject<S>> {
+  return {
+    check(input, path, errors) {
+      if (missing(input)) return fail(errors, path, 'is required');
+      if (!isPlainObject(input)) return fail(errors, path, 'must be an object');
+      const value: Record<string, unknown> = options.passthrough ? { ...input } : {};
+      for (const [key, schema] of Object.entries(shape)) {
+        const checked = schema.check(input[key], joinPath(path, key), errors);
+        if (checked !== undefined) value[key] = checked;
+        else delete value[key];
+      }
+      return value as InferObject<S>;
+    },
+  };
+}
+
+/** Any JSON object, e.g. free-form metadata, up to `maxBytes` serialized. */
+export function jsonObject(maxBytes = 64 * 1024): Schema<Record<string, unknown>> {
+  return {
+    check(input, path, errors) {
+      if (missing(input)) return fail(errors, path, 'is required');
+      if (!isPlainObject(input)) return fail(errors, path, 'must be an object');
+      if (JSON.stringify(input).length > maxBytes) return fail(errors, path, `must be at most ${maxBytes} bytes of JSON`);
+      return input;
+    },
+  };
+}
+
+/** The key may be left out (or sent as undefined). */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> & { optional: true } {
+  return {
+    optional: true,
+    check: (input, path, errors) => input === undefined ? undefined : schema.check(input, path, errors),
+  };
+}
+
+/** Null is accepted as a value of its own, e.g. to clear a field. */
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    check: (input, path, errors) => input === null ? null : schema.check(input, path, errors),
+  };
+}
+
+/** The key may be left out, in which case `fallback` is used. */
+export function defaulted<T>(schema: Schema<T>, fallback: T): Schema<T> {
+  return {
+    check: (input, path, errors) => input === undefined ? fallback : schema.check(input, path, errors),
+  };
+}
+
+/** Run an extra check on a value that passed `schema`; `test` returns an error message or null. */
+export function refine<S extends Schema<any>>(schema: S, test: (value: Exclude<Infer<S>, undefined>) => string | null): S {
+  return {
+    ...schema,
+    check(input: unknown, path: string, errors: FieldError[]) {
+      const before = errors.length;
+      const value = schema.check(input, path, errors);
+      if (errors.length > before || value === undefined) return value;
+      const message = test(value);
+      return message ? fail(errors, path, message) : value;
+    },
+  };
+}
+
+export type ValidationResult<T> = { value: T } | { errors: FieldError[] };
+
+/** Check `input` against `schema`, collecting every problem rather than stopping at the first. */
+export function validate<T>(schema: Schema<T>, input: unknown): ValidationResult<T> {
+  const errors: FieldError[] = [];
+  const value = schema.check(input, '', errors);
+  return errors.length > 0 ? { errors } : { value };
+}
+
+/** Errors keyed by field path (first error per field), for showing next to form inputs. */
+export function errorsByField(errors: FieldError[]): Record<string, string> {
+  const byField: Record<string, string> = {};
+  for (const { field, message } of errors) byField[field] ??= message;
+  return byField;
+}
+
+/** One sentence for a banner, e.g. `name is required (and 2 more problems).` */
+export function describeErrors(errors: FieldError[]): string {
+  const [first] = errors;
+  if (!first) return 'Invalid request.';
+  const rest = errors.length - 1;
+  return `${first.field} ${first.message}${rest > 0 ? ` (and ${rest} more problem${rest === 1 ? '' : 's'})` : ''}.`;
+}